@@ -6,6 +6,7 @@ import dotenv from 'dotenv';
 
 // 🚀 ROTAS PÚBLICAS (Deploy Production)
 import publicProjectRoutes from './routes/projectRoutes.public';
+import templateRoutes from './routes/templateRoutes';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import healthRoutes from './routes/healthRoutes';
@@ -61,6 +62,10 @@ class App {
     
     // 🚀 ROTA PÚBLICA: Scaffold Download
     this.app.use('/api/project', publicProjectRoutes);
+
+    // 🎨 ROTA PÚBLICA: Template packs (usados pelo scaffold via projectOptions.templatePack)
+    // O registro de packs grava em disco e só é aceito com TEMPLATE_PACKS_REGISTRATION=true
+    this.app.use('/api/templates', templateRoutes);
     
     // 🔒 ROTAS PRIVADAS/DESENVOLVIMENTO (comentadas para deploy)
     // Uncomment para desenvolvimento local:
@@ -1,12 +1,15 @@
 import { Request, Response } from 'express';
 import { asyncHandler, ResponseUtils } from '../utils/responseUtils';
 import { CommandService } from '../services/commandService';
+import { ManifestService } from '../services/manifestService';
 
 export class CommandController {
   private commandService: CommandService;
+  private manifestService: ManifestService;
 
   constructor() {
     this.commandService = new CommandService();
+    this.manifestService = new ManifestService();
   }
 
   /**
@@ -25,10 +28,14 @@ export class CommandController {
     }
     
     const includeId = request.includeId !== false; // default true
-    const result = await this.commandService.generateCommandFile(request.projectPath, request.entity, includeId);
+    // Arquivos alterados fora do Zheus (zheus.json) não são sobrescritos e voltam como conflitos;
+    // com "merge: true" são combinados com a nova versão (merge de três vias com marcadores nos conflitos)
+    const { result, conflicts, merged } = await this.manifestService.runGuarded(request.projectPath,
+      () => this.commandService.generateCommandFile(request.projectPath, request.entity, includeId),
+      { merge: request.merge === true });
     
     if (result.success) {
-      return ResponseUtils.success(res, result, 
+      return ResponseUtils.success(res, { ...result, conflicts, merged }, 
         `✅ Comandos para '${request.entity.name}' gerados com sucesso`);
     } else {
       return ResponseUtils.badRequest(res, result.message);
@@ -1,12 +1,15 @@
 import { Request, Response } from 'express';
 import { asyncHandler, ResponseUtils } from '../utils/responseUtils';
 import { EntityService } from '../services/entityService';
+import { ManifestService } from '../services/manifestService';
 
 export class EntityController {
   private entityService: EntityService;
+  private manifestService: ManifestService;
 
   constructor() {
     this.entityService = new EntityService();
+    this.manifestService = new ManifestService();
   }
 
   /**
@@ -24,10 +27,14 @@ export class EntityController {
       return ResponseUtils.badRequest(res, 'Definição da entidade é obrigatória');
     }
     
-    const result = await this.entityService.generateEntity(request);
+    // Arquivos alterados fora do Zheus (zheus.json) não são sobrescritos e voltam como conflitos;
+    // com "merge: true" são combinados com a nova versão (merge de três vias com marcadores nos conflitos)
+    const { result, conflicts, merged } = await this.manifestService.runGuarded(request.projectPath,
+      () => this.entityService.generateEntity(request),
+      { merge: request.merge === true });
     
     if (result.success) {
-      return ResponseUtils.success(res, result, 
+      return ResponseUtils.success(res, { ...result, conflicts, merged }, 
         `✅ Entidade '${request.entity.name}' gerada com sucesso`, 201);
     } else {
       return ResponseUtils.error(res, result.message, 400);
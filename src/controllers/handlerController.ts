@@ -1,12 +1,15 @@
 import { Request, Response } from 'express';
 import { asyncHandler, ResponseUtils } from '../utils/responseUtils';
 import { HandlerService } from '../services/handlerService';
+import { ManifestService } from '../services/manifestService';
 
 export class HandlerController {
   private handlerService: HandlerService;
+  private manifestService: ManifestService;
 
   constructor() {
     this.handlerService = new HandlerService();
+    this.manifestService = new ManifestService();
   }
 
   /**
@@ -25,10 +28,14 @@ export class HandlerController {
     }
 
     try {
-      const result = await this.handlerService.generateHandlerFile(projectPath, entity);
+      // Arquivos alterados fora do Zheus (zheus.json) não são sobrescritos e voltam como conflitos;
+    // com "merge: true" são combinados com a nova versão (merge de três vias com marcadores nos conflitos)
+      const { result, conflicts, merged } = await this.manifestService.runGuarded(projectPath,
+        () => this.handlerService.generateHandlerFile(projectPath, entity),
+        { merge: req.body.merge === true });
       
       if (result.success) {
-        return ResponseUtils.success(res, result, 
+        return ResponseUtils.success(res, { ...result, conflicts, merged }, 
           `✅ Handler para '${entity.name}' gerado com sucesso`, 201);
       } else {
         return ResponseUtils.error(res, result.message, 400);
@@ -0,0 +1,254 @@
+import AdmZip from 'adm-zip';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scaffoldJobService } from '../services/scaffoldJobService';
+import { projectController } from './projectController';
+
+type Handler = (req: any, res: any, next: (error?: unknown) => void) => unknown;
+
+const call = (handler: Handler, body: unknown) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+  const res: any = {
+    statusCode: 200,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { resolve({ status: this.statusCode, body: payload }); return this; }
+  };
+  handler({ body }, res, reject);
+});
+
+describe('ProjectController.scaffoldProject', () => {
+  let outputPath: string;
+
+  beforeEach(() => {
+    outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-scaffold-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  it('gera a entidade de junção de um manyToMany sem comandos, handler, repositório e controller', async () => {
+    const scaffold = await call(projectController.scaffoldProject as Handler, {
+      projectOptions: { name: 'Shop', outputPath, generationMode: 'templates', generateMigration: true, tests: true },
+      entities: [
+        { name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }], relationships: [{ type: 'manyToMany', target: 'Tag' }] },
+        { name: 'Tag', properties: [{ name: 'Label', type: 'string', isRequired: true }] }
+      ]
+    });
+    expect(scaffold.status).toBe(201);
+
+    const project = path.join(outputPath, 'Shop');
+    const exists = (file: string) => fs.existsSync(path.join(project, ...file.split('/')));
+    const read = (file: string) => fs.readFileSync(path.join(project, ...file.split('/')), 'utf-8');
+
+    expect(exists('Domain/Entities/ProductTagEntity.cs')).toBe(true);
+    expect(read('Infrastructure/Data/ApplicationDbContext.cs')).toContain('DbSet<ProductTagEntity>');
+    expect(fs.readdirSync(path.join(project, 'Infrastructure', 'Migrations')).map(file => read(`Infrastructure/Migrations/${file}`)).join())
+      .toContain('name: "ProductTag');
+
+    for (const file of [
+      'Domain/Commands/ProductTagCommands',
+      'Domain/Handlers/ProductTagHandler.cs',
+      'Domain/Repositories/IProductTagRepository.cs',
+      'Infrastructure/Repositories/ProductTagRepository.cs',
+      'API/Controllers/ProductTagController.cs',
+      'Tests/Handlers/ProductTagHandlerTests.cs'
+    ]) {
+      expect({ file, exists: exists(file) }).toEqual({ file, exists: false });
+    }
+    expect(exists('API/Controllers/ProductController.cs')).toBe(true);
+    expect(read('IoC/NativeInjectorBootStrapper.cs')).not.toContain('ProductTag');
+  });
+});
+
+describe('ProjectController.validateEntityDefinitions', () => {
+  it('prepara as entidades uma única vez para as regras e os seeds', () => {
+    const controller = projectController as any;
+    const prepareEntities = jest.spyOn(controller, 'prepareEntities');
+
+    const error = controller.validateEntityDefinitions([
+      { name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }], seed: [{ Name: 'Caneta' }] }
+    ]);
+
+    expect(error).toBeNull();
+    expect(prepareEntities).toHaveBeenCalledTimes(1);
+    prepareEntities.mockRestore();
+  });
+});
+
+describe('ProjectController.regenerateProject', () => {
+  let outputPath: string;
+
+  beforeEach(() => {
+    outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-regenerate-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  it('não altera nenhum arquivo de um projeto sem modificações', async () => {
+    const scaffold = await call(projectController.scaffoldProject as Handler, {
+      projectOptions: { name: 'Shop', outputPath, generationMode: 'templates', generateMigration: true, security: { issuer: 'ShopApi' } },
+      entities: [
+        { name: 'Category', properties: [{ name: 'Title', type: 'string', isRequired: true }] },
+        { name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }], relationships: [{ type: 'manyToOne', target: 'Category' }] }
+      ]
+    });
+    expect(scaffold.status).toBe(201);
+
+    const zip = new AdmZip();
+    zip.addLocalFolder(path.join(outputPath, 'Shop'), 'Shop');
+
+    const regenerated = await call(projectController.regenerateProject as Handler, { project: zip.toBuffer().toString('base64') });
+
+    expect(regenerated.status).toBe(200);
+    expect(regenerated.body.data.changes).toEqual([]);
+    expect(regenerated.body.data.conflicts).toEqual([]);
+    expect(regenerated.body.data.summary).toMatchObject({ added: 0, modified: 0, removed: 0 });
+  });
+
+  it('mantém as alterações feitas à mão combinando-as com a nova geração', async () => {
+    const scaffold = await call(projectController.scaffoldProject as Handler, {
+      projectOptions: { name: 'Shop', outputPath, generationMode: 'templates' },
+      entities: [{ name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }] }]
+    });
+    expect(scaffold.status).toBe(201);
+
+    const entityPath = path.join(outputPath, 'Shop', 'Domain', 'Entities', 'ProductEntity.cs');
+    fs.writeFileSync(entityPath, fs.readFileSync(entityPath, 'utf-8').replace('using System;', 'using System;\nusing System.Linq;'));
+
+    const zip = new AdmZip();
+    zip.addLocalFolder(path.join(outputPath, 'Shop'), 'Shop');
+
+    const regenerated = await call(projectController.regenerateProject as Handler, {
+      project: zip.toBuffer().toString('base64'),
+      entities: [{ name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }, { name: 'Price', type: 'decimal', isRequired: true }] }]
+    });
+
+    expect(regenerated.status).toBe(200);
+    expect(regenerated.body.data.conflicts).toEqual([]);
+    expect(regenerated.body.data.merged).toContain('Domain/Entities/ProductEntity.cs');
+
+    const entity = new AdmZip(Buffer.from(regenerated.body.data.project, 'base64'))
+      .getEntry('Shop/Domain/Entities/ProductEntity.cs')!.getData().toString('utf-8');
+    expect(entity).toContain('using System.Linq;');
+    expect(entity).toContain('public decimal Price { get; set; }');
+  });
+});
+
+describe('ProjectController.previewFile', () => {
+  const product = {
+    name: 'Product',
+    properties: [{ name: 'Name', type: 'string', isRequired: true }],
+    relationships: [{ type: 'manyToOne', target: 'Category' }]
+  };
+  const category = { name: 'Category', properties: [{ name: 'Title', type: 'string', isRequired: true }] };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renderiza apenas o arquivo pedido', async () => {
+    const preview = await call(projectController.previewFile as Handler, { entity: product, entities: [category], artifact: 'createCommand' });
+
+    expect(preview.status).toBe(200);
+    expect(preview.body.data.path).toBe('Domain/Commands/ProductCommands/CreateProductCommand.cs');
+    expect(preview.body.data.content).toContain('public class CreateProductCommand');
+    expect(preview.body.data.content).toContain('CategoryId');
+  });
+
+  it('renderiza o DbContext com o modelo completo e o provider informado', async () => {
+    const preview = await call(projectController.previewFile as Handler, {
+      entity: product,
+      entities: [category],
+      artifact: 'dbContext',
+      projectOptions: { database: { provider: 'postgres' } }
+    });
+
+    expect(preview.status).toBe(200);
+    expect(preview.body.data.path).toBe('Infrastructure/Data/ApplicationDbContext.cs');
+    expect(preview.body.data.content).toContain('DbSet<ProductEntity>');
+    expect(preview.body.data.content).toContain('DbSet<CategoryEntity>');
+  });
+
+  it('usa os templateOverrides da requisição', async () => {
+    const preview = await call(projectController.previewFile as Handler, {
+      entity: category,
+      artifact: 'entity',
+      templateOverrides: { 'domain/entities/entity.hbs': 'public record {{name}};' }
+    });
+
+    expect(preview.body.data.content).toBe('public record Category;');
+  });
+
+  it('rejeita artifact desconhecido e modelo inválido', async () => {
+    const unknownArtifact = await call(projectController.previewFile as Handler, { entity: category, artifact: 'migration' });
+    const unknownTarget = await call(projectController.previewFile as Handler, { entity: product, artifact: 'entity' });
+
+    expect(unknownArtifact.status).toBe(400);
+    expect(unknownArtifact.body.error.message).toContain('artifact inválido');
+    expect(unknownTarget.status).toBe(400);
+  });
+});
+
+describe('ProjectController scaffold jobs', () => {
+  // Resposta SSE: acumula o que foi escrito até o stream ser encerrado
+  const stream = (id: string, lastEventId?: string) => new Promise<string>((resolve, reject) => {
+    let written = '';
+    let onClose = () => undefined as void;
+    const res: any = {
+      writableEnded: false,
+      status() { return this; },
+      setHeader: () => undefined,
+      flushHeaders: () => undefined,
+      on(event: string, listener: () => void) { if (event === 'close') onClose = listener; },
+      write(chunk: string) { written += chunk; return true; },
+      end() { this.writableEnded = true; onClose(); resolve(written); }
+    };
+    const req: any = { params: { id }, header: (name: string) => (name === 'Last-Event-ID' ? lastEventId : undefined) };
+    (projectController.streamScaffoldJobEvents as Handler)(req, res, reject);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reenvia os eventos de um job finalizado a partir do Last-Event-ID', async () => {
+    const job = scaffoldJobService.createJob('Shop', async () => undefined)!;
+    scaffoldJobService.complete(job.id, Buffer.from('zip'));
+
+    const full = await stream(job.id);
+    expect(full.match(/^id: \d+$/gm)).toEqual(['id: 1', 'id: 2', 'id: 3']);
+    expect(full).toContain('event: completed\n');
+
+    const resumed = await stream(job.id, '2');
+    expect(resumed.match(/^id: \d+$/gm)).toEqual(['id: 3']);
+  });
+
+  it('responde 429 quando a fila de jobs está cheia', async () => {
+    jest.spyOn(scaffoldJobService, 'createJob').mockReturnValue(undefined);
+
+    const response = await call(projectController.createScaffoldJob as Handler, {
+      projectOptions: { name: 'Shop' },
+      entities: [{ name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }] }]
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.body.error.message).toContain('Fila de jobs de scaffold cheia');
+  });
+});
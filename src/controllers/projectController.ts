@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { PassThrough } from 'stream';
 import { asyncHandler, ResponseUtils } from '../utils/responseUtils';
+import { DiskFileSystem, FileOutput, MemoryFileSystem } from '../utils/FileOutput';
+import { TemplateManager } from '../utils/TemplateManager';
 import { ProjectService } from '../services/projectService';
 import { EntityService } from '../services/entityService';
 import { CommandService } from '../services/commandService';
@@ -11,13 +16,60 @@ import { IoCService } from '../services/iocService';
 import { ApiService } from '../services/apiService';
 import { ApplicationService } from '../services/applicationService';
 import { InfrastructureService } from '../services/infrastructureService';
+import { RelationshipService } from '../services/relationshipService';
+import { EnumService } from '../services/enumService';
+import { DatabaseProviderService } from '../services/databaseProviderService';
+import { SeedService } from '../services/seedService';
+import { MigrationService } from '../services/migrationService';
+import { QueryService } from '../services/queryService';
+import { ValidationService } from '../services/validationService';
+import { OpenApiImportService } from '../services/openApiImportService';
+import { SqlDdlImportService } from '../services/sqlDdlImportService';
+import { ProjectArchiveService } from '../services/projectArchiveService';
+import { ManifestService, MANIFEST_FILE } from '../services/manifestService';
+import { TemplatePackService } from '../services/templatePackService';
+import { TemplateIntrospectionService } from '../services/templateIntrospectionService';
+import { PrimaryKeyService } from '../services/primaryKeyService';
+import { AuditService } from '../services/auditService';
+import { SecurityService } from '../services/securityService';
+import { TenancyService } from '../services/tenancyService';
+import { TestService } from '../services/testService';
 import { nugetService } from '../services/nugetService';
+import { scaffoldJobService } from '../services/scaffoldJobService';
 import { 
   ScaffoldRequest, 
   ScaffoldResult, 
   ScaffoldValidationResult,
+  ScaffoldImportResult,
+  ScaffoldStepEvent,
+  ScaffoldJobEvent,
+  PreviewArtifact,
+  PreviewRequest,
+  PreviewResult,
+  ProjectOptions,
   ApiResponse 
 } from '../types/common';
+import { DatabaseOptions, GenerationMode, MultiTenancyOptions, ProjectCreationResult, SecurityOptions, TestProjectOptions } from '../types/project';
+
+// Etapa do pipeline de scaffold; retornar false interrompe as etapas seguintes
+interface ScaffoldStep {
+  name: string;
+  label: string;
+  run: () => Promise<unknown>;
+}
+
+// Arquivos que o preview sabe renderizar
+const PREVIEW_ARTIFACTS: PreviewArtifact[] = ['entity', 'createCommand', 'updateCommand', 'handler', 'repository', 'efRepository', 'controller', 'dbContext'];
+
+// Templates escolhidos pela requisição (pack registrado e overrides)
+interface RequestTemplates {
+  templatePack?: string;
+  templateOverrides?: Record<string, string>;
+}
+
+// Opções do projeto aplicadas às entidades: chave primária (idType/idName), exclusão lógica, auditoria, security
+// e multi-tenancy (database identifica o provider exigido pelo schemaPerTenant)
+type EntityOptions = Pick<ProjectOptions, 'idType' | 'idName' | 'softDelete' | 'audit' | 'security' | 'multiTenancy' | 'database'>;
 
 export class ProjectController {
   private projectService: ProjectService;
@@ -30,6 +82,24 @@ export class ProjectController {
   private apiService: ApiService;
   private applicationService: ApplicationService;
   private infrastructureService: InfrastructureService;
+  private relationshipService: RelationshipService;
+  private enumService: EnumService;
+  private databaseProviderService: DatabaseProviderService;
+  private seedService: SeedService;
+  private migrationService: MigrationService;
+  private queryService: QueryService;
+  private validationService: ValidationService;
+  private openApiImportService: OpenApiImportService;
+  private sqlDdlImportService: SqlDdlImportService;
+  private projectArchiveService: ProjectArchiveService;
+  private manifestService: ManifestService;
+  private templatePackService: TemplatePackService;
+  private templateIntrospectionService: TemplateIntrospectionService;
+  private primaryKeyService: PrimaryKeyService;
+  private auditService: AuditService;
+  private securityService: SecurityService;
+  private tenancyService: TenancyService;
+  private testService: TestService;
 
   constructor() {
     this.projectService = new ProjectService();
@@ -42,6 +112,24 @@ export class ProjectController {
     this.apiService = new ApiService();
     this.applicationService = new ApplicationService();
     this.infrastructureService = new InfrastructureService();
+    this.relationshipService = new RelationshipService();
+    this.enumService = new EnumService();
+    this.databaseProviderService = new DatabaseProviderService();
+    this.seedService = new SeedService();
+    this.migrationService = new MigrationService();
+    this.queryService = new QueryService();
+    this.validationService = new ValidationService();
+    this.openApiImportService = new OpenApiImportService();
+    this.sqlDdlImportService = new SqlDdlImportService();
+    this.projectArchiveService = new ProjectArchiveService();
+    this.manifestService = new ManifestService();
+    this.templatePackService = new TemplatePackService();
+    this.templateIntrospectionService = new TemplateIntrospectionService();
+    this.primaryKeyService = new PrimaryKeyService();
+    this.auditService = new AuditService();
+    this.securityService = new SecurityService();
+    this.tenancyService = new TenancyService();
+    this.testService = new TestService();
   }
 
   /**
@@ -83,10 +171,10 @@ export class ProjectController {
    * POST /api/project/validate-scaffold
    */
   public validateScaffold = asyncHandler(async (req: Request<{}, ApiResponse<ScaffoldValidationResult>, ScaffoldRequest>, res: Response<ApiResponse<ScaffoldValidationResult>>) => {
-    const { projectOptions, entities } = req.body;
+    const { projectOptions, entities, enums = [] } = req.body;
     
     // Validações básicas
-    const validationError = this.validateScaffoldRequest(projectOptions, entities);
+    const validationError = this.validateScaffoldRequest(projectOptions, entities, enums, req.body.templateOverrides);
     if (validationError) {
       return ResponseUtils.badRequest(res, validationError);
     }
@@ -104,129 +192,679 @@ export class ProjectController {
     }
   });
 
+  /**
+   * Renderiza um único arquivo de uma entidade sem gravar nada em disco (preview do editor de modelos)
+   * POST /api/project/preview
+   */
+  public previewFile = asyncHandler(async (req: Request<{}, ApiResponse<PreviewResult>, PreviewRequest>, res: Response<ApiResponse<PreviewResult>>) => {
+    const { entity, artifact, entities = [], enums = [], projectOptions = {}, templateOverrides } = req.body || {} as PreviewRequest;
+
+    if (!PREVIEW_ARTIFACTS.includes(artifact)) {
+      return ResponseUtils.badRequest(res, `artifact inválido. Use: ${PREVIEW_ARTIFACTS.join(', ')}`);
+    }
+    if (!entity?.name || !Array.isArray(entity.properties)) {
+      return ResponseUtils.badRequest(res, 'entity é obrigatória (name e properties)');
+    }
+    if (!Array.isArray(entities)) {
+      return ResponseUtils.badRequest(res, 'Lista de entidades inválida');
+    }
+
+    // A entidade é validada junto com o restante do modelo, como no scaffold
+    const model = [entity, ...entities.filter(other => other?.name !== entity.name)];
+    const validationError = this.databaseProviderService.validateOptions(projectOptions.database)
+      || TemplateManager.validateOverrides(templateOverrides)
+      || this.templatePackService.resolveChain(projectOptions.templatePack).error
+      || this.validateEntityDefinitions(model, enums, projectOptions);
+    if (validationError) {
+      return ResponseUtils.badRequest(res, validationError);
+    }
+
+    try {
+      const preparedEntities = this.prepareEntities(model, enums, projectOptions);
+      const preview = await this.runWithRequestTemplates({ templatePack: projectOptions.templatePack, templateOverrides }, () =>
+        this.renderPreview(artifact, preparedEntities.find(prepared => prepared.name === entity.name), preparedEntities, { enums, database: projectOptions.database, security: projectOptions.security, multiTenancy: projectOptions.multiTenancy }));
+
+      return ResponseUtils.success(res, { artifact, entity: entity.name, ...preview }, `👀 Preview de ${preview.path}`);
+
+    } catch (error: any) {
+      console.error('❌ Erro ao renderizar preview:', error);
+      return ResponseUtils.error(res,
+        `Erro ao renderizar o preview: ${error?.message || 'Erro desconhecido'}`, 500);
+    }
+  });
+
   /**
    * Cria um projeto completo com entidades e comandos e retorna como ZIP
    * POST /api/project/scaffold-download
    */
   public scaffoldProjectDownload = asyncHandler(async (req: Request<{}, any, ScaffoldRequest>, res: Response): Promise<void> => {
-    const { projectOptions, entities } = req.body;
-    
-    // Validações básicas
-    const validationError = this.validateScaffoldRequest(projectOptions, entities);
+    await this.sendScaffoldZip(req.body, res);
+  });
+
+  /**
+   * Enfileira um scaffold assíncrono e retorna o id do job
+   * POST /api/project/jobs
+   */
+  public createScaffoldJob = asyncHandler(async (req: Request<{}, any, ScaffoldRequest>, res: Response) => {
+    const { projectOptions, enums = [] } = req.body || {} as ScaffoldRequest;
+
+    // Validações básicas (antes de enfileirar, para o erro voltar na própria requisição)
+    const validationError = this.validateScaffoldRequest(projectOptions, req.body?.entities, enums, req.body?.templateOverrides);
     if (validationError) {
-      ResponseUtils.badRequest(res, validationError);
+      return ResponseUtils.badRequest(res, validationError);
+    }
+
+    // Executa em segundo plano quando chegar a vez do job; o cliente acompanha pelo /events
+    const job = scaffoldJobService.createJob(projectOptions.name, jobId => this.runScaffoldJob(jobId, req.body));
+    if (!job) {
+      return ResponseUtils.error(res, 'Fila de jobs de scaffold cheia, tente novamente em instantes', 429);
+    }
+    console.log(`🧵 Job de scaffold criado: ${job.id} (${projectOptions.name}, ${job.status})`);
+
+    return ResponseUtils.success(res, {
+      jobId: job.id,
+      status: job.status,
+      eventsUrl: `${req.baseUrl}/jobs/${job.id}/events`,
+      artifactUrl: `${req.baseUrl}/jobs/${job.id}/artifact`
+    }, `🧵 Job de scaffold criado para o projeto '${projectOptions.name}'`, 202);
+  });
+
+  /**
+   * Retorna o status atual de um job de scaffold
+   * GET /api/project/jobs/:id
+   */
+  public getScaffoldJob = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const job = scaffoldJobService.getJob(req.params.id);
+    if (!job) {
+      return ResponseUtils.notFound(res, `Job '${req.params.id}' não encontrado`);
+    }
+
+    return ResponseUtils.success(res, job, `📋 Job ${job.status}`);
+  });
+
+  /**
+   * Transmite o progresso do job via Server-Sent Events
+   * Eventos já publicados são reenviados (a partir do Last-Event-ID, se informado)
+   * e a conexão é encerrada quando o job termina
+   * GET /api/project/jobs/:id/events
+   */
+  public streamScaffoldJobEvents = asyncHandler(async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+    const { id } = req.params;
+    if (!scaffoldJobService.getJob(id)) {
+      ResponseUtils.notFound(res, `Job '${id}' não encontrado`);
       return;
     }
 
-    const fs = require('fs');
-    const path = require('path');
-    const tempDir = path.join(process.cwd(), 'temp');
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Desabilita o buffering de proxies (nginx) para os eventos chegarem na hora
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (event: ScaffoldJobEvent) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'completed' || event.type === 'failed') {
+        res.end();
+      }
+    };
+
+    // Comentário periódico mantém a conexão viva em proxies com timeout de inatividade
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    const unsubscribe = scaffoldJobService.subscribe(id, send);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    // Histórico e inscrição acontecem no mesmo tick, então nenhum evento se perde entre eles
+    const lastEventId = Number(req.header('Last-Event-ID')) || 0;
+    for (const event of scaffoldJobService.getEvents(id, lastEventId)) {
+      if (!res.writableEnded) send(event);
+    }
+
+    // Job já finalizado e nenhum evento pendente (ex: Last-Event-ID no último evento)
+    const job = scaffoldJobService.getJob(id);
+    if (job && scaffoldJobService.isFinished(job.status) && !res.writableEnded) {
+      res.end();
+    }
+  });
+
+  /**
+   * Baixa o ZIP gerado por um job concluído
+   * GET /api/project/jobs/:id/artifact
+   */
+  public downloadScaffoldJobArtifact = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const job = scaffoldJobService.getJob(req.params.id);
+    if (!job) {
+      return ResponseUtils.notFound(res, `Job '${req.params.id}' não encontrado`);
+    }
+
+    const artifact = scaffoldJobService.getArtifact(job.id);
+    if (job.status === 'failed') {
+      return ResponseUtils.error(res, `Job falhou: ${job.error}`, 409);
+    }
+    if (!artifact) {
+      return ResponseUtils.error(res, `Job ainda em andamento (${job.progress}%)`, 409);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${job.projectName}.zip"`);
+    res.setHeader('Content-Length', artifact.length);
+    return res.end(artifact);
+  });
+
+  /**
+   * Executa o scaffold de um job gerando o ZIP em memória e publicando o progresso de cada etapa
+   */
+  private async runScaffoldJob(jobId: string, request: ScaffoldRequest): Promise<void> {
+    const chunks: Buffer[] = [];
+    const destination = new PassThrough();
+    destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const drained = new Promise(resolve => destination.on('end', resolve));
 
     try {
-      // Criar diretório temporário se não existir
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
+      const entities = this.prepareEntities(request.entities, request.enums || [], request.projectOptions);
+      const projectResult = await this.writeScaffoldZip(request, entities, () => destination,
+        event => scaffoldJobService.reportStep(jobId, event));
+
+      if (!projectResult.success) {
+        scaffoldJobService.fail(jobId, `Falha ao criar projeto: ${projectResult.message}`);
+        return;
       }
 
+      await drained;
+      scaffoldJobService.complete(jobId, Buffer.concat(chunks));
+      console.log(`✅ Job ${jobId}: projeto ${request.projectOptions.name} pronto para download`);
+
+    } catch (error: any) {
+      console.error(`❌ Erro durante o job de scaffold ${jobId}:`, error);
+      scaffoldJobService.fail(jobId, `Erro interno durante a criação do projeto: ${error?.message || 'Erro desconhecido'}`);
+    }
+  }
+
+  /**
+   * Adiciona novas entidades a um projeto gerado anteriormente (ZIP em base64)
+   * e retorna o ZIP atualizado com a lista de arquivos adicionados e modificados
+   * POST /api/project/add-entities
+   */
+  public addEntitiesToProject = asyncHandler(async (req: Request, res: Response) => {
+    const { project, entities: newEntities, enums = [], database, templateOverrides } = req.body || {};
+
+    if (!project || typeof project !== 'string') {
+      return ResponseUtils.badRequest(res, 'ZIP do projeto é obrigatório (campo "project" em base64)');
+    }
+
+    // Validações básicas
+    const validationError = this.databaseProviderService.validateOptions(database)
+      || TemplateManager.validateOverrides(templateOverrides)
+      || this.validateEntityDefinitions(newEntities, enums);
+    if (validationError) {
+      return ResponseUtils.badRequest(res, validationError);
+    }
+
+    const output = new MemoryFileSystem();
+    const extractResult = this.projectArchiveService.extractProject(
+      Buffer.from(project, 'base64'), output, path.join(os.tmpdir(), 'zheus-memory'));
+    if (!extractResult.success || !extractResult.archive) {
+      return ResponseUtils.error(res, extractResult.error ? `${extractResult.message}: ${extractResult.error}` : extractResult.message, extractResult.statusCode || 400);
+    }
+
+    const { archive } = extractResult;
+    const { projectPath } = archive;
+
+    // Não sobrescrever entidades que o projeto já possui
+    const existingEntities = (await FileOutput.run(output, () => this.entityService.listEntities(projectPath)))
+      .map(fileName => fileName.replace(/Entity$/, ''));
+    const duplicated = newEntities.find((entity: any) => existingEntities.includes(entity.name));
+    if (duplicated) {
+      return ResponseUtils.badRequest(res, `Entidade '${duplicated.name}' já existe no projeto '${archive.projectName}'`);
+    }
+
+    // Provider informado ou detectado pelo PackageReference do Infrastructure.csproj
+    const infrastructureCsproj = path.join(projectPath, 'Infrastructure', 'Infrastructure.csproj');
+    const provider = database?.provider || (output.existsSync(infrastructureCsproj)
+      ? this.databaseProviderService.detectProvider(output.readFileSync(infrastructureCsproj))
+      : undefined);
+
+    const warnings: string[] = [];
+    const skippedWarning = this.projectArchiveService.getSkippedFilesWarning(archive);
+    if (skippedWarning) {
+      warnings.push(skippedWarning);
+    }
+    if (output.existsSync(path.join(projectPath, 'Infrastructure', 'Migrations'))) {
+      warnings.push('O projeto já possui migrations: gere uma nova com "dotnet ef migrations add <Nome>" para criar as tabelas das novas entidades');
+    }
+
+    // Templates informados ou os usados na geração do projeto (zheus.json)
+    const manifest = await FileOutput.run(output, async () => this.manifestService.readManifest(projectPath));
+    const projectTemplateOverrides = templateOverrides ?? manifest?.request.templateOverrides;
+    const templatePack = manifest?.request.projectOptions.templatePack;
+    const templatePackError = this.templatePackService.resolveChain(templatePack).error;
+    if (templatePackError) {
+      return ResponseUtils.badRequest(res, templatePackError);
+    }
+
+    // Opções padrão do projeto usadas na geração (chave primária, exclusão lógica e auditoria)
+    const projectOptions = manifest?.request.projectOptions;
+    const entityOptions: EntityOptions = {
+      idType: projectOptions?.idType,
+      idName: projectOptions?.idName,
+      softDelete: projectOptions?.softDelete,
+      audit: projectOptions?.audit,
+      security: projectOptions?.security,
+      multiTenancy: projectOptions?.multiTenancy,
+      database: projectOptions?.database
+    };
+    const entityOptionsError = this.validateEntityDefinitions(newEntities, enums, entityOptions);
+    if (entityOptionsError) {
+      return ResponseUtils.badRequest(res, entityOptionsError);
+    }
+
+    // Expandir relacionamentos (FKs, navegações e entidades de junção) e tipos enum
+    const entities = this.prepareEntities(newEntities, enums, entityOptions);
+
+    // Projetos gerados antes da exclusão lógica/auditoria não têm o interceptor nem os contratos das entidades
+    const interceptorPath = path.join(projectPath, 'Infrastructure', 'Interceptors', 'AuditSaveChangesInterceptor.cs');
+    if (entities.some(entity => entity.softDelete || entity.audit) && !output.existsSync(interceptorPath)) {
+      warnings.push('O projeto não possui o AuditSaveChangesInterceptor: gere-o novamente para usar softDelete/audit nas novas entidades');
+    }
+
+    try {
+      const before = this.projectArchiveService.snapshot(output, projectPath);
       const results = this.initializeScaffoldResults();
-      const tempProjectPath = path.join(tempDir, projectOptions.name);
 
-      // 1. Criar o projeto no diretório temporário
-      console.log(`🚀 Criando projeto temporário: ${projectOptions.name}`);
-      const tempProjectOptions = { ...projectOptions, outputPath: tempDir };
-      const projectResult = await this.createProjectStep(tempProjectOptions);
-      
+      // Com zheus.json, arquivos alterados pelo usuário viram conflitos em vez de serem sobrescritos
+      console.log(`🧩 Adicionando ${entities.length} entidades ao projeto ${archive.projectName}...`);
+      const { conflicts, hasManifest } = await FileOutput.run(output, () => this.manifestService.runGuarded(
+        projectPath,
+        () => this.runWithRequestTemplates({ templatePack, templateOverrides: projectTemplateOverrides },
+          () => this.extendProject(projectPath, entities, results, { enums, database: { ...database, provider }, security: entityOptions.security, tests: projectOptions?.tests, integrationTests: projectOptions?.integrationTests })),
+        {
+          updateRequest: manifestRequest => ({
+            ...manifestRequest,
+            entities: [...manifestRequest.entities, ...newEntities],
+            enums: [...(manifestRequest.enums || []), ...enums],
+            templateOverrides: projectTemplateOverrides
+          })
+        }
+      ));
+      if (!hasManifest) {
+        warnings.push(`Projeto sem ${MANIFEST_FILE}: arquivos alterados manualmente não são protegidos contra sobrescrita`);
+      }
+
+      const changes = this.projectArchiveService.diff(before, this.projectArchiveService.snapshot(output, projectPath));
+      const zipContent = await this.projectArchiveService.createArchive(output, archive);
+      const added = changes.filter(change => change.status === 'added').length;
+
+      return ResponseUtils.success(res, {
+        projectName: archive.projectName,
+        entities: results.entities,
+        changes,
+        conflicts,
+        summary: { added, modified: changes.length - added, conflicts: conflicts.length },
+        warnings,
+        project: zipContent.toString('base64')
+      }, `🧩 ${results.entities.filter(entity => entity.success).length} entidades adicionadas ao projeto '${archive.projectName}'`);
+
+    } catch (error: any) {
+      console.error('❌ Erro ao adicionar entidades ao projeto:', error);
+      return ResponseUtils.error(res, 
+        `Erro interno ao adicionar entidades: ${error?.message || 'Erro desconhecido'}`, 500);
+    }
+  });
+
+  /**
+   * Gera novamente um projeto (ZIP em base64 com zheus.json) a partir do modelo atualizado,
+   * aplicando a nova geração com merge de três vias sobre os arquivos alterados pelo usuário
+   * POST /api/project/regenerate
+   */
+  public regenerateProject = asyncHandler(async (req: Request, res: Response) => {
+    const { project, entities: newEntities, enums: newEnums, templateOverrides } = req.body || {};
+
+    if (!project || typeof project !== 'string') {
+      return ResponseUtils.badRequest(res, 'ZIP do projeto é obrigatório (campo "project" em base64)');
+    }
+
+    const output = new MemoryFileSystem();
+    const outputPath = path.join(os.tmpdir(), 'zheus-memory');
+    const extractResult = this.projectArchiveService.extractProject(Buffer.from(project, 'base64'), output, outputPath);
+    if (!extractResult.success || !extractResult.archive) {
+      return ResponseUtils.error(res, extractResult.error ? `${extractResult.message}: ${extractResult.error}` : extractResult.message, extractResult.statusCode || 400);
+    }
+
+    const { archive } = extractResult;
+    const { projectPath } = archive;
+
+    // A requisição gravada no zheus.json é o modelo atual; entities/enums informados o substituem
+    const manifest = await FileOutput.run(output, async () => this.manifestService.readManifest(projectPath));
+    if (!manifest) {
+      return ResponseUtils.badRequest(res, `Projeto sem ${MANIFEST_FILE}: não é possível identificar a versão gerada anteriormente`);
+    }
+
+    const request: ScaffoldRequest = {
+      ...manifest.request,
+      projectOptions: { ...manifest.request.projectOptions, name: archive.projectName },
+      entities: newEntities ?? manifest.request.entities,
+      enums: newEnums ?? manifest.request.enums,
+      templateOverrides: templateOverrides ?? manifest.request.templateOverrides
+    };
+    const validationError = this.validateScaffoldRequest(request.projectOptions, request.entities, request.enums, request.templateOverrides);
+    if (validationError) {
+      return ResponseUtils.badRequest(res, validationError);
+    }
+
+    const entities = this.prepareEntities(request.entities, request.enums || [], request.projectOptions);
+
+    try {
+      // Nova geração completa em memória (modo templates); com generateMigration a etapa mantém a
+      // aplicação do banco no Program.cs, e os arquivos de migration gerados são descartados abaixo
+      console.log(`🔁 Gerando novamente o projeto ${archive.projectName}...`);
+      const fresh = new MemoryFileSystem();
+      fresh.mkdirSync(outputPath, { recursive: true });
+      const freshProjectPath = path.join(outputPath, archive.projectName);
+      const projectOptions = { ...request.projectOptions, generationMode: 'templates' as GenerationMode, outputPath };
+      const results = this.initializeScaffoldResults();
+      let projectResult: ProjectCreationResult = { success: false, message: '' };
+
+      await FileOutput.run(fresh, () => this.runWithRequestTemplates(this.getRequestTemplates(request), () => this.runScaffoldSteps([
+        {
+          name: 'createProject',
+          label: 'Criando projeto',
+          run: async () => {
+            projectResult = await this.createProjectStep(projectOptions);
+            return projectResult.success;
+          }
+        },
+        ...this.buildScaffoldSteps(freshProjectPath, { ...request, projectOptions }, entities, results, () => projectResult.generationMode)
+      ])));
+      if (!projectResult.success) {
+        return ResponseUtils.error(res, `Falha ao gerar o projeto: ${projectResult.message}`, 400);
+      }
+
+      // A chave JWT de desenvolvimento é gerada a cada scaffold: manter a que o projeto já usa
+      const jwtKey = await FileOutput.run(output, async () => this.apiService.readJwtDevelopmentKey(projectPath));
+      if (jwtKey) {
+        await FileOutput.run(fresh, async () => this.apiService.replaceJwtDevelopmentKey(freshProjectPath, jwtKey));
+      }
+
+      // Migrations existentes pertencem ao usuário e não são geradas novamente
+      const before = this.projectArchiveService.snapshot(output, projectPath);
+      const { conflicts, merged } = await FileOutput.run(output, () => this.manifestService.applyRegeneration(
+        projectPath,
+        fresh.listFiles(freshProjectPath),
+        request,
+        relativePath => relativePath.startsWith('Infrastructure/Migrations/')
+      ));
+
+      const warnings: string[] = [];
+      const skippedWarning = this.projectArchiveService.getSkippedFilesWarning(archive);
+      if (skippedWarning) {
+        warnings.push(skippedWarning);
+      }
+      if (output.existsSync(path.join(projectPath, 'Infrastructure', 'Migrations'))) {
+        warnings.push('O projeto possui migrations: gere uma nova com "dotnet ef migrations add <Nome>" para aplicar as alterações do modelo');
+      }
+
+      const changes = this.projectArchiveService.diff(before, this.projectArchiveService.snapshot(output, projectPath));
+      const zipContent = await this.projectArchiveService.createArchive(output, archive);
+      const countChanges = (status: string) => changes.filter(change => change.status === status).length;
+
+      return ResponseUtils.success(res, {
+        projectName: archive.projectName,
+        changes,
+        merged,
+        conflicts,
+        summary: {
+          added: countChanges('added'),
+          modified: countChanges('modified'),
+          removed: countChanges('removed'),
+          merged: merged.length,
+          conflicts: conflicts.length
+        },
+        warnings,
+        project: zipContent.toString('base64')
+      }, conflicts.length > 0
+        ? `⚠️ Projeto '${archive.projectName}' gerado novamente com ${conflicts.length} conflito(s) para resolver`
+        : `🔁 Projeto '${archive.projectName}' gerado novamente sem conflitos`);
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar novamente o projeto:', error);
+      return ResponseUtils.error(res,
+        `Erro interno ao gerar novamente o projeto: ${error?.message || 'Erro desconhecido'}`, 500);
+    }
+  });
+
+  /**
+   * Importa entidades de um documento OpenAPI 3 (JSON ou YAML) e retorna o ScaffoldRequest
+   * equivalente ou, com "download: true", o projeto gerado como ZIP
+   * POST /api/project/import/openapi
+   */
+  public importOpenApi = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    // Corpo YAML/texto puro é o próprio documento; opções vêm da query string
+    const body = typeof req.body === 'string'
+      ? { document: req.body, download: req.query.download === 'true' }
+      : req.body || {};
+    const { document, projectOptions, schemas, download = false } = body;
+
+    if (!document || (typeof document !== 'string' && typeof document !== 'object')) {
+      ResponseUtils.badRequest(res, 'Documento OpenAPI é obrigatório (campo "document" em JSON/YAML)');
+      return;
+    }
+
+    const result = this.openApiImportService.importDocument(document, { projectOptions, schemas });
+    await this.sendImportResult(result, download, res);
+  });
+
+  /**
+   * Importa entidades de um script SQL DDL (SQL Server ou PostgreSQL) e retorna o ScaffoldRequest
+   * equivalente ou, com "download: true", o projeto gerado como ZIP
+   * POST /api/project/import/sql
+   */
+  public importSql = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    // Corpo texto puro é o próprio script; opções vêm da query string
+    const body = typeof req.body === 'string'
+      ? { script: req.body, dialect: req.query.dialect, download: req.query.download === 'true' }
+      : req.body || {};
+    const { script, projectOptions, dialect, tables, download = false } = body;
+
+    if (!script || typeof script !== 'string') {
+      ResponseUtils.badRequest(res, 'Script SQL é obrigatório (campo "script")');
+      return;
+    }
+
+    if (dialect !== undefined && !['sqlserver', 'postgres'].includes(dialect)) {
+      ResponseUtils.badRequest(res, `Dialeto '${dialect}' não suportado. Use: sqlserver, postgres`);
+      return;
+    }
+
+    const result = this.sqlDdlImportService.importScript(script, { projectOptions, dialect, tables });
+    await this.sendImportResult(result, download, res);
+  });
+
+  /**
+   * Retorna o ScaffoldRequest importado para revisão ou gera o ZIP diretamente
+   */
+  private async sendImportResult(result: ScaffoldImportResult, download: boolean, res: Response): Promise<void> {
+    if (!result.success || !result.scaffoldRequest) {
+      ResponseUtils.badRequest(res, result.error ? `${result.message}: ${result.error}` : result.message);
+      return;
+    }
+
+    for (const warning of result.warnings || []) {
+      console.warn(`⚠️ ${warning}`);
+    }
+
+    if (download) {
+      await this.sendScaffoldZip(result.scaffoldRequest, res);
+      return;
+    }
+
+    const { scaffoldRequest } = result;
+    const validationError = this.validateScaffoldRequest(scaffoldRequest.projectOptions, scaffoldRequest.entities, scaffoldRequest.enums);
+
+    ResponseUtils.success(res, {
+      scaffoldRequest,
+      warnings: result.warnings || [],
+      validationError
+    }, `📥 ${result.message}`);
+  }
+
+  /**
+   * Gera o projeto e envia como ZIP
+   */
+  private async sendScaffoldZip(request: ScaffoldRequest, res: Response): Promise<void> {
+    const { projectOptions, enums = [] } = request;
+    
+    // Validações básicas
+    const validationError = this.validateScaffoldRequest(projectOptions, request.entities, enums, request.templateOverrides);
+    if (validationError) {
+      ResponseUtils.badRequest(res, validationError);
+      return;
+    }
+
+    // Expandir relacionamentos (FKs, navegações e entidades de junção) e tipos enum
+    const entities = this.prepareEntities(request.entities, enums, projectOptions);
+
+    try {
+      const projectResult = await this.writeScaffoldZip(request, entities, () => {
+        // Configurar headers para download do arquivo ZIP
+        const zipFileName = `${projectOptions.name}.zip`;
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${zipFileName}"`);
+        return res;
+      });
+
       if (!projectResult.success) {
         ResponseUtils.error(res, 
           `Falha ao criar projeto: ${projectResult.message}`, 400);
         return;
       }
 
-      results.project = {
-        success: projectResult.success,
-        projectPath: projectResult.projectPath,
-        message: projectResult.message
-      };
-      results.summary.projectCreated = true;
+      console.log(`✅ Projeto ${projectOptions.name} enviado como ZIP`);
 
-      // 2-9. Executar todas as etapas de geração (mesmo código do scaffoldProject)
-      await this.generateBaseRepositories(tempProjectPath, results);
-      await this.generateDomainHelpers(tempProjectPath, results);
-      await this.generateEntitiesAndCompleteBoilerplate(tempProjectPath, entities, results);
-      await this.generateInfrastructureLayer(tempProjectPath, entities, results);
-      await this.generateApplicationLayer(tempProjectPath, results);
-      await this.updateIoCRegistrations(tempProjectPath, entities, results);
-      await this.generateApiConfigurations(tempProjectPath, entities, results);
-      await this.installNuGetPackages(tempProjectPath, results);
-
-      console.log(`📦 Criando arquivo ZIP para download...`);
-
-      // Configurar headers para download do arquivo ZIP
-      const zipFileName = `${projectOptions.name}.zip`;
-      res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename="${zipFileName}"`);
-
-      // Criar arquivo ZIP
-      const archiver = require('archiver');
-      const archive = archiver('zip', { zlib: { level: 9 } });
-      
-      // Pipe do arquivo para a response
-      archive.pipe(res);
+    } catch (error: any) {
+      console.error('❌ Erro durante o scaffold e download do projeto:', error);
 
-      // Adicionar todo o diretório do projeto ao ZIP
-      archive.directory(tempProjectPath, projectOptions.name);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
 
-      // Finalizar o arquivo
-      await archive.finalize();
+      ResponseUtils.error(res, 
+        `Erro interno durante a criação do projeto: ${error?.message || 'Erro desconhecido'}`, 500);
+    }
+  }
 
-      console.log(`✅ Projeto ${projectOptions.name} enviado como ZIP`);
+  /**
+   * Gera o projeto e escreve o ZIP no destino retornado por "openDestination"
+   * (chamado somente se o projeto for criado). No modo "templates" os arquivos ficam em memória
+   * e vão direto para o ZIP; no modo "sdk" (dotnet new) é usado um diretório temporário exclusivo
+   */
+  private async writeScaffoldZip(
+    request: ScaffoldRequest,
+    entities: any[],
+    openDestination: () => NodeJS.WritableStream,
+    onStep?: (event: ScaffoldStepEvent) => void
+  ): Promise<ProjectCreationResult> {
+    const { projectOptions } = request;
+
+    const generationMode = await this.projectService.resolveGenerationMode(projectOptions.generationMode);
+    const memoryOutput = generationMode === 'templates' ? new MemoryFileSystem() : null;
+    const outputPath = memoryOutput
+      ? path.join(os.tmpdir(), 'zheus-memory')
+      : fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-'));
+    const projectPath = path.join(outputPath, projectOptions.name);
 
-      // Limpeza: remover diretório temporário após um delay
-      setTimeout(() => {
+    try {
+      const output = memoryOutput || new DiskFileSystem();
+      if (memoryOutput) {
+        memoryOutput.mkdirSync(outputPath, { recursive: true });
+      }
+
+      const results = this.initializeScaffoldResults();
+      let projectResult: ProjectCreationResult = { success: false, message: '' };
+      const steps: ScaffoldStep[] = [
+        {
+          name: 'createProject',
+          label: 'Criando projeto',
+          run: async () => {
+            console.log(`🚀 Criando projeto: ${projectOptions.name} (${memoryOutput ? 'em memória' : outputPath})`);
+            projectResult = await this.createProjectStep({ ...projectOptions, generationMode, outputPath });
+            return projectResult.success;
+          }
+        },
+        ...this.buildScaffoldSteps(projectPath, request, entities, results, () => projectResult.generationMode),
+        {
+          name: 'createArchive',
+          label: 'Criando arquivo ZIP',
+          run: async () => {
+            console.log(`📦 Criando arquivo ZIP para download...`);
+
+            // Criar arquivo ZIP
+            const archiver = require('archiver');
+            const archive = archiver('zip', { zlib: { level: 9 } });
+
+            // Pipe do arquivo para o destino
+            archive.pipe(openDestination());
+
+            if (memoryOutput) {
+              // Arquivos em memória vão direto para o ZIP
+              for (const file of memoryOutput.listFiles(projectPath)) {
+                archive.append(file.content, { name: `${projectOptions.name}/${file.relativePath}` });
+              }
+            } else {
+              // Adicionar todo o diretório do projeto ao ZIP
+              archive.directory(projectPath, projectOptions.name);
+            }
+
+            // Finalizar o arquivo (resolve quando todos os arquivos foram lidos)
+            await archive.finalize();
+          }
+        }
+      ];
+
+      // Executar todas as etapas (mesmo código do scaffoldProject) na saída escolhida,
+      // com os templates da requisição no lugar dos embutidos
+      await FileOutput.run(output, () => this.runWithRequestTemplates(this.getRequestTemplates(request), () => this.runScaffoldSteps(steps, onStep)));
+      return projectResult;
+
+    } finally {
+      // Limpeza do diretório temporário (somente no modo sdk)
+      if (!memoryOutput) {
         try {
-          fs.rmSync(tempProjectPath, { recursive: true, force: true });
-          console.log(`🧹 Diretório temporário removido: ${tempProjectPath}`);
+          fs.rmSync(outputPath, { recursive: true, force: true });
+          console.log(`🧹 Diretório temporário removido: ${outputPath}`);
         } catch (cleanupError) {
           console.warn(`⚠️ Erro ao limpar diretório temporário: ${cleanupError}`);
         }
-      }, 5000); // 5 segundos de delay
-
-    } catch (error: any) {
-      console.error('❌ Erro durante o scaffold e download do projeto:', error);
-      
-      // Tentar limpar diretório temporário em caso de erro
-      try {
-        const tempProjectPath = path.join(tempDir, projectOptions.name);
-        if (fs.existsSync(tempProjectPath)) {
-          fs.rmSync(tempProjectPath, { recursive: true, force: true });
-        }
-      } catch (cleanupError) {
-        console.warn(`⚠️ Erro ao limpar após falha: ${cleanupError}`);
       }
-
-      ResponseUtils.error(res, 
-        `Erro interno durante a criação do projeto: ${error?.message || 'Erro desconhecido'}`, 500);
     }
-  });
+  }
 
   /**
    * Cria um projeto completo com entidades e comandos
    * POST /api/project/scaffold
    */
   public scaffoldProject = asyncHandler(async (req: Request<{}, ApiResponse<ScaffoldResult>, ScaffoldRequest>, res: Response<ApiResponse<ScaffoldResult>>) => {
-    const { projectOptions, entities } = req.body;
+    const { projectOptions, enums = [] } = req.body;
     
     // Validações básicas
-    const validationError = this.validateScaffoldRequest(projectOptions, entities);
+    const validationError = this.validateScaffoldRequest(projectOptions, req.body.entities, enums, req.body.templateOverrides);
     if (validationError) {
       return ResponseUtils.badRequest(res, validationError);
     }
 
+    // Expandir relacionamentos (FKs, navegações e entidades de junção) e tipos enum
+    const entities = this.prepareEntities(req.body.entities, enums, projectOptions);
+
     try {
       const results = this.initializeScaffoldResults();
+      const withTemplates = <T>(fn: () => Promise<T>) => this.runWithRequestTemplates(this.getRequestTemplates(req.body), fn);
 
       // 1. Criar o projeto
-      const projectResult = await this.createProjectStep(projectOptions);
+      const projectResult = await withTemplates(() => this.createProjectStep(projectOptions));
       if (!projectResult.success) {
         return ResponseUtils.error(res, 
           `Falha ao criar projeto: ${projectResult.message}`, 400);
@@ -235,35 +873,18 @@ export class ProjectController {
       results.project = {
         success: projectResult.success,
         projectPath: projectResult.projectPath,
-        message: projectResult.message
+        message: projectResult.message,
+        generationMode: projectResult.generationMode
       };
       results.summary.projectCreated = true;
       
       const projectPath = projectResult.projectPath || `${process.cwd()}/${projectOptions.name}`;
 
-      // 2. Gerar repositórios base
-      await this.generateBaseRepositories(projectPath, results);
-
-      // 3. Gerar helpers do domain
-      await this.generateDomainHelpers(projectPath, results);
-
-      // 4. Gerar entidades e todo o boilerplate CQRS
-      await this.generateEntitiesAndCompleteBoilerplate(projectPath, entities, results);
-
-      // 5. Gerar camada Infrastructure (Database, DbContext, Repositories)
-      await this.generateInfrastructureLayer(projectPath, entities, results);
-
-      // 6. Gerar camada Application (Dictionary e DTOs)
-      await this.generateApplicationLayer(projectPath, results);
-
-      // 7. Atualizar registros IoC com todas as entidades geradas
-      await this.updateIoCRegistrations(projectPath, entities, results);
-
-      // 8. Gerar configurações da API
-      await this.generateApiConfigurations(projectPath, entities, results);
-
-      // 9. Instalar packages NuGet necessários
-      await this.installNuGetPackages(projectPath, results);
+      // 2-9. Gerar repositórios base, helpers, enums, entidades com boilerplate CQRS,
+      // camadas Infrastructure e Application, registros IoC, configurações da API,
+      // migration (opcional) e packages NuGet
+      const steps = this.buildScaffoldSteps(projectPath, req.body, entities, results, () => projectResult.generationMode);
+      await withTemplates(() => this.runScaffoldSteps(steps));
 
       // 10. Retornar resultado consolidado
       this.updateSummaryWithApiInfo(results);
@@ -280,18 +901,178 @@ export class ProjectController {
   /**
    * Valida os parâmetros da requisição de scaffold
    */
-  private validateScaffoldRequest(projectOptions: any, entities: any): string | null {
+  private validateScaffoldRequest(projectOptions: any, entities: any, enums: any = [], templateOverrides?: unknown): string | null {
     if (!projectOptions?.name) {
       return 'Nome do projeto é obrigatório';
     }
-    
+
+    const databaseError = this.databaseProviderService.validateOptions(projectOptions.database);
+    if (databaseError) {
+      return databaseError;
+    }
+
+    const templateError = TemplateManager.validateOverrides(templateOverrides)
+      || this.templatePackService.resolveChain(projectOptions.templatePack).error;
+    if (templateError) {
+      return templateError;
+    }
+
+    const testErrors = this.testService.validateTestOptions(projectOptions);
+    if (testErrors.length > 0) {
+      return testErrors[0];
+    }
+
+    return this.validateEntityDefinitions(entities, enums, projectOptions);
+  }
+
+  /**
+   * Valida entidades e enums (chaves primárias, relacionamentos, regras de validação e seeds)
+   * @param entityOptions idType/idName, softDelete e audit do projeto, usados nas entidades que não os definem
+   */
+  private validateEntityDefinitions(entities: any, enums: any = [], entityOptions: EntityOptions = {}): string | null {
     if (!entities || !Array.isArray(entities) || entities.length === 0) {
       return 'Lista de entidades é obrigatória';
     }
 
+    const keyErrors = [
+      ...this.primaryKeyService.validateKeyOptions(entityOptions, 'projectOptions'),
+      ...this.primaryKeyService.validateEntityKeys(entities, entityOptions)
+    ];
+    if (keyErrors.length > 0) {
+      return keyErrors[0];
+    }
+
+    const auditErrors = [
+      ...this.auditService.validateAuditOptions(entityOptions, 'projectOptions'),
+      ...this.auditService.validateEntityAudit(entities, entityOptions)
+    ];
+    if (auditErrors.length > 0) {
+      return auditErrors[0];
+    }
+
+    const securityErrors = [
+      ...this.securityService.validateSecurityOptions(entityOptions.security),
+      ...this.securityService.validateEntityAuthorization(entities, entityOptions.security)
+    ];
+    if (securityErrors.length > 0) {
+      return securityErrors[0];
+    }
+
+    const tenancyErrors = [
+      ...this.tenancyService.validateMultiTenancyOptions(entityOptions.multiTenancy, entityOptions.database),
+      ...this.tenancyService.validateEntityTenancy(entities, entityOptions.multiTenancy)
+    ];
+    if (tenancyErrors.length > 0) {
+      return tenancyErrors[0];
+    }
+
+    const relationshipErrors = this.relationshipService.validateRelationships(entities);
+    if (relationshipErrors.length > 0) {
+      return relationshipErrors[0];
+    }
+
+    if (!Array.isArray(enums)) {
+      return 'Lista de enums inválida';
+    }
+
+    const enumErrors = this.enumService.validateEnums(enums);
+    if (enumErrors.length > 0) {
+      return enumErrors[0];
+    }
+
+    // Regras e seeds são validados sobre as entidades já expandidas (FKs, chaves, enums e tenant)
+    const preparedEntities = this.prepareEntities(entities, enums, entityOptions);
+
+    const validationErrors = this.validationService.validateRules(preparedEntities);
+    if (validationErrors.length > 0) {
+      return validationErrors[0];
+    }
+
+    const seedErrors = this.seedService.validateSeeds(preparedEntities);
+    if (seedErrors.length > 0) {
+      return seedErrors[0];
+    }
+
     return null;
   }
 
+  /**
+   * Executa "fn" com os templates da requisição: overrides, template pack (e os packs que ele estende)
+   * e, por último, os templates embutidos
+   */
+  private runWithRequestTemplates<T>(templates: RequestTemplates, fn: () => Promise<T>): Promise<T> {
+    const { chain } = this.templatePackService.resolveChain(templates.templatePack);
+    return TemplateManager.runWithTemplates({ overrides: templates.templateOverrides, packs: chain }, fn);
+  }
+
+  private getRequestTemplates(request: ScaffoldRequest): RequestTemplates {
+    return { templatePack: request.projectOptions.templatePack, templateOverrides: request.templateOverrides };
+  }
+
+  /**
+   * Prepara as entidades para o scaffold, gerando FKs, navegações e entidades de junção
+   * e marcando as propriedades cujo tipo é um enum declarado
+   * A chave do projeto é aplicada antes (tipo das FKs) e depois (entidades de junção) da expansão;
+   * exclusão lógica e auditoria só nas entidades declaradas (as de junção ficam sem); o tenant
+   * vale para todas as entidades da BaseEntity, inclusive as de junção
+   */
+  private prepareEntities(entities: any[], enums: any[], entityOptions: EntityOptions = {}): any[] {
+    const declared = this.auditService.applyAuditOptions(this.primaryKeyService.applyKeys(entities, entityOptions), entityOptions);
+    const expanded = this.tenancyService.applyMultiTenancy(this.relationshipService.expandEntities(declared), entityOptions.multiTenancy);
+    return this.enumService.applyEnumTypes(this.primaryKeyService.applyKeys(expanded, entityOptions), enums);
+  }
+
+  /**
+   * Gera o arquivo pedido com os mesmos services do scaffold; os que gravam arquivos
+   * rodam em uma saída em memória e o conteúdo é lido de lá
+   */
+  private async renderPreview(artifact: PreviewArtifact, entity: any, entities: any[], options: { enums?: any[]; database?: DatabaseOptions; security?: SecurityOptions; multiTenancy?: MultiTenancyOptions }): Promise<{ path: string; content: string }> {
+    const name = entity.name;
+    switch (artifact) {
+      case 'entity':
+        return { path: `Domain/Entities/${name}Entity.cs`, content: this.entityService.generateEntityCode(entity) };
+      case 'createCommand':
+        return { path: `Domain/Commands/${name}Commands/Create${name}Command.cs`, content: this.commandService.generateCommand(entity, true) };
+      case 'updateCommand':
+        return { path: `Domain/Commands/${name}Commands/Update${name}Command.cs`, content: this.commandService.generateUpdateCommand(entity) };
+      case 'handler':
+        return { path: `Domain/Handlers/${name}Handler.cs`, content: this.handlerService.generateHandler(entity) };
+    }
+
+    const output = new MemoryFileSystem();
+    const projectPath = path.join(os.tmpdir(), 'zheus-preview', 'Preview');
+    const infrastructurePath = path.join(projectPath, 'Infrastructure');
+    // Pastas que o projeto .NET já traz quando esses services rodam no scaffold
+    for (const folder of ['Infrastructure/Data', 'Infrastructure/Repositories']) {
+      output.mkdirSync(path.join(projectPath, ...folder.split('/')), { recursive: true });
+    }
+
+    const relativePath = await FileOutput.run(output, async () => {
+      switch (artifact) {
+        case 'repository':
+          await this.repositoryService.generateEntityRepository(name, path.join(projectPath, 'Domain'));
+          return `Domain/Repositories/I${name}Repository.cs`;
+
+        case 'efRepository':
+          await this.infrastructureService.createEntityRepository(infrastructurePath, name);
+          return `Infrastructure/Repositories/${name}Repository.cs`;
+
+        case 'controller':
+          await this.apiService.createEntityController(projectPath, name, undefined, this.primaryKeyService.getKey(entity),
+            this.securityService.buildControllerAuthorization(entity, options.security));
+          return `API/Controllers/${name}Controller.cs`;
+
+        case 'dbContext':
+          await this.infrastructureService.createApplicationDbContext(infrastructurePath, options.multiTenancy);
+          await this.infrastructureService.addMultipleEntitiesToDbContext(projectPath, entities.map(model => model.name));
+          await this.configureDbContextModel(projectPath, entities, options);
+          return 'Infrastructure/Data/ApplicationDbContext.cs';
+      }
+    });
+
+    return { path: relativePath, content: output.readFileSync(path.join(projectPath, ...relativePath.split('/'))) };
+  }
+
   /**
    * Inicializa a estrutura de resultados do scaffold
    */
@@ -313,6 +1094,96 @@ export class ProjectController {
     };
   }
 
+  /**
+   * Gera novas entidades sobre um projeto existente: boilerplate CQRS, repositórios, DbSets,
+   * configuração do OnModelCreating, registros IoC e controllers (sem recriar os arquivos base)
+   */
+  private async extendProject(projectPath: string, entities: any[], results: ScaffoldResult, options: { enums?: any[]; database?: DatabaseOptions; security?: SecurityOptions; tests?: boolean; integrationTests?: boolean } = {}) {
+    await this.generateDomainEnums(projectPath, options.enums || [], results);
+    await this.generateEntitiesAndCompleteBoilerplate(projectPath, entities, results);
+
+    const createdEntities = entities.filter((_, index) => results.entities[index]?.success);
+    const crudEntities = createdEntities.filter(entity => !entity.isJoinEntity);
+    const infrastructurePath = path.join(projectPath, 'Infrastructure');
+    for (const entity of crudEntities) {
+      await this.infrastructureService.createEntityRepository(infrastructurePath, entity.name);
+    }
+
+    await this.updateApplicationDbContext(projectPath, entities, results);
+    await this.configureDbContextModel(projectPath, createdEntities, options);
+    await this.updateIoCRegistrations(projectPath, entities, results);
+
+    for (const entity of crudEntities) {
+      const controllerResult = await this.apiService.createEntityController(projectPath, entity.name, undefined, this.primaryKeyService.getKey(entity),
+        this.securityService.buildControllerAuthorization(entity, options.security));
+      if (controllerResult.success) {
+        console.log(`  🎮 Controller criado para ${entity.name}: ${controllerResult.filePath}`);
+      }
+    }
+
+    if (options.tests) {
+      await this.generateUnitTests(projectPath, entities, results, options.enums);
+    }
+
+    if (options.integrationTests) {
+      await this.generateIntegrationTests(projectPath, entities, results, options.enums, options.security);
+    }
+  }
+
+  /**
+   * Etapas de geração executadas após a criação do projeto, na ordem do scaffold
+   * "getGenerationMode" é lido na execução, pois o modo só é conhecido após criar o projeto
+   */
+  private buildScaffoldSteps(projectPath: string, request: ScaffoldRequest, entities: any[], results: ScaffoldResult, getGenerationMode: () => GenerationMode | undefined): ScaffoldStep[] {
+    const { projectOptions, enums = [] } = request;
+    const options = { enums, database: projectOptions.database, multiTenancy: projectOptions.multiTenancy };
+
+    const steps: ScaffoldStep[] = [
+      { name: 'generateBaseRepositories', label: 'Gerando repositórios base', run: () => this.generateBaseRepositories(projectPath, results) },
+      { name: 'generateDomainHelpers', label: 'Gerando helpers do domain', run: () => this.generateDomainHelpers(projectPath, results) },
+      { name: 'generateDomainEnums', label: 'Gerando enums do domain', run: () => this.generateDomainEnums(projectPath, enums, results) },
+      { name: 'generateEntitiesAndCompleteBoilerplate', label: 'Gerando entidades e boilerplate CQRS', run: () => this.generateEntitiesAndCompleteBoilerplate(projectPath, entities, results) },
+      { name: 'generateInfrastructureLayer', label: 'Gerando camada Infrastructure', run: () => this.generateInfrastructureLayer(projectPath, entities, results, options) },
+      { name: 'generateApplicationLayer', label: 'Gerando camada Application', run: () => this.generateApplicationLayer(projectPath, results) },
+      { name: 'updateIoCRegistrations', label: 'Atualizando registros IoC', run: () => this.updateIoCRegistrations(projectPath, entities, results) },
+      { name: 'generateApiConfigurations', label: 'Gerando configurações da API', run: () => this.generateApiConfigurations(projectPath, entities, results, projectOptions.security, projectOptions.multiTenancy) }
+    ];
+
+    if (projectOptions.tests) {
+      steps.push({ name: 'generateUnitTests', label: 'Gerando testes unitários', run: () => this.generateUnitTests(projectPath, entities, results, enums) });
+    }
+
+    if (projectOptions.integrationTests) {
+      steps.push({ name: 'generateIntegrationTests', label: 'Gerando testes de integração', run: () => this.generateIntegrationTests(projectPath, entities, results, enums, projectOptions.security) });
+    }
+
+    if (projectOptions.generateMigration) {
+      steps.push({ name: 'generateMigrations', label: 'Gerando migration InitialCreate', run: () => this.generateMigrations(projectPath, entities, results, options) });
+    }
+
+    steps.push({ name: 'installNuGetPackages', label: 'Instalando packages NuGet', run: () => this.installNuGetPackages(projectPath, results, projectOptions.database, getGenerationMode(), projectOptions.security, { tests: projectOptions.tests, integrationTests: projectOptions.integrationTests }) });
+    steps.push({ name: 'writeManifest', label: 'Gravando zheus.json', run: () => this.writeProjectManifest(projectPath, request, results) });
+    return steps;
+  }
+
+  /**
+   * Executa as etapas em sequência notificando início e fim de cada uma
+   * Uma etapa que retorna false interrompe o scaffold (ex: falha ao criar o projeto)
+   */
+  private async runScaffoldSteps(steps: ScaffoldStep[], onStep?: (event: ScaffoldStepEvent) => void): Promise<void> {
+    for (const [position, step] of steps.entries()) {
+      const event = { step: step.name, label: step.label, index: position + 1, total: steps.length };
+      onStep?.({ ...event, status: 'started' });
+
+      const result = await step.run();
+      if (result === false) {
+        return;
+      }
+
+      onStep?.({ ...event, status: 'completed' });
+    }
+  }
+
   /**
    * Executa a etapa de criação do projeto
    */
@@ -332,7 +1203,7 @@ export class ProjectController {
     try {
       await this.repositoryService.generateBaseRepositories(domainPath);
       
-      results.summary.totalFiles += 2; // IRepository.cs + IRepositoryBase.cs
+      results.summary.totalFiles += 4; // IRepository.cs + IRepositoryBase.cs + QueryParameters.cs + PagedResult.cs
       console.log('✅ Repositórios base gerados com sucesso');
     } catch (error: any) {
       console.error('❌ Erro ao gerar repositórios base:', error.message);
@@ -359,6 +1230,27 @@ export class ProjectController {
     }
   }
 
+  /**
+   * Gera os enums do domain (Domain/Enums)
+   */
+  private async generateDomainEnums(projectPath: string, enums: any[], results: any) {
+    if (enums.length === 0) {
+      return;
+    }
+
+    console.log(`🔢 Gerando ${enums.length} enums do domain...`);
+
+    const enumResult = await this.enumService.generateEnums(`${projectPath}/Domain`, enums);
+
+    if (enumResult.success) {
+      results.summary.totalFiles += enumResult.filePaths?.length || 0;
+      console.log(`✅ ${enumResult.message}`);
+    } else {
+      console.error('❌ Erro ao gerar enums do domain:', enumResult.error || enumResult.message);
+      // Não falha o processo inteiro, apenas registra o erro
+    }
+  }
+
   /**
    * Gera todas as entidades e todo o boilerplate CQRS associado
    * Para cada entidade, cria:
@@ -380,7 +1272,7 @@ export class ProjectController {
         
         // 2. Gerar todo o boilerplate CQRS se a entidade foi criada com sucesso
         const entityCreatedSuccessfully = results.entities[results.entities.length - 1]?.success;
-        const shouldGenerateBoilerplate = entityDef.generateCommands !== false && entityCreatedSuccessfully;
+        const shouldGenerateBoilerplate = entityDef.generateCommands !== false && !entityDef.isJoinEntity && entityCreatedSuccessfully;
         
         if (shouldGenerateBoilerplate) {
           console.log(`  └─ ⚡ Gerando boilerplate CQRS para ${entityDef.name}...`);
@@ -397,6 +1289,8 @@ export class ProjectController {
           console.log(`  ✅ Boilerplate completo gerado para ${entityDef.name}`);
         } else if (!entityCreatedSuccessfully) {
           console.log(`  ❌ Pulando boilerplate para ${entityDef.name} - entidade não foi criada`);
+        } else if (entityDef.isJoinEntity) {
+          console.log(`  ℹ️  ${entityDef.name} é entidade de junção - sem comandos, handler, repositório e controller`);
         } else {
           console.log(`  ℹ️  Boilerplate desabilitado para ${entityDef.name}`);
         }
@@ -417,9 +1311,9 @@ export class ProjectController {
     console.log(`\n🔧 Atualizando registros IoC...`);
     
     try {
-      // Extrair nomes das entidades que foram criadas com sucesso
+      // Extrair nomes das entidades que foram criadas com sucesso (as de junção não têm repositório nem handler)
       const successfulEntities = entities
-        .filter((_, index) => results.entities[index]?.success)
+        .filter((entity, index) => results.entities[index]?.success && !entity.isJoinEntity)
         .map(entity => entity.name);
 
       if (successfulEntities.length === 0) {
@@ -463,14 +1357,14 @@ export class ProjectController {
   /**
    * Gera a camada Infrastructure (Database, DbContext, Repositories)
    */
-  private async generateInfrastructureLayer(projectPath: string, entities: any[], results: any) {
+  private async generateInfrastructureLayer(projectPath: string, entities: any[], results: any, options: { enums?: any[]; database?: DatabaseOptions; multiTenancy?: MultiTenancyOptions } = {}) {
     console.log(`\n🏗️  Gerando camada Infrastructure...`);
     
     try {
       console.log(`  🛠️  Criando Database Configuration e DbContext...`);
       
       // Gerar camada Infrastructure
-      const infrastructureResult = await this.infrastructureService.createInfrastructureLayer(projectPath, entities);
+      const infrastructureResult = await this.infrastructureService.createInfrastructureLayer(projectPath, entities, options.database, options.multiTenancy);
       
       if (infrastructureResult.success) {
         console.log(`  ✅ ${infrastructureResult.message}`);
@@ -481,6 +1375,9 @@ export class ProjectController {
 
         // Adicionar entidades ao ApplicationDbContext dinamicamente
         await this.updateApplicationDbContext(projectPath, entities, results);
+
+        // Configurar relacionamentos, enums, tipos de coluna, restrições e seed no OnModelCreating
+        await this.configureDbContextModel(projectPath, entities, options);
         
         // Adicionar informação sobre Infrastructure no resultado
         results.infrastructure = {
@@ -510,6 +1407,63 @@ export class ProjectController {
     }
   }
 
+  /**
+   * Escreve no OnModelCreating a configuração das entidades informadas
+   */
+  private async configureDbContextModel(projectPath: string, entities: any[], options: { enums?: any[]; database?: DatabaseOptions } = {}) {
+    // Configurar chaves primárias (HasKey e geração do valor) no OnModelCreating
+    const keysResult = await this.infrastructureService.addPrimaryKeysToDbContext(projectPath, entities);
+    if (!keysResult.success) {
+      console.warn(`  ⚠️ Aviso chaves primárias: ${keysResult.message}`);
+    }
+
+    // Configurar filtros da exclusão lógica e colunas de auditoria no OnModelCreating
+    const auditResult = await this.infrastructureService.addSoftDeleteAndAuditToDbContext(projectPath, entities);
+    if (!auditResult.success) {
+      console.warn(`  ⚠️ Aviso exclusão lógica e auditoria: ${auditResult.message}`);
+    }
+
+    // Configurar TenantId e filtros por tenant no OnModelCreating
+    const tenancyResult = await this.infrastructureService.addMultiTenancyToDbContext(projectPath, entities);
+    if (!tenancyResult.success) {
+      console.warn(`  ⚠️ Aviso multi-tenancy: ${tenancyResult.message}`);
+    }
+
+    // Configurar relacionamentos no OnModelCreating
+    const relationshipsResult = await this.infrastructureService.addRelationshipsToDbContext(projectPath, entities);
+    if (relationshipsResult.success) {
+      console.log(`  🔗 ${relationshipsResult.message}`);
+    } else {
+      console.warn(`  ⚠️ Aviso relacionamentos: ${relationshipsResult.message}`);
+    }
+
+    // Configurar conversões de enums no OnModelCreating
+    const enumsResult = await this.infrastructureService.addEnumConversionsToDbContext(projectPath, entities, options.enums || []);
+    if (!enumsResult.success) {
+      console.warn(`  ⚠️ Aviso enums: ${enumsResult.message}`);
+    }
+
+    // Configurar tipos de coluna específicos do provider
+    const columnTypesResult = await this.infrastructureService.addProviderColumnTypesToDbContext(projectPath, entities, options.database);
+    if (!columnTypesResult.success) {
+      console.warn(`  ⚠️ Aviso tipos de coluna: ${columnTypesResult.message}`);
+    }
+
+    // Configurar restrições de coluna das regras de validação
+    const constraintsResult = await this.infrastructureService.addValidationConstraintsToDbContext(projectPath, entities);
+    if (!constraintsResult.success) {
+      console.warn(`  ⚠️ Aviso restrições de coluna: ${constraintsResult.message}`);
+    }
+
+    // Configurar registros iniciais (HasData) no OnModelCreating
+    const seedResult = await this.infrastructureService.addSeedDataToDbContext(projectPath, entities, options.enums || []);
+    if (seedResult.success) {
+      console.log(`  🌱 ${seedResult.message}`);
+    } else {
+      console.warn(`  ⚠️ Aviso seed: ${seedResult.message}`);
+    }
+  }
+
   /**
    * Gera a camada Application (Dictionary e DTOs)
    */
@@ -554,9 +1508,9 @@ export class ProjectController {
   }
 
   /**
-   * Gera as configurações da API (DependencyInjection, Environment, Swagger)
+   * Gera as configurações da API (DependencyInjection, Environment, Swagger, autenticação JWT e tenant)
    */
-  private async generateApiConfigurations(projectPath: string, entities: any[], results: any) {
+  private async generateApiConfigurations(projectPath: string, entities: any[], results: any, security?: SecurityOptions, multiTenancy?: MultiTenancyOptions) {
     console.log(`\n🔧 Gerando configurações da API...`);
     
     try {
@@ -569,7 +1523,9 @@ export class ProjectController {
           title: `${path.basename(projectPath)} API`,
           version: '1.0.0',
           description: `API para gerenciamento do sistema ${path.basename(projectPath)}`
-        }
+        },
+        security,
+        multiTenancy
       };
 
       const apiResult = await this.apiService.createApiConfigurations(projectPath, apiOptions);
@@ -581,10 +1537,11 @@ export class ProjectController {
           apiResult.files.forEach(file => console.log(`     - ${file}`));
         }
         
-        // Gerar controllers para cada entidade
+        // Gerar controllers para cada entidade (as de junção são expostas pelas navegações)
         const controllerResults = [];
-        for (const entity of entities) {
-          const controllerResult = await this.apiService.createEntityController(projectPath, entity.name);
+        for (const entity of entities.filter(e => !e.isJoinEntity)) {
+          const controllerResult = await this.apiService.createEntityController(projectPath, entity.name, undefined, this.primaryKeyService.getKey(entity),
+            this.securityService.buildControllerAuthorization(entity, security));
           controllerResults.push(controllerResult);
           if (controllerResult.success) {
             console.log(`  🎮 Controller criado para ${entity.name}: ${controllerResult.filePath}`);
@@ -620,13 +1577,148 @@ export class ProjectController {
     }
   }
 
+  /**
+   * Gera no projeto Tests os testes dos handlers e das validações dos comandos
+   * (apenas entidades criadas com sucesso, com BaseEntity e boilerplate CQRS)
+   */
+  private async generateUnitTests(projectPath: string, entities: any[], results: any, enums: any[] = []) {
+    console.log(`\n🧪 Gerando testes unitários...`);
+
+    const testedEntities = entities.filter((entity, index) => results.entities[index]?.success && this.testService.hasTests(entity));
+    const files: string[] = [];
+    const errors: string[] = [];
+
+    for (const entity of testedEntities) {
+      const testResult = await this.testService.generateEntityTests(projectPath, entity, enums);
+      if (testResult.success) {
+        console.log(`  ✅ ${testResult.message}`);
+        files.push(...(testResult.files || []));
+      } else {
+        console.log(`  ❌ Erro ao gerar testes para ${entity.name}: ${testResult.error || testResult.message}`);
+        errors.push(`${entity.name}: ${testResult.message}`);
+      }
+    }
+
+    results.tests = {
+      success: errors.length === 0,
+      message: errors.length === 0
+        ? `Testes gerados para ${testedEntities.length} entidade(s)`
+        : `Falha ao gerar testes: ${errors.join('; ')}`,
+      files
+    };
+    results.summary.totalFiles += files.length;
+  }
+
+  /**
+   * Gera no projeto IntegrationTests os testes das rotas de cada controller, com a API em memória
+   * (mesmas entidades dos testes unitários)
+   */
+  private async generateIntegrationTests(projectPath: string, entities: any[], results: any, enums: any[] = [], security?: SecurityOptions) {
+    console.log(`\n🔌 Gerando testes de integração...`);
+
+    const testedEntities = entities.filter((entity, index) => results.entities[index]?.success && this.testService.hasTests(entity));
+    const files: string[] = [];
+    const errors: string[] = [];
+
+    for (const entity of testedEntities) {
+      const testResult = await this.testService.generateEntityIntegrationTests(projectPath, entity, enums, security);
+      if (testResult.success) {
+        console.log(`  ✅ ${testResult.message}`);
+        files.push(...(testResult.files || []));
+      } else {
+        console.log(`  ❌ Erro ao gerar testes de integração para ${entity.name}: ${testResult.error || testResult.message}`);
+        errors.push(`${entity.name}: ${testResult.message}`);
+      }
+    }
+
+    results.integrationTests = {
+      success: errors.length === 0,
+      message: errors.length === 0
+        ? `Testes de integração gerados para ${testedEntities.length} entidade(s)`
+        : `Falha ao gerar testes de integração: ${errors.join('; ')}`,
+      files
+    };
+    results.summary.totalFiles += files.length;
+  }
+
+  /**
+   * Gera a migration InitialCreate e aplica o banco na inicialização da API
+   */
+  private async generateMigrations(projectPath: string, entities: any[], results: any, options: { enums?: any[]; database?: DatabaseOptions } = {}) {
+    console.log(`\n🗃️  Gerando migration InitialCreate...`);
+
+    const migrationResult = await this.migrationService.generateInitialMigration(projectPath, entities, options.enums || [], options.database);
+    if (!migrationResult.success) {
+      console.log(`  ❌ Erro ao gerar migration: ${migrationResult.error || migrationResult.message}`);
+      results.migrations = { success: false, message: migrationResult.message, files: [] };
+      return;
+    }
+
+    console.log(`  ✅ ${migrationResult.message}`);
+
+    const startupResult = await this.migrationService.configureDatabaseStartup(projectPath, options.database);
+    if (startupResult.success) {
+      console.log(`  🚀 ${startupResult.message}`);
+    } else {
+      console.warn(`  ⚠️ Aviso inicialização do banco: ${startupResult.message}`);
+    }
+
+    results.migrations = {
+      success: true,
+      message: migrationResult.message,
+      files: migrationResult.files || []
+    };
+    results.summary.totalFiles += migrationResult.files?.length || 0;
+  }
+
+  /**
+   * Grava o zheus.json com a requisição e o hash de cada arquivo gerado
+   */
+  private async writeProjectManifest(projectPath: string, request: ScaffoldRequest, results: ScaffoldResult) {
+    console.log(`\n📜 Gravando ${MANIFEST_FILE}...`);
+
+    // Pack gravado com a versão resolvida ("acme@2.1" em vez de "acme"), para gerar novamente com os mesmos templates
+    const [templatePack] = this.templatePackService.resolveChain(request.projectOptions.templatePack).chain;
+    const manifestRequest = templatePack
+      ? { ...request, projectOptions: { ...request.projectOptions, templatePack: templatePack.id } }
+      : request;
+
+    const manifestResult = await this.manifestService.writeManifest(projectPath, manifestRequest);
+    if (manifestResult.success) {
+      console.log(`  ✅ ${manifestResult.message}`);
+      results.summary.totalFiles += 1;
+    } else {
+      console.warn(`  ⚠️ Aviso ${MANIFEST_FILE}: ${manifestResult.error || manifestResult.message}`);
+    }
+
+    results.manifest = {
+      success: manifestResult.success,
+      message: manifestResult.message,
+      filePath: manifestResult.filePath
+    };
+  }
+
   /**
    * Instala packages NuGet necessários nos projetos gerados
    */
-  private async installNuGetPackages(projectPath: string, results: any) {
+  private async installNuGetPackages(projectPath: string, results: any, database?: DatabaseOptions, generationMode?: GenerationMode, security?: SecurityOptions, testProjects: TestProjectOptions = {}) {
     console.log(`\n📦 Instalando packages NuGet...`);
     
     try {
+      // Modo templates: os PackageReference já foram escritos nos .csproj (restore no primeiro build)
+      if (generationMode === 'templates') {
+        const packagesByProject = nugetService.getPackagesByProject(database, security, testProjects);
+        const totalPackages = Object.values(packagesByProject).reduce((total, packages) => total + packages.length, 0);
+
+        console.log(`  ✅ ${totalPackages} PackageReference declarados nos .csproj`);
+        results.nuget = {
+          success: true,
+          totalPackages,
+          message: `📋 ${totalPackages} packages NuGet declarados nos .csproj (instalados no primeiro dotnet restore/build)`
+        };
+        return;
+      }
+
       // Verificar se .NET SDK está disponível
       const sdkCheck = await nugetService.checkDotNetSDK();
       if (!sdkCheck.available) {
@@ -641,7 +1733,7 @@ export class ProjectController {
       console.log(`  ✅ .NET SDK ${sdkCheck.version} encontrado`);
       
       // Instalar packages nos projetos
-      const packageResults = await nugetService.installProjectPackages(projectPath);
+      const packageResults = await nugetService.installProjectPackages(projectPath, database, security);
       
       if (packageResults.summary.success) {
         console.log(`  🎉 Todos os packages instalados com sucesso!`);
@@ -769,7 +1861,7 @@ export class ProjectController {
 
   /**
    * Gera comandos CQRS para uma entidade
-   * Cria: Create{Entity}Command.cs e Update{Entity}Command.cs
+   * Cria: Create/Update/Delete{Entity}Command.cs e as queries Get{Entity}ByIdQuery.cs/List{Entity}Query.cs
    */
   private async generateEntityCommands(projectPath: string, entityDef: any, results: any) {
     console.log(`⚡ Gerando comandos para entidade: ${entityDef.name}`);
@@ -779,26 +1871,38 @@ export class ProjectController {
     if (commandResult.success) {
       results.commands.push({
         entityName: entityDef.name,
-        commandType: 'Create and Update',
+        commandType: 'Create, Update and Delete',
         success: true,
         files: commandResult.filePaths || [],
         message: commandResult.message
       });
-      results.summary.commandsGenerated += 2; // Create + Update
+      results.summary.commandsGenerated += 3; // Create + Update + Delete
       results.summary.totalFiles += commandResult.filePaths?.length || 0;
     } else {
       results.commands.push({
         entityName: entityDef.name,
-        commandType: 'Create and Update',
+        commandType: 'Create, Update and Delete',
         success: false,
         error: commandResult.error || commandResult.message
       });
     }
+
+    // Queries de leitura (GetById e List)
+    const queryResult = await this.queryService.generateQueryFiles(projectPath, entityDef);
+
+    results.commands.push({
+      entityName: entityDef.name,
+      commandType: 'GetById and List queries',
+      success: queryResult.success,
+      files: queryResult.filePaths || [],
+      ...(queryResult.success ? { message: queryResult.message } : { error: queryResult.error || queryResult.message })
+    });
+    results.summary.totalFiles += queryResult.filePaths?.length || 0;
   }
 
   /**
    * Gera handlers CQRS para processar comandos de uma entidade
-   * Cria: {Entity}Handler.cs com lógica de negócio para Create/Update
+   * Cria: {Entity}Handler.cs com lógica de negócio para Create/Update/Delete/GetById/List
    */
   private async generateEntityHandlers(projectPath: string, entityDef: any, results: any) {
     console.log(`🎯 Gerando handlers para entidade: ${entityDef.name}`);
@@ -840,6 +1944,7 @@ export class ProjectController {
     
     try {
       await this.repositoryService.generateEntityRepository(entityDef.name, domainPath);
+      await this.repositoryService.generateEntityFilter(entityDef, domainPath);
       
       if (!results.repositories) results.repositories = [];
       
@@ -851,7 +1956,7 @@ export class ProjectController {
       });
       
       results.summary.repositoriesGenerated = (results.summary.repositoriesGenerated || 0) + 1;
-      results.summary.totalFiles = (results.summary.totalFiles || 0) + 1;
+      results.summary.totalFiles = (results.summary.totalFiles || 0) + 2; // I{Entity}Repository.cs + {Entity}Filter.cs
     } catch (error: any) {
       if (!results.repositories) results.repositories = [];
       
@@ -946,7 +2051,8 @@ export class ProjectController {
       templates: {
         valid: true,
         tested: [] as string[],
-        missing: [] as string[]
+        missing: [] as string[],
+        errors: [] as string[]
       },
       summary: {
         totalEntities: entities.length,
@@ -962,7 +2068,7 @@ export class ProjectController {
       await this.validateProjectTemplate(projectOptions, validation);
 
       // 2. Validar templates de entidades e comandos
-      await this.validateTemplates(validation);
+      await this.validateTemplates(validation, projectOptions.templatePack);
 
       // 3. Validar cada entidade
       for (const entityDef of entities) {
@@ -1025,9 +2131,10 @@ export class ProjectController {
   }
 
   /**
-   * Valida se todos os templates necessários existem
+   * Valida se todos os templates necessários existem e se os templates efetivos
+   * (embutidos ou do pack) compilam e usam apenas variáveis fornecidas pelos services
    */
-  private async validateTemplates(validation: any) {
+  private async validateTemplates(validation: any, templatePack?: string) {
     const requiredTemplates = [
       'entity.hbs',
       'baseEntity.hbs',
@@ -1053,6 +2160,15 @@ export class ProjectController {
         validation.templates.missing.push(template);
       }
     }
+
+    const { chain, error } = this.templatePackService.resolveChain(templatePack);
+    const report = error ? null : this.templateIntrospectionService.validateTemplates(chain);
+    for (const template of report?.templates || []) {
+      for (const templateError of template.errors) {
+        validation.templates.valid = false;
+        validation.templates.errors.push(`${template.path} (${template.source}): ${templateError}`);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { asyncHandler, ResponseUtils } from '../utils/responseUtils';
+import { TemplatePackService } from '../services/templatePackService';
+import { TemplateIntrospectionService } from '../services/templateIntrospectionService';
+import { TemplateValidationReport } from '../types/template';
+
+export class TemplateController {
+  private templatePackService: TemplatePackService;
+  private templateIntrospectionService: TemplateIntrospectionService;
+
+  constructor() {
+    this.templatePackService = new TemplatePackService();
+    this.templateIntrospectionService = new TemplateIntrospectionService();
+  }
+
+  /**
+   * Lista os template packs registrados
+   * GET /api/templates/packs
+   */
+  public listPacks = asyncHandler(async (req: Request, res: Response) => {
+    const packs = this.templatePackService.listPacks();
+
+    return ResponseUtils.success(res, { packs, count: packs.length },
+      `🎨 ${packs.length} template pack(s) registrado(s)`);
+  });
+
+  /**
+   * Registra um novo template pack (name@version)
+   * POST /api/templates/packs
+   */
+  public registerPack = asyncHandler(async (req: Request, res: Response) => {
+    const result = this.templatePackService.registerPack(req.body || {});
+
+    if (result.success) {
+      return ResponseUtils.success(res, result.pack, `✅ ${result.message}`, 201);
+    }
+    if (result.conflict) {
+      return ResponseUtils.error(res, result.message, 409);
+    }
+    if (result.statusCode) {
+      return ResponseUtils.error(res, result.error ? `${result.message}: ${result.error}` : result.message, result.statusCode);
+    }
+    return result.error
+      ? ResponseUtils.error(res, `${result.message}: ${result.error}`, 500)
+      : ResponseUtils.badRequest(res, result.message);
+  });
+
+  /**
+   * Compila os templates efetivos (embutidos ou de um pack) e confere variáveis e helpers
+   * com os dados que cada service prepara
+   * GET /api/templates/validate?pack=name@version
+   */
+  public validateTemplates = asyncHandler(async (req: Request, res: Response) => {
+    const pack = typeof req.query.pack === 'string' ? req.query.pack : undefined;
+    const { chain, error } = this.templatePackService.resolveChain(pack);
+    if (error) {
+      return ResponseUtils.badRequest(res, error);
+    }
+
+    const report = this.templateIntrospectionService.validateTemplates(chain);
+    return ResponseUtils.success(res, { pack: chain[0]?.id, ...report }, this.reportMessage(report));
+  });
+
+  /**
+   * Valida templates ainda não publicados (caminho do template -> código Handlebars)
+   * POST /api/templates/validate
+   */
+  public validateDrafts = asyncHandler(async (req: Request, res: Response) => {
+    const { templates } = req.body || {};
+    if (!templates || typeof templates !== 'object' || Array.isArray(templates) || Object.keys(templates).length === 0) {
+      return ResponseUtils.badRequest(res, 'templates é obrigatório: { "caminho/do/template.hbs": "código Handlebars" }');
+    }
+
+    const report = this.templateIntrospectionService.validateDrafts(templates);
+    return ResponseUtils.success(res, report, this.reportMessage(report));
+  });
+
+  private reportMessage(report: TemplateValidationReport): string {
+    return report.valid
+      ? `✅ ${report.summary.templates} template(s) válido(s)`
+      : `⚠️ ${report.summary.invalid} de ${report.summary.templates} template(s) com erros`;
+  }
+}
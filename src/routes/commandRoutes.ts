@@ -8,6 +8,9 @@ const commandController = new CommandController();
  * @route   POST /api/command/generate
  * @desc    Gera um novo comando no projeto .NET
  * @access  Public
+ * Com zheus.json no projeto, arquivos alterados pelo usuário não são sobrescritos e voltam em "conflicts"
+ * Com "merge: true", esses arquivos passam por merge de três vias: merges limpos voltam em "merged"
+ * e trechos conflitantes recebem marcadores (<<<<<<< yours / >>>>>>> zheus) e voltam em "conflicts"
  */
 router.post('/generate', commandController.generateCommand);
 
@@ -7,7 +7,10 @@ const router = Router();
  * @route   POST /api/handler/generate
  * @desc    Gera handler para uma entidade
  * @access  Public
- * @body    { projectPath: string, entity: EntityDefinition }
+ * @body    { projectPath: string, entity: EntityDefinition, merge?: boolean }
+ * Com zheus.json no projeto, arquivos alterados pelo usuário não são sobrescritos e voltam em "conflicts"
+ * Com "merge: true", esses arquivos passam por merge de três vias: merges limpos voltam em "merged"
+ * e trechos conflitantes recebem marcadores (<<<<<<< yours / >>>>>>> zheus) e voltam em "conflicts"
  */
 router.post('/generate', handlerController.generateHandler);
 
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { projectController } from '../controllers/projectController';
 
 const router = Router();
@@ -14,19 +14,71 @@ const router = Router();
  *     name: string,                    // Nome do projeto (obrigatório) - também será o nome do arquivo ZIP
  *     template?: string,               // Template .NET (padrão: "webapi")
  *     framework?: string,              // Framework .NET (padrão: "net8.0")
- *     useCleanArchitecture?: boolean   // Usar estrutura Clean Architecture (padrão: true)
+ *     useCleanArchitecture?: boolean,  // Usar estrutura Clean Architecture (padrão: true)
+ *     database?: {                     // Banco de dados do projeto gerado
+ *       provider?: string,             // "sqlserver" | "postgres" | "mysql" | "sqlite" | "inmemory" (padrão: "sqlserver")
+ *       connectionString?: string      // Connection string (padrão: exemplo do provider)
+ *     },
+ *     generateMigration?: boolean,     // Incluir a migration InitialCreate em Infrastructure/Migrations (padrão: false)
+ *     generationMode?: string,         // "sdk" (dotnet new) ou "templates" (.sln/.csproj sem .NET SDK); padrão: "sdk" se instalado
+ *     templatePack?: string,           // Template pack registrado em /api/templates/packs (ex: "acme-minimal-api@2.1")
+ *     idType?: string,                 // Chave primária das entidades: "Guid" | "int" | "long" | "string" (padrão: "Guid")
+ *     idName?: string,                 // Nome da chave primária (padrão: "Id")
+ *     softDelete?: boolean,            // Exclusão lógica (IsDeleted/DeletedAt) nas entidades (padrão: false)
+ *     audit?: boolean,                 // Auditoria (CreatedBy/UpdatedBy) nas entidades (padrão: false)
+ *     security?: {                     // Autenticação JWT (AuthConfig.cs, Swagger com Bearer e [Authorize] nos controllers)
+ *       issuer?: string,               // Padrão: nome do projeto
+ *       audience?: string,             // Padrão: nome do projeto
+ *       tokenExpirationMinutes?: number, // Padrão: 60
+ *       devTokenEndpoint?: boolean     // POST /api/auth/token em Development (padrão: true)
+ *     },
+ *     multiTenancy?: {                 // Isolamento por tenant (TenantId na BaseEntity e TenantResolutionMiddleware)
+ *       strategy?: string,             // "sharedTable" (padrão) ou "schemaPerTenant" (sqlserver e postgres)
+ *       header?: string,               // Header do tenant (padrão: "X-Tenant-Id")
+ *       claim?: string,                // Claim do tenant no token, prevalece sobre o header (padrão: "tenant_id")
+ *       seedTenantId?: string          // Tenant dos registros de seed sem "TenantId" (um dos dois é obrigatório)
+ *     },
+ *     tests?: boolean,                 // Projeto Tests (xUnit) com testes dos handlers e das validações dos comandos (padrão: false)
+ *     integrationTests?: boolean       // Projeto IntegrationTests com as rotas dos controllers via WebApplicationFactory e EF InMemory (padrão: false)
  *   },
  *   entities: [{
  *     name: string,                    // Nome da entidade (obrigatório)
+ *     idType?: string,                 // Tipo da chave desta entidade (padrão: projectOptions.idType)
+ *     idName?: string,                 // Nome da chave desta entidade (padrão: projectOptions.idName)
+ *     softDelete?: boolean,            // Exclusão lógica desta entidade (padrão: projectOptions.softDelete)
+ *     audit?: boolean,                 // Auditoria desta entidade (padrão: projectOptions.audit)
+ *     authorization?: { list?: string[], getById?: string[], create?: string[], update?: string[], delete?: string[] }, // Roles por operação (exige security)
  *     properties: [{                   // Propriedades da entidade
  *       name: string,                  // Nome da propriedade
  *       type: string,                  // Tipo C# da propriedade (string, int, bool, etc.)
  *       isRequired: boolean,           // Se a propriedade é obrigatória
  *       isCollection?: boolean,        // Se é uma coleção (List<T>)
- *       isNavigationProperty?: boolean // Se é propriedade de navegação EF
+ *       isNavigationProperty?: boolean,// Se é propriedade de navegação EF
+ *       validation?: {                 // Regras do IsCommandValid (maxLength/required também viram restrições de coluna)
+ *         required?, minLength?, maxLength?, regex?, range?: { min?, max? }, email?, url?
+ *       }
  *     }],
+ *     relationships?: [{               // Relacionamentos com outras entidades
+ *       type: string,                  // "oneToMany" | "manyToOne" | "oneToOne" | "manyToMany"
+ *       target: string,                // Entidade relacionada
+ *       navigationName?: string,       // Navegação nesta entidade
+ *       inverseNavigationName?: string,// Navegação na entidade relacionada
+ *       foreignKey?: string,           // Nome da FK (padrão: "{Principal}Id")
+ *       isRequired?: boolean,          // FK obrigatória (padrão: true)
+ *       onDelete?: string,             // "Cascade" | "Restrict" | "SetNull" | "NoAction"
+ *       joinEntity?: string            // Entidade de junção (manyToMany)
+ *     }],
+ *     seed?: [{ [property]: value }],  // Registros iniciais gerados como HasData
  *     generateCommands?: boolean       // Se deve gerar comandos CQRS (padrão: true)
- *   }]
+ *   }],
+ *   enums?: [{
+ *     name: string,                    // Nome do enum (ex: "OrderStatus")
+ *     values: string[],                // Valores (ou { name, value })
+ *     storeAs?: string                 // "string" | "int" (padrão: "int")
+ *   }],
+ *   templateOverrides?: {              // Substitui templates embutidos apenas nesta requisição
+ *     [templatePath: string]: string   // Ex: "api/controllers/entityController.hbs": "<código Handlebars>"
+ *   }
  * }
  * 
  * @example
@@ -59,6 +111,186 @@ const router = Router();
  */
 router.post('/scaffold-download', projectController.scaffoldProjectDownload);
 
+/**
+ * @route   POST /api/project/add-entities
+ * @desc    Adiciona novas entidades a um projeto gerado anteriormente e retorna o ZIP atualizado
+ * @access  Public
+ * @body    {
+ *   project: string,                   // ZIP do projeto (gerado pelo /scaffold-download) em base64
+ *   entities: EntityDefinition[],      // Novas entidades (mesmo formato do scaffold)
+ *   enums?: EnumDefinition[],          // Novos enums usados pelas entidades
+ *   templateOverrides?: { [templatePath: string]: string }, // Padrão: os do zheus.json
+ *   database?: { provider?: string }   // Padrão: detectado pelo PackageReference do Infrastructure.csproj
+ * }
+ *
+ * Gera entidade, comandos, queries, handler, repositórios e controller de cada entidade,
+ * adiciona os DbSets e a configuração no ApplicationDbContext e registra as dependências na IoC.
+ * Entidades já existentes no projeto são rejeitadas; relacionamentos só podem apontar
+ * para entidades da mesma requisição. Se o ZIP tiver zheus.json, arquivos cujo hash não
+ * confere (alterados pelo usuário) não são sobrescritos e voltam em "conflicts".
+ * ZIPs acima de PROJECT_ARCHIVE_MAX_ENTRIES arquivos ou PROJECT_ARCHIVE_MAX_MB descompactados
+ * retornam 413; arquivos fora da pasta do .sln são ignorados e listados em "warnings".
+ *
+ * @response {
+ *   projectName: string,
+ *   entities: [{ className, success, files, message }],
+ *   changes: [{ path: string, status: "added" | "modified" | "removed" }],
+ *   conflicts: [{ path: string, reason: string }], // Arquivos alterados pelo usuário (zheus.json), não sobrescritos
+ *   summary: { added: number, modified: number, conflicts: number },
+ *   warnings: string[],
+ *   project: string                    // ZIP atualizado em base64
+ * }
+ */
+router.post('/add-entities', projectController.addEntitiesToProject);
+
+/**
+ * @route   POST /api/project/regenerate
+ * @desc    Gera novamente um projeto a partir do modelo atualizado, preservando as alterações do usuário
+ * @access  Public
+ * @body    {
+ *   project: string,                   // ZIP do projeto em base64 (precisa conter o zheus.json)
+ *   entities?: EntityDefinition[],     // Modelo atualizado (padrão: entidades do zheus.json)
+ *   enums?: EnumDefinition[],          // Padrão: enums do zheus.json
+ *   templateOverrides?: { [templatePath: string]: string } // Padrão: os do zheus.json
+ * }
+ *
+ * O projeto é gerado novamente em memória e aplicado arquivo a arquivo:
+ * - arquivos não alterados pelo usuário (hash do zheus.json) são sobrescritos;
+ * - arquivos alterados passam por merge de três vias com a versão gerada anterior (.zheus/base.json.gz.b64):
+ *   merges limpos voltam em "merged" e trechos conflitantes recebem os marcadores
+ *   "<<<<<<< yours", "=======" e ">>>>>>> zheus" e voltam em "conflicts";
+ * - arquivos que deixaram de ser gerados são removidos (ou mantidos como conflito, se alterados).
+ * Migrations existentes não são alteradas.
+ * O ZIP segue os mesmos limites de extração do /add-entities (413 acima deles).
+ *
+ * @response {
+ *   projectName: string,
+ *   changes: [{ path: string, status: "added" | "modified" | "removed" }],
+ *   merged: string[],
+ *   conflicts: [{ path: string, reason: string }],
+ *   summary: { added: number, modified: number, removed: number, merged: number, conflicts: number },
+ *   warnings: string[],
+ *   project: string                    // ZIP atualizado em base64
+ * }
+ */
+router.post('/regenerate', projectController.regenerateProject);
+
+/**
+ * @route   POST /api/project/preview
+ * @desc    Renderiza um único arquivo de uma entidade, sem gravar nada em disco (preview do editor de modelos)
+ * @access  Public
+ * @body    {
+ *   entity: EntityDefinition,
+ *   artifact: "entity" | "createCommand" | "updateCommand" | "handler" | "repository"
+ *           | "efRepository" | "controller" | "dbContext",
+ *   entities?: EntityDefinition[],     // Demais entidades do modelo (relacionamentos e DbSets do DbContext)
+ *   enums?: EnumDefinition[],
+ *   projectOptions?: { database?: DatabaseOptions, templatePack?: string, idType?: string, idName?: string, softDelete?: boolean, audit?: boolean, security?: SecurityOptions, multiTenancy?: MultiTenancyOptions },
+ *   templateOverrides?: { [templatePath: string]: string }
+ * }
+ * @response {
+ *   artifact: string,
+ *   entity: string,
+ *   path: string,                      // Ex: "Domain/Entities/BookEntity.cs"
+ *   content: string                    // Código C# gerado pelos mesmos services do scaffold
+ * }
+ */
+router.post('/preview', projectController.previewFile);
+
+/**
+ * @route   POST /api/project/jobs
+ * @desc    Enfileira um scaffold assíncrono (mesmo corpo do /scaffold-download) e retorna o id do job
+ * @access  Public
+ * @body    ScaffoldRequest
+ * @response 202 { jobId: string, status: "queued" | "running", eventsUrl: string, artifactUrl: string }
+ * @response 429 fila cheia (SCAFFOLD_JOB_MAX_QUEUED jobs aguardando)
+ *
+ * Os jobs rodam em ordem de chegada, no máximo SCAFFOLD_JOB_CONCURRENCY ao mesmo tempo.
+ */
+router.post('/jobs', projectController.createScaffoldJob);
+
+/**
+ * @route   GET /api/project/jobs/:id
+ * @desc    Status atual do job
+ * @access  Public
+ * @response { id, projectName, status: "queued" | "running" | "completed" | "failed", progress: number, currentStep?, message, error? }
+ */
+router.get('/jobs/:id', projectController.getScaffoldJob);
+
+/**
+ * @route   GET /api/project/jobs/:id/events
+ * @desc    Progresso do job via Server-Sent Events (text/event-stream)
+ * @access  Public
+ *
+ * Eventos: "status", "step" (início e fim de cada etapa: createProject, generateBaseRepositories,
+ * generateDomainHelpers, generateDomainEnums, generateEntitiesAndCompleteBoilerplate,
+ * generateInfrastructureLayer, generateApplicationLayer, updateIoCRegistrations,
+ * generateApiConfigurations, generateMigrations, installNuGetPackages, writeManifest, createArchive),
+ * "completed" e "failed". O data de cada evento é um JSON com { id, type, status, progress, step?, label?, stepStatus?, message, timestamp }.
+ *
+ * O histórico é reenviado ao conectar (a partir do header Last-Event-ID, se presente),
+ * um comentário ": heartbeat" é enviado a cada 15s e a conexão é encerrada ao fim do job.
+ */
+router.get('/jobs/:id/events', projectController.streamScaffoldJobEvents);
+
+/**
+ * @route   GET /api/project/jobs/:id/artifact
+ * @desc    Baixa o ZIP gerado pelo job (409 enquanto o job não estiver "completed")
+ * @access  Public
+ * @response Content-Type: application/zip
+ */
+router.get('/jobs/:id/artifact', projectController.downloadScaffoldJobArtifact);
+
+/**
+ * @route   POST /api/project/import/openapi
+ * @desc    Converte components.schemas de um documento OpenAPI 3 em um ScaffoldRequest
+ * @access  Public
+ * @body    {
+ *   document: object | string,         // Documento OpenAPI 3 (objeto JSON ou texto JSON/YAML)
+ *   projectOptions?: ProjectOptions,   // Sobrescreve as opções do projeto (padrão: name = info.title)
+ *   schemas?: string[],                // Importar apenas estes schemas (padrão: todos)
+ *   download?: boolean                 // true = gera o projeto e retorna o ZIP (como /scaffold-download)
+ * }
+ *
+ * Também aceita o YAML/JSON puro no corpo (Content-Type: application/yaml ou text/plain),
+ * com ?download=true na query string.
+ *
+ * Mapeamento de components.schemas:
+ * - string (date-time/date) -> DateTime, string (uuid) -> Guid, integer (int64) -> long,
+ *   integer -> int, number (float/double) -> float/double, number -> decimal, boolean -> bool
+ * - enum (inline ou $ref) -> enums, required/nullable -> isRequired e tipos "?"
+ * - enums de texto mantêm os valores declarados como membros (valores que não são identificadores C# são rejeitados)
+ * - minLength/maxLength/pattern/format email|uri/minimum/maximum -> validation
+ * - $ref -> manyToOne, array de $ref -> oneToMany (manyToMany se ambos os lados forem arrays)
+ *
+ * @response { scaffoldRequest: ScaffoldRequest, warnings: string[], validationError: string | null }
+ */
+router.post('/import/openapi', express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'], limit: '10mb' }), projectController.importOpenApi);
+
+/**
+ * @route   POST /api/project/import/sql
+ * @desc    Converte um script DDL (CREATE TABLE) de SQL Server ou PostgreSQL em um ScaffoldRequest
+ * @access  Public
+ * @body    {
+ *   script: string,                    // Script com CREATE TABLE e, opcionalmente, ALTER TABLE ... FOREIGN KEY
+ *   dialect?: "sqlserver" | "postgres", // Padrão: detectado pelo script (também define database.provider)
+ *   projectOptions?: ProjectOptions,   // Sobrescreve as opções do projeto (padrão: name = "LegacyApi")
+ *   tables?: string[],                 // Importar apenas estas tabelas (padrão: todas)
+ *   download?: boolean                 // true = gera o projeto e retorna o ZIP (como /scaffold-download)
+ * }
+ *
+ * Também aceita o script puro no corpo (Content-Type: application/sql ou text/plain),
+ * com ?dialect=...&download=true na query string.
+ *
+ * - Tabelas viram entidades no singular em PascalCase (order_items -> OrderItem)
+ * - NOT NULL define isRequired e tipos "?"; o tamanho de (n)varchar/char vira validation.maxLength
+ * - A PK simples vira a chave da entidade (idType/idName); FKs viram relacionamentos manyToOne (com ON DELETE)
+ * - Tabelas com PK composta formada apenas por duas FKs viram manyToMany
+ *
+ * @response { scaffoldRequest: ScaffoldRequest, warnings: string[], validationError: string | null }
+ */
+router.post('/import/sql', express.text({ type: ['application/sql', 'text/plain'], limit: '10mb' }), projectController.importSql);
+
 // 🔒 ROTAS PRIVADAS/DESENVOLVIMENTO
 // As rotas abaixo estão desabilitadas para deploy de produção
 // Para habilitar durante desenvolvimento, descomente as linhas abaixo:
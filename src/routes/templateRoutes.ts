@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { TemplateController } from '../controllers/templateController';
+
+const router = Router();
+const templateController = new TemplateController();
+
+/**
+ * @route   GET /api/templates/packs
+ * @desc    Lista os template packs registrados (por nome, da versão mais recente para a mais antiga)
+ * @access  Public
+ * @response {
+ *   packs: [{ name, version, description?, extends?, templates: [{ path, variables }], createdAt }],
+ *   count: number
+ * }
+ */
+router.get('/packs', templateController.listPacks);
+
+/**
+ * @route   POST /api/templates/packs
+ * @desc    Registra um template pack que substitui templates embutidos
+ * @access  Private (somente com TEMPLATE_PACKS_REGISTRATION=true; grava em TEMPLATE_PACKS_PATH)
+ * @body    {
+ *   name: string,                      // Ex: "acme-minimal-api"
+ *   version: string,                   // Ex: "2.1" (name@version não pode ser registrado de novo)
+ *   description?: string,
+ *   extends?: string,                  // Pack usado para os templates que este não substitui (ex: "acme-base@1.0")
+ *   templates: [{
+ *     path: string,                    // Template embutido substituído (ex: "api/controllers/entityController.hbs")
+ *     variables?: string[],            // Variáveis que o template espera (ex: ["name", "hasCollections"])
+ *     content: string                  // Código Handlebars
+ *   }]
+ * }
+ *
+ * Use o pack no scaffold com projectOptions.templatePack ("acme-minimal-api@2.1" ou "acme-minimal-api"
+ * para a versão mais recente). Cada template é resolvido nos templateOverrides da requisição, depois no
+ * pack e nos packs que ele estende e, por último, nos templates embutidos.
+ * No máximo TEMPLATE_PACK_MAX_TEMPLATES templates (padrão: 100) e TEMPLATE_PACK_MAX_KB de código (padrão: 512).
+ * @response 201 pack.json gravado | 400 pack inválido | 403 registro desabilitado | 409 versão já registrada
+ *           | 413 pack excede os limites
+ */
+router.post('/packs', templateController.registerPack);
+
+/**
+ * @route   GET /api/templates/validate
+ * @desc    Compila os templates efetivos e confere as variáveis e helpers de cada um com os dados
+ *          que o service correspondente prepara (schemas declarados em templateSchemas)
+ * @access  Public
+ * @query   pack?: string                  // Ex: "acme-minimal-api@2.1"; sem pack valida os templates embutidos
+ * @response {
+ *   pack?: string,                       // name@version resolvido
+ *   valid: boolean,
+ *   summary: { templates, valid, invalid },
+ *   templates: [{
+ *     path: string,
+ *     source: string,                    // "builtin" ou "pack:name@version"
+ *     valid: boolean,
+ *     errors: string[],                  // Sintaxe, variáveis que o service não fornece, helpers não registrados
+ *     variables: string[],               // Ex: ["command", "command.commandName", "name"]
+ *     helpers: string[],                 // Ex: ["each", "if"]
+ *     unusedVariables: string[]          // Fornecidas pelo service, mas não usadas pelo template
+ *   }]
+ * }
+ */
+router.get('/validate', templateController.validateTemplates);
+
+/**
+ * @route   POST /api/templates/validate
+ * @desc    Valida templates antes de usá-los em templateOverrides ou em um pack
+ * @access  Public
+ * @body    {
+ *   templates: {                         // Caminho do template embutido -> código Handlebars
+ *     "domain/handlers/handler.hbs": "..."
+ *   }
+ * }
+ * @response Mesmo formato do GET, com source "draft"
+ */
+router.post('/validate', templateController.validateDrafts);
+
+export default router;
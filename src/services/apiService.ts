@@ -1,6 +1,11 @@
-import * as fs from 'fs';
 import * as path from 'path';
+import { EntityKey } from '../types/entity';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { PrimaryKeyService } from './primaryKeyService';
+import { ControllerAuthorization, SecurityService } from './securityService';
+import { TenancyService } from './tenancyService';
+import { MultiTenancyOptions, SecurityOptions } from '../types/project';
 
 export interface ApiConfigResult {
   success: boolean;
@@ -16,9 +21,15 @@ export interface ApiConfigOptions {
     version?: string;
     description?: string;
   };
+  connectionString?: string;
+  security?: SecurityOptions;
+  multiTenancy?: MultiTenancyOptions;
 }
 
 export class ApiService {
+  private primaryKeyService = new PrimaryKeyService();
+  private securityService = new SecurityService();
+  private tenancyService = new TenancyService();
 
   /**
    * Cria todos os arquivos de configuração da API
@@ -29,7 +40,7 @@ export class ApiService {
       const configurationsPath = path.join(apiPath, 'Configurations');
 
       // Verificar se diretório da API existe
-      if (!fs.existsSync(apiPath)) {
+      if (!fileOutput.existsSync(apiPath)) {
         return {
           success: false,
           message: 'Projeto API não encontrado. Execute o scaffold do projeto primeiro.'
@@ -37,14 +48,14 @@ export class ApiService {
       }
 
       // Garantir que diretório Configurations existe
-      if (!fs.existsSync(configurationsPath)) {
-        fs.mkdirSync(configurationsPath, { recursive: true });
+      if (!fileOutput.existsSync(configurationsPath)) {
+        fileOutput.mkdirSync(configurationsPath, { recursive: true });
       }
 
       const createdFiles: string[] = [];
 
       // 1. Criar DependencyInjectionConfig
-      const diConfigResult = await this.createDependencyInjectionConfig(configurationsPath);
+      const diConfigResult = await this.createDependencyInjectionConfig(configurationsPath, options?.multiTenancy);
       if (diConfigResult.success && diConfigResult.filePath) {
         createdFiles.push(diConfigResult.filePath);
       }
@@ -56,17 +67,46 @@ export class ApiService {
       }
 
       // 3. Criar SwaggerConfig
-      const swaggerConfigResult = await this.createSwaggerConfig(configurationsPath, options?.swagger);
+      const swaggerConfigResult = await this.createSwaggerConfig(configurationsPath, options?.swagger, !!options?.security, options?.multiTenancy);
       if (swaggerConfigResult.success && swaggerConfigResult.filePath) {
         createdFiles.push(swaggerConfigResult.filePath);
       }
 
       // 4. Criar middlewares da API
-      const middlewareResult = await this.createApiMiddlewares(projectPath);
+      const middlewareResult = await this.createApiMiddlewares(projectPath, options);
       if (middlewareResult.success && middlewareResult.files) {
         createdFiles.push(...middlewareResult.files);
       }
 
+      // 5. Criar provider do usuário gravado na auditoria e, com multiTenancy, o do tenant da requisição
+      const auditUserProviderResult = await this.createAuditUserProvider(apiPath);
+      if (auditUserProviderResult.success && auditUserProviderResult.filePath) {
+        createdFiles.push(auditUserProviderResult.filePath);
+      }
+
+      if (options?.multiTenancy) {
+        const tenantProviderResult = await this.createTenantProvider(apiPath);
+        if (tenantProviderResult.success && tenantProviderResult.filePath) {
+          createdFiles.push(tenantProviderResult.filePath);
+        }
+      }
+
+      // 6. Configurar connection string nos appsettings
+      if (options?.connectionString) {
+        const appSettingsResult = await this.configureAppSettings(projectPath, options.connectionString);
+        if (appSettingsResult.success && appSettingsResult.files) {
+          createdFiles.push(...appSettingsResult.files);
+        }
+      }
+
+      // 7. Configurar autenticação JWT (AuthConfig, endpoint de token e seção Jwt dos appsettings)
+      if (options?.security) {
+        const securityResult = await this.configureSecurity(projectPath, options.projectName || path.basename(projectPath), options.security, options.multiTenancy);
+        if (securityResult.success && securityResult.files) {
+          createdFiles.push(...securityResult.files);
+        }
+      }
+
       return {
         success: true,
         message: `${createdFiles.length} arquivos da API criados com sucesso (configurações + middlewares)`,
@@ -85,13 +125,13 @@ export class ApiService {
   /**
    * Cria o arquivo DependencyInjectionConfig.cs
    */
-  private async createDependencyInjectionConfig(configurationsPath: string): Promise<ApiConfigResult> {
+  private async createDependencyInjectionConfig(configurationsPath: string, multiTenancy?: MultiTenancyOptions): Promise<ApiConfigResult> {
     try {
       const template = TemplateManager.getTemplate('api/configurations/dependencyInjectionConfig.hbs');
       const filePath = path.join(configurationsPath, 'DependencyInjectionConfig.cs');
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({ hasMultiTenancy: !!multiTenancy }));
 
       return {
         success: true,
@@ -108,6 +148,68 @@ export class ApiService {
     }
   }
 
+  /**
+   * Cria o arquivo HttpContextAuditUserProvider.cs (usuário autenticado da requisição)
+   */
+  private async createAuditUserProvider(apiPath: string): Promise<ApiConfigResult> {
+    try {
+      const servicesPath = path.join(apiPath, 'Services');
+      if (!fileOutput.existsSync(servicesPath)) {
+        fileOutput.mkdirSync(servicesPath, { recursive: true });
+      }
+
+      const template = TemplateManager.getTemplate('api/services/httpContextAuditUserProvider.hbs');
+      const filePath = path.join(servicesPath, 'HttpContextAuditUserProvider.cs');
+
+      // Escrever arquivo
+      fileOutput.writeFileSync(filePath, template({}));
+
+      return {
+        success: true,
+        message: 'HttpContextAuditUserProvider criado com sucesso',
+        filePath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar HttpContextAuditUserProvider:', error);
+      return {
+        success: false,
+        message: `Erro ao criar HttpContextAuditUserProvider: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Cria o arquivo RequestTenantProvider.cs (tenant da requisição definido pelo middleware)
+   */
+  private async createTenantProvider(apiPath: string): Promise<ApiConfigResult> {
+    try {
+      const servicesPath = path.join(apiPath, 'Services');
+      if (!fileOutput.existsSync(servicesPath)) {
+        fileOutput.mkdirSync(servicesPath, { recursive: true });
+      }
+
+      const template = TemplateManager.getTemplate('api/services/requestTenantProvider.hbs');
+      const filePath = path.join(servicesPath, 'RequestTenantProvider.cs');
+
+      // Escrever arquivo
+      fileOutput.writeFileSync(filePath, template({}));
+
+      return {
+        success: true,
+        message: 'RequestTenantProvider criado com sucesso',
+        filePath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar RequestTenantProvider:', error);
+      return {
+        success: false,
+        message: `Erro ao criar RequestTenantProvider: ${error.message}`
+      };
+    }
+  }
+
   /**
    * Cria o arquivo EnvironmentConfig.cs
    */
@@ -117,7 +219,7 @@ export class ApiService {
       const filePath = path.join(configurationsPath, 'EnvironmentConfig.cs');
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({}));
 
       return {
         success: true,
@@ -141,16 +243,18 @@ export class ApiService {
     title?: string;
     version?: string;
     description?: string;
-  }): Promise<ApiConfigResult> {
+  }, hasSecurity: boolean = false, multiTenancy?: MultiTenancyOptions): Promise<ApiConfigResult> {
     try {
       const template = TemplateManager.getTemplate('api/configurations/swaggerConfig.hbs');
       const filePath = path.join(configurationsPath, 'SwaggerConfig.cs');
 
       // Se tiver opções específicas do Swagger, podemos personalizar aqui no futuro
-      // Por enquanto, usar template padrão
+      // Com security, o Swagger ganha a definição do token JWT (Bearer); com multiTenancy, a do header do tenant
+      const { hasMultiTenancy, tenantHeader } = this.tenancyService.getTemplateData(multiTenancy);
+      const securitySchemes = [...(hasSecurity ? ['Bearer'] : []), ...(hasMultiTenancy ? ['Tenant'] : [])];
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({ hasSecurity, hasMultiTenancy, tenantHeader, securitySchemes }));
 
       return {
         success: true,
@@ -167,18 +271,138 @@ export class ApiService {
     }
   }
 
+  /**
+   * Define a ConnectionStrings:DefaultConnection nos appsettings da API
+   */
+  async configureAppSettings(projectPath: string, connectionString: string): Promise<ApiConfigResult> {
+    try {
+      const apiPath = path.join(projectPath, 'API');
+      const files: string[] = [];
+
+      for (const fileName of ['appsettings.json', 'appsettings.Development.json']) {
+        const filePath = path.join(apiPath, fileName);
+
+        // Manter configurações existentes (ex: Logging gerado pelo dotnet new)
+        const settings = fileOutput.existsSync(filePath)
+          ? JSON.parse(fileOutput.readFileSync(filePath, 'utf-8'))
+          : {};
+
+        settings.ConnectionStrings = {
+          ...(settings.ConnectionStrings || {}),
+          DefaultConnection: connectionString
+        };
+
+        fileOutput.writeFileSync(filePath, JSON.stringify(settings, null, 2) + '\n');
+        files.push(filePath);
+      }
+
+      return {
+        success: true,
+        message: 'Connection string configurada nos appsettings',
+        files
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar appsettings:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar appsettings: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Configura a autenticação JWT: AuthConfig.cs, AuthController.cs (token de desenvolvimento)
+   * e a seção "Jwt" dos appsettings
+   */
+  async configureSecurity(projectPath: string, projectName: string, security: SecurityOptions, multiTenancy?: MultiTenancyOptions): Promise<ApiConfigResult> {
+    try {
+      const apiPath = path.join(projectPath, 'API');
+      const files: string[] = [];
+
+      const authConfigPath = path.join(apiPath, 'Configurations', 'AuthConfig.cs');
+      fileOutput.writeFileSync(authConfigPath, TemplateManager.getTemplate('api/configurations/authConfig.hbs')({}));
+      files.push(authConfigPath);
+
+      if (this.securityService.hasDevTokenEndpoint(security)) {
+        await this.createBaseController(projectPath);
+
+        const authControllerPath = path.join(apiPath, 'Controllers', 'AuthController.cs');
+        fileOutput.writeFileSync(authControllerPath, TemplateManager.getTemplate('api/controllers/authController.hbs')({ hasMultiTenancy: !!multiTenancy }));
+        files.push(authControllerPath);
+      }
+
+      for (const fileName of ['appsettings.json', 'appsettings.Development.json']) {
+        const filePath = path.join(apiPath, fileName);
+
+        // Manter configurações existentes e a chave já gerada (o scaffold reescreve as configurações da API)
+        const settings = fileOutput.existsSync(filePath)
+          ? JSON.parse(fileOutput.readFileSync(filePath, 'utf-8'))
+          : {};
+
+        settings.Jwt = this.securityService.buildJwtSettings(projectName, security, fileName === 'appsettings.Development.json', settings.Jwt?.Key);
+
+        fileOutput.writeFileSync(filePath, JSON.stringify(settings, null, 2) + '\n');
+        files.push(filePath);
+      }
+
+      return {
+        success: true,
+        message: 'Autenticação JWT configurada',
+        files
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar autenticação JWT:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar autenticação JWT: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Chave JWT de desenvolvimento do appsettings.Development.json (undefined sem security)
+   */
+  readJwtDevelopmentKey(projectPath: string): string | undefined {
+    const filePath = path.join(projectPath, 'API', 'appsettings.Development.json');
+    if (!fileOutput.existsSync(filePath)) return undefined;
+
+    try {
+      return JSON.parse(fileOutput.readFileSync(filePath, 'utf-8')).Jwt?.Key || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Troca a chave JWT de desenvolvimento gerada pela informada (ex: a do projeto gerado novamente)
+   */
+  replaceJwtDevelopmentKey(projectPath: string, key: string): void {
+    const filePath = path.join(projectPath, 'API', 'appsettings.Development.json');
+    if (!fileOutput.existsSync(filePath)) return;
+
+    const settings = JSON.parse(fileOutput.readFileSync(filePath, 'utf-8'));
+    if (!settings.Jwt) return;
+
+    settings.Jwt.Key = key;
+    fileOutput.writeFileSync(filePath, JSON.stringify(settings, null, 2) + '\n');
+  }
+
   /**
    * Cria um controller específico para uma entidade
+   * As rotas GetById/DeleteById usam o tipo e o nome da chave primária (padrão: Guid Id)
+   * Com authorization o controller exige autenticação e as roles de cada operação
    */
-  async createEntityController(projectPath: string, entityName: string, entityProperties?: any[]): Promise<ApiConfigResult> {
+  async createEntityController(projectPath: string, entityName: string, entityProperties?: any[], key: EntityKey = this.primaryKeyService.getKey({}), authorization?: ControllerAuthorization): Promise<ApiConfigResult> {
     try {
       const apiPath = path.join(projectPath, 'API');
       const controllersPath = path.join(apiPath, 'Controllers');
       const filePath = path.join(controllersPath, `${entityName}Controller.cs`);
 
       // Verificar se diretório Controllers existe
-      if (!fs.existsSync(controllersPath)) {
-        fs.mkdirSync(controllersPath, { recursive: true });
+      if (!fileOutput.existsSync(controllersPath)) {
+        fileOutput.mkdirSync(controllersPath, { recursive: true });
       }
 
       // Criar BaseController se não existir
@@ -192,6 +416,11 @@ export class ApiService {
         name: entityName,
         title: entityName.toLowerCase(),
         hasCollections: entityProperties && entityProperties.length > 0,
+        idType: key.type,
+        idParameter: key.parameterName,
+        idRoute: key.route,
+        hasSecurity: !!authorization,
+        roles: authorization?.roles || {},
         command: [
           {
             name: entityName,
@@ -208,7 +437,7 @@ export class ApiService {
       const controllerContent = template(templateData);
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, controllerContent);
+      fileOutput.writeFileSync(filePath, controllerContent);
 
       return {
         success: true,
@@ -235,7 +464,7 @@ export class ApiService {
       const filePath = path.join(contractPath, 'BaseController.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'BaseController já existe',
@@ -244,15 +473,15 @@ export class ApiService {
       }
 
       // Verificar se diretório Contract existe
-      if (!fs.existsSync(contractPath)) {
-        fs.mkdirSync(contractPath, { recursive: true });
+      if (!fileOutput.existsSync(contractPath)) {
+        fileOutput.mkdirSync(contractPath, { recursive: true });
       }
 
       // Obter template
       const template = TemplateManager.getTemplate('api/controllers/contract/baseController.hbs');
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({}));
 
       return {
         success: true,
@@ -272,13 +501,13 @@ export class ApiService {
   /**
    * Cria os middlewares da API (CancellationToken e ErrorHandling)
    */
-  private async createApiMiddlewares(projectPath: string): Promise<ApiConfigResult> {
+  private async createApiMiddlewares(projectPath: string, options?: ApiConfigOptions): Promise<ApiConfigResult> {
     try {
       const apiPath = path.join(projectPath, 'API');
       const middlewarePath = path.join(apiPath, 'Middleware');
 
       // Verificar se diretório da API existe
-      if (!fs.existsSync(apiPath)) {
+      if (!fileOutput.existsSync(apiPath)) {
         return {
           success: false,
           message: 'Projeto API não encontrado. Execute o scaffold do projeto primeiro.'
@@ -286,8 +515,8 @@ export class ApiService {
       }
 
       // Garantir que diretório Middleware existe
-      if (!fs.existsSync(middlewarePath)) {
-        fs.mkdirSync(middlewarePath, { recursive: true });
+      if (!fileOutput.existsSync(middlewarePath)) {
+        fileOutput.mkdirSync(middlewarePath, { recursive: true });
       }
 
       const createdFiles: string[] = [];
@@ -304,6 +533,14 @@ export class ApiService {
         createdFiles.push(errorHandlingResult.filePath);
       }
 
+      // 3. Criar TenantResolutionMiddleware (multiTenancy)
+      if (options?.multiTenancy) {
+        const tenantResult = await this.createTenantResolutionMiddleware(middlewarePath, options.multiTenancy, options.security);
+        if (tenantResult.success && tenantResult.filePath) {
+          createdFiles.push(tenantResult.filePath);
+        }
+      }
+
       return {
         success: true,
         message: `${createdFiles.length} middlewares criados com sucesso`,
@@ -327,7 +564,7 @@ export class ApiService {
       const filePath = path.join(middlewarePath, 'CancellationTokenMiddleware.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'CancellationTokenMiddleware já existe',
@@ -339,7 +576,7 @@ export class ApiService {
       const template = TemplateManager.getTemplate('api/middleware/cancellationTokenMiddleware.hbs');
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({}));
 
       return {
         success: true,
@@ -364,7 +601,7 @@ export class ApiService {
       const filePath = path.join(middlewarePath, 'ErrorHandlingMiddleware.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'ErrorHandlingMiddleware já existe',
@@ -376,7 +613,7 @@ export class ApiService {
       const template = TemplateManager.getTemplate('api/middleware/errorHandlingMiddleware.hbs');
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, template({}));
+      fileOutput.writeFileSync(filePath, template({}));
 
       return {
         success: true,
@@ -392,4 +629,42 @@ export class ApiService {
       };
     }
   }
+
+  /**
+   * Cria o arquivo TenantResolutionMiddleware.cs (tenant pela claim do token ou pelo header)
+   */
+  private async createTenantResolutionMiddleware(middlewarePath: string, multiTenancy: MultiTenancyOptions, security?: SecurityOptions): Promise<ApiConfigResult> {
+    try {
+      const filePath = path.join(middlewarePath, 'TenantResolutionMiddleware.cs');
+
+      // Verificar se já existe
+      if (fileOutput.existsSync(filePath)) {
+        return {
+          success: true,
+          message: 'TenantResolutionMiddleware já existe',
+          filePath
+        };
+      }
+
+      // Obter template
+      const template = TemplateManager.getTemplate('api/middleware/tenantResolutionMiddleware.hbs');
+      const { tenantHeader, tenantClaim, tenantIdMaxLength } = this.tenancyService.getTemplateData(multiTenancy);
+
+      // Escrever arquivo
+      fileOutput.writeFileSync(filePath, template({ tenantHeader, tenantClaim, tenantIdMaxLength, hasDevTokenEndpoint: this.securityService.hasDevTokenEndpoint(security) }));
+
+      return {
+        success: true,
+        message: 'TenantResolutionMiddleware criado com sucesso',
+        filePath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar TenantResolutionMiddleware:', error);
+      return {
+        success: false,
+        message: `Erro ao criar TenantResolutionMiddleware: ${error.message}`
+      };
+    }
+  }
 }
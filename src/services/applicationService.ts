@@ -1,6 +1,6 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
 
 export interface ApplicationResult {
   success: boolean;
@@ -19,7 +19,7 @@ export class ApplicationService {
       const applicationPath = path.join(projectPath, 'Application');
 
       // Verificar se diretório da Application existe
-      if (!fs.existsSync(applicationPath)) {
+      if (!fileOutput.existsSync(applicationPath)) {
         return {
           success: false,
           message: 'Projeto Application não encontrado. Execute o scaffold do projeto primeiro.'
@@ -76,7 +76,7 @@ export class ApplicationService {
       const filePath = path.join(dictionaryPath, 'DefaultDictionary.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'DefaultDictionary já existe',
@@ -85,8 +85,8 @@ export class ApplicationService {
       }
 
       // Verificar se diretório Dictionary existe
-      if (!fs.existsSync(dictionaryPath)) {
-        fs.mkdirSync(dictionaryPath, { recursive: true });
+      if (!fileOutput.existsSync(dictionaryPath)) {
+        fileOutput.mkdirSync(dictionaryPath, { recursive: true });
       }
 
       // Obter template via TemplateManager
@@ -94,7 +94,7 @@ export class ApplicationService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -119,8 +119,8 @@ export class ApplicationService {
       const responsePath = path.join(applicationPath, 'DTOs', 'Response');
 
       // Verificar se diretório Response existe
-      if (!fs.existsSync(responsePath)) {
-        fs.mkdirSync(responsePath, { recursive: true });
+      if (!fileOutput.existsSync(responsePath)) {
+        fileOutput.mkdirSync(responsePath, { recursive: true });
       }
 
       const createdFiles: string[] = [];
@@ -160,7 +160,7 @@ export class ApplicationService {
       const filePath = path.join(responsePath, 'ApiResponseModel.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'ApiResponseModel já existe',
@@ -173,7 +173,7 @@ export class ApplicationService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -198,7 +198,7 @@ export class ApplicationService {
       const filePath = path.join(responsePath, 'HttpClientResponse.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'HttpClientResponse já existe',
@@ -211,7 +211,7 @@ export class ApplicationService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -237,7 +237,7 @@ export class ApplicationService {
       const filePath = path.join(interfacesPath, 'IHttpClientService.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'IHttpClientService já existe',
@@ -246,8 +246,8 @@ export class ApplicationService {
       }
 
       // Verificar se diretório Interfaces existe
-      if (!fs.existsSync(interfacesPath)) {
-        fs.mkdirSync(interfacesPath, { recursive: true });
+      if (!fileOutput.existsSync(interfacesPath)) {
+        fileOutput.mkdirSync(interfacesPath, { recursive: true });
       }
 
       // Obter template via TemplateManager
@@ -255,7 +255,7 @@ export class ApplicationService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -281,7 +281,7 @@ export class ApplicationService {
       const filePath = path.join(servicesPath, 'HttpClientService.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'HttpClientService já existe',
@@ -290,8 +290,8 @@ export class ApplicationService {
       }
 
       // Verificar se diretório Services existe
-      if (!fs.existsSync(servicesPath)) {
-        fs.mkdirSync(servicesPath, { recursive: true });
+      if (!fileOutput.existsSync(servicesPath)) {
+        fileOutput.mkdirSync(servicesPath, { recursive: true });
       }
 
       // Obter template via TemplateManager
@@ -299,7 +299,7 @@ export class ApplicationService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -332,7 +332,7 @@ export class ApplicationService {
       ];
 
       return requiredFiles.every(file => 
-        fs.existsSync(path.join(applicationPath, file))
+        fileOutput.existsSync(path.join(applicationPath, file))
       );
 
     } catch (error) {
@@ -347,7 +347,7 @@ export class ApplicationService {
     try {
       const applicationPath = path.join(projectPath, 'Application');
       
-      if (!fs.existsSync(applicationPath)) {
+      if (!fileOutput.existsSync(applicationPath)) {
         return [];
       }
 
@@ -355,29 +355,29 @@ export class ApplicationService {
       
       // Verificar Dictionary
       const dictionaryPath = path.join(applicationPath, 'Dictionary');
-      if (fs.existsSync(dictionaryPath)) {
-        const dictionaryFiles = fs.readdirSync(dictionaryPath);
+      if (fileOutput.existsSync(dictionaryPath)) {
+        const dictionaryFiles = fileOutput.readdirSync(dictionaryPath);
         files.push(...dictionaryFiles.map(f => `Dictionary/${f}`));
       }
 
       // Verificar DTOs/Response
       const responsePath = path.join(applicationPath, 'DTOs', 'Response');
-      if (fs.existsSync(responsePath)) {
-        const responseFiles = fs.readdirSync(responsePath);
+      if (fileOutput.existsSync(responsePath)) {
+        const responseFiles = fileOutput.readdirSync(responsePath);
         files.push(...responseFiles.map(f => `DTOs/Response/${f}`));
       }
 
       // Verificar Interfaces
       const interfacesPath = path.join(applicationPath, 'Interfaces');
-      if (fs.existsSync(interfacesPath)) {
-        const interfaceFiles = fs.readdirSync(interfacesPath);
+      if (fileOutput.existsSync(interfacesPath)) {
+        const interfaceFiles = fileOutput.readdirSync(interfacesPath);
         files.push(...interfaceFiles.map(f => `Interfaces/${f}`));
       }
 
       // Verificar Services
       const servicesPath = path.join(applicationPath, 'Services');
-      if (fs.existsSync(servicesPath)) {
-        const serviceFiles = fs.readdirSync(servicesPath);
+      if (fileOutput.existsSync(servicesPath)) {
+        const serviceFiles = fileOutput.readdirSync(servicesPath);
         files.push(...serviceFiles.map(f => `Services/${f}`));
       }
 
@@ -0,0 +1,65 @@
+import { EntityDefinition } from '../types/entity';
+import { AuditService } from './auditService';
+import { EntityService } from './entityService';
+import { HandlerService } from './handlerService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }]
+};
+
+describe('AuditService', () => {
+  const service = new AuditService();
+
+  it('aplica as opções do projeto às entidades que não as definem', () => {
+    const entities = service.applyAuditOptions([
+      product,
+      { ...product, name: 'Log', softDelete: false },
+      { ...product, name: 'Setting', inheritsFromBase: false }
+    ], { softDelete: true, audit: true });
+
+    expect(entities.map(({ name, softDelete, audit }) => ({ name, softDelete, audit }))).toEqual([
+      { name: 'Product', softDelete: true, audit: true },
+      { name: 'Log', softDelete: false, audit: true },
+      { name: 'Setting', softDelete: false, audit: false }
+    ]);
+  });
+
+  it('rejeita opções inválidas, entidades sem BaseEntity e propriedades com o nome dos campos gerados', () => {
+    const errors = service.validateEntityAudit([
+      { ...product, softDelete: 'yes' as any },
+      { ...product, name: 'Setting', inheritsFromBase: false, audit: true },
+      { ...product, name: 'Order', properties: [{ name: 'IsDeleted', type: 'bool', isRequired: true, isNavigationProperty: false }] }
+    ], { softDelete: true });
+
+    expect(errors).toEqual([
+      "Entidade 'Product': softDelete deve ser true ou false",
+      "Entidade 'Setting': softDelete e audit exigem herdar de BaseEntity (inheritsFromBase)",
+      "Entidade 'Order': propriedade 'IsDeleted' conflita com o campo gerado por softDelete/audit"
+    ]);
+  });
+
+  it('configura o filtro de excluídos e o tamanho das colunas de auditoria', () => {
+    expect(service.buildModelConfiguration([{ ...product, softDelete: true, audit: true }])).toEqual([
+      '            modelBuilder.Entity<ProductEntity>()',
+      '                .HasQueryFilter(e => !e.IsDeleted);',
+      '            modelBuilder.Entity<ProductEntity>()',
+      '                .Property(e => e.CreatedBy)',
+      '                .HasMaxLength(256);',
+      '            modelBuilder.Entity<ProductEntity>()',
+      '                .Property(e => e.UpdatedBy)',
+      '                .HasMaxLength(256);'
+    ]);
+  });
+
+  it('gera a entidade com os contratos e o delete do handler como exclusão lógica', () => {
+    const entity = new EntityService().generateEntityCode({ ...product, softDelete: true, audit: true });
+    const handler = new HandlerService().generateHandler({ ...product, softDelete: true });
+
+    expect(entity).toContain('public class ProductEntity : BaseEntity, ISoftDeletable, IAuditable');
+    expect(entity).toContain('public DateTimeOffset? DeletedAt { get; set; }');
+    expect(entity).toContain('public string? CreatedBy { get; set; }');
+    expect(handler).toContain('entity.IsDeleted = true;');
+    expect(handler).not.toContain('DeleteObject(entity)');
+  });
+});
@@ -0,0 +1,144 @@
+import { EntityDefinition } from '../types/entity';
+
+// Tamanho das colunas com o usuário que criou/alterou o registro
+export const AUDIT_USER_MAX_LENGTH = 256;
+
+export interface AuditColumn {
+  name: string;
+  type: string;       // Tipo C# base (sem "?")
+  isNullable: boolean;
+  maxLength?: number;
+}
+
+type AuditOptions = { softDelete?: boolean; audit?: boolean };
+
+const SOFT_DELETE_COLUMNS: AuditColumn[] = [
+  { name: 'IsDeleted', type: 'bool', isNullable: false },
+  { name: 'DeletedAt', type: 'DateTimeOffset', isNullable: true }
+];
+
+const AUDIT_COLUMNS: AuditColumn[] = [
+  { name: 'CreatedBy', type: 'string', isNullable: true, maxLength: AUDIT_USER_MAX_LENGTH },
+  { name: 'UpdatedBy', type: 'string', isNullable: true, maxLength: AUDIT_USER_MAX_LENGTH }
+];
+
+/**
+ * Exclusão lógica (IsDeleted/DeletedAt) e auditoria (CreatedBy/UpdatedBy) das entidades, definidas no projeto
+ * (projectOptions.softDelete/audit) ou por entidade; os campos são preenchidos pelo interceptor do SaveChanges
+ */
+export class AuditService {
+
+  /**
+   * Valida softDelete/audit (do projeto ou de uma entidade)
+   */
+  validateAuditOptions(options: { softDelete?: unknown; audit?: unknown }, context: string): string[] {
+    const errors: string[] = [];
+
+    for (const option of ['softDelete', 'audit'] as const) {
+      if (options[option] !== undefined && typeof options[option] !== 'boolean') {
+        errors.push(`${context}: ${option} deve ser true ou false`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Valida as opções de cada entidade: exigem BaseEntity (Created/Update) e não podem
+   * conflitar com propriedades de mesmo nome
+   */
+  validateEntityAudit(entities: EntityDefinition[], defaults: AuditOptions = {}): string[] {
+    const errors: string[] = [];
+
+    for (const entity of entities) {
+      errors.push(...this.validateAuditOptions(entity, `Entidade '${entity.name}'`));
+
+      if (entity.inheritsFromBase === false) {
+        if (entity.softDelete || entity.audit) {
+          errors.push(`Entidade '${entity.name}': softDelete e audit exigem herdar de BaseEntity (inheritsFromBase)`);
+        }
+        continue;
+      }
+
+      const columns = this.getColumns({ ...entity, ...this.resolveOptions(entity, defaults) });
+      for (const column of columns) {
+        if ((entity.properties || []).some(p => p.name === column.name)) {
+          errors.push(`Entidade '${entity.name}': propriedade '${column.name}' conflita com o campo gerado por softDelete/audit`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Preenche softDelete/audit das entidades que não os definem com os valores do projeto
+   * (entidades fora da BaseEntity ficam sempre sem exclusão lógica e auditoria)
+   */
+  applyAuditOptions(entities: EntityDefinition[], defaults: AuditOptions = {}): EntityDefinition[] {
+    return entities.map(entity => ({
+      ...entity,
+      ...(entity.inheritsFromBase === false ? { softDelete: false, audit: false } : this.resolveOptions(entity, defaults))
+    }));
+  }
+
+  /**
+   * Colunas gravadas pela exclusão lógica e pela auditoria da entidade
+   */
+  getColumns(entity: Pick<EntityDefinition, 'softDelete' | 'audit'>): AuditColumn[] {
+    return [
+      ...(entity.softDelete ? SOFT_DELETE_COLUMNS : []),
+      ...(entity.audit ? AUDIT_COLUMNS : [])
+    ];
+  }
+
+  /**
+   * Configuração no OnModelCreating: filtro global que esconde os registros excluídos
+   * e tamanho das colunas de auditoria
+   */
+  buildModelConfiguration(entities: EntityDefinition[]): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      if (entity.inheritsFromBase === false) continue;
+
+      const start = lines.length;
+
+      // Em tabelas compartilhadas por tenant o filtro é combinado ao do TenantId (TenancyService)
+      if (entity.softDelete && entity.tenantStrategy !== 'sharedTable') {
+        lines.push(
+          `            modelBuilder.Entity<${entity.name}Entity>()`,
+          '                .HasQueryFilter(e => !e.IsDeleted);'
+        );
+      }
+
+      if (entity.audit) {
+        for (const column of AUDIT_COLUMNS) {
+          lines.push(
+            `            modelBuilder.Entity<${entity.name}Entity>()`,
+            `                .Property(e => e.${column.name})`,
+            `                .HasMaxLength(${column.maxLength});`
+          );
+        }
+      }
+
+      if (lines.length > start) {
+        lines.push('');
+      }
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  private resolveOptions(entity: AuditOptions, defaults: AuditOptions): Required<AuditOptions> {
+    return {
+      softDelete: entity.softDelete ?? defaults.softDelete ?? false,
+      audit: entity.audit ?? defaults.audit ?? false
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { EntityDefinition } from '../types/entity';
+import { CommandService } from './commandService';
+import { HandlerService } from './handlerService';
+import { RelationshipService } from './relationshipService';
+
+const entity = (name: string, relationships: EntityDefinition['relationships'] = []): EntityDefinition => ({
+  name,
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }],
+  relationships
+});
+
+describe('CommandService com relacionamentos', () => {
+  const commandService = new CommandService();
+
+  const [category, product] = new RelationshipService().expandEntities([
+    entity('Category', [{ type: 'manyToMany', target: 'Product' }]),
+    entity('Product', [{ type: 'manyToOne', target: 'Category' }])
+  ]);
+
+  it('deixa as navegações fora dos comandos', () => {
+    expect(commandService.getCommandProperties(product).map(p => p.name)).toEqual(['Name', 'CategoryId']);
+    expect(commandService.getCommandProperties(category).map(p => p.name)).toEqual(['Name']);
+
+    const createCommand = commandService.generateCommand(product, true);
+    expect(createCommand).toContain('public CreateProductCommand(string name, Guid categoryId)');
+    expect(createCommand).not.toContain('CategoryEntity');
+    expect(commandService.generateUpdateCommand(category)).not.toContain('ProductTags');
+  });
+
+  it('não importa System.Collections.Generic no handler quando só as navegações são coleções', () => {
+    expect(new HandlerService().generateHandler(category)).not.toContain('using System.Collections.Generic;');
+  });
+
+  it('mantém a FK no comando de atualização e na sua validação', () => {
+    expect(commandService.getUpdateProperties(product).map(p => p.name)).toEqual(['Name', 'CategoryId']);
+    expect(commandService.generateUpdateCommand(product)).toContain('ValidateGuidNotEmpty(CategoryId');
+  });
+});
+
+describe('CommandService com chave configurada', () => {
+  const commandService = new CommandService();
+  const order: EntityDefinition = {
+    name: 'Order',
+    idType: 'int',
+    idName: 'OrderNumber',
+    properties: [
+      { name: 'OrderNumber', type: 'int', isRequired: true, isNavigationProperty: false },
+      { name: 'ExternalId', type: 'string', isRequired: false, isNavigationProperty: false }
+    ]
+  };
+
+  it('separa a chave pelo nome configurado, não por conter "id"', () => {
+    expect(commandService.getCreateConstructorProperties(order).map(p => p.name)).toEqual(['ExternalId']);
+    expect(commandService.getUpdateProperties(order).map(p => p.name)).toEqual(['ExternalId']);
+  });
+});
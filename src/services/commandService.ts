@@ -1,16 +1,22 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as Handlebars from 'handlebars';
 import { EntityDefinition, EntityProperty } from '../types/entity';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { ValidationService } from './validationService';
+import { PrimaryKeyService } from './primaryKeyService';
 
 export class CommandService {
+  private validationService = new ValidationService();
+  private primaryKeyService = new PrimaryKeyService();
+
   constructor() {
     // Sem carregamento de templates no constructor
   }
 
   /**
    * Gera código C# do comando baseado na definição da entidade
+   * A chave só entra no comando de criação quando não é gerada ao inserir (idType string)
    */
   generateCommand(definition: EntityDefinition, includeId: boolean = true): string {
     const template = TemplateManager.getTemplate('domain/commands/command.hbs');
@@ -28,13 +34,25 @@ export class CommandService {
   }
 
   /**
-   * Gera arquivo de comando no projeto - Sempre cria/sobrescreve ambos os comandos (Create e Update)
+   * Gera código C# do comando de exclusão
+   */
+  generateDeleteCommand(definition: EntityDefinition): string {
+    const template = TemplateManager.getTemplate('domain/commands/deleteCommand.hbs');
+    return template({
+      entityName: definition.name,
+      folderName: `${definition.name}Commands`,
+      ...this.buildKeyData(definition)
+    });
+  }
+
+  /**
+   * Gera arquivo de comando no projeto - Sempre cria/sobrescreve os comandos (Create, Update e Delete)
    */
   async generateCommandFile(projectPath: string, definition: EntityDefinition, includeId: boolean = true): Promise<{ success: boolean; message: string; filePaths?: string[]; error?: string }> {
     try {
       // Validar projeto
       const domainPath = path.join(projectPath, 'Domain');
-      if (!fs.existsSync(domainPath)) {
+      if (!fileOutput.existsSync(domainPath)) {
         return {
           success: false,
           message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
@@ -46,26 +64,29 @@ export class CommandService {
       const commandsBasePath = path.join(domainPath, 'Commands');
       const entityCommandsPath = path.join(commandsBasePath, `${definition.name}Commands`);
       
-      if (!fs.existsSync(entityCommandsPath)) {
-        fs.mkdirSync(entityCommandsPath, { recursive: true });
+      if (!fileOutput.existsSync(entityCommandsPath)) {
+        fileOutput.mkdirSync(entityCommandsPath, { recursive: true });
       }
 
       // Definir caminhos dos arquivos
       const createCommandFilePath = path.join(entityCommandsPath, `Create${definition.name}Command.cs`);
       const updateCommandFilePath = path.join(entityCommandsPath, `Update${definition.name}Command.cs`);
+      const deleteCommandFilePath = path.join(entityCommandsPath, `Delete${definition.name}Command.cs`);
       
       // Verificar se arquivos já existem para determinar se é criação ou edição
-      const createExists = fs.existsSync(createCommandFilePath);
-      const updateExists = fs.existsSync(updateCommandFilePath);
+      const createExists = fileOutput.existsSync(createCommandFilePath);
+      const updateExists = fileOutput.existsSync(updateCommandFilePath);
       const isEditing = createExists || updateExists;
 
       // Gerar códigos dos comandos
       const createCommandCode = this.generateCommand(definition, includeId);
       const updateCommandCode = this.generateUpdateCommand(definition);
+      const deleteCommandCode = this.generateDeleteCommand(definition);
 
       // Sempre criar/sobrescrever arquivos
-      fs.writeFileSync(createCommandFilePath, createCommandCode, 'utf8');
-      fs.writeFileSync(updateCommandFilePath, updateCommandCode, 'utf8');
+      fileOutput.writeFileSync(createCommandFilePath, createCommandCode, 'utf8');
+      fileOutput.writeFileSync(updateCommandFilePath, updateCommandCode, 'utf8');
+      fileOutput.writeFileSync(deleteCommandFilePath, deleteCommandCode, 'utf8');
 
       const actionType = isEditing ? 'atualizados' : 'criados';
       const message = `Comandos para '${definition.name}' ${actionType} com sucesso`;
@@ -73,7 +94,7 @@ export class CommandService {
       return {
         success: true,
         message: message,
-        filePaths: [createCommandFilePath, updateCommandFilePath]
+        filePaths: [createCommandFilePath, updateCommandFilePath, deleteCommandFilePath]
       };
 
     } catch (error: any) {
@@ -93,22 +114,22 @@ export class CommandService {
     try {
       const commandsPath = path.join(projectPath, 'Domain', 'Commands');
       
-      if (!fs.existsSync(commandsPath)) {
+      if (!fileOutput.existsSync(commandsPath)) {
         return [];
       }
 
       const commands: string[] = [];
       
       // Ler arquivos na raiz de Commands
-      const rootFiles = fs.readdirSync(commandsPath);
+      const rootFiles = fileOutput.readdirSync(commandsPath);
       for (const item of rootFiles) {
         const itemPath = path.join(commandsPath, item);
         
-        if (fs.statSync(itemPath).isFile() && item.endsWith('Command.cs')) {
+        if (fileOutput.statSync(itemPath).isFile() && item.endsWith('Command.cs')) {
           commands.push(item.replace('.cs', ''));
-        } else if (fs.statSync(itemPath).isDirectory() && !item.includes('Contracts')) {
+        } else if (fileOutput.statSync(itemPath).isDirectory() && !item.includes('Contracts')) {
           // Ler arquivos nas subpastas (ex: UserCommands/) - ignorar Contracts
-          const subFiles = fs.readdirSync(itemPath);
+          const subFiles = fileOutput.readdirSync(itemPath);
           for (const subFile of subFiles) {
             if (subFile.endsWith('Command.cs')) {
               commands.push(`${item}/${subFile.replace('.cs', '')}`);
@@ -129,21 +150,18 @@ export class CommandService {
    * Prepara dados para o template de comando
    */
   private prepareCommandTemplateData(definition: EntityDefinition, includeId: boolean, commandType: 'Create' | 'Update' = 'Create') {
-    // Verificar se a entidade já tem uma propriedade Id
-    const hasIdProperty = definition.properties.some(p => p.name.toLowerCase() === 'id');
-    
-    // Se já tem propriedade Id na entidade, não incluir o Guid Id padrão
-    const shouldIncludeGuidId = includeId && !hasIdProperty;
+    const shouldIncludeKey = includeId && this.includesKeyOnCreate(definition);
     
-    // Para comandos Create, incluir todas as propriedades
-    const properties = definition.properties;
+    // Para comandos Create, incluir todas as propriedades (exceto as navegações)
+    const properties = this.getCommandProperties(definition);
     
     const hasCollections = properties.some(p => p.isCollection);
     const hasEntities = properties.some(p => p.isNavigationProperty);
+    const hasEnums = properties.some(p => p.isEnum);
     
     // Construir parâmetros do construtor - incluir propriedades obrigatórias ou todas se for Create
     const constructorProps = commandType === 'Create' 
-      ? properties.filter(p => p.isRequired || !p.name.toLowerCase().includes('id'))
+      ? this.getCreateConstructorProperties(definition)
       : properties.filter(p => p.isRequired);
       
     const constructorParams = constructorProps
@@ -172,12 +190,15 @@ export class CommandService {
       name: `${commandType}${definition.name}Command`,
       entityName: definition.name,
       folderName: `${definition.name}Commands`,
-      id: shouldIncludeGuidId,
+      id: shouldIncludeKey,
+      ...this.buildKeyData(definition),
       hasCollections,
       hasEntities,
+      hasEnums,
       structureConstructor: constructorParams,
       structureEntityThis: constructorAssignments,
-      structureEntityPublic: publicProperties
+      structureEntityPublic: publicProperties,
+      structureValidations: this.buildValidations(properties)
     };
   }
 
@@ -185,14 +206,16 @@ export class CommandService {
    * Prepara dados para o template de comando de atualização
    */
   private prepareUpdateCommandTemplateData(definition: EntityDefinition) {
-    const properties = definition.properties; // Para update, incluir todas as propriedades
+    const properties = this.getCommandProperties(definition); // Para update, incluir todas as propriedades (exceto as navegações)
+    const updateProperties = this.getUpdateProperties(definition);
+    const constructorProps = this.getUpdateConstructorProperties(definition);
     
     const hasCollections = properties.some(p => p.isCollection);
     const hasEntities = properties.some(p => p.isNavigationProperty);
+    const hasEnums = properties.some(p => p.isEnum);
     
     // Para update, parâmetros opcionais (exceto collections que não vão no construtor)
-    const constructorParams = properties
-      .filter(p => !p.isCollection && !p.name.toLowerCase().includes('id'))
+    const constructorParams = constructorProps
       .map(p => {
         const csharpType = this.mapToCSharpType(p.type);
         return `${csharpType} ${this.toCamelCase(p.name)}`;
@@ -200,14 +223,12 @@ export class CommandService {
       .join(', ');
 
     // Assignments no construtor (exceto Id que já é tratado no template)
-    const constructorAssignments = properties
-      .filter(p => !p.isCollection && !p.name.toLowerCase().includes('id'))
+    const constructorAssignments = constructorProps
       .map(p => `\n            this.${p.name} = ${this.toCamelCase(p.name)};`)
       .join('');
 
     // Todas as propriedades (exceto Id que já é tratado no template)
-    const publicProperties = properties
-      .filter(p => !p.name.toLowerCase().includes('id'))
+    const publicProperties = updateProperties
       .map(p => {
         const csharpType = this.mapToCSharpType(p.type);
         const propType = p.isCollection ? `${p.isCollection}<${csharpType}>` : csharpType;
@@ -218,15 +239,85 @@ export class CommandService {
     return {
       entityName: definition.name,
       folderName: `${definition.name}Commands`,
+      ...this.buildKeyData(definition),
       hasCollections,
       hasEntities,
+      hasEnums,
       hasConstructorParams: constructorParams.length > 0,
       structureConstructor: constructorParams,
       structureEntityThis: constructorAssignments,
-      structureEntityPublic: publicProperties
+      structureEntityPublic: publicProperties,
+      structureValidations: this.buildValidations(updateProperties)
     };
   }
 
+  /**
+   * Indica se a chave é informada no comando de criação: só as que não são geradas ao inserir
+   * (idType string) e que a entidade não declara como propriedade
+   */
+  includesKeyOnCreate(definition: EntityDefinition): boolean {
+    const key = this.primaryKeyService.getKey(definition);
+    return !key.isGenerated && !definition.properties.some(p => p.name === key.name);
+  }
+
+  /**
+   * Propriedades que entram nos comandos: navegações (entidade ou coleção de entidades) ficam de fora,
+   * o relacionamento é informado pela FK
+   */
+  getCommandProperties(definition: EntityDefinition): EntityProperty[] {
+    return definition.properties.filter(p => !this.validationService.isNavigation(p));
+  }
+
+  /**
+   * Propriedades do construtor do comando de criação (depois da chave, quando ela é informada); a chave gerada ao inserir fica de fora
+   */
+  getCreateConstructorProperties(definition: EntityDefinition): EntityProperty[] {
+    const key = this.primaryKeyService.getKey(definition);
+    return this.getCommandProperties(definition).filter(p => !(key.isGenerated && p.name === key.name));
+  }
+
+  /**
+   * Propriedades do comando de atualização (a chave fica de fora, já é tratada no template)
+   */
+  getUpdateProperties(definition: EntityDefinition): EntityProperty[] {
+    const key = this.primaryKeyService.getKey(definition);
+    return this.getCommandProperties(definition).filter(p => p.name !== key.name);
+  }
+
+  /**
+   * Propriedades do construtor do comando de atualização (depois da chave), sem as collections
+   */
+  getUpdateConstructorProperties(definition: EntityDefinition): EntityProperty[] {
+    return this.getUpdateProperties(definition).filter(p => !p.isCollection);
+  }
+
+  /**
+   * Dados da chave primária usados nos templates dos comandos
+   */
+  buildKeyData(definition: EntityDefinition) {
+    const key = this.primaryKeyService.getKey(definition);
+
+    return {
+      idType: key.type,
+      idName: key.name,
+      idParameter: key.parameterName,
+      idValidation: key.validation
+    };
+  }
+
+  /**
+   * Constrói as chamadas de validação do IsCommandValid
+   */
+  private buildValidations(properties: EntityProperty[]): string {
+    const validations = this.validationService.buildCommandValidations(properties);
+
+    if (validations.length === 0) {
+      return '';
+    }
+
+    return validations.join('\n            ') + '\n\n            ';
+  }
+
   /**
    * Mapeia tipos para C#
    */
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EntityDefinition } from '../types/entity';
+import { DatabaseProviderService } from './databaseProviderService';
+import { InfrastructureService } from './infrastructureService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [
+    { name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false },
+    { name: 'Price', type: 'decimal', isRequired: true, isNavigationProperty: false },
+    { name: 'Discount', type: 'decimal?', isRequired: false, isNavigationProperty: false }
+  ]
+};
+
+describe('DatabaseProviderService', () => {
+  const service = new DatabaseProviderService();
+
+  it('rejeita providers não suportados', () => {
+    expect(service.validateOptions({ provider: 'oracle' as any })).toBe(
+      "Provider de banco 'oracle' não suportado. Use: sqlserver, postgres, mysql, sqlite, inmemory");
+    expect(service.validateOptions({ provider: 'postgres' })).toBeNull();
+  });
+
+  it('usa sqlserver por padrão e a connection string de exemplo do provider', () => {
+    expect(service.getProvider().package.name).toBe('Microsoft.EntityFrameworkCore.SqlServer');
+    expect(service.getConnectionString('Shop', { provider: 'postgres' })).toBe('Host=localhost;Port=5432;Database=shop;Username=postgres;Password=postgres');
+    expect(service.getConnectionString('Shop', { provider: 'sqlite', connectionString: 'Data Source=app.db' })).toBe('Data Source=app.db');
+  });
+
+  it('gera o tipo de coluna dos decimais conforme o provider', () => {
+    const lines = service.buildModelConfiguration([product], { provider: 'postgres' });
+
+    expect(lines.filter(line => line.includes('HasColumnType'))).toEqual([
+      '                .HasColumnType("numeric(18,2)");',
+      '                .HasColumnType("numeric(18,2)");'
+    ]);
+    expect(service.buildModelConfiguration([product], { provider: 'sqlite' })).toEqual([]);
+  });
+});
+
+describe('InfrastructureService.createDatabaseConfig', () => {
+  let infrastructurePath: string;
+
+  beforeEach(() => {
+    infrastructurePath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-infrastructure-'));
+    fs.mkdirSync(path.join(infrastructurePath, 'Configuration'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(infrastructurePath, { recursive: true, force: true });
+  });
+
+  it('registra o DbContext com o provider escolhido', async () => {
+    const result = await new InfrastructureService().createDatabaseConfig(infrastructurePath, { provider: 'postgres' });
+
+    const content = fs.readFileSync(path.join(infrastructurePath, 'Configuration', 'DatabaseConfig.cs'), 'utf-8');
+    expect(result.success).toBe(true);
+    expect(content).toContain('UseNpgsql(connectionString)');
+    expect(content).not.toContain('UseSqlServer');
+  });
+});
@@ -0,0 +1,191 @@
+import { EntityDefinition } from '../types/entity';
+import { DatabaseOptions, DatabaseProvider } from '../types/project';
+
+export interface DatabaseProviderInfo {
+  provider: DatabaseProvider;
+  package: { name: string; version: string };
+  decimalColumnType?: string;        // Tipo de coluna para decimal (quando o provider precisa)
+  columnTypes: Record<string, string>; // Tipo C# -> tipo de coluna gerado nas migrations
+  sizedStringType?: (maxLength: number) => string; // Tipo de coluna para string com HasMaxLength
+  identityColumn?: {                 // Chaves int/long geradas pelo banco
+    annotation: string;              // Annotation da coluna na migration
+    modelStatement?: (property: string) => string; // Configuração da propriedade no Designer/ModelSnapshot
+  };
+  supportsMigrations: boolean;
+  supportsSchemas: boolean;          // Suporta schemas (multi-tenancy schemaPerTenant)
+  sampleConnectionString: (projectName: string) => string;
+}
+
+/**
+ * Metadados dos providers do EF Core suportados
+ */
+const providers: Record<DatabaseProvider, DatabaseProviderInfo> = {
+  sqlserver: {
+    provider: 'sqlserver',
+    package: { name: 'Microsoft.EntityFrameworkCore.SqlServer', version: '8.0.0' },
+    decimalColumnType: 'decimal(18,2)',
+    columnTypes: {
+      Guid: 'uniqueidentifier', string: 'nvarchar(max)', int: 'int', long: 'bigint', short: 'smallint', byte: 'tinyint',
+      double: 'float', float: 'real', decimal: 'decimal(18,2)', bool: 'bit', DateTime: 'datetime2', DateTimeOffset: 'datetimeoffset'
+    },
+    sizedStringType: length => `nvarchar(${length})`,
+    identityColumn: {
+      annotation: '.Annotation("SqlServer:Identity", "1, 1")',
+      modelStatement: property => `SqlServerPropertyBuilderExtensions.UseIdentityColumn(${property});`
+    },
+    supportsMigrations: true,
+    supportsSchemas: true,
+    sampleConnectionString: name => `Server=localhost,1433;Database=${name};User Id=sa;Password=Your_password123;TrustServerCertificate=True`
+  },
+  postgres: {
+    provider: 'postgres',
+    package: { name: 'Npgsql.EntityFrameworkCore.PostgreSQL', version: '8.0.0' },
+    decimalColumnType: 'numeric(18,2)',
+    columnTypes: {
+      Guid: 'uuid', string: 'text', int: 'integer', long: 'bigint', short: 'smallint', byte: 'smallint',
+      double: 'double precision', float: 'real', decimal: 'numeric(18,2)', bool: 'boolean',
+      DateTime: 'timestamp without time zone', DateTimeOffset: 'timestamp with time zone'
+    },
+    sizedStringType: length => `character varying(${length})`,
+    identityColumn: {
+      annotation: '.Annotation("Npgsql:ValueGenerationStrategy", Npgsql.EntityFrameworkCore.PostgreSQL.Metadata.NpgsqlValueGenerationStrategy.IdentityByDefaultColumn)',
+      modelStatement: property => `NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(${property});`
+    },
+    supportsMigrations: true,
+    supportsSchemas: true,
+    sampleConnectionString: name => `Host=localhost;Port=5432;Database=${name.toLowerCase()};Username=postgres;Password=postgres`
+  },
+  mysql: {
+    provider: 'mysql',
+    package: { name: 'Pomelo.EntityFrameworkCore.MySql', version: '8.0.0' },
+    decimalColumnType: 'decimal(18,2)',
+    columnTypes: {
+      Guid: 'char(36)', string: 'longtext', int: 'int', long: 'bigint', short: 'smallint', byte: 'tinyint unsigned',
+      double: 'double', float: 'float', decimal: 'decimal(18,2)', bool: 'tinyint(1)', DateTime: 'datetime(6)', DateTimeOffset: 'datetime(6)'
+    },
+    sizedStringType: length => `varchar(${length})`,
+    identityColumn: {
+      annotation: '.Annotation("MySql:ValueGenerationStrategy", Microsoft.EntityFrameworkCore.Metadata.MySqlValueGenerationStrategy.IdentityColumn)',
+      modelStatement: property => `MySqlPropertyBuilderExtensions.UseMySqlIdentityColumn(${property});`
+    },
+    supportsMigrations: true,
+    supportsSchemas: false,
+    sampleConnectionString: name => `Server=localhost;Port=3306;Database=${name.toLowerCase()};User=root;Password=root`
+  },
+  sqlite: {
+    provider: 'sqlite',
+    package: { name: 'Microsoft.EntityFrameworkCore.Sqlite', version: '8.0.0' },
+    columnTypes: {
+      Guid: 'TEXT', string: 'TEXT', int: 'INTEGER', long: 'INTEGER', short: 'INTEGER', byte: 'INTEGER',
+      double: 'REAL', float: 'REAL', decimal: 'TEXT', bool: 'INTEGER', DateTime: 'TEXT', DateTimeOffset: 'TEXT'
+    },
+    identityColumn: {
+      annotation: '.Annotation("Sqlite:Autoincrement", true)'
+    },
+    supportsMigrations: true,
+    supportsSchemas: false,
+    sampleConnectionString: name => `Data Source=${name}.db`
+  },
+  inmemory: {
+    provider: 'inmemory',
+    package: { name: 'Microsoft.EntityFrameworkCore.InMemory', version: '8.0.0' },
+    columnTypes: {},
+    supportsMigrations: false,
+    supportsSchemas: false,
+    sampleConnectionString: name => `${name}Db`
+  }
+};
+
+export class DatabaseProviderService {
+
+  /**
+   * Lista os providers suportados
+   */
+  listProviders(): DatabaseProvider[] {
+    return Object.keys(providers) as DatabaseProvider[];
+  }
+
+  /**
+   * Valida as opções de banco de dados do projeto
+   */
+  validateOptions(database?: DatabaseOptions): string | null {
+    if (!database) {
+      return null;
+    }
+
+    if (database.provider && !this.listProviders().includes(database.provider)) {
+      return `Provider de banco '${database.provider}' não suportado. Use: ${this.listProviders().join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtém os metadados do provider (padrão: sqlserver)
+   */
+  getProvider(database?: DatabaseOptions): DatabaseProviderInfo {
+    return providers[database?.provider || 'sqlserver'];
+  }
+
+  /**
+   * Identifica o provider de um projeto já gerado pelo PackageReference do Infrastructure.csproj
+   */
+  detectProvider(csprojContent: string): DatabaseProvider | undefined {
+    return this.listProviders().find(provider =>
+      csprojContent.includes(`Include="${providers[provider].package.name}"`));
+  }
+
+  /**
+   * Obtém a connection string configurada ou o exemplo do provider
+   */
+  getConnectionString(projectName: string, database?: DatabaseOptions): string {
+    return database?.connectionString || this.getProvider(database).sampleConnectionString(projectName);
+  }
+
+  /**
+   * Dados para o template DatabaseConfig
+   */
+  getTemplateData(database?: DatabaseOptions): Record<string, boolean> {
+    const provider = this.getProvider(database).provider;
+
+    return {
+      isSqlServer: provider === 'sqlserver',
+      isPostgres: provider === 'postgres',
+      isMySql: provider === 'mysql',
+      isSqlite: provider === 'sqlite',
+      isInMemory: provider === 'inmemory'
+    };
+  }
+
+  /**
+   * Gera os tipos de coluna específicos do provider para o OnModelCreating
+   */
+  buildModelConfiguration(entities: EntityDefinition[], database?: DatabaseOptions): string[] {
+    const { decimalColumnType } = this.getProvider(database);
+    const lines: string[] = [];
+
+    if (!decimalColumnType) {
+      return lines;
+    }
+
+    for (const entity of entities) {
+      for (const property of entity.properties || []) {
+        if (!property.isCollection && /^decimal\??$/i.test(property.type)) {
+          lines.push(
+            `            modelBuilder.Entity<${entity.name}Entity>()`,
+            `                .Property(e => e.${property.name})`,
+            `                .HasColumnType("${decimalColumnType}");`,
+            ''
+          );
+        }
+      }
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+}
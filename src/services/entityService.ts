@@ -1,10 +1,13 @@
 import * as path from 'path';
-import * as fs from 'fs';
 import * as Handlebars from 'handlebars';
 import { EntityDefinition, EntityGenerationRequest, EntityGenerationResult, EntityProperty } from '../types/entity';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { PrimaryKeyService } from './primaryKeyService';
 
 export class EntityService {
+  private primaryKeyService = new PrimaryKeyService();
+
   constructor() {
     // Sem carregamento de templates no constructor
     this.registerHelpers();
@@ -13,7 +16,7 @@ export class EntityService {
   /**
    * Gera código C# da entidade baseado na definição
    */
-  private generateEntityCode(definition: EntityDefinition): string {
+  generateEntityCode(definition: EntityDefinition): string {
     const template = TemplateManager.getTemplate('domain/entities/entity.hbs');
     const templateData = this.prepareTemplateData(definition);
     return template(templateData);
@@ -24,15 +27,23 @@ export class EntityService {
    */
   private prepareTemplateData(definition: EntityDefinition): any {
     const hasCollections = definition.properties.some(p => p.isCollection);
+    const hasEnums = definition.properties.some(p => p.isEnum);
     
     // Por padrão, herdar de BaseEntity (a menos que explicitamente definido como false)
     const shouldInheritFromBase = definition.inheritsFromBase !== false;
+    const key = this.primaryKeyService.getKey(definition);
 
     return {
       name: definition.name,
       namespace: definition.namespace || 'Domain.Entities',
       baseSkip: !shouldInheritFromBase,
+      idType: key.type,
+      idName: key.name,
+      softDelete: shouldInheritFromBase && !!definition.softDelete,
+      audit: shouldInheritFromBase && !!definition.audit,
+      hasContracts: shouldInheritFromBase && !!(definition.softDelete || definition.audit),
       hasCollections,
+      hasEnums,
       structureConstructor: this.buildConstructorParameters(definition.properties),
       structureEntityThis: this.buildConstructorBody(definition.properties),
       structureEntityPublic: this.buildProperties(definition.properties),
@@ -47,7 +58,7 @@ export class EntityService {
     try {
       // Validar projeto
       const domainPath = path.join(request.projectPath, 'Domain');
-      if (!fs.existsSync(domainPath)) {
+      if (!fileOutput.existsSync(domainPath)) {
         return {
           success: false,
           message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
@@ -59,7 +70,7 @@ export class EntityService {
       const entitiesPath = path.join(domainPath, 'Entities');
       const entityFilePath = path.join(entitiesPath, `${request.entity.name}Entity.cs`);
       
-      if (fs.existsSync(entityFilePath)) {
+      if (fileOutput.existsSync(entityFilePath)) {
         return {
           success: false,
           message: `Entidade '${request.entity.name}Entity' já existe.`,
@@ -71,7 +82,7 @@ export class EntityService {
       const entityCode = this.generateEntityCode(request.entity);
 
       // Criar arquivo
-      fs.writeFileSync(entityFilePath, entityCode, 'utf8');
+      fileOutput.writeFileSync(entityFilePath, entityCode, 'utf8');
 
       return {
         success: true,
@@ -97,11 +108,11 @@ export class EntityService {
     try {
       const entitiesPath = path.join(projectPath, 'Domain', 'Entities');
       
-      if (!fs.existsSync(entitiesPath)) {
+      if (!fileOutput.existsSync(entitiesPath)) {
         return [];
       }
 
-      const files = fs.readdirSync(entitiesPath);
+      const files = fileOutput.readdirSync(entitiesPath);
       return files
         .filter(file => file.endsWith('.cs'))
         .map(file => file.replace('.cs', ''));
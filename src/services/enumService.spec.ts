@@ -0,0 +1,66 @@
+import { EntityDefinition } from '../types/entity';
+import { CommandService } from './commandService';
+import { EnumService } from './enumService';
+
+const order: EntityDefinition = {
+  name: 'Order',
+  properties: [
+    { name: 'Number', type: 'string', isRequired: true, isNavigationProperty: false },
+    { name: 'Status', type: 'orderstatus', isRequired: true, isNavigationProperty: false },
+    { name: 'Channel', type: 'SalesChannel?', isRequired: false, isNavigationProperty: false }
+  ]
+};
+
+describe('EnumService', () => {
+  const service = new EnumService();
+  const enums = [
+    { name: 'OrderStatus', values: ['Pending', { name: 'Shipped', value: 5 }] },
+    { name: 'SalesChannel', values: ['Web', 'Store'], storeAs: 'string' as const }
+  ];
+
+  it('rejeita enums duplicados, sem valores ou com valores inválidos', () => {
+    expect(service.validateEnums([
+      { name: 'OrderStatus', values: ['Pending'] },
+      { name: 'OrderStatus', values: ['in-progress'] },
+      { name: 'Empty', values: [] }
+    ])).toEqual([
+      "Enum 'OrderStatus' declarado mais de uma vez",
+      "Enum 'OrderStatus' contém valores inválidos",
+      "Enum 'Empty' deve ter ao menos um valor"
+    ]);
+  });
+
+  it('marca as propriedades do tipo enum e normaliza o nome do tipo', () => {
+    const [entity] = service.applyEnumTypes([order], enums);
+
+    expect(entity.properties.map(p => [p.type, !!p.isEnum])).toEqual([
+      ['string', false],
+      ['OrderStatus', true],
+      ['SalesChannel?', true]
+    ]);
+  });
+
+  it('gera o enum C# com os valores explícitos', () => {
+    const code = service.generateEnumCode(enums[0]);
+
+    expect(code).toContain('public enum OrderStatus');
+    expect(code).toContain('Pending,');
+    expect(code).toContain('Shipped = 5');
+  });
+
+  it('converte para string apenas os enums com storeAs "string"', () => {
+    const lines = service.buildModelConfiguration(service.applyEnumTypes([order], enums), enums);
+
+    expect(lines.map(line => line.trim())).toEqual([
+      'modelBuilder.Entity<OrderEntity>()',
+      '.Property(e => e.Channel)',
+      '.HasConversion<string>();'
+    ]);
+  });
+
+  it('valida os valores dos enums nos comandos', () => {
+    const [entity] = service.applyEnumTypes([order], enums);
+
+    expect(new CommandService().generateCommand(entity)).toContain('ValidateEnumDefined(Status, "Status");');
+  });
+});
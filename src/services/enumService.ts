@@ -0,0 +1,173 @@
+import * as path from 'path';
+import { EntityDefinition, EnumDefinition, EnumValue } from '../types/entity';
+import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+
+export class EnumService {
+
+  constructor() {
+    // Templates gerenciados via TemplateManager
+  }
+
+  /**
+   * Valida as definições de enums do scaffold
+   */
+  validateEnums(enums: EnumDefinition[]): string[] {
+    const errors: string[] = [];
+    const names = new Set<string>();
+
+    for (const enumDef of enums) {
+      if (!enumDef?.name || !/^[A-Z][a-zA-Z0-9]*$/.test(enumDef.name)) {
+        errors.push(`Enum inválido: '${enumDef?.name}' deve começar com maiúscula e conter apenas letras/números`);
+        continue;
+      }
+
+      if (names.has(enumDef.name)) {
+        errors.push(`Enum '${enumDef.name}' declarado mais de uma vez`);
+      }
+      names.add(enumDef.name);
+
+      if (!Array.isArray(enumDef.values) || enumDef.values.length === 0) {
+        errors.push(`Enum '${enumDef.name}' deve ter ao menos um valor`);
+        continue;
+      }
+
+      const valueNames = this.normalizeValues(enumDef.values).map(v => v.name);
+      if (valueNames.some(v => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(v))) {
+        errors.push(`Enum '${enumDef.name}' contém valores inválidos`);
+      }
+      if (new Set(valueNames).size !== valueNames.length) {
+        errors.push(`Enum '${enumDef.name}' contém valores duplicados`);
+      }
+
+      if (enumDef.storeAs && !['string', 'int'].includes(enumDef.storeAs)) {
+        errors.push(`Enum '${enumDef.name}': storeAs deve ser 'string' ou 'int'`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Marca as propriedades cujo tipo é um enum declarado, normalizando o nome do tipo
+   * (ex: "orderstatus?" -> "OrderStatus?")
+   */
+  applyEnumTypes(entities: EntityDefinition[], enums: EnumDefinition[]): EntityDefinition[] {
+    if (enums.length === 0) {
+      return entities;
+    }
+
+    const enumNames = new Map(enums.map(e => [e.name.toLowerCase(), e.name]));
+
+    return entities.map(entity => ({
+      ...entity,
+      properties: (entity.properties || []).map(property => {
+        const isNullable = property.type.endsWith('?');
+        const baseType = isNullable ? property.type.slice(0, -1) : property.type;
+        const enumName = enumNames.get(baseType.toLowerCase());
+
+        if (!enumName) {
+          return property;
+        }
+
+        return { ...property, type: `${enumName}${isNullable ? '?' : ''}`, isEnum: true };
+      })
+    }));
+  }
+
+  /**
+   * Gera os arquivos de enums na pasta Domain/Enums
+   */
+  async generateEnums(domainPath: string, enums: EnumDefinition[]): Promise<{ success: boolean; message: string; filePaths?: string[]; error?: string }> {
+    try {
+      if (!fileOutput.existsSync(domainPath)) {
+        return {
+          success: false,
+          message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
+          error: 'Domain project not found'
+        };
+      }
+
+      const enumsPath = path.join(domainPath, 'Enums');
+
+      if (!fileOutput.existsSync(enumsPath)) {
+        fileOutput.mkdirSync(enumsPath, { recursive: true });
+      }
+
+      const filePaths: string[] = [];
+
+      for (const enumDef of enums) {
+        const filePath = path.join(enumsPath, `${enumDef.name}.cs`);
+        fileOutput.writeFileSync(filePath, this.generateEnumCode(enumDef), 'utf8');
+        filePaths.push(filePath);
+      }
+
+      return {
+        success: true,
+        message: `${filePaths.length} enums gerados com sucesso`,
+        filePaths
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar enums:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao gerar enums',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Gera código C# do enum
+   */
+  generateEnumCode(enumDef: EnumDefinition): string {
+    const template = TemplateManager.getTemplate('domain/enums/enum.hbs');
+
+    return template({
+      name: enumDef.name,
+      values: this.normalizeValues(enumDef.values).map(v => ({
+        name: v.name,
+        value: v.value,
+        hasValue: typeof v.value === 'number'
+      }))
+    });
+  }
+
+  /**
+   * Gera as conversões do EF Core para enums armazenados como string
+   */
+  buildModelConfiguration(entities: EntityDefinition[], enums: EnumDefinition[]): string[] {
+    const stringEnums = new Set(enums.filter(e => e.storeAs === 'string').map(e => e.name));
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      for (const property of entity.properties || []) {
+        const baseType = property.type.replace(/\?$/, '');
+
+        if (property.isEnum && !property.isCollection && stringEnums.has(baseType)) {
+          lines.push(
+            `            modelBuilder.Entity<${entity.name}Entity>()`,
+            `                .Property(e => e.${property.name})`,
+            `                .HasConversion<string>();`,
+            ''
+          );
+        }
+      }
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Normaliza valores declarados como string ou objeto
+   */
+  private normalizeValues(values: (string | EnumValue)[]): EnumValue[] {
+    return values.map(v => typeof v === 'string' ? { name: v } : v);
+  }
+}
@@ -1,9 +1,13 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { EntityDefinition, EntityProperty } from '../types/entity';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { PrimaryKeyService } from './primaryKeyService';
+import { CommandService } from './commandService';
 
 export class HandlerService {
+  private primaryKeyService = new PrimaryKeyService();
+  private commandService = new CommandService();
 
   constructor() {
     // Templates são carregados dinamicamente via TemplateManager
@@ -30,7 +34,7 @@ export class HandlerService {
     try {
       // Validar projeto
       const domainPath = path.join(projectPath, 'Domain');
-      if (!fs.existsSync(domainPath)) {
+      if (!fileOutput.existsSync(domainPath)) {
         return {
           success: false,
           message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
@@ -42,12 +46,12 @@ export class HandlerService {
       const handlersPath = path.join(domainPath, 'Handlers');
       const contractsPath = path.join(handlersPath, 'Contracts');
       
-      if (!fs.existsSync(handlersPath)) {
-        fs.mkdirSync(handlersPath, { recursive: true });
+      if (!fileOutput.existsSync(handlersPath)) {
+        fileOutput.mkdirSync(handlersPath, { recursive: true });
       }
       
-      if (!fs.existsSync(contractsPath)) {
-        fs.mkdirSync(contractsPath, { recursive: true });
+      if (!fileOutput.existsSync(contractsPath)) {
+        fileOutput.mkdirSync(contractsPath, { recursive: true });
       }
 
       // Definir caminhos dos arquivos
@@ -59,14 +63,14 @@ export class HandlerService {
       
       // Gerar interface IHandler (só uma vez)
       let createdFiles = [handlerFilePath];
-      if (!fs.existsSync(contractFilePath)) {
+      if (!fileOutput.existsSync(contractFilePath)) {
         const contractCode = this.generateContract();
-        fs.writeFileSync(contractFilePath, contractCode, 'utf8');
+        fileOutput.writeFileSync(contractFilePath, contractCode, 'utf8');
         createdFiles.push(contractFilePath);
       }
 
       // Sempre criar/sobrescrever handler
-      fs.writeFileSync(handlerFilePath, handlerCode, 'utf8');
+      fileOutput.writeFileSync(handlerFilePath, handlerCode, 'utf8');
 
       const message = `Handler para '${definition.name}' criado com sucesso`;
 
@@ -107,26 +111,26 @@ export class HandlerService {
    * Prepara dados para o template de handler
    */
   private prepareHandlerTemplateData(definition: EntityDefinition) {
-    const hasCollections = definition.properties.some(p => p.isCollection);
+    // Navegações não chegam aos comandos tratados pelo handler
+    const hasCollections = this.commandService.getCommandProperties(definition).some(p => p.isCollection);
+    const key = this.primaryKeyService.getKey(definition);
     
-    // Comandos que o handler deve tratar (Create e Update)
+    // Comandos e queries que o handler deve tratar (Create, Update, Delete, GetById e List)
     const commands = [
-      {
-        commandName: `Create${definition.name}Command`,
-        isUpdateCommand: false,
-        isFirst: true
-      },
-      {
-        commandName: `Update${definition.name}Command`,
-        isUpdateCommand: true,
-        isFirst: false
-      }
-    ];
+      { commandName: `Create${definition.name}Command` },
+      { commandName: `Update${definition.name}Command`, isUpdateCommand: true },
+      { commandName: `Delete${definition.name}Command`, isDeleteCommand: true },
+      { commandName: `Get${definition.name}ByIdQuery`, isGetByIdQuery: true },
+      { commandName: `List${definition.name}Query`, isListQuery: true }
+    ].map((command, index) => ({ ...command, isFirst: index === 0 }));
 
     return {
       name: definition.name,
       title: this.toCamelCase(definition.name),
       hasCollections,
+      idName: key.name,
+      isKeyGenerated: key.isGenerated,
+      softDelete: definition.inheritsFromBase !== false && !!definition.softDelete,
       command: commands,
       repository: [
         {
@@ -144,12 +148,12 @@ export class HandlerService {
     try {
       const handlersPath = path.join(projectPath, 'Domain', 'Handlers');
       
-      if (!fs.existsSync(handlersPath)) {
+      if (!fileOutput.existsSync(handlersPath)) {
         return [];
       }
 
       const handlers: string[] = [];
-      const files = fs.readdirSync(handlersPath);
+      const files = fileOutput.readdirSync(handlersPath);
       
       for (const file of files) {
         if (file.endsWith('Handler.cs')) {
@@ -1,6 +1,6 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
 
 export class HelperService {
 
@@ -14,7 +14,7 @@ export class HelperService {
   async generateHelpers(domainPath: string): Promise<{ success: boolean; message: string; filePaths?: string[]; error?: string }> {
     try {
       // Verificar se existe Domain path
-      if (!fs.existsSync(domainPath)) {
+      if (!fileOutput.existsSync(domainPath)) {
         return {
           success: false,
           message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
@@ -25,8 +25,8 @@ export class HelperService {
       // Criar pasta Helpers
       const helpersPath = path.join(domainPath, 'Helpers');
       
-      if (!fs.existsSync(helpersPath)) {
-        fs.mkdirSync(helpersPath, { recursive: true });
+      if (!fileOutput.existsSync(helpersPath)) {
+        fileOutput.mkdirSync(helpersPath, { recursive: true });
       }
 
       // Definir caminho do arquivo
@@ -36,7 +36,7 @@ export class HelperService {
       const mapperCode = this.generateMapper();
 
       // Sempre criar/sobrescrever arquivo
-      fs.writeFileSync(mapperFilePath, mapperCode, 'utf8');
+      fileOutput.writeFileSync(mapperFilePath, mapperCode, 'utf8');
 
       console.log('✅ Mapper.cs gerado com sucesso');
 
@@ -1,6 +1,16 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { EntityDefinition, EnumDefinition } from '../types/entity';
+import { RelationshipService } from './relationshipService';
+import { EnumService } from './enumService';
+import { DatabaseProviderService } from './databaseProviderService';
+import { SeedService } from './seedService';
+import { ValidationService } from './validationService';
+import { PrimaryKeyService } from './primaryKeyService';
+import { AuditService } from './auditService';
+import { TenancyService } from './tenancyService';
+import { DatabaseOptions, MultiTenancyOptions } from '../types/project';
 
 export interface InfrastructureResult {
   success: boolean;
@@ -10,16 +20,24 @@ export interface InfrastructureResult {
 }
 
 export class InfrastructureService {
+  private relationshipService = new RelationshipService();
+  private enumService = new EnumService();
+  private databaseProviderService = new DatabaseProviderService();
+  private seedService = new SeedService();
+  private validationService = new ValidationService();
+  private primaryKeyService = new PrimaryKeyService();
+  private auditService = new AuditService();
+  private tenancyService = new TenancyService();
 
   /**
    * Cria todos os arquivos da camada Infrastructure
    */
-  async createInfrastructureLayer(projectPath: string, entities?: any[]): Promise<InfrastructureResult> {
+  async createInfrastructureLayer(projectPath: string, entities?: any[], database?: DatabaseOptions, multiTenancy?: MultiTenancyOptions): Promise<InfrastructureResult> {
     try {
       const infrastructurePath = path.join(projectPath, 'Infrastructure');
 
       // Verificar se diretório da Infrastructure existe
-      if (!fs.existsSync(infrastructurePath)) {
+      if (!fileOutput.existsSync(infrastructurePath)) {
         return {
           success: false,
           message: 'Projeto Infrastructure não encontrado. Execute o scaffold do projeto primeiro.'
@@ -29,26 +47,40 @@ export class InfrastructureService {
       const createdFiles: string[] = [];
 
       // 1. Criar DatabaseConfig
-      const databaseConfigResult = await this.createDatabaseConfig(infrastructurePath);
+      const databaseConfigResult = await this.createDatabaseConfig(infrastructurePath, database, multiTenancy);
       if (databaseConfigResult.success && databaseConfigResult.filePath) {
         createdFiles.push(databaseConfigResult.filePath);
       }
 
       // 2. Criar ApplicationDbContext
-      const dbContextResult = await this.createApplicationDbContext(infrastructurePath);
+      const dbContextResult = await this.createApplicationDbContext(infrastructurePath, multiTenancy);
       if (dbContextResult.success && dbContextResult.filePath) {
         createdFiles.push(dbContextResult.filePath);
       }
 
       // 3. Criar RepositoryBase
-      const repositoryBaseResult = await this.createRepositoryBase(infrastructurePath);
+      const repositoryBaseResult = await this.createRepositoryBase(infrastructurePath, multiTenancy);
       if (repositoryBaseResult.success && repositoryBaseResult.filePath) {
         createdFiles.push(repositoryBaseResult.filePath);
       }
 
-      // 4. Criar repositórios específicos para cada entidade
+      // 4. Criar interceptor de auditoria e exclusão lógica
+      const interceptorResult = await this.createAuditInterceptor(infrastructurePath);
+      if (interceptorResult.success && interceptorResult.filePath) {
+        createdFiles.push(interceptorResult.filePath);
+      }
+
+      // 5. Criar a chave de cache do modelo por schema (multi-tenancy schemaPerTenant)
+      if (this.tenancyService.getTemplateData(multiTenancy).isSchemaPerTenant) {
+        const cacheKeyFactoryResult = await this.createTenantModelCacheKeyFactory(infrastructurePath);
+        if (cacheKeyFactoryResult.success && cacheKeyFactoryResult.filePath) {
+          createdFiles.push(cacheKeyFactoryResult.filePath);
+        }
+      }
+
+      // 6. Criar repositórios específicos para cada entidade (as de junção são acessadas pelas navegações)
       if (entities && entities.length > 0) {
-        for (const entity of entities) {
+        for (const entity of entities.filter(e => !e.isJoinEntity)) {
           const entityRepositoryResult = await this.createEntityRepository(infrastructurePath, entity.name);
           if (entityRepositoryResult.success && entityRepositoryResult.filePath) {
             createdFiles.push(entityRepositoryResult.filePath);
@@ -74,13 +106,13 @@ export class InfrastructureService {
   /**
    * Cria o arquivo DatabaseConfig.cs
    */
-  async createDatabaseConfig(infrastructurePath: string): Promise<InfrastructureResult> {
+  async createDatabaseConfig(infrastructurePath: string, database?: DatabaseOptions, multiTenancy?: MultiTenancyOptions): Promise<InfrastructureResult> {
     try {
       const configurationPath = path.join(infrastructurePath, 'Configuration');
       const filePath = path.join(configurationPath, 'DatabaseConfig.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'DatabaseConfig já existe',
@@ -90,10 +122,13 @@ export class InfrastructureService {
 
       // Obter template via TemplateManager
       const template = TemplateManager.getTemplate('infrastructure/configuration/databaseConfig.hbs');
-      const templateContent = template({});
+      const templateContent = template({
+        ...this.databaseProviderService.getTemplateData(database),
+        isSchemaPerTenant: this.tenancyService.getTemplateData(multiTenancy).isSchemaPerTenant
+      });
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -111,15 +146,90 @@ export class InfrastructureService {
   }
 
   /**
-   * Cria o arquivo ApplicationDbContext.cs
+   * Cria o arquivo AuditSaveChangesInterceptor.cs (Created/Update, CreatedBy/UpdatedBy e exclusão lógica)
+   */
+  async createAuditInterceptor(infrastructurePath: string): Promise<InfrastructureResult> {
+    try {
+      const interceptorsPath = path.join(infrastructurePath, 'Interceptors');
+      const filePath = path.join(interceptorsPath, 'AuditSaveChangesInterceptor.cs');
+
+      // Verificar se já existe
+      if (fileOutput.existsSync(filePath)) {
+        return {
+          success: true,
+          message: 'AuditSaveChangesInterceptor já existe',
+          filePath
+        };
+      }
+
+      if (!fileOutput.existsSync(interceptorsPath)) {
+        fileOutput.mkdirSync(interceptorsPath, { recursive: true });
+      }
+
+      // Obter template via TemplateManager
+      const template = TemplateManager.getTemplate('infrastructure/interceptors/auditSaveChangesInterceptor.hbs');
+      fileOutput.writeFileSync(filePath, template({}));
+
+      return {
+        success: true,
+        message: 'AuditSaveChangesInterceptor criado com sucesso',
+        filePath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar AuditSaveChangesInterceptor:', error);
+      return {
+        success: false,
+        message: `Erro ao criar AuditSaveChangesInterceptor: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Cria o arquivo TenantModelCacheKeyFactory.cs (um modelo do EF por schema de tenant)
+   */
+  async createTenantModelCacheKeyFactory(infrastructurePath: string): Promise<InfrastructureResult> {
+    try {
+      const filePath = path.join(infrastructurePath, 'Data', 'TenantModelCacheKeyFactory.cs');
+
+      // Verificar se já existe
+      if (fileOutput.existsSync(filePath)) {
+        return {
+          success: true,
+          message: 'TenantModelCacheKeyFactory já existe',
+          filePath
+        };
+      }
+
+      // Obter template via TemplateManager
+      const template = TemplateManager.getTemplate('infrastructure/data/tenantModelCacheKeyFactory.hbs');
+      fileOutput.writeFileSync(filePath, template({}));
+
+      return {
+        success: true,
+        message: 'TenantModelCacheKeyFactory criado com sucesso',
+        filePath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar TenantModelCacheKeyFactory:', error);
+      return {
+        success: false,
+        message: `Erro ao criar TenantModelCacheKeyFactory: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Cria o arquivo ApplicationDbContext.cs (com o tenant da requisição quando há multiTenancy)
    */
-  async createApplicationDbContext(infrastructurePath: string): Promise<InfrastructureResult> {
+  async createApplicationDbContext(infrastructurePath: string, multiTenancy?: MultiTenancyOptions): Promise<InfrastructureResult> {
     try {
       const dataPath = path.join(infrastructurePath, 'Data');
       const filePath = path.join(dataPath, 'ApplicationDbContext.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'ApplicationDbContext já existe',
@@ -129,11 +239,12 @@ export class InfrastructureService {
 
       // Obter template via TemplateManager
       const template = TemplateManager.getTemplate('infrastructure/data/applicationDbContext.hbs');
-      const templateContent = template({});
+      const { hasMultiTenancy, isSchemaPerTenant } = this.tenancyService.getTemplateData(multiTenancy);
+      const templateContent = template({ hasMultiTenancy, isSchemaPerTenant });
 
       // Escrever arquivo
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -151,15 +262,15 @@ export class InfrastructureService {
   }
 
   /**
-   * Cria o arquivo RepositoryBase.cs
+   * Cria o arquivo RepositoryBase.cs (grava o tenant da requisição nos inserts quando há multiTenancy)
    */
-  async createRepositoryBase(infrastructurePath: string): Promise<InfrastructureResult> {
+  async createRepositoryBase(infrastructurePath: string, multiTenancy?: MultiTenancyOptions): Promise<InfrastructureResult> {
     try {
       const repositoryContractsPath = path.join(infrastructurePath, 'Repositories', 'Contracts');
       const filePath = path.join(repositoryContractsPath, 'RepositoryBase.cs');
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: 'RepositoryBase já existe',
@@ -169,10 +280,10 @@ export class InfrastructureService {
 
       // Obter template via TemplateManager
       const template = TemplateManager.getTemplate('infrastructure/repositories/contracts/repositoryBase.hbs');
-      const templateContent = template({});
+      const templateContent = template({ hasMultiTenancy: !!multiTenancy });
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -203,7 +314,7 @@ export class InfrastructureService {
       ];
 
       return requiredFiles.every(file => 
-        fs.existsSync(path.join(infrastructurePath, file))
+        fileOutput.existsSync(path.join(infrastructurePath, file))
       );
 
     } catch (error) {
@@ -218,7 +329,7 @@ export class InfrastructureService {
     try {
       const infrastructurePath = path.join(projectPath, 'Infrastructure');
       
-      if (!fs.existsSync(infrastructurePath)) {
+      if (!fileOutput.existsSync(infrastructurePath)) {
         return [];
       }
 
@@ -226,22 +337,29 @@ export class InfrastructureService {
       
       // Verificar Configuration
       const configurationPath = path.join(infrastructurePath, 'Configuration');
-      if (fs.existsSync(configurationPath)) {
-        const configFiles = fs.readdirSync(configurationPath);
+      if (fileOutput.existsSync(configurationPath)) {
+        const configFiles = fileOutput.readdirSync(configurationPath);
         files.push(...configFiles.map(f => `Configuration/${f}`));
       }
 
       // Verificar Data
       const dataPath = path.join(infrastructurePath, 'Data');
-      if (fs.existsSync(dataPath)) {
-        const dataFiles = fs.readdirSync(dataPath);
+      if (fileOutput.existsSync(dataPath)) {
+        const dataFiles = fileOutput.readdirSync(dataPath);
         files.push(...dataFiles.map(f => `Data/${f}`));
       }
 
+      // Verificar Interceptors
+      const interceptorsPath = path.join(infrastructurePath, 'Interceptors');
+      if (fileOutput.existsSync(interceptorsPath)) {
+        const interceptorFiles = fileOutput.readdirSync(interceptorsPath);
+        files.push(...interceptorFiles.map(f => `Interceptors/${f}`));
+      }
+
       // Verificar Repositories/Contracts
       const repositoryContractsPath = path.join(infrastructurePath, 'Repositories', 'Contracts');
-      if (fs.existsSync(repositoryContractsPath)) {
-        const repositoryFiles = fs.readdirSync(repositoryContractsPath);
+      if (fileOutput.existsSync(repositoryContractsPath)) {
+        const repositoryFiles = fileOutput.readdirSync(repositoryContractsPath);
         files.push(...repositoryFiles.map(f => `Repositories/Contracts/${f}`));
       }
 
@@ -262,7 +380,7 @@ export class InfrastructureService {
       const filePath = path.join(repositoriesPath, `${entityName}Repository.cs`);
 
       // Verificar se já existe
-      if (fs.existsSync(filePath)) {
+      if (fileOutput.existsSync(filePath)) {
         return {
           success: true,
           message: `${entityName}Repository já existe`,
@@ -275,7 +393,7 @@ export class InfrastructureService {
       const templateContent = template({ name: entityName });
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -301,7 +419,7 @@ export class InfrastructureService {
       const filePath = path.join(infrastructurePath, 'Data', 'ApplicationDbContext.cs');
 
       // Verificar se arquivo existe
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'ApplicationDbContext.cs não encontrado. Execute o scaffold primeiro.'
@@ -309,7 +427,7 @@ export class InfrastructureService {
       }
 
       // Ler conteúdo atual do arquivo
-      const content = fs.readFileSync(filePath, 'utf-8');
+      const content = fileOutput.readFileSync(filePath, 'utf-8');
       const lines = content.split('\n');
 
       // Definir a linha DbSet a ser adicionada
@@ -385,7 +503,7 @@ export class InfrastructureService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, newContent.join('\n'));
+      fileOutput.writeFileSync(filePath, newContent.join('\n'));
 
       return {
         success: true,
@@ -411,7 +529,7 @@ export class InfrastructureService {
       const filePath = path.join(infrastructurePath, 'Data', 'ApplicationDbContext.cs');
 
       // Verificar se arquivo existe
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'ApplicationDbContext.cs não encontrado. Execute o scaffold primeiro.'
@@ -422,7 +540,7 @@ export class InfrastructureService {
       let skippedEntities: string[] = [];
 
       // Ler conteúdo atual
-      let content = fs.readFileSync(filePath, 'utf-8');
+      let content = fileOutput.readFileSync(filePath, 'utf-8');
 
       for (const entityName of entityNames) {
         const dbSetLine = `        public DbSet<${entityName}Entity> ${entityName} { get; set; }`;
@@ -454,7 +572,7 @@ export class InfrastructureService {
       }
 
       // Escrever arquivo final
-      fs.writeFileSync(filePath, content);
+      fileOutput.writeFileSync(filePath, content);
 
       const totalProcessed = addedEntities.length + skippedEntities.length;
       let message = '';
@@ -482,4 +600,253 @@ export class InfrastructureService {
       };
     }
   }
+
+  /**
+   * Escreve a configuração fluente dos relacionamentos no OnModelCreating do ApplicationDbContext
+   */
+  async addRelationshipsToDbContext(projectPath: string, entities: EntityDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.relationshipService.buildModelConfiguration(entities);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhum relacionamento para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'relacionamentos');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar relacionamentos no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar relacionamentos: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve a configuração das chaves primárias (HasKey e geração do valor) no OnModelCreating
+   */
+  async addPrimaryKeysToDbContext(projectPath: string, entities: EntityDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.primaryKeyService.buildModelConfiguration(entities);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhuma chave primária para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'chaves primárias');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar chaves primárias no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar chaves primárias: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve os filtros globais da exclusão lógica e as colunas de auditoria no OnModelCreating
+   */
+  async addSoftDeleteAndAuditToDbContext(projectPath: string, entities: EntityDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.auditService.buildModelConfiguration(entities);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhuma exclusão lógica ou auditoria para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'exclusão lógica e auditoria');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar exclusão lógica e auditoria no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar exclusão lógica e auditoria: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve a configuração do TenantId e os filtros globais por tenant no OnModelCreating
+   */
+  async addMultiTenancyToDbContext(projectPath: string, entities: EntityDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.tenancyService.buildModelConfiguration(entities);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhuma entidade multi-tenant para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'multi-tenancy');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar multi-tenancy no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar multi-tenancy: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve as conversões dos enums armazenados como string no OnModelCreating
+   */
+  async addEnumConversionsToDbContext(projectPath: string, entities: EntityDefinition[], enums: EnumDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.enumService.buildModelConfiguration(entities, enums);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhuma conversão de enum para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'enums');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar enums no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar enums: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve os tipos de coluna específicos do provider no OnModelCreating
+   */
+  async addProviderColumnTypesToDbContext(projectPath: string, entities: EntityDefinition[], database?: DatabaseOptions): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.databaseProviderService.buildModelConfiguration(entities, database);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhum tipo de coluna específico do provider para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'tipos de coluna');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar tipos de coluna no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar tipos de coluna: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve as restrições de coluna das regras de validação (IsRequired/HasMaxLength) no OnModelCreating
+   */
+  async addValidationConstraintsToDbContext(projectPath: string, entities: EntityDefinition[]): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.validationService.buildModelConfiguration(entities);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhuma restrição de coluna para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'restrições de coluna');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar restrições de coluna no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar restrições de coluna: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Escreve os registros de seed (HasData) no OnModelCreating
+   */
+  async addSeedDataToDbContext(projectPath: string, entities: EntityDefinition[], enums: EnumDefinition[] = []): Promise<InfrastructureResult> {
+    try {
+      const configurationLines = this.seedService.buildModelConfiguration(entities, enums);
+
+      if (configurationLines.length === 0) {
+        return {
+          success: true,
+          message: 'Nenhum seed para configurar'
+        };
+      }
+
+      return await this.addModelConfiguration(projectPath, configurationLines, 'seed');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar seed no ApplicationDbContext:', error);
+      return {
+        success: false,
+        message: `Erro ao configurar seed: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Adiciona linhas de configuração na região ModelConfiguration do OnModelCreating
+   */
+  async addModelConfiguration(projectPath: string, configurationLines: string[], description: string): Promise<InfrastructureResult> {
+    const filePath = path.join(projectPath, 'Infrastructure', 'Data', 'ApplicationDbContext.cs');
+
+    if (!fileOutput.existsSync(filePath)) {
+      return {
+        success: false,
+        message: 'ApplicationDbContext.cs não encontrado. Execute o scaffold primeiro.'
+      };
+    }
+
+    const content = fileOutput.readFileSync(filePath, 'utf-8');
+    const block = configurationLines.join('\n');
+
+    // Verificar se a configuração já foi adicionada
+    if (content.includes(block)) {
+      return {
+        success: true,
+        message: `Configuração de ${description} já existe no ApplicationDbContext`,
+        filePath
+      };
+    }
+
+    const lines = content.split('\n');
+    const regionStart = lines.findIndex(line => line.includes('#region ModelConfiguration'));
+    const regionEnd = lines.findIndex((line, index) => index > regionStart && line.includes('#endregion'));
+
+    if (regionStart === -1 || regionEnd === -1) {
+      return {
+        success: false,
+        message: 'Região ModelConfiguration não encontrada no ApplicationDbContext'
+      };
+    }
+
+    // Separar blocos de configuração com uma linha em branco
+    const separator = regionEnd - regionStart > 1 ? [''] : [];
+    lines.splice(regionEnd, 0, ...separator, ...configurationLines);
+
+    fileOutput.writeFileSync(filePath, lines.join('\n'));
+
+    return {
+      success: true,
+      message: `Configuração de ${description} adicionada ao ApplicationDbContext`,
+      filePath
+    };
+  }
 }
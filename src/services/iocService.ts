@@ -1,6 +1,6 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
 
 export interface IoCRegistration {
   name: string;
@@ -25,8 +25,8 @@ export class IoCService {
       const filePath = path.join(iocPath, 'NativeInjectorBootStrapper.cs');
 
       // Garantir que diretório IoC existe
-      if (!fs.existsSync(iocPath)) {
-        fs.mkdirSync(iocPath, { recursive: true });
+      if (!fileOutput.existsSync(iocPath)) {
+        fileOutput.mkdirSync(iocPath, { recursive: true });
       }
 
       // Obter template via TemplateManager
@@ -34,7 +34,7 @@ export class IoCService {
       const templateContent = template({});
 
       // Escrever arquivo
-      fs.writeFileSync(filePath, templateContent);
+      fileOutput.writeFileSync(filePath, templateContent);
 
       return {
         success: true,
@@ -59,7 +59,7 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
 
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'Arquivo NativeInjectorBootStrapper não encontrado'
@@ -71,7 +71,7 @@ export class IoCService {
         handlers: [`services.AddTransient<${entityName}Handler>();`]
       };
 
-      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      const lines = fileOutput.readFileSync(filePath, 'utf-8').split('\n');
       const newContent: string[] = [];
       let foundRegion = false;
 
@@ -111,7 +111,7 @@ export class IoCService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, newContent.join('\n'));
+      fileOutput.writeFileSync(filePath, newContent.join('\n'));
 
       const registrations: IoCRegistration[] = [
         { name: entityName, type: 'repository' },
@@ -141,14 +141,14 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
 
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'Arquivo NativeInjectorBootStrapper não encontrado'
         };
       }
 
-      let content = fs.readFileSync(filePath, 'utf-8');
+      let content = fileOutput.readFileSync(filePath, 'utf-8');
       const allRegistrations: IoCRegistration[] = [];
 
       // Para cada entidade, adicionar repository e handler se não existir
@@ -184,7 +184,7 @@ export class IoCService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, content);
+      fileOutput.writeFileSync(filePath, content);
 
       return {
         success: true,
@@ -209,11 +209,11 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
       
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return false;
       }
 
-      const content = fs.readFileSync(filePath, 'utf-8');
+      const content = fileOutput.readFileSync(filePath, 'utf-8');
       const repositoryRegistration = `I${entityName}Repository`;
       const handlerRegistration = `${entityName}Handler`;
 
@@ -232,11 +232,11 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
       
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return [];
       }
 
-      const content = fs.readFileSync(filePath, 'utf-8');
+      const content = fileOutput.readFileSync(filePath, 'utf-8');
       const entities: string[] = [];
 
       // Extrair nomes das entidades dos registros de repository
@@ -265,14 +265,14 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
 
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'Arquivo NativeInjectorBootStrapper não encontrado'
         };
       }
 
-      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      const lines = fileOutput.readFileSync(filePath, 'utf-8').split('\n');
       const newContent: string[] = [];
       let removedCount = 0;
 
@@ -303,7 +303,7 @@ export class IoCService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, newContent.join('\n'));
+      fileOutput.writeFileSync(filePath, newContent.join('\n'));
 
       const removedRegistrations: IoCRegistration[] = [];
       if (removedCount >= 1) removedRegistrations.push({ name: entityName, type: 'repository' });
@@ -332,14 +332,14 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
 
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'Arquivo NativeInjectorBootStrapper não encontrado'
         };
       }
 
-      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      const lines = fileOutput.readFileSync(filePath, 'utf-8').split('\n');
       const newContent: string[] = [];
       let totalRemovedCount = 0;
       const removedRegistrations: IoCRegistration[] = [];
@@ -381,7 +381,7 @@ export class IoCService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, newContent.join('\n'));
+      fileOutput.writeFileSync(filePath, newContent.join('\n'));
 
       return {
         success: true,
@@ -406,14 +406,14 @@ export class IoCService {
     try {
       const filePath = path.join(projectPath, 'IoC', 'NativeInjectorBootStrapper.cs');
 
-      if (!fs.existsSync(filePath)) {
+      if (!fileOutput.existsSync(filePath)) {
         return {
           success: false,
           message: 'Arquivo NativeInjectorBootStrapper não encontrado'
         };
       }
 
-      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      const lines = fileOutput.readFileSync(filePath, 'utf-8').split('\n');
       const newContent: string[] = [];
       let totalRemovedCount = 0;
       let insideRepositoriesRegion = false;
@@ -454,7 +454,7 @@ export class IoCService {
       }
 
       // Escrever arquivo atualizado
-      fs.writeFileSync(filePath, newContent.join('\n'));
+      fileOutput.writeFileSync(filePath, newContent.join('\n'));
 
       return {
         success: true,
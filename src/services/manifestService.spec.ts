@@ -0,0 +1,122 @@
+import * as zlib from 'zlib';
+import { ScaffoldRequest } from '../types/common';
+import { FileOutput, fileOutput, MemoryFileSystem } from '../utils/FileOutput';
+import { BASE_SNAPSHOT, MANIFEST_FILE, ManifestService } from './manifestService';
+
+const projectPath = '/out/Shop';
+
+const request: ScaffoldRequest = {
+  projectOptions: { name: 'Shop', outputPath: '/out' },
+  entities: [{ name: 'Product', properties: [{ name: 'Name', type: 'string', isRequired: true }] }]
+};
+
+function createProject(): MemoryFileSystem {
+  const memory = new MemoryFileSystem();
+  memory.mkdirSync(`${projectPath}/Domain/Entities`, { recursive: true });
+  memory.mkdirSync(`${projectPath}/API/bin`, { recursive: true });
+  memory.writeFileSync(`${projectPath}/Domain/Entities/Product.cs`, 'public class Product {}');
+  memory.writeFileSync(`${projectPath}/Shop.sln`, 'sln');
+  memory.writeFileSync(`${projectPath}/API/bin/API.dll`, 'binário');
+  return memory;
+}
+
+describe('ManifestService', () => {
+  const service = new ManifestService();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('grava o hash de cada arquivo gerado, sem pastas de build nem outputPath', async () => {
+    const memory = createProject();
+
+    const result = await FileOutput.run(memory, () => service.writeManifest(projectPath, request));
+    const manifest = await FileOutput.run(memory, async () => service.readManifest(projectPath));
+
+    expect(result.success).toBe(true);
+    expect(result.files).toBe(2);
+    expect(Object.keys(manifest!.files)).toEqual(['Domain/Entities/Product.cs', 'Shop.sln']);
+    expect(manifest!.files['Shop.sln']).toBe(service.hashContent('sln'));
+    expect(manifest!.request.projectOptions).toEqual({ name: 'Shop' });
+  });
+
+  it('ignora a diferença entre LF e CRLF no hash', () => {
+    expect(service.hashContent('a\r\nb\r\n')).toBe(service.hashContent('a\nb\n'));
+  });
+
+  it('não sobrescreve arquivos alterados pelo usuário e os retorna como conflitos', async () => {
+    const memory = createProject();
+    await FileOutput.run(memory, () => service.writeManifest(projectPath, request));
+    memory.writeFileSync(`${projectPath}/Domain/Entities/Product.cs`, 'public class Product { /* editado */ }');
+
+    const { conflicts, hasManifest } = await FileOutput.run(memory, () => service.runGuarded(projectPath, async () => {
+      fileOutput.writeFileSync(`${projectPath}/Domain/Entities/Product.cs`, 'public class Product { public string Name { get; set; } }');
+      fileOutput.writeFileSync(`${projectPath}/Shop.sln`, 'sln v2');
+    }));
+
+    expect(hasManifest).toBe(true);
+    expect(conflicts.map(conflict => conflict.path)).toEqual(['Domain/Entities/Product.cs']);
+    expect(memory.readFileSync(`${projectPath}/Domain/Entities/Product.cs`)).toContain('editado');
+    expect(memory.readFileSync(`${projectPath}/Shop.sln`)).toBe('sln v2');
+
+    // O arquivo editado mantém o hash da última geração, então continua protegido
+    const manifest = JSON.parse(memory.readFileSync(`${projectPath}/${MANIFEST_FILE}`));
+    expect(manifest.files['Shop.sln']).toBe(service.hashContent('sln v2'));
+    expect(manifest.files['Domain/Entities/Product.cs']).toBe(service.hashContent('public class Product {}'));
+  });
+
+  it('guarda a base em uma única entrada compactada, sem as migrations', async () => {
+    const memory = createProject();
+    memory.mkdirSync(`${projectPath}/Infrastructure/Migrations`, { recursive: true });
+    memory.writeFileSync(`${projectPath}/Infrastructure/Migrations/20240101000000_InitialCreate.cs`, 'migration');
+
+    await FileOutput.run(memory, () => service.writeManifest(projectPath, request));
+
+    const internalFiles = memory.listFiles(projectPath).map(file => file.relativePath).filter(file => file.startsWith('.zheus/'));
+    expect(internalFiles).toEqual([BASE_SNAPSHOT]);
+
+    const base = JSON.parse(zlib.gunzipSync(Buffer.from(memory.readFileSync(`${projectPath}/${BASE_SNAPSHOT}`), 'base64')).toString('utf-8'));
+    expect(base).toEqual({ 'Domain/Entities/Product.cs': 'public class Product {}', 'Shop.sln': 'sln' });
+  });
+
+  it('combina as alterações do usuário usando a base do formato anterior e a converte', async () => {
+    const memory = createProject();
+    const entityPath = `${projectPath}/Domain/Entities/Product.cs`;
+    const generated = 'using System;\n\nnamespace Shop;\n\npublic class Product {}\n';
+    memory.writeFileSync(entityPath, generated);
+    await FileOutput.run(memory, () => service.writeManifest(projectPath, request));
+
+    // Projeto gerado antes da base compactada: uma cópia de cada arquivo em .zheus/base
+    memory.unlinkSync(`${projectPath}/${BASE_SNAPSHOT}`);
+    memory.mkdirSync(`${projectPath}/.zheus/base/Domain/Entities`, { recursive: true });
+    memory.writeFileSync(`${projectPath}/.zheus/base/Domain/Entities/Product.cs`, generated);
+    memory.writeFileSync(entityPath, generated.replace('using System;', 'using System;\nusing System.Linq;'));
+
+    const { conflicts, merged } = await FileOutput.run(memory, () => service.runGuarded(projectPath, async () => {
+      fileOutput.writeFileSync(entityPath, generated.replace('{}', '{ public string Name { get; set; } }'));
+    }, { merge: true }));
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual(['Domain/Entities/Product.cs']);
+    expect(memory.readFileSync(entityPath)).toBe('using System;\nusing System.Linq;\n\nnamespace Shop;\n\npublic class Product { public string Name { get; set; } }\n');
+    expect(memory.existsSync(`${projectPath}/.zheus/base`)).toBe(false);
+    expect(memory.existsSync(`${projectPath}/${BASE_SNAPSHOT}`)).toBe(true);
+  });
+
+  it('não protege projetos sem zheus.json', async () => {
+    const memory = createProject();
+    memory.writeFileSync(`${projectPath}/Shop.sln`, 'sln editado');
+
+    const { conflicts, hasManifest } = await FileOutput.run(memory, () => service.runGuarded(projectPath, async () => {
+      fileOutput.writeFileSync(`${projectPath}/Shop.sln`, 'sln v2');
+    }));
+
+    expect(hasManifest).toBe(false);
+    expect(conflicts).toEqual([]);
+    expect(memory.readFileSync(`${projectPath}/Shop.sln`)).toBe('sln v2');
+  });
+});
@@ -0,0 +1,345 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ManifestConflict, ScaffoldRequest, ZheusManifest } from '../types/common';
+import { TemplateManager } from '../utils/TemplateManager';
+import { FileOutput, GuardedFileSystem, WriteResolution, fileOutput } from '../utils/FileOutput';
+import { MergeService, CONFLICT_MARKERS } from './mergeService';
+
+export const MANIFEST_FILE = 'zheus.json';
+
+// Arquivos internos do Zheus (fora do código gerado e da lista de alterações)
+export const ZHEUS_DIRECTORY = '.zheus';
+
+// Última versão gerada de cada arquivo (base do merge de três vias) em uma única entrada:
+// JSON { caminho: conteúdo } compactado com gzip e gravado em base64, para passar como texto
+// pela saída em memória e pelos ZIPs
+export const BASE_SNAPSHOT = `${ZHEUS_DIRECTORY}/base.json.gz.b64`;
+
+// Formato anterior da base (uma cópia de cada arquivo), lido e convertido na próxima gravação
+const LEGACY_BASE_DIRECTORY = `${ZHEUS_DIRECTORY}/base`;
+
+// Arquivos que nunca passam por merge e por isso ficam fora da base (migrations são do usuário
+// depois da primeira geração: o /regenerate não as gera de novo)
+const UNMERGED_PREFIXES = ['Infrastructure/Migrations/'];
+
+// Pastas de build/ferramentas (e a própria base) que não fazem parte do código gerado
+const IGNORED_DIRECTORIES = ['bin', 'obj', '.vs', '.git', '.idea', 'node_modules', ZHEUS_DIRECTORY];
+
+export interface GuardOptions {
+  merge?: boolean;                 // Merge de três vias nos arquivos alterados (padrão: apenas protege)
+  updateRequest?: (request: ScaffoldRequest) => ScaffoldRequest;
+}
+
+export interface GuardedRunResult<T> {
+  result: T;
+  conflicts: ManifestConflict[];
+  merged: string[];                // Arquivos alterados pelo usuário combinados sem conflito
+  hasManifest: boolean;
+}
+
+export interface ManifestResult {
+  success: boolean;
+  message: string;
+  filePath?: string;
+  files?: number;
+  error?: string;
+}
+
+/**
+ * Manifesto zheus.json: registra a requisição que gerou o projeto e o hash de cada arquivo gerado,
+ * para que operações posteriores saibam o que o Zheus gerou e o que o usuário alterou
+ */
+export class ManifestService {
+  private static zheusVersion?: string;
+  private mergeService = new MergeService();
+
+  /**
+   * Lê o zheus.json do projeto (null se não existir ou for inválido)
+   */
+  readManifest(projectPath: string): ZheusManifest | null {
+    const manifestPath = path.join(projectPath, MANIFEST_FILE);
+    if (!fileOutput.existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      const manifest = JSON.parse(fileOutput.readFileSync(manifestPath, 'utf-8'));
+      return manifest && typeof manifest.files === 'object' ? manifest : null;
+    } catch (error: any) {
+      console.warn(`⚠️ zheus.json inválido em ${projectPath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Grava o zheus.json com a requisição e o hash de todos os arquivos do projeto,
+   * guardando na base (BASE_SNAPSHOT) a versão gerada dos arquivos que passam por merge
+   * Com "previous", apenas os arquivos em "generated" (e os novos) são atualizados:
+   * arquivos que o Zheus não escreveu continuam com o hash e a base da última geração
+   */
+  async writeManifest(projectPath: string, request: ScaffoldRequest, previous?: ZheusManifest | null, generated?: Map<string, string>): Promise<ManifestResult> {
+    try {
+      const files: Record<string, string> = {};
+      const base = previous ? this.readBaseSnapshot(projectPath) : new Map<string, string>();
+      const projectFiles = this.listProjectFiles(projectPath);
+
+      for (const relativePath of projectFiles) {
+        const filePath = path.resolve(projectPath, ...relativePath.split('/'));
+        const generatedContent = previous
+          ? generated?.get(filePath)
+          : fileOutput.readFileSync(filePath, 'utf-8');
+
+        if (generatedContent !== undefined) {
+          files[relativePath] = this.hashContent(generatedContent);
+          if (this.isMergeable(relativePath)) {
+            base.set(relativePath, generatedContent);
+          }
+        } else if (previous?.files[relativePath]) {
+          files[relativePath] = previous.files[relativePath];
+        }
+      }
+
+      // Arquivos removidos do projeto deixam o manifesto junto com a base
+      this.writeBaseSnapshot(projectPath, new Map([...base].filter(([relativePath]) => files[relativePath] && this.isMergeable(relativePath))));
+
+      const { outputPath, ...projectOptions } = request.projectOptions;
+      const manifest: ZheusManifest = {
+        zheusVersion: this.getZheusVersion(),
+        templateVersion: TemplateManager.getTemplateSetVersion(),
+        generatedAt: new Date().toISOString(),
+        request: { ...request, projectOptions },
+        files: Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)))
+      };
+
+      // Uma geração que não mudou nada mantém o manifesto como estava
+      if (previous && JSON.stringify({ ...previous, generatedAt: manifest.generatedAt }) === JSON.stringify(manifest)) {
+        manifest.generatedAt = previous.generatedAt;
+      }
+
+      const manifestPath = path.join(projectPath, MANIFEST_FILE);
+      fileOutput.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+      return {
+        success: true,
+        message: `${MANIFEST_FILE} gravado com ${Object.keys(manifest.files).length} arquivos`,
+        filePath: manifestPath,
+        files: Object.keys(manifest.files).length
+      };
+
+    } catch (error: any) {
+      console.error(`❌ Erro ao gravar ${MANIFEST_FILE}:`, error.message);
+      return {
+        success: false,
+        message: `Erro ao gravar ${MANIFEST_FILE}`,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Executa "fn" protegendo os arquivos alterados fora do Zheus: em vez de sobrescrevê-los,
+   * eles são retornados como conflitos ou, com "merge", combinados com a nova versão gerada
+   * (merge de três vias sobre a base em BASE_SNAPSHOT). Projetos sem zheus.json não são protegidos.
+   * Ao final o manifesto é atualizado (a requisição pode ser ajustada por "updateRequest")
+   */
+  async runGuarded<T>(projectPath: string, fn: () => Promise<T>, options: GuardOptions = {}): Promise<GuardedRunResult<T>> {
+    const manifest = this.readManifest(projectPath);
+    if (!manifest) {
+      return { result: await fn(), conflicts: [], merged: [], hasManifest: false };
+    }
+
+    const merged: string[] = [];
+    let base: Map<string, string> | undefined;
+    const guard = new GuardedFileSystem(FileOutput.current(), (filePath, currentContent, newContent): WriteResolution => {
+      const relativePath = this.toRelativePath(projectPath, filePath);
+      if (this.isUnchanged(manifest, relativePath, currentContent)) {
+        return { content: newContent };
+      }
+      if (!options.merge) {
+        return { conflict: true };
+      }
+
+      // Nova geração igual à anterior: as alterações do usuário ficam como estão
+      // (sem base, ex: projetos gerados antes dela, o ancestral comum é vazio)
+      base ??= this.readBaseSnapshot(projectPath);
+      const baseContent = base.get(relativePath) ?? '';
+      if (baseContent === newContent) {
+        return {};
+      }
+
+      const mergeResult = this.mergeService.merge(baseContent, currentContent, newContent);
+      if (mergeResult.conflicts === 0) {
+        merged.push(relativePath);
+      }
+      return { content: mergeResult.content, conflict: mergeResult.conflicts > 0 };
+    });
+    const result = await FileOutput.run(guard, fn);
+
+    const request = options.updateRequest ? options.updateRequest(manifest.request) : manifest.request;
+    await this.writeManifest(projectPath, request, manifest, guard.generated);
+
+    const reason = options.merge
+      ? `Merge com conflitos: resolva os trechos entre "${CONFLICT_MARKERS.start}" e "${CONFLICT_MARKERS.end}"`
+      : 'Arquivo alterado fora do Zheus (hash diferente do zheus.json); não foi sobrescrito';
+    const conflicts = guard.conflicts.map(filePath => ({ path: this.toRelativePath(projectPath, filePath), reason }));
+    for (const conflict of conflicts) {
+      console.warn(`  ⚠️ Conflito: ${conflict.path}`);
+    }
+
+    return { result, conflicts, merged, hasManifest: true };
+  }
+
+  /**
+   * Aplica uma nova geração completa do projeto com merge de três vias: arquivos novos são criados,
+   * arquivos alterados pelo usuário são combinados e arquivos que deixaram de ser gerados são
+   * removidos (ou mantidos como conflito, se o usuário os alterou)
+   * "preserve" indica caminhos que não devem ser aplicados nem removidos (ex: migrations)
+   */
+  async applyRegeneration(
+    projectPath: string,
+    files: Array<{ relativePath: string; content: string }>,
+    request: ScaffoldRequest,
+    preserve: (relativePath: string) => boolean = () => false
+  ): Promise<GuardedRunResult<{ removed: string[] }>> {
+    const manifest = this.readManifest(projectPath);
+    const generatedPaths = new Set(files.map(file => file.relativePath));
+    const obsoleteConflicts: ManifestConflict[] = [];
+
+    const run = await this.runGuarded(projectPath, async () => {
+      for (const file of files) {
+        if (file.relativePath === MANIFEST_FILE || file.relativePath.startsWith(`${ZHEUS_DIRECTORY}/`) || preserve(file.relativePath)) continue;
+
+        const filePath = path.join(projectPath, ...file.relativePath.split('/'));
+        fileOutput.mkdirSync(path.dirname(filePath), { recursive: true });
+        fileOutput.writeFileSync(filePath, file.content, 'utf-8');
+      }
+
+      const removed: string[] = [];
+      for (const relativePath of Object.keys(manifest?.files || {})) {
+        const filePath = path.join(projectPath, ...relativePath.split('/'));
+        if (generatedPaths.has(relativePath) || preserve(relativePath) || !fileOutput.existsSync(filePath)) continue;
+
+        if (this.isUnchanged(manifest!, relativePath, fileOutput.readFileSync(filePath, 'utf-8'))) {
+          fileOutput.unlinkSync(filePath);
+          removed.push(relativePath);
+        } else {
+          obsoleteConflicts.push({ path: relativePath, reason: 'Arquivo não é mais gerado pelo modelo, mas foi alterado pelo usuário; mantido' });
+        }
+      }
+
+      return { removed };
+    }, { merge: true, updateRequest: () => request });
+
+    return { ...run, conflicts: [...run.conflicts, ...obsoleteConflicts] };
+  }
+
+  /**
+   * sha256 do conteúdo com quebras de linha normalizadas (checkout com CRLF não conta como alteração)
+   */
+  hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+  }
+
+  /**
+   * Um arquivo pode ser sobrescrito se foi gerado pelo Zheus e não mudou desde então
+   */
+  private isUnchanged(manifest: ZheusManifest, relativePath: string, currentContent: string): boolean {
+    const expectedHash = manifest.files[relativePath];
+    return expectedHash !== undefined && expectedHash === this.hashContent(currentContent);
+  }
+
+  /**
+   * Indica se o arquivo pode passar por merge e por isso precisa de base
+   */
+  private isMergeable(relativePath: string): boolean {
+    return !UNMERGED_PREFIXES.some(prefix => relativePath.startsWith(prefix));
+  }
+
+  /**
+   * Versões geradas anteriormente por caminho relativo (vazio se a base não existir,
+   * ex: projetos gerados antes dela); a pasta do formato anterior também é lida
+   */
+  private readBaseSnapshot(projectPath: string): Map<string, string> {
+    const snapshotPath = path.join(projectPath, ...BASE_SNAPSHOT.split('/'));
+    if (fileOutput.existsSync(snapshotPath)) {
+      try {
+        const json = zlib.gunzipSync(Buffer.from(fileOutput.readFileSync(snapshotPath, 'utf-8'), 'base64')).toString('utf-8');
+        return new Map(Object.entries(JSON.parse(json) as Record<string, string>));
+      } catch (error: any) {
+        console.warn(`⚠️ Base do merge inválida em ${projectPath}: ${error.message}`);
+        return new Map();
+      }
+    }
+
+    const legacyPath = path.join(projectPath, ...LEGACY_BASE_DIRECTORY.split('/'));
+    const base = new Map<string, string>();
+    if (fileOutput.existsSync(legacyPath)) {
+      for (const relativePath of this.listFiles(legacyPath, [])) {
+        base.set(relativePath, fileOutput.readFileSync(path.join(legacyPath, ...relativePath.split('/')), 'utf-8'));
+      }
+    }
+    return base;
+  }
+
+  /**
+   * Grava a base em uma única entrada (caminhos ordenados, para o conteúdo ser determinístico)
+   * e remove a pasta do formato anterior
+   */
+  private writeBaseSnapshot(projectPath: string, base: Map<string, string>): void {
+    const json = JSON.stringify(Object.fromEntries([...base].sort(([a], [b]) => a.localeCompare(b))));
+    const snapshotPath = path.join(projectPath, ...BASE_SNAPSHOT.split('/'));
+
+    fileOutput.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fileOutput.writeFileSync(snapshotPath, zlib.gzipSync(json, { level: 9 }).toString('base64') + '\n', 'utf-8');
+    fileOutput.rmSync(path.join(projectPath, ...LEGACY_BASE_DIRECTORY.split('/')), { recursive: true, force: true });
+  }
+
+  /**
+   * Caminhos relativos (separador "/") de todos os arquivos do projeto, exceto o próprio manifesto
+   */
+  private listProjectFiles(projectPath: string): string[] {
+    return this.listFiles(projectPath, IGNORED_DIRECTORIES).filter(file => file !== MANIFEST_FILE);
+  }
+
+  /**
+   * Caminhos relativos (separador "/") dos arquivos abaixo de "root", ordenados
+   */
+  private listFiles(root: string, ignoredDirectories: string[]): string[] {
+    const files: string[] = [];
+
+    const collect = (directory: string) => {
+      for (const entry of fileOutput.readdirSync(directory)) {
+        const fullPath = path.join(directory, entry);
+        if (fileOutput.statSync(fullPath).isDirectory()) {
+          if (!ignoredDirectories.includes(entry)) collect(fullPath);
+        } else {
+          files.push(this.toRelativePath(root, fullPath));
+        }
+      }
+    };
+
+    collect(root);
+    return files.sort();
+  }
+
+  private toRelativePath(projectPath: string, filePath: string): string {
+    return path.relative(path.resolve(projectPath), path.resolve(filePath)).split(path.sep).join('/');
+  }
+
+  /**
+   * Versão do Zheus (package.json)
+   */
+  private getZheusVersion(): string {
+    if (!ManifestService.zheusVersion) {
+      try {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf-8'));
+        ManifestService.zheusVersion = packageJson.version || '1.0.0';
+      } catch {
+        ManifestService.zheusVersion = '1.0.0';
+      }
+    }
+    return ManifestService.zheusVersion!;
+  }
+}
@@ -0,0 +1,57 @@
+import { CONFLICT_MARKERS, MergeService } from './mergeService';
+
+const lines = (...content: string[]) => content.join('\n') + '\n';
+
+describe('MergeService.merge', () => {
+  const service = new MergeService();
+  const base = lines('using System;', '', 'public class Book', '{', '    public string Title { get; set; }', '}');
+
+  it('combina alterações em trechos diferentes sem conflito', () => {
+    const yours = lines('using System;', 'using Shop.Extensions;', '', 'public class Book', '{', '    public string Title { get; set; }', '}');
+    const zheus = lines('using System;', '', 'public class Book', '{', '    public string Title { get; set; }', '    public decimal Price { get; set; }', '}');
+
+    const result = service.merge(base, yours, zheus);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(lines(
+      'using System;', 'using Shop.Extensions;', '', 'public class Book', '{',
+      '    public string Title { get; set; }', '    public decimal Price { get; set; }', '}'
+    ));
+  });
+
+  it('marca o conflito quando os dois lados alteram o mesmo trecho', () => {
+    const yours = lines('using System;', '', 'public class Book', '{', '    public string Name { get; set; }', '}');
+    const zheus = lines('using System;', '', 'public class Book', '{', '    public string Title { get; init; }', '}');
+
+    const result = service.merge(base, yours, zheus);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(lines(
+      'using System;', '', 'public class Book', '{',
+      CONFLICT_MARKERS.start, '    public string Name { get; set; }',
+      CONFLICT_MARKERS.separator, '    public string Title { get; init; }',
+      CONFLICT_MARKERS.end, '}'
+    ));
+  });
+
+  it('aceita a mesma alteração feita pelos dois lados', () => {
+    const changed = lines('using System;', '', 'public class Book', '{', '    public string Title { get; init; }', '}');
+
+    const result = service.merge(base, changed, changed);
+
+    expect(result).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('mantém as alterações do usuário quando a nova geração é igual à base', () => {
+    const yours = lines('using System;', '', 'public class Book', '{', '    // Regra do time', '    public string Title { get; set; }', '}');
+
+    expect(service.merge(base, yours, base)).toEqual({ content: yours, conflicts: 0 });
+  });
+
+  it('preserva as quebras de linha CRLF do arquivo do usuário', () => {
+    const yours = base.replace(/\n/g, '\r\n');
+    const zheus = lines('using System;', '', 'public class Book', '{', '    public string Title { get; init; }', '}');
+
+    expect(service.merge(base, yours, zheus).content).toBe(zheus.replace(/\n/g, '\r\n'));
+  });
+});
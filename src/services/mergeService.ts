@@ -0,0 +1,113 @@
+export interface MergeResult {
+  content: string;
+  conflicts: number;               // Quantidade de blocos com marcadores de conflito
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< yours',
+  separator: '=======',
+  end: '>>>>>>> zheus'
+};
+
+/**
+ * Merge de três vias por linhas (diff3): base = versão gerada anteriormente,
+ * "yours" = arquivo atual (com as alterações do usuário), "zheus" = nova versão gerada
+ */
+export class MergeService {
+
+  /**
+   * Combina as alterações do usuário e da nova geração sobre a base
+   * Trechos alterados pelos dois lados de formas diferentes recebem marcadores de conflito
+   */
+  merge(base: string, yours: string, zheus: string): MergeResult {
+    const eol = yours.includes('\r\n') ? '\r\n' : '\n';
+    const finalEol = yours.endsWith('\n') || zheus.endsWith('\n') ? eol : '';
+    const baseLines = this.splitLines(base);
+    const yourLines = this.splitLines(yours);
+    const zheusLines = this.splitLines(zheus);
+
+    const yourMatches = this.matchLines(baseLines, yourLines);
+    const zheusMatches = this.matchLines(baseLines, zheusLines);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let b = 0, y = 0, z = 0;
+
+    while (b < baseLines.length || y < yourLines.length || z < zheusLines.length) {
+      // Linha da base mantida pelos dois lados: trecho estável
+      if (b < baseLines.length && yourMatches[b] === y && zheusMatches[b] === z) {
+        output.push(baseLines[b]);
+        b++; y++; z++;
+        continue;
+      }
+
+      // Próxima linha da base mantida pelos dois lados (fim do trecho alterado)
+      let nextBase = b;
+      while (nextBase < baseLines.length && (yourMatches[nextBase] < y || zheusMatches[nextBase] < z)) {
+        nextBase++;
+      }
+      const nextYours = nextBase < baseLines.length ? yourMatches[nextBase] : yourLines.length;
+      const nextZheus = nextBase < baseLines.length ? zheusMatches[nextBase] : zheusLines.length;
+
+      const baseChunk = baseLines.slice(b, nextBase);
+      const yourChunk = yourLines.slice(y, nextYours);
+      const zheusChunk = zheusLines.slice(z, nextZheus);
+
+      if (this.sameLines(yourChunk, baseChunk)) {
+        output.push(...zheusChunk);
+      } else if (this.sameLines(zheusChunk, baseChunk) || this.sameLines(yourChunk, zheusChunk)) {
+        output.push(...yourChunk);
+      } else {
+        conflicts++;
+        output.push(CONFLICT_MARKERS.start, ...yourChunk, CONFLICT_MARKERS.separator, ...zheusChunk, CONFLICT_MARKERS.end);
+      }
+
+      b = nextBase; y = nextYours; z = nextZheus;
+    }
+
+    return { content: output.length > 0 ? output.join(eol) + finalEol : '', conflicts };
+  }
+
+  /**
+   * Para cada linha da base, o índice da linha correspondente em "other" (LCS) ou -1
+   */
+  private matchLines(base: string[], other: string[]): number[] {
+    const rows = base.length + 1;
+    const columns = other.length + 1;
+    const lengths = new Uint32Array(rows * columns);
+
+    for (let i = base.length - 1; i >= 0; i--) {
+      for (let j = other.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = base[i] === other[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    const matches = new Array<number>(base.length).fill(-1);
+    let i = 0, j = 0;
+    while (i < base.length && j < other.length) {
+      if (base[i] === other[j]) {
+        matches[i++] = j++;
+      } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Linhas sem a quebra final (a quebra de linha no fim do arquivo é tratada à parte)
+   */
+  private splitLines(content: string): string[] {
+    const text = content.replace(/\r?\n$/, '');
+    return text === '' ? [] : text.split(/\r?\n/);
+  }
+
+  private sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+  }
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EntityDefinition } from '../types/entity';
+import { MigrationService } from './migrationService';
+import { SeedService } from './seedService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [
+    { name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false },
+    { name: 'Price', type: 'decimal', isRequired: true, isNavigationProperty: false }
+  ],
+  seed: [{ Name: 'Pen', Price: 2.5 }]
+};
+
+describe('MigrationService.generateInitialMigration', () => {
+  const service = new MigrationService();
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-migration-'));
+    fs.mkdirSync(path.join(projectPath, 'Infrastructure'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('gera migration, designer e snapshot com os tipos de coluna do provider e o seed', async () => {
+    const result = await service.generateInitialMigration(projectPath, [product], [], { provider: 'postgres' });
+
+    expect(result.success).toBe(true);
+    expect(result.files!.map(file => path.basename(file).replace(/^\d+_/, ''))).toEqual([
+      'InitialCreate.cs', 'InitialCreate.Designer.cs', 'ApplicationDbContextModelSnapshot.cs'
+    ]);
+
+    const migration = fs.readFileSync(result.files![0], 'utf-8');
+    expect(migration).toContain('name: "Product"');
+    expect(migration).toContain('Price = table.Column<decimal>(type: "numeric(18,2)", nullable: false)');
+    expect(migration).toContain('migrationBuilder.InsertData(');
+    expect(migration).toContain('"Pen", 2.5m');
+    expect(fs.readFileSync(result.files![2], 'utf-8')).toContain('HasColumnType("numeric(18,2)")');
+  });
+
+  it('não gera migration para o provider inmemory', async () => {
+    const result = await service.generateInitialMigration(projectPath, [product], [], { provider: 'inmemory' });
+
+    expect(result).toMatchObject({ success: true, files: [] });
+    expect(fs.existsSync(path.join(projectPath, 'Infrastructure', 'Migrations'))).toBe(false);
+  });
+});
+
+describe('SeedService', () => {
+  const service = new SeedService();
+
+  it('gera o HasData com chave determinística', () => {
+    const lines = service.buildModelConfiguration([product]);
+
+    expect(lines[0]).toBe('            modelBuilder.Entity<ProductEntity>().HasData(');
+    expect(lines[1]).toContain('Name = "Pen", Price = 2.5m');
+    expect(service.buildModelConfiguration([product])).toEqual(lines);
+  });
+
+  it('rejeita colunas inexistentes e valores obrigatórios ausentes', () => {
+    expect(service.validateSeeds([{ ...product, seed: [{ Nome: 'Pen' }] }])).toEqual([
+      "Seed inválido em 'Product[0]': propriedade 'Nome' não existe ou não é uma coluna",
+      "Seed inválido em 'Product[0]': 'Name' é obrigatório"
+    ]);
+  });
+});
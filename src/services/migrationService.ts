@@ -0,0 +1,553 @@
+import * as path from 'path';
+import { EntityDefinition, EntityProperty, EnumDefinition } from '../types/entity';
+import { DatabaseOptions } from '../types/project';
+import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { DatabaseProviderInfo, DatabaseProviderService } from './databaseProviderService';
+import { EntityService } from './entityService';
+import { PrimaryKeyService, STRING_KEY_MAX_LENGTH } from './primaryKeyService';
+import { AuditService } from './auditService';
+import { TenancyService } from './tenancyService';
+import { RelationshipService, ResolvedRelationship } from './relationshipService';
+import { SeedRow, SeedService } from './seedService';
+
+interface TableColumn {
+  name: string;
+  clrType: string;           // Tipo C# usado em table.Column<T>
+  columnType: string;        // Tipo de coluna do provider
+  isNullable: boolean;       // Coluna aceita NULL
+  isClrNullable?: boolean;   // Propriedade declarada como anulável (ex: "string?", "int?")
+  maxLength?: number;
+  isKey: boolean;
+  isIdentity?: boolean;      // Chave int/long gerada pelo banco (identity/autoincremento)
+  isPrimitiveCollection: boolean;
+}
+
+interface TableIndex {
+  columns: string[];
+  isUnique: boolean;
+}
+
+interface TableDefinition {
+  name: string;
+  clrName: string;           // Nome completo da classe (ex: Domain.Entities.ProductEntity)
+  columns: TableColumn[];
+  key?: string;
+  foreignKeys: ResolvedRelationship[];
+  indexes: TableIndex[];
+  seedRows: SeedRow[];       // Valores gravados no banco (migration/snapshot)
+}
+
+export interface MigrationResult {
+  success: boolean;
+  message: string;
+  files?: string[];
+  error?: string;
+}
+
+const MIGRATION_NAME = 'InitialCreate';
+const EF_PRODUCT_VERSION = '8.0.0';
+
+const referentialActions: Record<string, string> = {
+  Cascade: 'Cascade',
+  Restrict: 'Restrict',
+  SetNull: 'SetNull',
+  NoAction: 'NoAction'
+};
+
+export class MigrationService {
+  private databaseProviderService = new DatabaseProviderService();
+  private entityService = new EntityService();
+  private primaryKeyService = new PrimaryKeyService();
+  private auditService = new AuditService();
+  private tenancyService = new TenancyService();
+  private relationshipService = new RelationshipService();
+  private seedService = new SeedService();
+
+  /**
+   * Gera a migration InitialCreate (migration, designer e snapshot) em Infrastructure/Migrations
+   */
+  async generateInitialMigration(projectPath: string, entities: EntityDefinition[], enums: EnumDefinition[] = [], database?: DatabaseOptions): Promise<MigrationResult> {
+    try {
+      const provider = this.databaseProviderService.getProvider(database);
+
+      if (!provider.supportsMigrations) {
+        return {
+          success: true,
+          message: `Provider '${provider.provider}' não suporta migrations; o banco será criado com EnsureCreated`,
+          files: []
+        };
+      }
+
+      const infrastructurePath = path.join(projectPath, 'Infrastructure');
+      if (!fileOutput.existsSync(infrastructurePath)) {
+        return {
+          success: false,
+          message: 'Projeto Infrastructure não encontrado. Execute o scaffold primeiro.',
+          error: 'Infrastructure project not found'
+        };
+      }
+
+      const migrationsPath = path.join(infrastructurePath, 'Migrations');
+      if (!fileOutput.existsSync(migrationsPath)) {
+        fileOutput.mkdirSync(migrationsPath, { recursive: true });
+      }
+
+      const tables = this.buildTables(entities, enums, database);
+      const migrationId = `${this.buildTimestamp()}_${MIGRATION_NAME}`;
+      const model = this.buildModel(tables, database);
+
+      const files = [
+        {
+          filePath: path.join(migrationsPath, `${migrationId}.cs`),
+          content: TemplateManager.getTemplate('infrastructure/migrations/migration.hbs')({
+            name: MIGRATION_NAME,
+            up: this.buildUp(tables, database),
+            down: this.buildDown(tables)
+          })
+        },
+        {
+          filePath: path.join(migrationsPath, `${migrationId}.Designer.cs`),
+          content: TemplateManager.getTemplate('infrastructure/migrations/migrationDesigner.hbs')({
+            name: MIGRATION_NAME,
+            migrationId,
+            model
+          })
+        },
+        {
+          filePath: path.join(migrationsPath, 'ApplicationDbContextModelSnapshot.cs'),
+          content: TemplateManager.getTemplate('infrastructure/migrations/modelSnapshot.hbs')({ model })
+        }
+      ];
+
+      for (const file of files) {
+        fileOutput.writeFileSync(file.filePath, file.content, 'utf8');
+      }
+
+      return {
+        success: true,
+        message: `Migration ${migrationId} gerada com ${tables.length} tabelas`,
+        files: files.map(f => f.filePath)
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar migration inicial:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao gerar migration inicial',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Aplica o banco na inicialização da API (Migrate, ou EnsureCreated para providers sem migrations)
+   */
+  async configureDatabaseStartup(projectPath: string, database?: DatabaseOptions): Promise<MigrationResult> {
+    try {
+      const programPath = path.join(projectPath, 'API', 'Program.cs');
+
+      if (!fileOutput.existsSync(programPath)) {
+        return {
+          success: false,
+          message: 'Program.cs não encontrado no projeto API',
+          error: 'Program.cs not found'
+        };
+      }
+
+      const method = this.databaseProviderService.getProvider(database).supportsMigrations ? 'Migrate' : 'EnsureCreated';
+      let content = fileOutput.readFileSync(programPath, 'utf-8');
+
+      if (content.includes(`dbContext.Database.${method}()`)) {
+        return {
+          success: true,
+          message: 'Inicialização do banco já configurada no Program.cs',
+          files: [programPath]
+        };
+      }
+
+      // Migrations só em providers relacionais (os testes de integração trocam o banco pelo EF InMemory)
+      const startupBlock = [
+        'using (var scope = app.Services.CreateScope())',
+        '{',
+        '    var dbContext = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();',
+        ...(method === 'Migrate'
+          ? ['    if (dbContext.Database.IsRelational())', '    {', '        dbContext.Database.Migrate();', '    }']
+          : [`    dbContext.Database.${method}();`]),
+        '}'
+      ].join('\n');
+
+      if (!content.includes('#region Apps')) {
+        return {
+          success: false,
+          message: 'Região Apps não encontrada no Program.cs'
+        };
+      }
+
+      content = content.replace('#region Apps', `#region Apps\n${startupBlock}`);
+
+      // Adicionar usings necessários
+      for (const using of ['using Infrastructure.Data;', 'using Microsoft.EntityFrameworkCore;']) {
+        if (!content.includes(using)) {
+          content = `${using}\n${content}`;
+        }
+      }
+
+      fileOutput.writeFileSync(programPath, content);
+
+      return {
+        success: true,
+        message: `Program.cs configurado para executar Database.${method}() na inicialização`,
+        files: [programPath]
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao configurar inicialização do banco:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao configurar inicialização do banco',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Monta as tabelas a partir das entidades, ordenadas para respeitar as FKs
+   */
+  private buildTables(entities: EntityDefinition[], enums: EnumDefinition[], database?: DatabaseOptions): TableDefinition[] {
+    const provider = this.databaseProviderService.getProvider(database);
+    const { columnTypes } = provider;
+    const resolution = this.relationshipService.resolveRelationships(entities);
+
+    const tables: TableDefinition[] = entities.map(entity => {
+      const inheritsFromBase = entity.inheritsFromBase !== false;
+      const columns: TableColumn[] = [];
+
+      if (inheritsFromBase) {
+        columns.push(
+          this.buildKeyColumn(entity, provider),
+          { name: 'Created', clrType: 'DateTimeOffset', columnType: columnTypes.DateTimeOffset, isNullable: false, isKey: false, isPrimitiveCollection: false },
+          { name: 'Update', clrType: 'DateTimeOffset', columnType: columnTypes.DateTimeOffset, isNullable: true, isKey: false, isPrimitiveCollection: false },
+          ...[...this.tenancyService.getColumns(entity), ...this.auditService.getColumns(entity)].map(column => ({
+            name: column.name,
+            clrType: column.type,
+            columnType: column.maxLength !== undefined && provider.sizedStringType ? provider.sizedStringType(column.maxLength) : columnTypes[column.type],
+            isNullable: column.isNullable,
+            isKey: false,
+            isPrimitiveCollection: false,
+            maxLength: column.maxLength
+          }))
+        );
+      }
+
+      for (const property of entity.properties || []) {
+        const column = this.buildColumn(property, enums, provider);
+        if (column) {
+          column.isKey = !inheritsFromBase && /^id$/i.test(property.name);
+          columns.push(column);
+        }
+      }
+
+      const foreignKeys = resolution.relationships.filter(r => r.dependent === entity.name);
+      const indexes: TableIndex[] = resolution.joinIndexes
+        .filter(i => i.entity === entity.name)
+        .map(i => ({ columns: i.keys, isUnique: true }));
+      indexes.push(...this.tenancyService.getIndexes(entity));
+
+      // Índices das FKs (dispensados quando um índice composto já começa pela coluna)
+      for (const foreignKey of foreignKeys) {
+        if (!indexes.some(i => i.columns[0] === foreignKey.foreignKey)) {
+          indexes.push({ columns: [foreignKey.foreignKey], isUnique: foreignKey.kind === 'oneToOne' });
+        }
+      }
+      indexes.sort((a, b) => a.columns.join().localeCompare(b.columns.join()));
+
+      return {
+        name: entity.name,
+        clrName: `${entity.namespace || 'Domain.Entities'}.${entity.name}Entity`,
+        columns,
+        key: columns.find(c => c.isKey)?.name,
+        foreignKeys,
+        indexes,
+        seedRows: this.seedService.buildRows(entity, enums, 'store')
+      };
+    });
+
+    return this.sortByDependencies(tables);
+  }
+
+  /**
+   * Monta a coluna da chave primária (idType/idName da entidade)
+   */
+  private buildKeyColumn(entity: EntityDefinition, provider: DatabaseProviderInfo): TableColumn {
+    const key = this.primaryKeyService.getKey(entity);
+    const maxLength = key.type === 'string' ? STRING_KEY_MAX_LENGTH : undefined;
+
+    return {
+      name: key.name,
+      clrType: key.type,
+      columnType: maxLength !== undefined && provider.sizedStringType ? provider.sizedStringType(maxLength) : provider.columnTypes[key.type],
+      isNullable: false,
+      isKey: true,
+      isIdentity: key.isIdentity && !!provider.identityColumn,
+      isPrimitiveCollection: false,
+      maxLength
+    };
+  }
+
+  /**
+   * Monta a coluna de uma propriedade (ignora navegações e coleções de entidades)
+   */
+  private buildColumn(property: EntityProperty, enums: EnumDefinition[], provider: DatabaseProviderInfo): TableColumn | undefined {
+    const { columnTypes } = provider;
+
+    if (this.seedService.isNavigation(property)) {
+      return undefined;
+    }
+
+    const isNullable = property.type.endsWith('?');
+    const baseType = this.entityService.mapToCSharpType(isNullable ? property.type.slice(0, -1) : property.type);
+
+    // Enums são gravados como int ou string conforme storeAs
+    let clrType = baseType;
+    if (property.isEnum) {
+      clrType = enums.find(e => e.name === baseType)?.storeAs === 'string' ? 'string' : 'int';
+    }
+
+    // Coleções de tipos primitivos são gravadas como JSON (EF Core 8)
+    if (property.isCollection) {
+      if (!columnTypes[clrType]) {
+        return undefined;
+      }
+      return { name: property.name, clrType: 'string', columnType: columnTypes.string, isNullable: false, isKey: false, isPrimitiveCollection: true };
+    }
+
+    const storeType = columnTypes[clrType] ? clrType : 'string';
+    const maxLength = storeType === 'string' && !property.isEnum ? property.validation?.maxLength : undefined;
+
+    return {
+      name: property.name,
+      clrType: storeType,
+      columnType: maxLength !== undefined && provider.sizedStringType ? provider.sizedStringType(maxLength) : columnTypes[storeType],
+      isNullable: isNullable && !property.validation?.required,
+      isClrNullable: isNullable,
+      isKey: false,
+      isPrimitiveCollection: false,
+      maxLength
+    };
+  }
+
+  /**
+   * Ordena as tabelas para que as principais sejam criadas antes das dependentes
+   */
+  private sortByDependencies(tables: TableDefinition[]): TableDefinition[] {
+    const sorted: TableDefinition[] = [];
+    const pending = [...tables];
+
+    while (pending.length > 0) {
+      const index = pending.findIndex(table =>
+        table.foreignKeys.every(fk => fk.principal === table.name || sorted.some(s => s.name === fk.principal) || !pending.some(p => p.name === fk.principal))
+      );
+
+      // Ciclo entre tabelas: mantém a ordem declarada
+      sorted.push(...pending.splice(index === -1 ? 0 : index, 1));
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Gera o corpo do método Up (CreateTable, InsertData e CreateIndex)
+   */
+  private buildUp(tables: TableDefinition[], database?: DatabaseOptions): string {
+    const blocks: string[] = [];
+    const byName = new Map(tables.map(t => [t.name, t]));
+    const identityColumn = this.databaseProviderService.getProvider(database).identityColumn;
+
+    for (const table of tables) {
+      const columns = table.columns.map(column =>
+        `                    ${column.name} = table.Column<${column.clrType}>(type: "${column.columnType}", ${column.maxLength !== undefined ? `maxLength: ${column.maxLength}, ` : ''}nullable: ${column.isNullable})` +
+        (column.isIdentity && identityColumn ? `\n                        ${identityColumn.annotation}` : '')
+      ).join(',\n');
+
+      const constraints: string[] = [];
+      if (table.key) {
+        constraints.push(`                    table.PrimaryKey("PK_${table.name}", x => x.${table.key});`);
+      }
+      for (const foreignKey of table.foreignKeys) {
+        constraints.push([
+          `                    table.ForeignKey(`,
+          `                        name: "FK_${table.name}_${foreignKey.principal}_${foreignKey.foreignKey}",`,
+          `                        column: x => x.${foreignKey.foreignKey},`,
+          `                        principalTable: "${foreignKey.principal}",`,
+          `                        principalColumn: "${byName.get(foreignKey.principal)?.key || 'Id'}",`,
+          `                        onDelete: ReferentialAction.${referentialActions[foreignKey.onDelete] || 'Cascade'});`
+        ].join('\n'));
+      }
+
+      blocks.push([
+        `            migrationBuilder.CreateTable(`,
+        `                name: "${table.name}",`,
+        `                columns: table => new`,
+        `                {`,
+        columns,
+        `                },`,
+        `                constraints: table =>`,
+        `                {`,
+        ...(constraints.length > 0 ? [constraints.join('\n')] : []),
+        `                });`
+      ].join('\n'));
+    }
+
+    for (const table of tables) {
+      for (const row of table.seedRows) {
+        blocks.push([
+          `            migrationBuilder.InsertData(`,
+          `                table: "${table.name}",`,
+          `                columns: new[] { ${row.columns.map(c => `"${c}"`).join(', ')} },`,
+          `                values: new object[] { ${row.values.join(', ')} });`
+        ].join('\n'));
+      }
+    }
+
+    for (const table of tables) {
+      for (const index of table.indexes) {
+        const columnArgument = index.columns.length === 1
+          ? `column: "${index.columns[0]}"`
+          : `columns: new[] { ${index.columns.map(c => `"${c}"`).join(', ')} }`;
+
+        blocks.push([
+          `            migrationBuilder.CreateIndex(`,
+          `                name: "IX_${table.name}_${index.columns.join('_')}",`,
+          `                table: "${table.name}",`,
+          `                ${columnArgument}${index.isUnique ? ',\n                unique: true' : ''});`
+        ].join('\n'));
+      }
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Gera o corpo do método Down (DropTable na ordem inversa)
+   */
+  private buildDown(tables: TableDefinition[]): string {
+    return [...tables].reverse().map(table => [
+      `            migrationBuilder.DropTable(`,
+      `                name: "${table.name}");`
+    ].join('\n')).join('\n\n');
+  }
+
+  /**
+   * Gera o modelo usado no Designer e no ModelSnapshot
+   */
+  private buildModel(tables: TableDefinition[], database?: DatabaseOptions): string {
+    const blocks: string[] = [`            modelBuilder.HasAnnotation("ProductVersion", "${EF_PRODUCT_VERSION}");`];
+    const byName = new Map(tables.map(t => [t.name, t]));
+    const identityColumn = this.databaseProviderService.getProvider(database).identityColumn;
+
+    for (const table of tables) {
+      const statements: string[] = table.columns.map(column => {
+        const method = column.isPrimitiveCollection ? 'PrimitiveCollection' : 'Property';
+        const isClrNullable = column.isClrNullable ?? column.isNullable;
+        const clrType = isClrNullable && column.clrType !== 'string' ? `${column.clrType}?` : column.clrType;
+        const chain = [`                    b.${method}<${clrType}>("${column.name}")`];
+
+        // Chaves string são informadas pelo cliente (convenção do EF Core)
+        if (column.isKey && column.clrType !== 'string') chain.push('                        .ValueGeneratedOnAdd()');
+        if (!column.isNullable && (column.clrType === 'string' || isClrNullable)) chain.push('                        .IsRequired()');
+        if (column.maxLength !== undefined) chain.push(`                        .HasMaxLength(${column.maxLength})`);
+        chain.push(`                        .HasColumnType("${column.columnType}");`);
+
+        const modelStatement = column.isIdentity ? identityColumn?.modelStatement : undefined;
+        if (modelStatement) {
+          return `${chain.join('\n')}\n\n                    ${modelStatement(`b.Property<${clrType}>("${column.name}")`)}`;
+        }
+
+        return chain.join('\n');
+      });
+
+      if (table.key) {
+        statements.push(`                    b.HasKey("${table.key}");`);
+      }
+
+      for (const index of table.indexes) {
+        statements.push(`                    b.HasIndex(${index.columns.map(c => `"${c}"`).join(', ')})${index.isUnique ? '\n                        .IsUnique()' : ''};`);
+      }
+
+      statements.push(`                    b.ToTable("${table.name}");`);
+
+      if (table.seedRows.length > 0) {
+        const rows = table.seedRows.map(row => [
+          '                        new',
+          '                        {',
+          row.columns.map((c, i) => `                            ${c} = ${row.values[i]}`).join(',\n'),
+          '                        }'
+        ].join('\n'));
+
+        statements.push(`                    b.HasData(\n${rows.join(',\n')});`);
+      }
+
+      blocks.push(this.buildEntityBlock(table.clrName, statements));
+    }
+
+    // Relacionamentos (lado dependente)
+    for (const table of tables) {
+      if (table.foreignKeys.length === 0) continue;
+
+      const statements = table.foreignKeys.map(foreignKey => {
+        const principal = byName.get(foreignKey.principal);
+        const principalClrName = principal?.clrName || `Domain.Entities.${foreignKey.principal}Entity`;
+        const chain = [`                    b.HasOne("${principalClrName}", "${foreignKey.dependentNavigation}")`];
+
+        if (foreignKey.kind === 'oneToMany') {
+          chain.push(`                        .WithMany("${foreignKey.principalNavigation}")`);
+          chain.push(`                        .HasForeignKey("${foreignKey.foreignKey}")`);
+        } else {
+          chain.push(`                        .WithOne("${foreignKey.principalNavigation}")`);
+          chain.push(`                        .HasForeignKey("${table.clrName}", "${foreignKey.foreignKey}")`);
+        }
+
+        chain.push(`                        .OnDelete(DeleteBehavior.${foreignKey.onDelete})${foreignKey.isRequired ? '\n                        .IsRequired()' : ''};`);
+
+        return chain.join('\n');
+      });
+
+      statements.push(...table.foreignKeys.map(fk => `                    b.Navigation("${fk.dependentNavigation}");`));
+      blocks.push(this.buildEntityBlock(table.clrName, statements));
+    }
+
+    // Navegações do lado principal
+    for (const table of tables) {
+      const navigations = tables
+        .flatMap(t => t.foreignKeys)
+        .filter(fk => fk.principal === table.name)
+        .map(fk => `                    b.Navigation("${fk.principalNavigation}");`);
+
+      if (navigations.length > 0) {
+        blocks.push(this.buildEntityBlock(table.clrName, navigations));
+      }
+    }
+
+    return ['#pragma warning disable 612, 618', ...blocks.join('\n\n').split('\n'), '#pragma warning restore 612, 618'].join('\n');
+  }
+
+  /**
+   * Monta um bloco modelBuilder.Entity("...", b => { ... })
+   */
+  private buildEntityBlock(clrName: string, statements: string[]): string {
+    return [
+      `            modelBuilder.Entity("${clrName}", b =>`,
+      '                {',
+      statements.join('\n\n'),
+      '                });'
+    ].join('\n');
+  }
+
+  /**
+   * Timestamp no formato usado pelo dotnet ef (yyyyMMddHHmmss)
+   */
+  private buildTimestamp(): string {
+    return new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  }
+}
@@ -2,10 +2,13 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
+import { DatabaseOptions, SecurityOptions, TestProjectOptions } from '../types/project';
+import { DatabaseProviderService } from './databaseProviderService';
+import { JWT_BEARER_PACKAGE } from './securityService';
 
 const execAsync = promisify(exec);
 
-interface PackageInstallResult {
+export interface PackageInstallResult {
   success: boolean;
   packages: string[];
   errors: string[];
@@ -28,11 +31,11 @@ interface ProjectPackagesResult {
  * Serviço para gerenciar instalação de packages NuGet nos projetos gerados
  */
 export class NuGetService {
+  private databaseProviderService = new DatabaseProviderService();
   
-  // Definição dos packages por projeto
+  // Definição dos packages por projeto (o package do provider de banco é adicionado na Infrastructure)
   private readonly packagesByProject = {
     infrastructure: [
-      { name: 'Microsoft.EntityFrameworkCore.SqlServer', version: '8.0.0' },
       { name: 'Microsoft.EntityFrameworkCore.Tools', version: '8.0.0' },
       { name: 'Microsoft.EntityFrameworkCore.Design', version: '8.0.0' }
     ],
@@ -44,13 +47,24 @@ export class NuGetService {
     api: [
       { name: 'Swashbuckle.AspNetCore', version: '6.5.0' },
       { name: 'Microsoft.EntityFrameworkCore.InMemory', version: '8.0.0' }
+    ],
+    // Mesmos packages do "dotnet new xunit" (no modo sdk o template já os adiciona)
+    tests: [
+      { name: 'Microsoft.NET.Test.Sdk', version: '17.8.0' },
+      { name: 'xunit', version: '2.5.3' },
+      { name: 'xunit.runner.visualstudio', version: '2.5.3' },
+      { name: 'coverlet.collector', version: '6.0.0' }
+    ],
+    // Host da API em memória (WebApplicationFactory); o EF InMemory vem da referência ao API
+    integrationTests: [
+      { name: 'Microsoft.AspNetCore.Mvc.Testing', version: '8.0.0' }
     ]
   };
 
   /**
    * Instala todos os packages NuGet necessários para o projeto Clean Architecture
    */
-  async installProjectPackages(projectPath: string): Promise<ProjectPackagesResult> {
+  async installProjectPackages(projectPath: string, database?: DatabaseOptions, security?: SecurityOptions): Promise<ProjectPackagesResult> {
     console.log(`📦 Iniciando instalação de packages NuGet em: ${projectPath}`);
     
     try {
@@ -62,7 +76,7 @@ export class NuGetService {
       const results: ProjectPackagesResult = {
         infrastructure: await this.installPackagesForProject(
           path.join(projectPath, 'Infrastructure'),
-          this.packagesByProject.infrastructure,
+          this.getInfrastructurePackages(database),
           'Infrastructure'
         ),
         application: await this.installPackagesForProject(
@@ -72,7 +86,7 @@ export class NuGetService {
         ),
         api: await this.installPackagesForProject(
           path.join(projectPath, 'API'),
-          this.packagesByProject.api,
+          this.getApiPackages(security),
           'API'
         ),
         summary: {
@@ -112,6 +126,46 @@ export class NuGetService {
     }
   }
 
+  /**
+   * Packages da Infrastructure incluindo o provider de banco selecionado
+   */
+  getInfrastructurePackages(database?: DatabaseOptions): Array<{ name: string; version: string }> {
+    const providerPackage = this.databaseProviderService.getProvider(database).package;
+    return [providerPackage, ...this.packagesByProject.infrastructure];
+  }
+
+  /**
+   * Packages da API incluindo o JWT bearer quando o projeto tem security
+   */
+  getApiPackages(security?: SecurityOptions): Array<{ name: string; version: string }> {
+    return security ? [...this.packagesByProject.api, JWT_BEARER_PACKAGE] : this.packagesByProject.api;
+  }
+
+  /**
+   * Packages de cada projeto gerado (usados como PackageReference no modo sem SDK);
+   * os projetos Tests e IntegrationTests só entram quando pedidos
+   */
+  getPackagesByProject(database?: DatabaseOptions, security?: SecurityOptions, testProjects: TestProjectOptions = {}): Record<'Infrastructure' | 'Application' | 'API', Array<{ name: string; version: string }>> & Partial<Record<'Tests' | 'IntegrationTests', Array<{ name: string; version: string }>>> {
+    return {
+      Infrastructure: this.getInfrastructurePackages(database),
+      Application: this.packagesByProject.application,
+      API: this.getApiPackages(security),
+      ...(testProjects.tests ? { Tests: this.packagesByProject.tests } : {}),
+      ...(testProjects.integrationTests ? { IntegrationTests: [...this.packagesByProject.tests, ...this.packagesByProject.integrationTests] } : {})
+    };
+  }
+
+  /**
+   * Instala os packages do projeto IntegrationTests no modo sdk (os do xUnit já vêm do "dotnet new xunit")
+   */
+  async installIntegrationTestPackages(projectPath: string): Promise<PackageInstallResult> {
+    return this.installPackagesForProject(
+      path.join(projectPath, 'IntegrationTests'),
+      this.packagesByProject.integrationTests,
+      'IntegrationTests'
+    );
+  }
+
   /**
    * Instala packages para um projeto específico
    */
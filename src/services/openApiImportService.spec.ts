@@ -0,0 +1,119 @@
+import { OpenApiImportService } from './openApiImportService';
+
+const shopDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Shop API' },
+  components: {
+    schemas: {
+      Category: {
+        type: 'object',
+        required: ['title'],
+        properties: { title: { type: 'string', maxLength: 50 } }
+      },
+      Product: {
+        type: 'object',
+        required: ['name', 'price'],
+        properties: {
+          name: { type: 'string' },
+          price: { type: 'number', format: 'decimal', minimum: 0 },
+          email: { type: 'string', format: 'email' },
+          createdAt: { type: 'string', format: 'date-time' },
+          category: { $ref: '#/components/schemas/Category' },
+          tags: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
+
+const documentWithEnum = (values: unknown[], type = 'string') => ({
+  openapi: '3.0.3',
+  components: {
+    schemas: {
+      Product: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          status: { $ref: '#/components/schemas/ProductStatus' }
+        }
+      },
+      ProductStatus: { type, enum: values }
+    }
+  }
+});
+
+describe('OpenApiImportService', () => {
+  const service = new OpenApiImportService();
+
+  it('converte os schemas em entidades com tipos, obrigatoriedade e validações', () => {
+    const result = service.importDocument(shopDocument);
+
+    expect(result.success).toBe(true);
+    expect(result.scaffoldRequest!.projectOptions).toMatchObject({ name: 'ShopAPI' });
+
+    const product = result.scaffoldRequest!.entities.find(e => e.name === 'Product')!;
+    expect(product.properties.map(p => [p.name, p.type, p.isRequired])).toEqual([
+      ['Name', 'string', true],
+      ['Price', 'decimal', true],
+      ['Email', 'string?', false],
+      ['CreatedAt', 'DateTime?', false]
+    ]);
+    expect(product.properties[1].validation).toEqual({ range: { min: 0 } });
+    expect(product.properties[2].validation).toEqual({ email: true });
+  });
+
+  it('transforma $ref para outro schema em manyToOne', () => {
+    const product = service.importDocument(shopDocument).scaffoldRequest!.entities.find(e => e.name === 'Product')!;
+
+    expect(product.relationships).toEqual([
+      { type: 'manyToOne', target: 'Category', navigationName: 'Category', foreignKey: 'CategoryId', isRequired: false }
+    ]);
+  });
+
+  it('lista nos warnings as propriedades com tipos sem equivalente', () => {
+    expect(service.importDocument(shopDocument).warnings).toEqual([
+      "Propriedade 'Product.tags' ignorada: tipo 'array de string' não suportado"
+    ]);
+  });
+
+  it('aceita o documento em YAML', () => {
+    const yaml = [
+      'openapi: 3.0.3',
+      'components:',
+      '  schemas:',
+      '    Tag:',
+      '      type: object',
+      '      properties:',
+      '        label:',
+      '          type: string'
+    ].join('\n');
+
+    const result = service.importDocument(yaml);
+
+    expect(result.scaffoldRequest!.entities.map(e => e.name)).toEqual(['Tag']);
+  });
+});
+
+describe('OpenApiImportService enums', () => {
+  const service = new OpenApiImportService();
+
+  it('mantém os valores declarados nos enums de texto', () => {
+    const result = service.importDocument(documentWithEnum(['available', 'OUT_OF_STOCK']));
+
+    expect(result.success).toBe(true);
+    expect(result.scaffoldRequest!.enums).toEqual([{ name: 'ProductStatus', values: ['available', 'OUT_OF_STOCK'], storeAs: 'string' }]);
+  });
+
+  it('rejeita valores de texto que não são identificadores C#', () => {
+    const result = service.importDocument(documentWithEnum(['in-stock', 'sold out', 'available']));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Enum 'ProductStatus': valores 'in-stock', 'sold out' não são identificadores C# válidos (enums de texto são gravados com o valor declarado)");
+  });
+
+  it('nomeia os membros dos enums numéricos', () => {
+    const result = service.importDocument(documentWithEnum([1, 2], 'integer'));
+
+    expect(result.scaffoldRequest!.enums![0].values).toEqual([{ name: 'Value1', value: 1 }, { name: 'Value2', value: 2 }]);
+  });
+});
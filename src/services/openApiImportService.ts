@@ -0,0 +1,475 @@
+import * as yaml from 'js-yaml';
+import { EntityDefinition, EntityIdType, EntityProperty, EntityRelationship, EnumDefinition, EnumValue, PropertyValidation } from '../types/entity';
+import { ProjectOptions, ScaffoldImportResult, ScaffoldRequest } from '../types/common';
+import { ENTITY_ID_TYPES } from './primaryKeyService';
+
+export interface OpenApiImportOptions {
+  projectOptions?: Partial<ProjectOptions>; // Sobrescreve as opções derivadas do documento
+  schemas?: string[];                       // Importar apenas estes schemas (padrão: todos os objetos)
+}
+
+type Schema = Record<string, any>;
+
+// Referência de uma propriedade para outro schema de objeto
+interface SchemaReference {
+  source: string;
+  property: string;
+  target: string;
+  isArray: boolean;
+  isRequired: boolean;
+}
+
+// Propriedades já fornecidas pelo BaseEntity
+const BASE_ENTITY_PROPERTIES = ['id', 'created', 'update'];
+
+export class OpenApiImportService {
+  /**
+   * Converte um documento OpenAPI 3 (JSON ou YAML) em um ScaffoldRequest
+   */
+  importDocument(document: string | object, options: OpenApiImportOptions = {}): ScaffoldImportResult {
+    try {
+      const spec = this.parseDocument(document);
+
+      if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+        return {
+          success: false,
+          message: 'Documento não é um OpenAPI 3.x (campo "openapi" ausente ou inválido)',
+          error: 'Unsupported OpenAPI version'
+        };
+      }
+
+      const allSchemas: Record<string, Schema> = spec.components?.schemas || {};
+      const warnings: string[] = [];
+
+      const missing = (options.schemas || []).filter(name => !allSchemas[name]);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          message: `Schemas não encontrados em components.schemas: ${missing.join(', ')}`,
+          error: 'Schema not found'
+        };
+      }
+
+      // Schemas usados como base em allOf já são incorporados nos derivados
+      const baseSchemas = new Set(
+        Object.values(allSchemas).flatMap(schema => (schema.allOf || []).map((part: Schema) => this.getRefName(part)).filter(Boolean))
+      );
+
+      // Separar schemas de enum e de objeto
+      const enumSchemas = new Map<string, Schema>();
+      const objectSchemas = new Map<string, Schema>();
+
+      for (const [name, schema] of Object.entries(allSchemas)) {
+        if (Array.isArray(schema.enum)) {
+          enumSchemas.set(name, schema);
+        } else if (this.isObjectSchema(schema, allSchemas)) {
+          const isSelected = options.schemas ? options.schemas.includes(name) : !baseSchemas.has(name);
+          if (isSelected) {
+            objectSchemas.set(name, schema);
+          }
+        } else if (!options.schemas || options.schemas.includes(name)) {
+          warnings.push(`Schema '${name}' ignorado: não é um objeto nem um enum`);
+        }
+      }
+
+      if (objectSchemas.size === 0) {
+        return {
+          success: false,
+          message: 'Nenhum schema de objeto encontrado em components.schemas',
+          error: 'No object schemas'
+        };
+      }
+
+      const enums: EnumDefinition[] = [];
+      const enumErrors: string[] = [];
+      const entities: EntityDefinition[] = [];
+      const references: SchemaReference[] = [];
+
+      for (const [schemaName, schema] of objectSchemas) {
+        const entityName = this.toPascalCase(schemaName);
+        const { properties, required } = this.collectProperties(schema, allSchemas);
+        const entity: EntityDefinition = { name: entityName, properties: [] };
+
+        for (const [propertyName, rawPropertySchema] of Object.entries(properties)) {
+          const name = this.toPascalCase(propertyName);
+          const isRequired = required.includes(propertyName);
+
+          if (BASE_ENTITY_PROPERTIES.includes(name.toLowerCase())) {
+            if (name.toLowerCase() !== 'id') {
+              warnings.push(`Propriedade '${schemaName}.${propertyName}' ignorada: já existe no BaseEntity`);
+              continue;
+            }
+
+            // "id" vira a chave da entidade; integer/int64/string mudam o idType (padrão: Guid)
+            const keyType = this.mapType(this.unwrapSchema(rawPropertySchema).schema) as EntityIdType | null;
+            if (keyType && keyType !== 'Guid' && ENTITY_ID_TYPES.includes(keyType)) {
+              entity.idType = keyType;
+            }
+            continue;
+          }
+
+          const { schema: propertySchema, nullable } = this.unwrapSchema(rawPropertySchema);
+
+          // Referência para outro schema
+          const refName = this.getRefName(propertySchema);
+          const itemsRefName = propertySchema.type === 'array' ? this.getRefName(this.unwrapSchema(propertySchema.items || {}).schema) : null;
+
+          if (refName && enumSchemas.has(refName)) {
+            const enumDef = this.addEnum(enums, this.toPascalCase(refName), enumSchemas.get(refName)!, enumErrors);
+            entity.properties.push(this.buildProperty(name, enumDef.name, isRequired, nullable));
+            continue;
+          }
+
+          if (refName || itemsRefName) {
+            const target = (refName || itemsRefName)!;
+            if (!objectSchemas.has(target)) {
+              warnings.push(`Propriedade '${schemaName}.${propertyName}' ignorada: referência '${target}' não é um schema importado`);
+              continue;
+            }
+
+            references.push({ source: entityName, property: name, target: this.toPascalCase(target), isArray: !refName, isRequired: isRequired && !nullable });
+            continue;
+          }
+
+          if (Array.isArray(propertySchema.enum)) {
+            const enumDef = this.addEnum(enums, `${entityName}${name}`, propertySchema, enumErrors);
+            entity.properties.push(this.buildProperty(name, enumDef.name, isRequired, nullable));
+            continue;
+          }
+
+          const type = this.mapType(propertySchema);
+          if (!type) {
+            warnings.push(`Propriedade '${schemaName}.${propertyName}' ignorada: tipo '${this.describeType(propertySchema)}' não suportado`);
+            continue;
+          }
+
+          const property = this.buildProperty(name, type, isRequired, nullable);
+          const validation = this.buildValidation(propertySchema, type);
+          if (validation) {
+            property.validation = validation;
+          }
+
+          entity.properties.push(property);
+        }
+
+        entities.push(entity);
+      }
+
+      if (enumErrors.length > 0) {
+        return {
+          success: false,
+          message: enumErrors[0],
+          error: 'Invalid enum value'
+        };
+      }
+
+      this.applyRelationships(entities, references);
+
+      const title = spec.info?.title ? this.toPascalCase(String(spec.info.title)) : '';
+      const scaffoldRequest: ScaffoldRequest = {
+        projectOptions: {
+          name: title || 'ImportedApi',
+          ...options.projectOptions
+        },
+        entities,
+        ...(enums.length > 0 ? { enums } : {})
+      };
+
+      return {
+        success: true,
+        message: `${entities.length} entidade(s) e ${enums.length} enum(s) importados do OpenAPI`,
+        scaffoldRequest,
+        warnings
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao importar documento OpenAPI:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao ler o documento OpenAPI',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Lê o documento a partir de um objeto ou de um texto JSON/YAML
+   */
+  private parseDocument(document: string | object): Schema {
+    if (typeof document !== 'string') {
+      return document as Schema;
+    }
+
+    // YAML é um superconjunto de JSON, então o mesmo parser atende os dois formatos
+    const parsed = yaml.load(document);
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('Documento vazio ou inválido');
+    }
+
+    return parsed as Schema;
+  }
+
+  /**
+   * Junta as propriedades do schema, incluindo as herdadas via allOf
+   */
+  private collectProperties(schema: Schema, allSchemas: Record<string, Schema>, visited: Set<string> = new Set()): { properties: Record<string, Schema>; required: string[] } {
+    const refName = this.getRefName(schema);
+    if (refName) {
+      if (visited.has(refName) || !allSchemas[refName]) {
+        return { properties: {}, required: [] };
+      }
+      visited.add(refName);
+      return this.collectProperties(allSchemas[refName], allSchemas, visited);
+    }
+
+    const properties: Record<string, Schema> = {};
+    const required: string[] = [];
+
+    for (const part of schema.allOf || []) {
+      const collected = this.collectProperties(part, allSchemas, visited);
+      Object.assign(properties, collected.properties);
+      required.push(...collected.required);
+    }
+
+    Object.assign(properties, schema.properties || {});
+    required.push(...(schema.required || []));
+
+    return { properties, required };
+  }
+
+  /**
+   * Verifica se o schema (ou seu allOf) descreve um objeto com propriedades
+   */
+  private isObjectSchema(schema: Schema, allSchemas: Record<string, Schema>): boolean {
+    return Object.keys(this.collectProperties(schema, allSchemas).properties).length > 0;
+  }
+
+  /**
+   * Remove os invólucros de nulidade (nullable, type: [x, "null"], allOf/oneOf/anyOf com um único schema)
+   */
+  private unwrapSchema(schema: Schema): { schema: Schema; nullable: boolean } {
+    let nullable = schema.nullable === true;
+    let current = schema;
+
+    if (Array.isArray(current.type)) {
+      const types = current.type.filter((t: string) => t !== 'null');
+      nullable = nullable || types.length < current.type.length;
+      current = { ...current, type: types.length === 1 ? types[0] : types };
+    }
+
+    for (const key of ['allOf', 'oneOf', 'anyOf']) {
+      const parts: Schema[] = current[key];
+      if (!Array.isArray(parts)) continue;
+
+      const nonNull = parts.filter(p => p.type !== 'null');
+      if (nonNull.length === 1) {
+        nullable = nullable || nonNull.length < parts.length;
+        const inner = this.unwrapSchema(nonNull[0]);
+        return { schema: inner.schema, nullable: nullable || inner.nullable };
+      }
+    }
+
+    return { schema: current, nullable };
+  }
+
+  /**
+   * Mapeia type/format do OpenAPI para o tipo C# usado pelo Zheus
+   */
+  private mapType(schema: Schema): string | null {
+    switch (schema.type) {
+      case 'string':
+        switch (schema.format) {
+          case 'date-time':
+          case 'date':
+            return 'DateTime';
+          case 'uuid':
+            return 'Guid';
+          default:
+            return 'string';
+        }
+      case 'integer':
+        return schema.format === 'int64' ? 'long' : 'int';
+      case 'number':
+        switch (schema.format) {
+          case 'float':
+            return 'float';
+          case 'double':
+            return 'double';
+          default:
+            return 'decimal';
+        }
+      case 'boolean':
+        return 'bool';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Converte minLength/maxLength/pattern/format/minimum/maximum em regras de validação
+   */
+  private buildValidation(schema: Schema, type: string): PropertyValidation | null {
+    const validation: PropertyValidation = {};
+
+    if (type === 'string') {
+      if (Number.isInteger(schema.minLength)) validation.minLength = schema.minLength;
+      if (Number.isInteger(schema.maxLength)) validation.maxLength = schema.maxLength;
+      if (typeof schema.pattern === 'string') validation.regex = schema.pattern;
+      if (schema.format === 'email') validation.email = true;
+      if (schema.format === 'uri' || schema.format === 'url') validation.url = true;
+    } else if (['int', 'long', 'float', 'double', 'decimal'].includes(type)) {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+      if (min !== undefined || max !== undefined) {
+        validation.range = { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+      }
+    }
+
+    return Object.keys(validation).length > 0 ? validation : null;
+  }
+
+  /**
+   * Cria a propriedade, marcando tipos anuláveis com "?"
+   */
+  private buildProperty(name: string, type: string, isRequired: boolean, nullable: boolean): EntityProperty {
+    return {
+      name,
+      type: nullable || !isRequired ? `${type}?` : type,
+      isRequired: isRequired && !nullable,
+      isNavigationProperty: false
+    };
+  }
+
+  /**
+   * Registra um enum (reutilizando o já importado com o mesmo nome)
+   * Enums de texto são gravados como string: os membros mantêm os valores declarados (o que é gravado
+   * e trafega na API é o próprio valor), então valores que não são identificadores C# são rejeitados
+   */
+  private addEnum(enums: EnumDefinition[], name: string, schema: Schema, errors: string[]): EnumDefinition {
+    const existing = enums.find(e => e.name === name);
+    if (existing) {
+      return existing;
+    }
+
+    const varNames: string[] | undefined = schema['x-enum-varnames'];
+    const isNumeric = schema.type === 'integer' || schema.enum.every((v: any) => typeof v === 'number');
+
+    const declared = schema.enum.filter((v: any) => v !== null);
+    const values: (string | EnumValue)[] = isNumeric
+      ? declared.map((v: any, index: number) => ({ name: this.toIdentifier(varNames?.[index] ?? `Value${v}`), value: Number(v) }))
+      : declared.map((v: any) => String(v));
+
+    const invalidValues = isNumeric ? [] : (values as string[]).filter(v => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(v));
+    if (invalidValues.length > 0) {
+      errors.push(`Enum '${name}': valores ${invalidValues.map(v => `'${v}'`).join(', ')} não são identificadores C# válidos (enums de texto são gravados com o valor declarado)`);
+    }
+
+    const enumDef: EnumDefinition = { name, values, ...(isNumeric ? {} : { storeAs: 'string' as const }) };
+    enums.push(enumDef);
+    return enumDef;
+  }
+
+  /**
+   * Converte as referências entre schemas em relacionamentos
+   * - $ref simples: manyToOne (ou par com a coleção do outro lado)
+   * - array de $ref: oneToMany, ou manyToMany se o outro lado também for array
+   */
+  private applyRelationships(entities: EntityDefinition[], references: SchemaReference[]): void {
+    const byName = new Map(entities.map(e => [e.name, e]));
+    const handled = new Set<SchemaReference>();
+
+    const addRelationship = (entityName: string, relationship: EntityRelationship) => {
+      const entity = byName.get(entityName)!;
+      entity.relationships = [...(entity.relationships || []), relationship];
+    };
+
+    for (const reference of references) {
+      if (handled.has(reference)) continue;
+      handled.add(reference);
+
+      // Referência do lado oposto, ainda não tratada
+      const inverse = references.find(r => !handled.has(r) && r.source === reference.target && r.target === reference.source && r !== reference);
+      if (inverse) handled.add(inverse);
+
+      if (!reference.isArray) {
+        addRelationship(reference.source, {
+          type: 'manyToOne',
+          target: reference.target,
+          navigationName: reference.property,
+          foreignKey: `${reference.property}Id`,
+          isRequired: reference.isRequired,
+          ...(inverse?.isArray ? { inverseNavigationName: inverse.property } : {})
+        });
+
+        // Se o outro lado também é uma referência simples, ele vira uma FK independente
+        if (inverse && !inverse.isArray) {
+          handled.delete(inverse);
+        }
+        continue;
+      }
+
+      if (inverse?.isArray) {
+        addRelationship(reference.source, { type: 'manyToMany', target: reference.target });
+        continue;
+      }
+
+      if (inverse) {
+        // Coleção aqui e referência simples do outro lado: declarar no dependente
+        addRelationship(inverse.source, {
+          type: 'manyToOne',
+          target: inverse.target,
+          navigationName: inverse.property,
+          foreignKey: `${inverse.property}Id`,
+          isRequired: inverse.isRequired,
+          inverseNavigationName: reference.property
+        });
+        continue;
+      }
+
+      addRelationship(reference.source, {
+        type: 'oneToMany',
+        target: reference.target,
+        navigationName: reference.property,
+        inverseNavigationName: reference.source,
+        foreignKey: `${reference.source}Id`
+      });
+    }
+  }
+
+  private getRefName(schema: Schema): string | null {
+    const ref = schema?.$ref;
+    if (typeof ref !== 'string' || !ref.startsWith('#/components/schemas/')) {
+      return null;
+    }
+    return decodeURIComponent(ref.substring('#/components/schemas/'.length));
+  }
+
+  private describeType(schema: Schema): string {
+    if (schema.type === 'array') {
+      return `array de ${schema.items?.type || 'objetos inline'}`;
+    }
+    return schema.type || 'objeto inline';
+  }
+
+  /**
+   * Converte nomes como "order-item", "order_item" ou "orderItem" em "OrderItem"
+   */
+  private toPascalCase(value: string): string {
+    return value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  /**
+   * Gera um identificador C# válido para membros de enum
+   */
+  private toIdentifier(value: string): string {
+    const identifier = this.toPascalCase(value);
+    if (!identifier) {
+      return 'Unknown';
+    }
+    return /^\d/.test(identifier) ? `Value${identifier}` : identifier;
+  }
+}
@@ -0,0 +1,130 @@
+import { EntityDefinition, EntityIdType, EntityKey } from '../types/entity';
+
+export const ENTITY_ID_TYPES: EntityIdType[] = ['Guid', 'int', 'long', 'string'];
+
+const DEFAULT_ID_TYPE: EntityIdType = 'Guid';
+const DEFAULT_ID_NAME = 'Id';
+
+// Tamanho das chaves string (mesmo limite que o EF Core usa para chaves no SQL Server)
+export const STRING_KEY_MAX_LENGTH = 450;
+
+/**
+ * Chave primária das entidades: tipo (Guid, int, long, string) e nome definidos no projeto
+ * (projectOptions.idType/idName) ou por entidade, usados em entidade, comandos, handler, controller e EF
+ */
+export class PrimaryKeyService {
+
+  /**
+   * Valida idType/idName (do projeto ou de uma entidade)
+   */
+  validateKeyOptions(options: { idType?: unknown; idName?: unknown }, context: string): string[] {
+    const errors: string[] = [];
+
+    if (options.idType !== undefined && !ENTITY_ID_TYPES.includes(options.idType as EntityIdType)) {
+      errors.push(`${context}: idType '${options.idType}' não suportado. Use: ${ENTITY_ID_TYPES.join(', ')}`);
+    }
+
+    if (options.idName !== undefined && (typeof options.idName !== 'string' || !/^[A-Z][A-Za-z0-9_]*$/.test(options.idName))) {
+      errors.push(`${context}: idName '${options.idName}' inválido (deve começar com maiúscula e conter apenas letras, números e "_")`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Valida a chave de cada entidade: opções informadas e conflito com propriedades de mesmo nome
+   */
+  validateEntityKeys(entities: EntityDefinition[], defaults: { idType?: EntityIdType; idName?: string } = {}): string[] {
+    const errors: string[] = [];
+
+    for (const entity of entities) {
+      errors.push(...this.validateKeyOptions(entity, `Entidade '${entity.name}'`));
+
+      if (entity.inheritsFromBase === false) continue;
+
+      const keyName = entity.idName || defaults.idName || DEFAULT_ID_NAME;
+      if ((entity.properties || []).some(p => p.name === keyName)) {
+        errors.push(`Entidade '${entity.name}': propriedade '${keyName}' conflita com a chave primária (use idName para renomear a chave)`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Preenche idType/idName das entidades que não os definem com os valores do projeto
+   */
+  applyKeys(entities: EntityDefinition[], defaults: { idType?: EntityIdType; idName?: string } = {}): EntityDefinition[] {
+    return entities.map(entity => ({
+      ...entity,
+      idType: entity.idType || defaults.idType || DEFAULT_ID_TYPE,
+      idName: entity.idName || defaults.idName || DEFAULT_ID_NAME
+    }));
+  }
+
+  /**
+   * Chave primária resolvida de uma entidade
+   */
+  getKey(entity: Pick<EntityDefinition, 'idType' | 'idName'>): EntityKey {
+    const type = entity.idType || DEFAULT_ID_TYPE;
+    const name = entity.idName || DEFAULT_ID_NAME;
+    const parameterName = name.charAt(0).toLowerCase() + name.slice(1);
+
+    return {
+      type,
+      name,
+      parameterName,
+      route: `{${parameterName}}`,
+      isGenerated: type !== 'string',
+      isIdentity: type === 'int' || type === 'long',
+      validation: this.buildValidation(type, name)
+    };
+  }
+
+  /**
+   * Configuração da chave no OnModelCreating: HasKey e geração do valor
+   * (Guid pelo EF, int/long como identity no banco, string informada pelo cliente)
+   */
+  buildModelConfiguration(entities: EntityDefinition[]): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      if (entity.inheritsFromBase === false) continue;
+
+      const key = this.getKey(entity);
+      lines.push(
+        `            modelBuilder.Entity<${entity.name}Entity>()`,
+        `                .HasKey(e => e.${key.name});`,
+        `            modelBuilder.Entity<${entity.name}Entity>()`,
+        `                .Property(e => e.${key.name})`,
+        ...(key.type === 'string'
+          ? [`                .HasMaxLength(${STRING_KEY_MAX_LENGTH})`, '                .ValueGeneratedNever();']
+          : ['                .ValueGeneratedOnAdd();']),
+        ''
+      );
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Validação da chave nos comandos que a recebem (update, delete, get by id)
+   */
+  private buildValidation(type: EntityIdType, name: string): string {
+    switch (type) {
+      case 'int':
+        return `ValidateIntGreaterThanZero(${name}, "${name}");`;
+      case 'long':
+        return `ValidateLongGreaterThanZero(${name}, "${name}");`;
+      case 'string':
+        return `ValidateStringNotEmpty(${name}, "${name}");`;
+      default:
+        return `ValidateGuidNotEmpty(${name}, "${name}");`;
+    }
+  }
+}
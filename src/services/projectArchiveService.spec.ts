@@ -0,0 +1,57 @@
+import AdmZip from 'adm-zip';
+import { MemoryFileSystem } from '../utils/FileOutput';
+import { ProjectArchiveService } from './projectArchiveService';
+
+const PROJECT_FILES = ['Shop/Shop.sln', 'Shop/Domain/Domain.csproj', 'Shop/Infrastructure/Data/ApplicationDbContext.cs', 'Shop/IoC/NativeInjectorBootStrapper.cs'];
+
+const createZip = (files: Record<string, string | Buffer>): Buffer => {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.isBuffer(content) ? content : Buffer.from(content));
+  }
+  return zip.toBuffer();
+};
+
+const projectZip = (extra: Record<string, string | Buffer> = {}) =>
+  createZip({ ...Object.fromEntries(PROJECT_FILES.map(name => [name, `// ${name}`])), ...extra });
+
+describe('ProjectArchiveService', () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  it('extrai o projeto e lista os arquivos fora da pasta do .sln', () => {
+    const service = new ProjectArchiveService();
+    const output = new MemoryFileSystem();
+
+    const result = service.extractProject(projectZip({ 'README.md': 'fora', 'other/notes.txt': 'fora' }), output, '/memory');
+
+    expect(result.success).toBe(true);
+    expect(result.archive!.rootPrefix).toBe('Shop/');
+    expect(result.archive!.skippedFiles).toEqual(['README.md', 'other/notes.txt']);
+    expect(service.getSkippedFilesWarning(result.archive!)).toBe("2 arquivo(s) fora da pasta do projeto 'Shop/' ignorados e removidos do ZIP: README.md, other/notes.txt");
+  });
+
+  it('rejeita com 413 um ZIP com mais arquivos que o limite', () => {
+    process.env.PROJECT_ARCHIVE_MAX_ENTRIES = '5';
+    const service = new ProjectArchiveService();
+
+    const result = service.extractProject(projectZip({ 'Shop/a.cs': '', 'Shop/b.cs': '' }), new MemoryFileSystem(), '/memory');
+
+    expect(result).toMatchObject({ success: false, statusCode: 413 });
+  });
+
+  it('rejeita com 413 um ZIP que descompactado excede o limite, sem extrair', () => {
+    process.env.PROJECT_ARCHIVE_MAX_MB = '1';
+    const service = new ProjectArchiveService();
+    const output = new MemoryFileSystem();
+
+    // 2 MB de zeros compactam para poucos KB
+    const result = service.extractProject(projectZip({ 'Shop/bomb.bin': Buffer.alloc(2 * 1024 * 1024) }), output, '/memory');
+
+    expect(result).toMatchObject({ success: false, statusCode: 413 });
+    expect(output.existsSync('/memory/Shop')).toBe(false);
+  });
+});
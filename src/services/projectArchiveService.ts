@@ -0,0 +1,197 @@
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import AdmZip from 'adm-zip';
+import { MemoryFileSystem } from '../utils/FileOutput';
+
+export interface ProjectArchive {
+  projectName: string;
+  projectPath: string;             // Caminho do projeto na saída em memória
+  rootPrefix: string;              // Pasta raiz dentro do ZIP (ex: "Shop/"; vazio se o .sln estiver na raiz)
+  binaryFiles: Array<{ relativePath: string; content: Buffer }>; // Mantidos como estão no ZIP de retorno
+  skippedFiles: string[];          // Arquivos fora da pasta do .sln (não entram no ZIP de retorno)
+}
+
+export interface ProjectArchiveResult {
+  success: boolean;
+  message: string;
+  archive?: ProjectArchive;
+  error?: string;
+  statusCode?: number;             // 413 quando o ZIP excede os limites de extração
+}
+
+export interface ProjectFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'removed';
+}
+
+/**
+ * Lê um projeto gerado anteriormente a partir do ZIP e monta o ZIP atualizado
+ * A extração é limitada a PROJECT_ARCHIVE_MAX_ENTRIES arquivos (padrão: 5000) e
+ * PROJECT_ARCHIVE_MAX_MB descompactados (padrão: 100), pois o ZIP inteiro fica em memória
+ */
+export class ProjectArchiveService {
+  private maxEntries = Number(process.env.PROJECT_ARCHIVE_MAX_ENTRIES) || 5000;
+  private maxUncompressedBytes = (Number(process.env.PROJECT_ARCHIVE_MAX_MB) || 100) * 1024 * 1024;
+
+  /**
+   * Extrai o ZIP para a saída em memória, localizando a pasta do projeto pelo .sln
+   * Arquivos binários (ex: bin/obj) não passam pelos services e voltam intactos no ZIP
+   */
+  extractProject(zipContent: Buffer, output: MemoryFileSystem, outputPath: string): ProjectArchiveResult {
+    try {
+      const entries = new AdmZip(zipContent).getEntries()
+        .filter(entry => !entry.isDirectory)
+        .map(entry => ({ name: entry.entryName.replace(/\\/g, '/'), entry }));
+
+      // Tamanhos declarados no diretório central; o adm-zip não descompacta além do tamanho declarado
+      const uncompressedBytes = entries.reduce((total, { entry }) => total + entry.header.size, 0);
+      if (entries.length > this.maxEntries || uncompressedBytes > this.maxUncompressedBytes) {
+        return {
+          success: false,
+          message: 'ZIP excede o limite de extração',
+          error: `máximo de ${this.maxEntries} arquivos e ${Math.floor(this.maxUncompressedBytes / 1024 / 1024)} MB descompactados (recebido: ${entries.length} arquivos, ${Math.ceil(uncompressedBytes / 1024 / 1024)} MB)`,
+          statusCode: 413
+        };
+      }
+
+      const unsafeEntry = entries.find(({ name }) => name.startsWith('/') || name.split('/').includes('..'));
+      if (unsafeEntry) {
+        return {
+          success: false,
+          message: 'ZIP inválido',
+          error: `Caminho não permitido no ZIP: ${unsafeEntry.name}`
+        };
+      }
+
+      // O .sln mais próximo da raiz define a pasta e o nome do projeto
+      const solution = entries
+        .filter(({ name }) => name.endsWith('.sln'))
+        .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+      if (!solution) {
+        return {
+          success: false,
+          message: 'ZIP não contém um projeto gerado pelo Zheus (arquivo .sln não encontrado)'
+        };
+      }
+
+      const projectName = path.posix.basename(solution.name, '.sln');
+      const rootDirectory = path.posix.dirname(solution.name);
+      const rootPrefix = rootDirectory === '.' ? '' : `${rootDirectory}/`;
+      const projectPath = path.join(outputPath, projectName);
+      const binaryFiles: ProjectArchive['binaryFiles'] = [];
+      const skippedFiles: string[] = [];
+
+      output.mkdirSync(projectPath, { recursive: true });
+      for (const { name, entry } of entries) {
+        if (!name.startsWith(rootPrefix)) {
+          skippedFiles.push(name);
+          continue;
+        }
+
+        const relativePath = name.slice(rootPrefix.length);
+        const content = entry.getData();
+        if (content.includes(0)) {
+          binaryFiles.push({ relativePath, content });
+          continue;
+        }
+
+        const filePath = path.join(projectPath, ...relativePath.split('/'));
+        output.mkdirSync(path.dirname(filePath), { recursive: true });
+        output.writeFileSync(filePath, content.toString('utf8'));
+      }
+
+      const requiredFiles = ['Domain/Domain.csproj', 'Infrastructure/Data/ApplicationDbContext.cs', 'IoC/NativeInjectorBootStrapper.cs'];
+      const missing = requiredFiles.filter(file => !output.existsSync(path.join(projectPath, ...file.split('/'))));
+      if (missing.length > 0) {
+        return {
+          success: false,
+          message: 'ZIP não contém um projeto Clean Architecture gerado pelo Zheus',
+          error: `Arquivos não encontrados: ${missing.join(', ')}`
+        };
+      }
+
+      return {
+        success: true,
+        message: `Projeto '${projectName}' carregado do ZIP`,
+        archive: { projectName, projectPath, rootPrefix, binaryFiles, skippedFiles: skippedFiles.sort() }
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao ler o ZIP do projeto:', error.message);
+      return {
+        success: false,
+        message: 'Não foi possível ler o ZIP do projeto',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Aviso com os arquivos do ZIP que ficaram fora da pasta do .sln (não voltam no ZIP atualizado)
+   */
+  getSkippedFilesWarning(archive: ProjectArchive): string | null {
+    if (archive.skippedFiles.length === 0) return null;
+
+    const listed = archive.skippedFiles.slice(0, 20).join(', ');
+    const remaining = archive.skippedFiles.length - 20;
+    return `${archive.skippedFiles.length} arquivo(s) fora da pasta do projeto '${archive.rootPrefix}' ignorados e removidos do ZIP: ${listed}${remaining > 0 ? ` e mais ${remaining}` : ''}`;
+  }
+
+  /**
+   * Conteúdo atual de cada arquivo do projeto (caminho relativo -> conteúdo)
+   * A base do merge (.zheus/) é interna do Zheus e fica fora da lista de alterações
+   */
+  snapshot(output: MemoryFileSystem, projectPath: string): Map<string, string> {
+    return new Map(output.listFiles(projectPath)
+      .filter(file => !file.relativePath.startsWith('.zheus/'))
+      .map(file => [file.relativePath, file.content]));
+  }
+
+  /**
+   * Arquivos adicionados, modificados ou removidos entre dois snapshots
+   */
+  diff(before: Map<string, string>, after: Map<string, string>): ProjectFileChange[] {
+    const changes: ProjectFileChange[] = [];
+
+    for (const [filePath, content] of after) {
+      if (!before.has(filePath)) {
+        changes.push({ path: filePath, status: 'added' });
+      } else if (before.get(filePath) !== content) {
+        changes.push({ path: filePath, status: 'modified' });
+      }
+    }
+
+    for (const filePath of before.keys()) {
+      if (!after.has(filePath)) {
+        changes.push({ path: filePath, status: 'removed' });
+      }
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Monta o ZIP atualizado com a mesma pasta raiz do ZIP enviado
+   */
+  async createArchive(output: MemoryFileSystem, archive: ProjectArchive): Promise<Buffer> {
+    const archiver = require('archiver');
+    const zip = archiver('zip', { zlib: { level: 9 } });
+
+    const chunks: Buffer[] = [];
+    const destination = new PassThrough();
+    destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const drained = new Promise(resolve => destination.on('end', resolve));
+    zip.pipe(destination);
+
+    for (const file of output.listFiles(archive.projectPath)) {
+      zip.append(file.content, { name: `${archive.rootPrefix}${file.relativePath}` });
+    }
+    for (const file of archive.binaryFiles) {
+      zip.append(file.content, { name: `${archive.rootPrefix}${file.relativePath}` });
+    }
+
+    await zip.finalize();
+    await drained;
+    return Buffer.concat(chunks);
+  }
+}
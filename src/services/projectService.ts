@@ -1,15 +1,19 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
-import * as fs from 'fs';
-import { ProjectCreationOptions, ProjectCreationResult } from '../types/project';
+import { DatabaseOptions, GenerationMode, MultiTenancyOptions, ProjectCreationOptions, ProjectCreationResult, SecurityOptions, TestProjectOptions } from '../types/project';
 import { TemplateManager } from '../utils/TemplateManager';
+import { DiskFileSystem, FileOutput, fileOutput } from '../utils/FileOutput';
 import { DotNetService } from './dotNetService';
 import { IoCService } from './iocService';
 import { ApplicationService } from './applicationService';
 import { InfrastructureService } from './infrastructureService';
 import { ApiService } from './apiService';
 import { NuGetService } from './nugetService';
+import { DatabaseProviderService } from './databaseProviderService';
+import { SolutionService } from './solutionService';
+import { TenancyService } from './tenancyService';
+import { TestService } from './testService';
 
 const execAsync = promisify(exec);
 
@@ -20,6 +24,10 @@ export class ProjectService {
   private infrastructureService: InfrastructureService;
   private apiService: ApiService;
   private nugetService: NuGetService;
+  private databaseProviderService: DatabaseProviderService;
+  private solutionService: SolutionService;
+  private tenancyService: TenancyService;
+  private testService: TestService;
 
   constructor() {
     this.dotNetService = new DotNetService();
@@ -28,6 +36,10 @@ export class ProjectService {
     this.infrastructureService = new InfrastructureService();
     this.apiService = new ApiService();
     this.nugetService = new NuGetService();
+    this.databaseProviderService = new DatabaseProviderService();
+    this.solutionService = new SolutionService();
+    this.tenancyService = new TenancyService();
+    this.testService = new TestService();
   }
 
   /**
@@ -35,16 +47,6 @@ export class ProjectService {
    */
   async createProject(options: ProjectCreationOptions): Promise<ProjectCreationResult> {
     try {
-      // Verificar se .NET está instalado
-      const dotNetInfo = await this.dotNetService.checkDotNetInstallation();
-      if (!dotNetInfo.isInstalled) {
-        return {
-          success: false,
-          message: '.NET não está instalado. Execute a instalação primeiro.',
-          error: 'DotNet not installed'
-        };
-      }
-
       // Validar nome do projeto
       if (!this.isValidProjectName(options.name)) {
         return {
@@ -61,7 +63,7 @@ export class ProjectService {
       const projectPath = path.join(outputPath, options.name);
 
       // Verificar se o diretório já existe
-      if (fs.existsSync(projectPath) && !options.force) {
+      if (fileOutput.existsSync(projectPath) && !options.force) {
         return {
           success: false,
           message: `Projeto '${options.name}' já existe. Use force: true para sobrescrever.`,
@@ -69,6 +71,49 @@ export class ProjectService {
         };
       }
 
+      // Modo sem SDK: estrutura Clean Architecture escrita direto dos templates
+      const generationMode = await this.resolveGenerationMode(options.generationMode);
+      if (generationMode === 'templates') {
+        if (template !== 'webapi') {
+          return {
+            success: false,
+            message: `Template '${template}' não suportado no modo "templates". Use "webapi" ou o modo "sdk".`,
+            error: 'Unsupported template for templates mode'
+          };
+        }
+
+        await this.createCleanArchitectureStructure(options.name, outputPath, framework, options.database, generationMode, options.security, options.multiTenancy, options);
+
+        return {
+          success: true,
+          message: `Projeto '${options.name}' criado com sucesso (sem .NET SDK)`,
+          projectName: options.name,
+          projectPath,
+          template,
+          framework,
+          generationMode
+        };
+      }
+
+      // O dotnet new escreve direto no disco
+      if (!(FileOutput.current() instanceof DiskFileSystem)) {
+        return {
+          success: false,
+          message: 'O modo "sdk" exige saída em disco. Use generationMode "templates" para gerar em memória.',
+          error: 'SDK mode requires disk output'
+        };
+      }
+
+      // Verificar se .NET está instalado
+      const dotNetInfo = await this.dotNetService.checkDotNetInstallation();
+      if (!dotNetInfo.isInstalled) {
+        return {
+          success: false,
+          message: '.NET não está instalado. Execute a instalação primeiro.',
+          error: 'DotNet not installed'
+        };
+      }
+
       // Criar comando dotnet new
       const command = this.buildCreateCommand(options, outputPath);
       console.log(`📋 Executando: ${command}`);
@@ -80,10 +125,10 @@ export class ProjectService {
       });
 
       // Verificar se o projeto foi criado
-      if (fs.existsSync(projectPath)) {
+      if (fileOutput.existsSync(projectPath)) {
         // Se for Web API, criar estrutura Clean Architecture
         if (template === 'webapi') {
-          await this.createCleanArchitectureStructure(options.name, outputPath, framework);
+          await this.createCleanArchitectureStructure(options.name, outputPath, framework, options.database, 'sdk', options.security, options.multiTenancy, options);
         }
 
         return {
@@ -92,7 +137,8 @@ export class ProjectService {
           projectName: options.name,
           projectPath,
           template,
-          framework
+          framework,
+          generationMode
         };
       } else {
         return {
@@ -112,7 +158,19 @@ export class ProjectService {
     }
   }
 
-      /**
+  /**
+   * Define o modo de geração: o informado ou, por padrão, 'sdk' quando o .NET está instalado
+   */
+  async resolveGenerationMode(generationMode?: GenerationMode): Promise<GenerationMode> {
+    if (generationMode) {
+      return generationMode;
+    }
+
+    const dotNetInfo = await this.dotNetService.checkDotNetInstallation();
+    return dotNetInfo.isInstalled ? 'sdk' : 'templates';
+  }
+
+  /**
    * Constrói o comando de criação do projeto
    */
   private buildCreateCommand(options: ProjectCreationOptions, outputPath: string): string {
@@ -193,36 +251,54 @@ export class ProjectService {
   /**
    * Cria estrutura Clean Architecture para projetos Web API
    */
-  private async createCleanArchitectureStructure(projectName: string, outputPath: string, framework: string): Promise<void> {
+  private async createCleanArchitectureStructure(projectName: string, outputPath: string, framework: string, database?: DatabaseOptions, generationMode: GenerationMode = 'sdk', security?: SecurityOptions, multiTenancy?: MultiTenancyOptions, testProjects: TestProjectOptions = {}): Promise<void> {
     const rootPath = path.join(outputPath, projectName);
     
     // Remover projeto Web API simples criado inicialmente
-    if (fs.existsSync(rootPath)) {
-      await execAsync(`rm -rf "${rootPath}"`);
+    if (fileOutput.existsSync(rootPath)) {
+      fileOutput.rmSync(rootPath, { recursive: true, force: true });
     }
 
     // Criar diretório raiz
-    fs.mkdirSync(rootPath, { recursive: true });
+    fileOutput.mkdirSync(rootPath, { recursive: true });
 
-    // Criar solution
-    await execAsync(`dotnet new sln --name "${projectName}"`, { cwd: rootPath });
+    // Criar solution (no modo templates o .sln é escrito ao final, junto com os .csproj)
+    if (generationMode === 'sdk') {
+      await execAsync(`dotnet new sln --name "${projectName}"`, { cwd: rootPath });
+    }
 
     // Criar projetos
-    await this.createAPIProject(projectName, rootPath, framework);
-    await this.createDomainProject(projectName, rootPath, framework);
-    await this.createApplicationProject(projectName, rootPath, framework);
-    await this.createInfrastructureProject(projectName, rootPath, framework);
-    await this.createIoCProject(projectName, rootPath, framework);
+    await this.createAPIProject(projectName, rootPath, framework, database, generationMode, security, multiTenancy, testProjects.integrationTests);
+    await this.createDomainProject(projectName, rootPath, framework, generationMode, multiTenancy);
+    await this.createApplicationProject(projectName, rootPath, framework, generationMode);
+    await this.createInfrastructureProject(projectName, rootPath, framework, database, generationMode, multiTenancy);
+    await this.createIoCProject(projectName, rootPath, framework, generationMode);
+    if (testProjects.tests) {
+      await this.createTestsProject(projectName, rootPath, framework, generationMode);
+    }
+    if (testProjects.integrationTests) {
+      await this.createIntegrationTestsProject(projectName, rootPath, framework, generationMode, security, multiTenancy);
+    }
+
+    if (generationMode === 'templates') {
+      // Solution, ProjectReference e PackageReference escritos direto nos arquivos
+      const solutionResult = await this.solutionService.createSolutionFiles(rootPath, projectName, framework, database, security, testProjects);
+      if (!solutionResult.success) {
+        throw new Error(solutionResult.error || solutionResult.message);
+      }
+      console.log(`✅ ${solutionResult.message}`);
+      return;
+    }
 
     // Adicionar projetos à solution
-    await this.addProjectsToSolution(projectName, rootPath);
+    await this.addProjectsToSolution(projectName, rootPath, testProjects);
 
     // Configurar referências entre projetos
-    await this.configureProjectReferences(projectName, rootPath);
+    await this.configureProjectReferences(projectName, rootPath, testProjects);
 
     // Instalar pacotes NuGet necessários
     console.log(`📦 Instalando pacotes NuGet...`);
-    const nugetResult = await this.nugetService.installProjectPackages(rootPath);
+    const nugetResult = await this.nugetService.installProjectPackages(rootPath, database, security);
     if (!nugetResult.summary.success) {
       console.warn(`⚠️ Aviso NuGet: Alguns pacotes falharam na instalação`);
       console.warn(`   - Sucessos: ${nugetResult.summary.successfulInstalls}`);
@@ -230,30 +306,40 @@ export class ProjectService {
     } else {
       console.log(`✅ Pacotes NuGet instalados: ${nugetResult.summary.totalPackages} pacote(s)`);
     }
+
+    if (testProjects.integrationTests) {
+      const integrationResult = await this.nugetService.installIntegrationTestPackages(rootPath);
+      if (!integrationResult.success) {
+        console.warn(`⚠️ Aviso NuGet IntegrationTests: ${integrationResult.message}`);
+      }
+    }
   }
 
   /**
    * Cria o projeto API (Web API)
    */
-  private async createAPIProject(projectName: string, rootPath: string, framework: string): Promise<void> {
+  private async createAPIProject(projectName: string, rootPath: string, framework: string, database?: DatabaseOptions, generationMode: GenerationMode = 'sdk', security?: SecurityOptions, multiTenancy?: MultiTenancyOptions, integrationTests?: boolean): Promise<void> {
     const apiPath = path.join(rootPath, 'API');
     console.log(`🔧 Criando projeto API em: ${apiPath}`);
-    await execAsync(`dotnet new webapi --name "API" --framework ${framework}`, { cwd: rootPath });
+    await this.newProject('webapi', 'API', projectName, rootPath, framework, generationMode);
 
     // Criar estrutura de pastas
     const folders = ['Controllers/Contract', 'Configurations', 'Middleware', 'Properties'];
     for (const folder of folders) {
-      fs.mkdirSync(path.join(apiPath, folder), { recursive: true });
+      fileOutput.mkdirSync(path.join(apiPath, folder), { recursive: true });
     }
 
     // Substituir Program.cs pelo template customizado
     console.log(`🔄 Substituindo Program.cs em: ${apiPath}`);
-    await this.replaceProgramCs(apiPath);
+    await this.replaceProgramCs(apiPath, security, multiTenancy, integrationTests);
 
     // Criar arquivos de configuração usando ApiService
     const apiResult = await this.apiService.createApiConfigurations(rootPath, { 
       projectName: projectName,
-      swagger: { title: `${projectName} API`, version: '1.0', description: `API for ${projectName}` }
+      swagger: { title: `${projectName} API`, version: '1.0', description: `API for ${projectName}` },
+      connectionString: this.databaseProviderService.getConnectionString(projectName, database),
+      security,
+      multiTenancy
     });
     if (!apiResult.success) {
       console.warn(`⚠️ Aviso API: ${apiResult.message}`);
@@ -263,18 +349,19 @@ export class ProjectService {
   }
 
   /**
-   * Substitui o Program.cs padrão pelo template customizado
+   * Substitui o Program.cs padrão pelo template customizado (com autenticação JWT quando há security,
+   * o middleware de tenant quando há multiTenancy e a classe Program pública para os testes de integração)
    */
-  private async replaceProgramCs(apiPath: string): Promise<void> {
+  private async replaceProgramCs(apiPath: string, security?: SecurityOptions, multiTenancy?: MultiTenancyOptions, integrationTests?: boolean): Promise<void> {
     try {
       const programPath = path.join(apiPath, 'Program.cs');
 
       // Obter template via TemplateManager
       const template = TemplateManager.getTemplate('api/Program.cs.hbs');
-      const templateContent = template({});
+      const templateContent = template({ hasSecurity: !!security, hasMultiTenancy: !!multiTenancy, hasIntegrationTests: !!integrationTests });
       
       // Escrever o novo Program.cs
-      fs.writeFileSync(programPath, templateContent, 'utf8');
+      fileOutput.writeFileSync(programPath, templateContent, 'utf8');
       
       console.log(`✅ Program.cs customizado criado em: ${programPath}`);
     } catch (error) {
@@ -285,30 +372,32 @@ export class ProjectService {
   /**
    * Cria o projeto Domain (Class Library)
    */
-  private async createDomainProject(projectName: string, rootPath: string, framework: string): Promise<void> {
+  private async createDomainProject(projectName: string, rootPath: string, framework: string, generationMode: GenerationMode = 'sdk', multiTenancy?: MultiTenancyOptions): Promise<void> {
     const domainPath = path.join(rootPath, 'Domain');
-    await execAsync(`dotnet new classlib --name "Domain" --framework ${framework}`, { cwd: rootPath });
+    await this.newProject('classlib', 'Domain', projectName, rootPath, framework, generationMode);
 
     // Remover Class1.cs criado automaticamente pelo dotnet new classlib
     const class1Path = path.join(domainPath, 'Class1.cs');
-    if (fs.existsSync(class1Path)) {
-      fs.unlinkSync(class1Path);
+    if (fileOutput.existsSync(class1Path)) {
+      fileOutput.unlinkSync(class1Path);
     }
 
     // Criar estrutura de pastas
-    const folders = ['Entities', 'Commands', 'Commands/Contracts', 'Handlers', 'Handlers/Contracts','Repositories','Repositories/Contracts', 'Validation', 'Helpers'];
+    const folders = ['Entities', 'Entities/Contracts', 'Enums', 'Commands', 'Commands/Contracts', 'Queries', 'Handlers', 'Handlers/Contracts','Repositories','Repositories/Contracts', 'Filters', 'Validation', 'Helpers'];
     for (const folder of folders) {
-      fs.mkdirSync(path.join(domainPath, folder), { recursive: true });
+      fileOutput.mkdirSync(path.join(domainPath, folder), { recursive: true });
     }
 
     // Criar arquivos base
-    await this.createBaseEntityFiles(domainPath);
+    await this.createBaseEntityFiles(domainPath, multiTenancy);
   }
 
     /**
-   * Cria os arquivos base do Domain
+   * Cria os arquivos base do Domain (BaseEntity com TenantId quando há multiTenancy)
    */
-  private async createBaseEntityFiles(domainPath: string): Promise<void> {
+  private async createBaseEntityFiles(domainPath: string, multiTenancy?: MultiTenancyOptions): Promise<void> {
+    const tenancyData = this.tenancyService.getTemplateData(multiTenancy);
+
     // Obter templates via TemplateManager
     const validatableTemplate = TemplateManager.getTemplate('domain/validation/validatable.hbs');
     const validatableTypesTemplate = TemplateManager.getTemplate('domain/validation/validatableTypes.hbs');
@@ -317,34 +406,45 @@ export class ProjectService {
     const commandResultTemplate = TemplateManager.getTemplate('domain/commands/commandResult.hbs');
     const iCommandTemplate = TemplateManager.getTemplate('domain/commands/iCommand.hbs');
     const iRepositoryBaseTemplate = TemplateManager.getTemplate('domain/repositories/contracts/iRepositoryBase.hbs');
+    const iSoftDeletableTemplate = TemplateManager.getTemplate('domain/entities/contracts/iSoftDeletable.hbs');
+    const iAuditableTemplate = TemplateManager.getTemplate('domain/entities/contracts/iAuditable.hbs');
+    const iAuditUserProviderTemplate = TemplateManager.getTemplate('domain/entities/contracts/iAuditUserProvider.hbs');
     
     // Criar arquivos
-    fs.writeFileSync(path.join(domainPath, 'Validation', 'Validatable.cs'), validatableTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Validation', 'ValidatableTypes.cs'), validatableTypesTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Entities', 'BaseEntity.cs'), baseEntityTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Commands', 'Contracts', 'ICommandResult.cs'), iCommandResultTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Commands', 'Contracts', 'ICommand.cs'), iCommandTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Commands', 'CommandResult.cs'), commandResultTemplate({}));
-    fs.writeFileSync(path.join(domainPath, 'Repositories', 'Contracts', 'IRepositoryBase.cs'), iRepositoryBaseTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Validation', 'Validatable.cs'), validatableTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Validation', 'ValidatableTypes.cs'), validatableTypesTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Entities', 'BaseEntity.cs'), baseEntityTemplate({ hasMultiTenancy: tenancyData.hasMultiTenancy }));
+    fileOutput.writeFileSync(path.join(domainPath, 'Commands', 'Contracts', 'ICommandResult.cs'), iCommandResultTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Commands', 'Contracts', 'ICommand.cs'), iCommandTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Commands', 'CommandResult.cs'), commandResultTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Repositories', 'Contracts', 'IRepositoryBase.cs'), iRepositoryBaseTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Entities', 'Contracts', 'ISoftDeletable.cs'), iSoftDeletableTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Entities', 'Contracts', 'IAuditable.cs'), iAuditableTemplate({}));
+    fileOutput.writeFileSync(path.join(domainPath, 'Entities', 'Contracts', 'IAuditUserProvider.cs'), iAuditUserProviderTemplate({}));
+
+    if (tenancyData.hasMultiTenancy) {
+      const iTenantProviderTemplate = TemplateManager.getTemplate('domain/entities/contracts/iTenantProvider.hbs');
+      fileOutput.writeFileSync(path.join(domainPath, 'Entities', 'Contracts', 'ITenantProvider.cs'), iTenantProviderTemplate({}));
+    }
   }
 
   /**
    * Cria o projeto Application (Class Library)
    */
-  private async createApplicationProject(projectName: string, rootPath: string, framework: string): Promise<void> {
+  private async createApplicationProject(projectName: string, rootPath: string, framework: string, generationMode: GenerationMode = 'sdk'): Promise<void> {
     const appPath = path.join(rootPath, 'Application');
-    await execAsync(`dotnet new classlib --name "Application" --framework ${framework}`, { cwd: rootPath });
+    await this.newProject('classlib', 'Application', projectName, rootPath, framework, generationMode);
 
     // Remover Class1.cs criado automaticamente pelo dotnet new classlib
     const class1Path = path.join(appPath, 'Class1.cs');
-    if (fs.existsSync(class1Path)) {
-      fs.unlinkSync(class1Path);
+    if (fileOutput.existsSync(class1Path)) {
+      fileOutput.unlinkSync(class1Path);
     }
 
     // Criar estrutura de pastas
     const folders = ['DTOs', 'DTOs/Response','Services', 'Interfaces', 'Dictionary'];
     for (const folder of folders) {
-      fs.mkdirSync(path.join(appPath, folder), { recursive: true });
+      fileOutput.mkdirSync(path.join(appPath, folder), { recursive: true });
     }
 
     // Criar arquivos base usando ApplicationService
@@ -359,24 +459,24 @@ export class ProjectService {
   /**
    * Cria o projeto Infrastructure (Class Library)
    */
-  private async createInfrastructureProject(projectName: string, rootPath: string, framework: string): Promise<void> {
+  private async createInfrastructureProject(projectName: string, rootPath: string, framework: string, database?: DatabaseOptions, generationMode: GenerationMode = 'sdk', multiTenancy?: MultiTenancyOptions): Promise<void> {
     const infraPath = path.join(rootPath, 'Infrastructure');
-    await execAsync(`dotnet new classlib --name "Infrastructure" --framework ${framework}`, { cwd: rootPath });
+    await this.newProject('classlib', 'Infrastructure', projectName, rootPath, framework, generationMode);
 
     // Remover Class1.cs criado automaticamente pelo dotnet new classlib
     const class1Path = path.join(infraPath, 'Class1.cs');
-    if (fs.existsSync(class1Path)) {
-      fs.unlinkSync(class1Path);
+    if (fileOutput.existsSync(class1Path)) {
+      fileOutput.unlinkSync(class1Path);
     }
 
     // Criar estrutura de pastas
     const folders = ['Data', 'Repositories', 'Repositories/Contracts', 'Migrations', 'Configuration'];
     for (const folder of folders) {
-      fs.mkdirSync(path.join(infraPath, folder), { recursive: true });
+      fileOutput.mkdirSync(path.join(infraPath, folder), { recursive: true });
     }
 
     // Criar arquivos base usando InfrastructureService
-    const infraResult = await this.infrastructureService.createInfrastructureLayer(rootPath);
+    const infraResult = await this.infrastructureService.createInfrastructureLayer(rootPath, [], database, multiTenancy);
     if (!infraResult.success) {
       console.warn(`⚠️ Aviso Infrastructure: ${infraResult.message}`);
     } else {
@@ -387,9 +487,9 @@ export class ProjectService {
   /**
    * Cria o projeto IoC (Class Library)
    */
-  private async createIoCProject(projectName: string, rootPath: string, framework: string): Promise<void> {
+  private async createIoCProject(projectName: string, rootPath: string, framework: string, generationMode: GenerationMode = 'sdk'): Promise<void> {
     const iocPath = path.join(rootPath, 'IoC');
-    await execAsync(`dotnet new classlib --name "IoC" --framework ${framework}`, { cwd: rootPath });
+    await this.newProject('classlib', 'IoC', projectName, rootPath, framework, generationMode);
 
     // Criar NativeInjectorBootStrapper
     const iocResult = await this.iocService.createNativeInjectorBootStrapper(rootPath);
@@ -400,11 +500,90 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Cria o projeto Tests (xUnit) com o repositório em memória usado nos testes dos handlers
+   */
+  private async createTestsProject(projectName: string, rootPath: string, framework: string, generationMode: GenerationMode = 'sdk'): Promise<void> {
+    const testsPath = path.join(rootPath, 'Tests');
+    await this.newProject('xunit', 'Tests', projectName, rootPath, framework, generationMode);
+
+    // Remover UnitTest1.cs criado automaticamente pelo dotnet new xunit
+    const unitTest1Path = path.join(testsPath, 'UnitTest1.cs');
+    if (fileOutput.existsSync(unitTest1Path)) {
+      fileOutput.unlinkSync(unitTest1Path);
+    }
+
+    // Criar estrutura de pastas
+    const folders = ['Fakes', 'Builders', 'Handlers', 'Commands'];
+    for (const folder of folders) {
+      fileOutput.mkdirSync(path.join(testsPath, folder), { recursive: true });
+    }
+
+    const testsResult = await this.testService.createTestsProjectFiles(testsPath);
+    if (!testsResult.success) {
+      console.warn(`⚠️ Aviso Tests: ${testsResult.message}`);
+    } else {
+      console.log(`✅ Arquivos do projeto Tests criados: ${testsResult.files?.length || 0} arquivo(s)`);
+    }
+  }
+
+  /**
+   * Cria o projeto IntegrationTests (xUnit) com o WebApplicationFactory que sobe a API com o EF InMemory
+   */
+  private async createIntegrationTestsProject(projectName: string, rootPath: string, framework: string, generationMode: GenerationMode = 'sdk', security?: SecurityOptions, multiTenancy?: MultiTenancyOptions): Promise<void> {
+    const integrationTestsPath = path.join(rootPath, 'IntegrationTests');
+    await this.newProject('xunit', 'IntegrationTests', projectName, rootPath, framework, generationMode);
+
+    // Remover UnitTest1.cs criado automaticamente pelo dotnet new xunit
+    const unitTest1Path = path.join(integrationTestsPath, 'UnitTest1.cs');
+    if (fileOutput.existsSync(unitTest1Path)) {
+      fileOutput.unlinkSync(unitTest1Path);
+    }
+
+    // Criar estrutura de pastas
+    const folders = ['Builders', 'Controllers'];
+    for (const folder of folders) {
+      fileOutput.mkdirSync(path.join(integrationTestsPath, folder), { recursive: true });
+    }
+
+    const integrationResult = await this.testService.createIntegrationTestsProjectFiles(integrationTestsPath, security, multiTenancy);
+    if (!integrationResult.success) {
+      console.warn(`⚠️ Aviso IntegrationTests: ${integrationResult.message}`);
+    } else {
+      console.log(`✅ Arquivos do projeto IntegrationTests criados: ${integrationResult.files?.length || 0} arquivo(s)`);
+    }
+  }
+
+  /**
+   * Cria a pasta do projeto via "dotnet new" (modo sdk) ou diretamente (modo templates,
+   * em que o .csproj é escrito ao final pelo SolutionService)
+   */
+  private async newProject(template: 'webapi' | 'classlib' | 'xunit', name: string, projectName: string, rootPath: string, framework: string, generationMode: GenerationMode): Promise<void> {
+    if (generationMode === 'sdk') {
+      await execAsync(`dotnet new ${template} --name "${name}" --framework ${framework}`, { cwd: rootPath });
+      return;
+    }
+
+    const projectPath = path.join(rootPath, name);
+    fileOutput.mkdirSync(projectPath, { recursive: true });
+
+    if (template === 'webapi') {
+      const hostResult = await this.solutionService.createApiHostFiles(projectPath, projectName);
+      if (!hostResult.success) {
+        console.warn(`⚠️ Aviso API: ${hostResult.message}`);
+      }
+    }
+  }
+
   /**
    * Adiciona todos os projetos à solution
    */
-  private async addProjectsToSolution(projectName: string, rootPath: string): Promise<void> {
-    const projects = ['API', 'Domain', 'Application', 'Infrastructure', 'IoC'];
+  private async addProjectsToSolution(projectName: string, rootPath: string, testProjects: TestProjectOptions = {}): Promise<void> {
+    const projects = [
+      'API', 'Domain', 'Application', 'Infrastructure', 'IoC',
+      ...(testProjects.tests ? ['Tests'] : []),
+      ...(testProjects.integrationTests ? ['IntegrationTests'] : [])
+    ];
     for (const project of projects) {
       await execAsync(`dotnet sln add ${project}/${project}.csproj`, { cwd: rootPath });
     }
@@ -413,7 +592,7 @@ export class ProjectService {
   /**
    * Configura referências entre projetos
    */
-  private async configureProjectReferences(projectName: string, rootPath: string): Promise<void> {
+  private async configureProjectReferences(projectName: string, rootPath: string, testProjects: TestProjectOptions = {}): Promise<void> {
     // API referencia Application e IoC
     await execAsync('dotnet add API/API.csproj reference Application/Application.csproj', { cwd: rootPath });
     await execAsync('dotnet add API/API.csproj reference IoC/IoC.csproj', { cwd: rootPath });
@@ -428,5 +607,15 @@ export class ProjectService {
     await execAsync('dotnet add IoC/IoC.csproj reference Domain/Domain.csproj', { cwd: rootPath });
     await execAsync('dotnet add IoC/IoC.csproj reference Application/Application.csproj', { cwd: rootPath });
     await execAsync('dotnet add IoC/IoC.csproj reference Infrastructure/Infrastructure.csproj', { cwd: rootPath });
+
+    // Tests referencia Domain (handlers, comandos e contratos dos repositórios)
+    if (testProjects.tests) {
+      await execAsync('dotnet add Tests/Tests.csproj reference Domain/Domain.csproj', { cwd: rootPath });
+    }
+
+    // IntegrationTests referencia API (Program e, por transitividade, as demais camadas)
+    if (testProjects.integrationTests) {
+      await execAsync('dotnet add IntegrationTests/IntegrationTests.csproj reference API/API.csproj', { cwd: rootPath });
+    }
   }
 }
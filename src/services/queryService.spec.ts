@@ -0,0 +1,48 @@
+import { EntityDefinition } from '../types/entity';
+import { CommandService } from './commandService';
+import { HandlerService } from './handlerService';
+import { QueryService } from './queryService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }]
+};
+
+describe('QueryService', () => {
+  const service = new QueryService();
+
+  it('gera a query por id validando a chave', () => {
+    const query = service.generateGetByIdQuery(product);
+
+    expect(query).toContain('namespace Domain.Queries.ProductQueries');
+    expect(query).toContain('public GetProductByIdQuery(Guid id)');
+    expect(query).toContain('ValidateGuidNotEmpty(Id, "Id");');
+  });
+
+  it('gera a query de listagem limitando a paginação', () => {
+    const query = service.generateListQuery(product);
+
+    expect(query).toContain('public ListProductQuery(ProductFilter filter)');
+    expect(query).toContain('ValidateIntGreaterThanZero(Filter.PageSize, "PageSize");');
+    expect(query).toContain('if (Filter.PageSize > QueryParameters.MaxPageSize)');
+  });
+});
+
+describe('CommandService.generateDeleteCommand', () => {
+  it('gera o comando de exclusão com a chave', () => {
+    const command = new CommandService().generateDeleteCommand(product);
+
+    expect(command).toContain('public class DeleteProductCommand : ValidatableTypes, ICommand');
+    expect(command).toContain('public DeleteProductCommand(Guid id)');
+  });
+});
+
+describe('HandlerService.generateHandler', () => {
+  it('trata os comandos e as queries da entidade', () => {
+    const handler = new HandlerService().generateHandler(product);
+
+    for (const request of ['CreateProductCommand', 'UpdateProductCommand', 'DeleteProductCommand', 'GetProductByIdQuery', 'ListProductQuery']) {
+      expect(handler).toContain(`Handle(${request} command)`);
+    }
+  });
+});
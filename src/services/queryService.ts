@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { EntityDefinition } from '../types/entity';
+import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { PrimaryKeyService } from './primaryKeyService';
+
+export class QueryService {
+  private primaryKeyService = new PrimaryKeyService();
+
+  constructor() {
+    // Sem carregamento de templates no constructor
+  }
+
+  /**
+   * Gera código C# da query de busca por ID
+   */
+  generateGetByIdQuery(definition: EntityDefinition): string {
+    const template = TemplateManager.getTemplate('domain/queries/getByIdQuery.hbs');
+    return template(this.prepareQueryTemplateData(definition));
+  }
+
+  /**
+   * Gera código C# da query de listagem paginada
+   */
+  generateListQuery(definition: EntityDefinition): string {
+    const template = TemplateManager.getTemplate('domain/queries/listQuery.hbs');
+    return template(this.prepareQueryTemplateData(definition));
+  }
+
+  /**
+   * Gera as queries da entidade (GetById e List) - Sempre cria/sobrescreve
+   */
+  async generateQueryFiles(projectPath: string, definition: EntityDefinition): Promise<{ success: boolean; message: string; filePaths?: string[]; error?: string }> {
+    try {
+      // Validar projeto
+      const domainPath = path.join(projectPath, 'Domain');
+      if (!fileOutput.existsSync(domainPath)) {
+        return {
+          success: false,
+          message: 'Projeto Domain não encontrado. Certifique-se de que é um projeto Clean Architecture.',
+          error: 'Domain project not found'
+        };
+      }
+
+      // Criar pasta específica para as queries da entidade
+      const entityQueriesPath = path.join(domainPath, 'Queries', `${definition.name}Queries`);
+
+      if (!fileOutput.existsSync(entityQueriesPath)) {
+        fileOutput.mkdirSync(entityQueriesPath, { recursive: true });
+      }
+
+      const getByIdQueryFilePath = path.join(entityQueriesPath, `Get${definition.name}ByIdQuery.cs`);
+      const listQueryFilePath = path.join(entityQueriesPath, `List${definition.name}Query.cs`);
+
+      fileOutput.writeFileSync(getByIdQueryFilePath, this.generateGetByIdQuery(definition), 'utf8');
+      fileOutput.writeFileSync(listQueryFilePath, this.generateListQuery(definition), 'utf8');
+
+      return {
+        success: true,
+        message: `Queries para '${definition.name}' criadas com sucesso`,
+        filePaths: [getByIdQueryFilePath, listQueryFilePath]
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar queries:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao gerar queries',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Prepara dados para os templates de query
+   */
+  private prepareQueryTemplateData(definition: EntityDefinition) {
+    const key = this.primaryKeyService.getKey(definition);
+
+    return {
+      entityName: definition.name,
+      folderName: `${definition.name}Queries`,
+      idType: key.type,
+      idName: key.name,
+      idParameter: key.parameterName,
+      idValidation: key.validation
+    };
+  }
+}
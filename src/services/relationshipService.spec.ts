@@ -0,0 +1,158 @@
+import { EntityDefinition } from '../types/entity';
+import { RelationshipService } from './relationshipService';
+
+const entity = (name: string, relationships: EntityDefinition['relationships'] = []): EntityDefinition => ({
+  name,
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }],
+  relationships
+});
+
+const propertyNames = (entities: EntityDefinition[], name: string) =>
+  entities.find(e => e.name === name)!.properties.map(p => p.name);
+
+describe('RelationshipService', () => {
+  const service = new RelationshipService();
+
+  describe('expandEntities', () => {
+    it('gera FK e navegações nos dois lados de um manyToOne', () => {
+      const expanded = service.expandEntities([entity('Category'), entity('Product', [{ type: 'manyToOne', target: 'Category' }])]);
+
+      expect(propertyNames(expanded, 'Product')).toEqual(['Name', 'CategoryId', 'Category']);
+      expect(propertyNames(expanded, 'Category')).toEqual(['Name', 'Products']);
+      expect(expanded.find(e => e.name === 'Category')!.properties[1].isCollection).toBe('ICollection');
+    });
+
+    it('gera uma única FK quando o relacionamento é declarado nos dois lados', () => {
+      const expanded = service.expandEntities([
+        entity('Category', [{ type: 'oneToMany', target: 'Product' }]),
+        entity('Product', [{ type: 'manyToOne', target: 'Category' }])
+      ]);
+
+      expect(propertyNames(expanded, 'Product')).toEqual(['Name', 'CategoryId', 'Category']);
+      expect(propertyNames(expanded, 'Category')).toEqual(['Name', 'Products']);
+    });
+
+    it('mantém só o primeiro lado de um oneToOne declarado nas duas entidades', () => {
+      const entities = [
+        entity('User', [{ type: 'oneToOne', target: 'Profile' }]),
+        entity('Profile', [{ type: 'oneToOne', target: 'User' }])
+      ];
+
+      const expanded = service.expandEntities(entities);
+
+      expect(propertyNames(expanded, 'User')).toEqual(['Name', 'ProfileId', 'Profile']);
+      expect(propertyNames(expanded, 'Profile')).toEqual(['Name', 'User']);
+      expect(service.buildModelConfiguration(entities).filter(line => line.includes('.HasOne('))).toHaveLength(1);
+    });
+
+    it('mantém dois oneToOne de uma entidade para ela mesma', () => {
+      const expanded = service.expandEntities([entity('Person', [
+        { type: 'oneToOne', target: 'Person', navigationName: 'Spouse', inverseNavigationName: 'SpouseOf', isRequired: false },
+        { type: 'oneToOne', target: 'Person', navigationName: 'Mentor', inverseNavigationName: 'MentorOf', isRequired: false }
+      ])]);
+
+      expect(propertyNames(expanded, 'Person')).toEqual(['Name', 'SpouseId', 'Spouse', 'SpouseOf', 'MentorId', 'Mentor', 'MentorOf']);
+    });
+
+    it('gera a entidade de junção de um manyToMany com as duas FKs', () => {
+      const expanded = service.expandEntities([entity('Product', [{ type: 'manyToMany', target: 'Tag' }]), entity('Tag')]);
+
+      expect(expanded.map(e => e.name)).toEqual(['Product', 'Tag', 'ProductTag']);
+      expect(expanded.map(e => !!e.isJoinEntity)).toEqual([false, false, true]);
+      expect(propertyNames(expanded, 'ProductTag')).toEqual(['ProductId', 'Product', 'TagId', 'Tag']);
+      expect(propertyNames(expanded, 'Tag')).toEqual(['Name', 'ProductTags']);
+    });
+
+    it('gera a entidade de junção de um manyToMany uma única vez', () => {
+      const expanded = service.expandEntities([
+        entity('Product', [{ type: 'manyToMany', target: 'Tag' }]),
+        entity('Tag', [{ type: 'manyToMany', target: 'Product' }])
+      ]);
+
+      expect(expanded.map(e => e.name)).toEqual(['Product', 'Tag', 'ProductTag']);
+      expect(propertyNames(expanded, 'ProductTag')).toEqual(['ProductId', 'Product', 'TagId', 'Tag']);
+      expect(propertyNames(expanded, 'Product')).toEqual(['Name', 'ProductTags']);
+    });
+
+    it('é idempotente', () => {
+      const entities = [entity('Category'), entity('Product', [{ type: 'manyToOne', target: 'Category' }])];
+
+      const once = service.expandEntities(entities);
+
+      expect(service.expandEntities(once)).toEqual(once);
+    });
+  });
+
+  describe('validateRelationships', () => {
+    it('rejeita um relacionamento com entidade inexistente', () => {
+      const errors = service.validateRelationships([entity('Product', [{ type: 'manyToOne', target: 'Supplier' }])]);
+
+      expect(errors).toEqual(["Relacionamento inválido em 'Product': entidade 'Supplier' não encontrada"]);
+    });
+
+    it('rejeita dois manyToOne para o mesmo principal com a coleção inversa padrão', () => {
+      const errors = service.validateRelationships([
+        entity('Person'),
+        entity('Book', [
+          { type: 'manyToOne', target: 'Person', navigationName: 'Author' },
+          { type: 'manyToOne', target: 'Person', navigationName: 'Reviewer' }
+        ])
+      ]);
+
+      expect(errors).toEqual([
+        "Relacionamento inválido em 'Person': navegação 'Books' gerada por mais de um relacionamento (informe inverseNavigationName)"
+      ]);
+    });
+
+    it('aceita os dois manyToOne quando as coleções inversas são nomeadas', () => {
+      const errors = service.validateRelationships([
+        entity('Person'),
+        entity('Book', [
+          { type: 'manyToOne', target: 'Person', navigationName: 'Author', inverseNavigationName: 'AuthoredBooks' },
+          { type: 'manyToOne', target: 'Person', navigationName: 'Reviewer', inverseNavigationName: 'ReviewedBooks' }
+        ])
+      ]);
+
+      expect(errors).toEqual([]);
+    });
+
+    it('rejeita dois relacionamentos com a mesma FK', () => {
+      const errors = service.validateRelationships([
+        entity('Person'),
+        entity('Company'),
+        entity('Book', [
+          { type: 'manyToOne', target: 'Person', navigationName: 'Owner' },
+          { type: 'manyToOne', target: 'Company', foreignKey: 'OwnerId', navigationName: 'Publisher' }
+        ])
+      ]);
+
+      expect(errors).toEqual([
+        "Relacionamento inválido em 'Book': FK 'OwnerId' gerada por mais de um relacionamento (informe foreignKey)"
+      ]);
+    });
+
+    it('aceita o mesmo relacionamento declarado nos dois lados', () => {
+      const errors = service.validateRelationships([
+        entity('User', [{ type: 'oneToOne', target: 'Profile' }]),
+        entity('Profile', [{ type: 'oneToOne', target: 'User' }])
+      ]);
+
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('buildModelConfiguration', () => {
+    it('configura FK, navegações e exclusão do manyToOne', () => {
+      const lines = service.buildModelConfiguration([entity('Category'), entity('Product', [{ type: 'manyToOne', target: 'Category', onDelete: 'Restrict' }])]);
+
+      expect(lines.map(line => line.trim())).toEqual([
+        'modelBuilder.Entity<ProductEntity>()',
+        '.HasOne(e => e.Category)',
+        '.WithMany(e => e.Products)',
+        '.HasForeignKey(e => e.CategoryId)',
+        '.IsRequired(true)',
+        '.OnDelete(DeleteBehavior.Restrict);'
+      ]);
+    });
+  });
+});
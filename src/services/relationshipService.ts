@@ -0,0 +1,312 @@
+import { DeleteBehavior, EntityDefinition, EntityProperty, EntityRelationship } from '../types/entity';
+import { PrimaryKeyService, STRING_KEY_MAX_LENGTH } from './primaryKeyService';
+
+export interface ResolvedRelationship {
+  kind: 'oneToMany' | 'oneToOne';
+  principal: string;            // Entidade referenciada pela FK
+  dependent: string;            // Entidade que contém a FK
+  foreignKey: string;
+  dependentNavigation: string;  // Navegação do dependente para o principal
+  principalNavigation: string;  // Navegação do principal para o(s) dependente(s)
+  isRequired: boolean;
+  onDelete: DeleteBehavior;
+}
+
+export interface RelationshipResolution {
+  relationships: ResolvedRelationship[];
+  joinEntities: EntityDefinition[];
+  joinIndexes: { entity: string; keys: string[] }[];
+}
+
+export class RelationshipService {
+  private primaryKeyService = new PrimaryKeyService();
+
+  /**
+   * Valida os relacionamentos declarados nas entidades
+   */
+  validateRelationships(entities: EntityDefinition[]): string[] {
+    const errors: string[] = [];
+    const names = new Set(entities.map(e => e.name));
+    const validTypes = ['oneToMany', 'manyToOne', 'oneToOne', 'manyToMany'];
+
+    for (const entity of entities) {
+      for (const relationship of entity.relationships || []) {
+        if (!validTypes.includes(relationship.type)) {
+          errors.push(`Relacionamento inválido em '${entity.name}': tipo '${relationship.type}' não suportado`);
+        }
+
+        if (!relationship.target || !names.has(relationship.target)) {
+          errors.push(`Relacionamento inválido em '${entity.name}': entidade '${relationship.target}' não encontrada`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    return this.validateGeneratedMembers(entities);
+  }
+
+  /**
+   * Valida os membros gerados pelos relacionamentos: dois relacionamentos não podem gerar a mesma
+   * FK ou navegação na mesma entidade (ex: dois manyToOne para o mesmo principal com a coleção
+   * inversa padrão), o que quebraria o modelo do EF
+   */
+  private validateGeneratedMembers(entities: EntityDefinition[]): string[] {
+    const errors: string[] = [];
+    const members = new Map<string, Set<string>>();
+
+    const addMember = (entity: string, member: string, kind: string, hint: string) => {
+      const entityMembers = members.get(entity) || new Set<string>();
+      if (entityMembers.has(member)) {
+        errors.push(`Relacionamento inválido em '${entity}': ${kind} '${member}' gerada por mais de um relacionamento (informe ${hint})`);
+      }
+      entityMembers.add(member);
+      members.set(entity, entityMembers);
+    };
+
+    for (const relationship of this.resolveRelationships(entities).relationships) {
+      addMember(relationship.dependent, relationship.foreignKey, 'FK', 'foreignKey');
+      addMember(relationship.dependent, relationship.dependentNavigation, 'navegação', 'navigationName');
+      addMember(relationship.principal, relationship.principalNavigation, 'navegação', 'inverseNavigationName');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Resolve os relacionamentos declarados em relacionamentos principal/dependente
+   * Relacionamentos manyToMany são decompostos em uma entidade de junção e dois oneToMany
+   */
+  resolveRelationships(entities: EntityDefinition[]): RelationshipResolution {
+    const resolution: RelationshipResolution = { relationships: [], joinEntities: [], joinIndexes: [] };
+    const existingNames = new Set(entities.map(e => e.name));
+
+    for (const entity of entities) {
+      for (const relationship of entity.relationships || []) {
+        switch (relationship.type) {
+          case 'manyToOne':
+            resolution.relationships.push(this.resolveOneToMany(relationship.target, entity.name, relationship, false));
+            break;
+          case 'oneToMany':
+            resolution.relationships.push(this.resolveOneToMany(entity.name, relationship.target, relationship, true));
+            break;
+          case 'oneToOne':
+            resolution.relationships.push(this.resolveOneToOne(entity.name, relationship));
+            break;
+          case 'manyToMany':
+            this.resolveManyToMany(entity.name, relationship, existingNames, resolution);
+            break;
+        }
+      }
+    }
+
+    // Relacionamentos declarados nos dois lados: vale o primeiro (o oneToOne espelhado inverteria a FK)
+    resolution.relationships = resolution.relationships.filter((relationship, index, all) =>
+      all.findIndex(r => this.isSameRelationship(r, relationship)) === index
+    );
+
+    return resolution;
+  }
+
+  /**
+   * Retorna as entidades com FKs e navegações geradas em ambos os lados,
+   * acrescidas das entidades de junção dos relacionamentos manyToMany.
+   * A operação é idempotente: propriedades e entidades já existentes são mantidas.
+   */
+  expandEntities(entities: EntityDefinition[]): EntityDefinition[] {
+    const resolution = this.resolveRelationships(entities);
+
+    const expanded: EntityDefinition[] = [...entities, ...resolution.joinEntities].map(entity => ({
+      ...entity,
+      properties: [...(entity.properties || [])]
+    }));
+    const byName = new Map(expanded.map(e => [e.name, e]));
+
+    for (const relationship of resolution.relationships) {
+      const dependent = byName.get(relationship.dependent);
+      const principal = byName.get(relationship.principal);
+      if (!dependent || !principal) continue;
+
+      // FK com o mesmo tipo (e, para string, o mesmo tamanho) da chave do principal
+      const principalKey = this.primaryKeyService.getKey(principal);
+      this.addProperty(dependent, {
+        name: relationship.foreignKey,
+        type: relationship.isRequired ? principalKey.type : `${principalKey.type}?`,
+        isRequired: relationship.isRequired,
+        isNavigationProperty: false,
+        isForeignKey: true,
+        ...(principalKey.type === 'string' ? { validation: { maxLength: STRING_KEY_MAX_LENGTH } } : {})
+      });
+
+      this.addProperty(dependent, {
+        name: relationship.dependentNavigation,
+        type: `${relationship.principal}Entity`,
+        isRequired: false,
+        isNavigationProperty: true
+      });
+
+      this.addProperty(principal, {
+        name: relationship.principalNavigation,
+        type: `${relationship.dependent}Entity`,
+        isRequired: false,
+        isNavigationProperty: true,
+        ...(relationship.kind === 'oneToMany' ? { isCollection: 'ICollection' as const } : {})
+      });
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Gera as linhas de configuração fluente do EF Core para o OnModelCreating
+   */
+  buildModelConfiguration(entities: EntityDefinition[]): string[] {
+    const resolution = this.resolveRelationships(entities);
+    const lines: string[] = [];
+
+    for (const relationship of resolution.relationships) {
+      const withClause = relationship.kind === 'oneToMany'
+        ? `.WithMany(e => e.${relationship.principalNavigation})`
+        : `.WithOne(e => e.${relationship.principalNavigation})`;
+      const foreignKeyClause = relationship.kind === 'oneToMany'
+        ? `.HasForeignKey(e => e.${relationship.foreignKey})`
+        : `.HasForeignKey<${relationship.dependent}Entity>(e => e.${relationship.foreignKey})`;
+
+      lines.push(
+        `            modelBuilder.Entity<${relationship.dependent}Entity>()`,
+        `                .HasOne(e => e.${relationship.dependentNavigation})`,
+        `                ${withClause}`,
+        `                ${foreignKeyClause}`,
+        `                .IsRequired(${relationship.isRequired})`,
+        `                .OnDelete(DeleteBehavior.${relationship.onDelete});`,
+        ''
+      );
+    }
+
+    for (const index of resolution.joinIndexes) {
+      lines.push(
+        `            modelBuilder.Entity<${index.entity}Entity>()`,
+        `                .HasIndex(e => new { ${index.keys.map(k => `e.${k}`).join(', ')} })`,
+        `                .IsUnique();`,
+        ''
+      );
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Pluraliza um nome em inglês de forma simples (Category -> Categories)
+   */
+  pluralize(name: string): string {
+    if (/[^aeiou]y$/i.test(name)) {
+      return `${name.slice(0, -1)}ies`;
+    }
+    if (/(s|x|z|ch|sh)$/i.test(name)) {
+      return `${name}es`;
+    }
+    return `${name}s`;
+  }
+
+  /**
+   * Resolve um relacionamento um-para-muitos
+   * @param declaredOnPrincipal indica se o relacionamento foi declarado no lado "um"
+   */
+  private resolveOneToMany(principal: string, dependent: string, relationship: EntityRelationship, declaredOnPrincipal: boolean): ResolvedRelationship {
+    const isRequired = relationship.isRequired !== false;
+    const principalNavigation = declaredOnPrincipal ? relationship.navigationName : relationship.inverseNavigationName;
+    const dependentNavigation = declaredOnPrincipal ? relationship.inverseNavigationName : relationship.navigationName;
+
+    return {
+      kind: 'oneToMany',
+      principal,
+      dependent,
+      foreignKey: relationship.foreignKey || `${dependentNavigation || principal}Id`,
+      dependentNavigation: dependentNavigation || principal,
+      principalNavigation: principalNavigation || this.pluralize(dependent),
+      isRequired,
+      onDelete: relationship.onDelete || (isRequired ? 'Cascade' : 'SetNull')
+    };
+  }
+
+  /**
+   * Resolve um relacionamento um-para-um (a FK fica na entidade que declara o relacionamento)
+   */
+  private resolveOneToOne(source: string, relationship: EntityRelationship): ResolvedRelationship {
+    const isRequired = relationship.isRequired !== false;
+    const dependentNavigation = relationship.navigationName || relationship.target;
+
+    return {
+      kind: 'oneToOne',
+      principal: relationship.target,
+      dependent: source,
+      foreignKey: relationship.foreignKey || `${dependentNavigation}Id`,
+      dependentNavigation,
+      principalNavigation: relationship.inverseNavigationName || source,
+      isRequired,
+      onDelete: relationship.onDelete || (isRequired ? 'Cascade' : 'SetNull')
+    };
+  }
+
+  /**
+   * Decompõe um relacionamento muitos-para-muitos em uma entidade de junção
+   */
+  private resolveManyToMany(source: string, relationship: EntityRelationship, existingNames: Set<string>, resolution: RelationshipResolution): void {
+    const pair = [source, relationship.target];
+    const pairKey = pair.map(p => `${p}Id`).sort().join();
+
+    // Relacionamento já declarado (inclusive no outro lado)
+    if (resolution.joinIndexes.some(i => [...i.keys].sort().join() === pairKey)) {
+      return;
+    }
+
+    const joinName = relationship.joinEntity || `${source}${relationship.target}`;
+
+    if (!existingNames.has(joinName) && !resolution.joinEntities.some(e => e.name === joinName)) {
+      resolution.joinEntities.push({ name: joinName, properties: [], isJoinEntity: true });
+    }
+
+    for (const principal of pair) {
+      resolution.relationships.push({
+        kind: 'oneToMany',
+        principal,
+        dependent: joinName,
+        foreignKey: `${principal}Id`,
+        dependentNavigation: principal,
+        principalNavigation: this.pluralize(joinName),
+        isRequired: true,
+        onDelete: relationship.onDelete || 'Cascade'
+      });
+    }
+
+    resolution.joinIndexes.push({ entity: joinName, keys: pair.map(p => `${p}Id`) });
+  }
+
+  /**
+   * Indica se dois relacionamentos resolvidos são o mesmo declarado nos dois lados
+   */
+  private isSameRelationship(a: ResolvedRelationship, b: ResolvedRelationship): boolean {
+    if (a.kind !== b.kind) return false;
+
+    const isSameSide = a.principal === b.principal && a.dependent === b.dependent && a.foreignKey === b.foreignKey;
+    const isMirroredOneToOne = a.kind === 'oneToOne' && a.principal !== a.dependent
+      && a.principal === b.dependent && a.dependent === b.principal;
+    return isSameSide || isMirroredOneToOne;
+  }
+
+  /**
+   * Adiciona uma propriedade à entidade se ainda não existir
+   */
+  private addProperty(entity: EntityDefinition, property: EntityProperty): void {
+    if (!entity.properties.some(p => p.name === property.name)) {
+      entity.properties.push(property);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EntityDefinition } from '../types/entity';
+import { RepositoryService } from './repositoryService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [
+    { name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false },
+    { name: 'Price', type: 'decimal', isRequired: true, isNavigationProperty: false },
+    { name: 'Page', type: 'int', isRequired: true, isNavigationProperty: false },
+    { name: 'Category', type: 'CategoryEntity', isRequired: false, isNavigationProperty: true }
+  ]
+};
+
+describe('RepositoryService', () => {
+  const service = new RepositoryService();
+  let domainPath: string;
+
+  beforeEach(() => {
+    domainPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-domain-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(domainPath, { recursive: true, force: true });
+  });
+
+  it('gera os contratos de paginação junto com os repositórios base', async () => {
+    await service.generateBaseRepositories(domainPath);
+
+    const contractsPath = path.join(domainPath, 'Repositories', 'Contracts');
+    expect(fs.readFileSync(path.join(contractsPath, 'QueryParameters.cs'), 'utf-8')).toContain('public const int MaxPageSize = 100;');
+    expect(fs.existsSync(path.join(contractsPath, 'PagedResult.cs'))).toBe(true);
+  });
+
+  it('gera um filtro por propriedade conforme o tipo', async () => {
+    await service.generateEntityFilter(product, domainPath);
+
+    const filter = fs.readFileSync(path.join(domainPath, 'Filters', 'ProductFilter.cs'), 'utf-8');
+    expect(filter).toContain('if (!string.IsNullOrWhiteSpace(Name)) query = query.Where(e => e.Name.Contains(Name));');
+    expect(filter).toContain('if (Price.HasValue) query = query.Where(e => e.Price == Price.Value);');
+    expect(filter).toContain('public DateTimeOffset? CreatedFrom { get; set; }');
+    expect(filter).toContain('if (CreatedTo.HasValue) query = query.Where(e => e.Created <= CreatedTo.Value);');
+  });
+
+  it('não gera filtros para navegações nem para nomes reservados da paginação', async () => {
+    await service.generateEntityFilter(product, domainPath);
+
+    const filter = fs.readFileSync(path.join(domainPath, 'Filters', 'ProductFilter.cs'), 'utf-8');
+    expect(filter).not.toContain('e.Category');
+    expect(filter).not.toContain('e.Page ');
+  });
+});
@@ -1,8 +1,14 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { EntityDefinition, EntityProperty } from '../types/entity';
+import { EntityService } from './entityService';
+
+// Propriedades herdadas de QueryParameters (não podem virar filtros)
+const RESERVED_FILTER_NAMES = ['Page', 'PageSize', 'SortBy', 'SortOrder', 'IsDescending', 'MaxPageSize'];
 
 export class RepositoryService {
+  private entityService = new EntityService();
 
   constructor() {
     // Templates gerenciados via TemplateManager
@@ -16,8 +22,8 @@ export class RepositoryService {
       const contractsPath = path.join(domainPath, 'Repositories', 'Contracts');
       
       // Garantir que o diretório existe
-      if (!fs.existsSync(contractsPath)) {
-        fs.mkdirSync(contractsPath, { recursive: true });
+      if (!fileOutput.existsSync(contractsPath)) {
+        fileOutput.mkdirSync(contractsPath, { recursive: true });
       }
 
       // Gerar IRepository.cs
@@ -26,6 +32,9 @@ export class RepositoryService {
       // Gerar IRepositoryBase.cs
       await this.generateRepositoryBaseContract(contractsPath);
 
+      // Gerar QueryParameters.cs e PagedResult.cs (paginação)
+      await this.generatePagingContracts(contractsPath);
+
       console.log('✅ Arquivos base de repositório gerados com sucesso');
     } catch (error: any) {
       console.error('❌ Erro ao gerar arquivos base de repositório:', error.message);
@@ -41,8 +50,8 @@ export class RepositoryService {
       const repositoriesPath = path.join(domainPath, 'Repositories');
       
       // Garantir que o diretório existe
-      if (!fs.existsSync(repositoriesPath)) {
-        fs.mkdirSync(repositoriesPath, { recursive: true });
+      if (!fileOutput.existsSync(repositoriesPath)) {
+        fileOutput.mkdirSync(repositoriesPath, { recursive: true });
       }
 
       // Carregar template
@@ -60,7 +69,7 @@ export class RepositoryService {
       const fileName = `I${entityName}Repository.cs`;
       const filePath = path.join(repositoriesPath, fileName);
       
-      fs.writeFileSync(filePath, content);
+      fileOutput.writeFileSync(filePath, content);
       
       console.log(`✅ Interface de repositório gerada: ${fileName}`);
     } catch (error: any) {
@@ -69,6 +78,88 @@ export class RepositoryService {
     }
   }
 
+  /**
+   * Gera o filtro de consulta da entidade (paginação, ordenação e filtros por propriedade)
+   */
+  async generateEntityFilter(entity: EntityDefinition, domainPath: string): Promise<void> {
+    try {
+      const filtersPath = path.join(domainPath, 'Filters');
+
+      if (!fileOutput.existsSync(filtersPath)) {
+        fileOutput.mkdirSync(filtersPath, { recursive: true });
+      }
+
+      const template = TemplateManager.getTemplate('domain/filters/entityFilter.hbs');
+
+      const properties: EntityProperty[] = [...(entity.properties || [])];
+      if (entity.inheritsFromBase !== false) {
+        properties.push({ name: 'Created', type: 'DateTimeOffset', isRequired: true, isNavigationProperty: false });
+      }
+
+      const filters = properties
+        .filter(p => !p.isCollection && !p.isNavigationProperty && !/Entity\??$/.test(p.type))
+        .filter(p => !RESERVED_FILTER_NAMES.includes(p.name))
+        .map(p => this.buildFilter(p))
+        .filter((f): f is { properties: string[]; conditions: string[] } => f !== null);
+
+      const content = template({
+        name: entity.name,
+        hasEnums: (entity.properties || []).some(p => p.isEnum),
+        structureProperties: filters.flatMap(f => f.properties).join('\n'),
+        structureConditions: filters.flatMap(f => f.conditions).join('\n')
+      });
+
+      const fileName = `${entity.name}Filter.cs`;
+      fileOutput.writeFileSync(path.join(filtersPath, fileName), content);
+
+      console.log(`✅ Filtro de consulta gerado: ${fileName}`);
+    } catch (error: any) {
+      console.error(`❌ Erro ao gerar filtro para ${entity.name}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Monta a propriedade e a condição de filtro de acordo com o tipo
+   * string: contém | datas: intervalo From/To | demais: igualdade
+   */
+  private buildFilter(property: EntityProperty): { properties: string[]; conditions: string[] } | null {
+    const isNullable = property.type.endsWith('?');
+    const type = this.entityService.mapToCSharpType(isNullable ? property.type.slice(0, -1) : property.type);
+    const name = property.name;
+
+    if (type === 'string') {
+      const target = isNullable ? `e.${name} != null && e.${name}.Contains(${name})` : `e.${name}.Contains(${name})`;
+      return {
+        properties: [`        public string? ${name} { get; set; }`],
+        conditions: [`            if (!string.IsNullOrWhiteSpace(${name})) query = query.Where(e => ${target});`]
+      };
+    }
+
+    if (type === 'DateTime' || type === 'DateTimeOffset') {
+      return {
+        properties: [
+          `        public ${type}? ${name}From { get; set; }`,
+          `        public ${type}? ${name}To { get; set; }`
+        ],
+        conditions: [
+          `            if (${name}From.HasValue) query = query.Where(e => e.${name} >= ${name}From.Value);`,
+          `            if (${name}To.HasValue) query = query.Where(e => e.${name} <= ${name}To.Value);`
+        ]
+      };
+    }
+
+    const comparableTypes = ['int', 'long', 'short', 'byte', 'double', 'float', 'decimal', 'bool', 'Guid'];
+    if (!property.isEnum && !comparableTypes.includes(type)) {
+      return null;
+    }
+
+    return {
+      properties: [`        public ${type}? ${name} { get; set; }`],
+      conditions: [`            if (${name}.HasValue) query = query.Where(e => e.${name} == ${name}.Value);`]
+    };
+  }
+
   /**
    * Gera o arquivo IRepository.cs na pasta Contracts
    */
@@ -77,7 +168,7 @@ export class RepositoryService {
     const templateContent = template({});
     
     const filePath = path.join(contractsPath, 'IRepository.cs');
-    fs.writeFileSync(filePath, templateContent);
+    fileOutput.writeFileSync(filePath, templateContent);
     
     console.log('✅ IRepository.cs gerado');
   }
@@ -90,11 +181,27 @@ export class RepositoryService {
     const templateContent = template({});
     
     const filePath = path.join(contractsPath, 'IRepositoryBase.cs');
-    fs.writeFileSync(filePath, templateContent);
+    fileOutput.writeFileSync(filePath, templateContent);
     
     console.log('✅ IRepositoryBase.cs gerado');
   }
 
+  /**
+   * Gera os arquivos QueryParameters.cs e PagedResult.cs na pasta Contracts
+   */
+  private async generatePagingContracts(contractsPath: string): Promise<void> {
+    const files = [
+      { template: 'domain/repositories/contracts/queryParameters.hbs', fileName: 'QueryParameters.cs' },
+      { template: 'domain/repositories/contracts/pagedResult.hbs', fileName: 'PagedResult.cs' }
+    ];
+
+    for (const file of files) {
+      const templateContent = TemplateManager.getTemplate(file.template)({});
+      fileOutput.writeFileSync(path.join(contractsPath, file.fileName), templateContent);
+      console.log(`✅ ${file.fileName} gerado`);
+    }
+  }
+
   /**
    * Método unificado para gerar repositórios (base + entidades específicas)
    */
@@ -112,7 +219,7 @@ export class RepositoryService {
 
       // 1. Sempre gerar arquivos base (estáticos)
       await this.generateBaseRepositories(domainPath);
-      result.baseFiles = ['IRepository.cs', 'IRepositoryBase.cs'];
+      result.baseFiles = ['IRepository.cs', 'IRepositoryBase.cs', 'QueryParameters.cs', 'PagedResult.cs'];
 
       // 2. Gerar repositórios específicos se entidades fornecidas
       if (entities && entities.length > 0) {
@@ -138,11 +245,11 @@ export class RepositoryService {
   async listGeneratedRepositories(domainPath: string): Promise<string[]> {
     const repositoriesPath = path.join(domainPath, 'Repositories');
     
-    if (!fs.existsSync(repositoriesPath)) {
+    if (!fileOutput.existsSync(repositoriesPath)) {
       return [];
     }
 
-    const files = fs.readdirSync(repositoriesPath);
+    const files = fileOutput.readdirSync(repositoriesPath);
     return files
       .filter(file => file.startsWith('I') && file.endsWith('Repository.cs'))
       .map(file => file.replace('I', '').replace('Repository.cs', ''));
@@ -0,0 +1,128 @@
+import { ScaffoldJobService } from './scaffoldJobService';
+
+// Runner controlado pelo teste: o job só termina quando "finish" é chamado
+function deferredRunner() {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+
+  const run = (jobId: string) => new Promise<void>(resolve => {
+    started.push(jobId);
+    finishers.set(jobId, resolve);
+  });
+
+  const finish = async (jobId: string) => {
+    finishers.get(jobId)!();
+    // Deixa o finally do runner liberar a vaga e iniciar o próximo job
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  return { run, started, finish };
+}
+
+function createService(env: Record<string, string>): ScaffoldJobService {
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    return new ScaffoldJobService();
+  } finally {
+    process.env = previous;
+  }
+}
+
+describe('ScaffoldJobService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('executa os jobs em ordem de chegada respeitando a concorrência', async () => {
+    const service = createService({ SCAFFOLD_JOB_CONCURRENCY: '1' });
+    const runner = deferredRunner();
+
+    const first = service.createJob('First', runner.run)!;
+    const second = service.createJob('Second', runner.run)!;
+
+    expect(first.status).toBe('running');
+    expect(second.status).toBe('queued');
+    expect(runner.started).toEqual([first.id]);
+
+    service.complete(first.id, Buffer.from('zip'));
+    await runner.finish(first.id);
+
+    expect(service.getJob(first.id)).toMatchObject({ status: 'completed', progress: 100, artifactSize: 3 });
+    expect(service.getJob(second.id)!.status).toBe('running');
+    expect(runner.started).toEqual([first.id, second.id]);
+  });
+
+  it('recusa novos jobs com a fila cheia', () => {
+    const service = createService({ SCAFFOLD_JOB_CONCURRENCY: '1', SCAFFOLD_JOB_MAX_QUEUED: '1' });
+    const runner = deferredRunner();
+
+    expect(service.createJob('Running', runner.run)).toBeDefined();
+    expect(service.createJob('Queued', runner.run)).toBeDefined();
+    expect(service.createJob('Rejected', runner.run)).toBeUndefined();
+  });
+
+  it('publica os eventos de cada transição e permite retomá-los pelo id', async () => {
+    const service = createService({});
+    const runner = deferredRunner();
+    const job = service.createJob('Shop', runner.run)!;
+
+    service.reportStep(job.id, { step: 'createProject', label: 'Criando projeto', status: 'completed', index: 1, total: 4 });
+    service.fail(job.id, 'Falha ao criar projeto');
+    await runner.finish(job.id);
+
+    expect(service.getEvents(job.id).map(event => [event.id, event.type, event.status, event.progress])).toEqual([
+      [1, 'status', 'queued', 0],
+      [2, 'status', 'running', 0],
+      [3, 'step', 'running', 25],
+      [4, 'failed', 'failed', 25]
+    ]);
+    expect(service.getEvents(job.id, 2).map(event => event.id)).toEqual([3, 4]);
+    expect(service.getJob(job.id)).toMatchObject({ status: 'failed', error: 'Falha ao criar projeto' });
+  });
+
+  it('falha o job quando o runner lança um erro', async () => {
+    const service = createService({});
+    const job = service.createJob('Shop', async () => { throw new Error('disco cheio'); })!;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'Erro interno durante a criação do projeto: disco cheio'
+    });
+  });
+
+  it('remove os jobs finalizados após o TTL', async () => {
+    jest.useFakeTimers();
+    const service = createService({ SCAFFOLD_JOB_TTL_MINUTES: '1' });
+    const job = service.createJob('Shop', async () => undefined)!;
+
+    service.complete(job.id, Buffer.from('zip'));
+    jest.advanceTimersByTime(59 * 1000);
+    expect(service.getArtifact(job.id)).toEqual(Buffer.from('zip'));
+
+    jest.advanceTimersByTime(1000);
+    expect(service.getJob(job.id)).toBeUndefined();
+    expect(service.getArtifact(job.id)).toBeUndefined();
+  });
+
+  it('limita a memória dos ZIPs removendo os jobs concluídos mais antigos', () => {
+    const service = createService({ SCAFFOLD_JOB_MAX_ARTIFACTS_MB: '1' });
+    const megabyte = 1024 * 1024;
+    const [oldest, newest, oversized] = ['Oldest', 'Newest', 'Oversized'].map(name => service.createJob(name, async () => undefined)!);
+
+    service.complete(oldest.id, Buffer.alloc(megabyte / 2));
+    service.complete(newest.id, Buffer.alloc(megabyte / 2 + 1));
+    service.complete(oversized.id, Buffer.alloc(megabyte + 1));
+
+    expect(service.getJob(oldest.id)).toBeUndefined();
+    expect(service.getArtifact(newest.id)).toHaveLength(megabyte / 2 + 1);
+    expect(service.getJob(oversized.id)).toMatchObject({ status: 'failed' });
+    expect(service.getArtifact(oversized.id)).toBeUndefined();
+  });
+});
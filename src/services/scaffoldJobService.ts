@@ -0,0 +1,242 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { ScaffoldJob, ScaffoldJobEvent, ScaffoldJobStatus, ScaffoldStepEvent } from '../types/common';
+
+interface ScaffoldJobEntry {
+  job: ScaffoldJob;
+  events: ScaffoldJobEvent[];
+  artifact?: Buffer;
+  expiresAt?: NodeJS.Timeout;
+}
+
+export type ScaffoldJobListener = (event: ScaffoldJobEvent) => void;
+export type ScaffoldJobRunner = (jobId: string) => Promise<void>;
+
+/**
+ * Armazena os jobs de scaffold assíncronos em memória: status, histórico de eventos e ZIP gerado
+ * Os jobs rodam em ordem de chegada, no máximo SCAFFOLD_JOB_CONCURRENCY (padrão: 2) ao mesmo tempo,
+ * com até SCAFFOLD_JOB_MAX_QUEUED (padrão: 20) aguardando na fila
+ * Jobs finalizados são removidos após SCAFFOLD_JOB_TTL_MINUTES (padrão: 30), ou antes, quando os ZIPs
+ * guardados passam de SCAFFOLD_JOB_MAX_ARTIFACTS_MB (padrão: 200; os mais antigos saem primeiro)
+ */
+export class ScaffoldJobService {
+  private jobs = new Map<string, ScaffoldJobEntry>();
+  private queue: { id: string; run: ScaffoldJobRunner }[] = [];
+  private running = 0;
+  private emitter = new EventEmitter();
+  private ttlMs = (Number(process.env.SCAFFOLD_JOB_TTL_MINUTES) || 30) * 60 * 1000;
+  private concurrency = Number(process.env.SCAFFOLD_JOB_CONCURRENCY) || 2;
+  private maxQueued = Number(process.env.SCAFFOLD_JOB_MAX_QUEUED) || 20;
+  private maxArtifactBytes = (Number(process.env.SCAFFOLD_JOB_MAX_ARTIFACTS_MB) || 200) * 1024 * 1024;
+
+  constructor() {
+    // Cada conexão SSE é um listener; não há limite prático de clientes
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Cria um job na fila para o projeto informado; "run" é chamado quando chegar a vez do job
+   * Retorna undefined se a fila estiver cheia
+   */
+  createJob(projectName: string, run: ScaffoldJobRunner): ScaffoldJob | undefined {
+    if (this.queue.length >= this.maxQueued) {
+      return undefined;
+    }
+
+    const job: ScaffoldJob = {
+      id: crypto.randomUUID(),
+      projectName,
+      status: 'queued',
+      progress: 0,
+      message: 'Job na fila',
+      createdAt: new Date().toISOString()
+    };
+
+    this.jobs.set(job.id, { job, events: [] });
+    this.publish(job.id, { type: 'status', message: job.message });
+    this.queue.push({ id: job.id, run });
+    this.drain();
+    return { ...this.jobs.get(job.id)!.job };
+  }
+
+  /**
+   * Retorna uma cópia do estado atual do job
+   */
+  getJob(id: string): ScaffoldJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * Eventos já publicados pelo job, opcionalmente apenas os posteriores a "afterId"
+   */
+  getEvents(id: string, afterId = 0): ScaffoldJobEvent[] {
+    return (this.jobs.get(id)?.events || []).filter(event => event.id > afterId);
+  }
+
+  /**
+   * ZIP gerado pelo job (somente jobs "completed")
+   */
+  getArtifact(id: string): Buffer | undefined {
+    return this.jobs.get(id)?.artifact;
+  }
+
+  /**
+   * Registra o início ou a conclusão de uma etapa do scaffold e recalcula o progresso
+   */
+  reportStep(id: string, stepEvent: ScaffoldStepEvent): void {
+    const done = stepEvent.status === 'completed' ? stepEvent.index : stepEvent.index - 1;
+    // 100% fica reservado para o job concluído com o ZIP disponível
+    const progress = Math.min(99, Math.round((done / stepEvent.total) * 100));
+    const message = stepEvent.status === 'started' ? `${stepEvent.label}...` : `${stepEvent.label} concluído`;
+
+    this.update(id, { progress, currentStep: stepEvent.step, message });
+    this.publish(id, {
+      type: 'step',
+      step: stepEvent.step,
+      label: stepEvent.label,
+      stepStatus: stepEvent.status,
+      message
+    });
+  }
+
+  /**
+   * Conclui o job guardando o ZIP para download
+   */
+  complete(id: string, artifact: Buffer): void {
+    const entry = this.jobs.get(id);
+    if (!entry) return;
+
+    if (artifact.length > this.maxArtifactBytes) {
+      this.fail(id, `ZIP gerado (${artifact.length} bytes) maior que o limite de ${this.maxArtifactBytes} bytes para jobs`);
+      return;
+    }
+    this.releaseArtifactMemory(artifact.length);
+
+    entry.artifact = artifact;
+    this.update(id, {
+      status: 'completed',
+      progress: 100,
+      currentStep: undefined,
+      message: 'Projeto gerado, ZIP disponível para download',
+      artifactSize: artifact.length,
+      finishedAt: new Date().toISOString()
+    });
+    this.publish(id, { type: 'completed', message: entry.job.message });
+    this.scheduleExpiration(id);
+  }
+
+  /**
+   * Finaliza o job com erro
+   */
+  fail(id: string, error: string): void {
+    if (!this.jobs.has(id)) return;
+
+    this.update(id, {
+      status: 'failed',
+      message: 'Falha ao gerar o projeto',
+      error,
+      finishedAt: new Date().toISOString()
+    });
+    this.publish(id, { type: 'failed', message: error });
+    this.scheduleExpiration(id);
+  }
+
+  /**
+   * Recebe os próximos eventos do job; retorna a função que cancela a inscrição
+   */
+  subscribe(id: string, listener: ScaffoldJobListener): () => void {
+    this.emitter.on(id, listener);
+    return () => this.emitter.off(id, listener);
+  }
+
+  /**
+   * Indica se o job já terminou (com sucesso ou erro)
+   */
+  isFinished(status: ScaffoldJobStatus): boolean {
+    return status === 'completed' || status === 'failed';
+  }
+
+  /**
+   * Inicia os próximos jobs da fila enquanto houver vaga
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const { id, run } = this.queue.shift()!;
+      this.running++;
+
+      this.update(id, { status: 'running', message: 'Gerando projeto' });
+      this.publish(id, { type: 'status', message: 'Gerando projeto' });
+
+      run(id)
+        .catch(error => this.fail(id, `Erro interno durante a criação do projeto: ${error?.message || 'Erro desconhecido'}`))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Remove os jobs concluídos mais antigos até o novo ZIP caber no limite de memória
+   */
+  private releaseArtifactMemory(incoming: number): void {
+    const stored = [...this.jobs.values()]
+      .filter(entry => entry.artifact)
+      .sort((a, b) => (a.job.finishedAt || '').localeCompare(b.job.finishedAt || ''));
+    let total = stored.reduce((sum, entry) => sum + entry.artifact!.length, 0);
+
+    for (const entry of stored) {
+      if (total + incoming <= this.maxArtifactBytes) break;
+
+      total -= entry.artifact!.length;
+      this.remove(entry.job.id);
+      console.log(`🧹 Job de scaffold removido para liberar memória: ${entry.job.id}`);
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.jobs.get(id);
+    if (entry?.expiresAt) {
+      clearTimeout(entry.expiresAt);
+    }
+    this.jobs.delete(id);
+  }
+
+  private update(id: string, changes: Partial<ScaffoldJob>): void {
+    const entry = this.jobs.get(id);
+    if (entry) {
+      entry.job = { ...entry.job, ...changes };
+    }
+  }
+
+  private publish(id: string, event: Pick<ScaffoldJobEvent, 'type' | 'message'> & Partial<ScaffoldJobEvent>): void {
+    const entry = this.jobs.get(id);
+    if (!entry) return;
+
+    const published: ScaffoldJobEvent = {
+      ...event,
+      id: entry.events.length + 1,
+      status: entry.job.status,
+      progress: entry.job.progress,
+      timestamp: new Date().toISOString()
+    };
+
+    entry.events.push(published);
+    this.emitter.emit(id, published);
+  }
+
+  private scheduleExpiration(id: string): void {
+    const entry = this.jobs.get(id);
+    if (!entry) return;
+
+    entry.expiresAt = setTimeout(() => {
+      this.remove(id);
+      console.log(`🧹 Job de scaffold expirado: ${id}`);
+    }, this.ttlMs);
+    // Não manter o processo vivo apenas por causa da expiração
+    entry.expiresAt.unref();
+  }
+}
+
+export const scaffoldJobService = new ScaffoldJobService();
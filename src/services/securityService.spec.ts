@@ -0,0 +1,63 @@
+import { EntityDefinition } from '../types/entity';
+import { FileOutput, MemoryFileSystem } from '../utils/FileOutput';
+import { ApiService } from './apiService';
+import { SecurityService } from './securityService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }],
+  authorization: { delete: ['Admin', 'Manager'], create: ['Admin'] }
+};
+
+describe('SecurityService', () => {
+  const service = new SecurityService();
+
+  it('valida projectOptions.security', () => {
+    expect(service.validateSecurityOptions(undefined)).toEqual([]);
+    expect(service.validateSecurityOptions({ issuer: 'ShopApi', tokenExpirationMinutes: 30 })).toEqual([]);
+    expect(service.validateSecurityOptions({ issuer: ' ', tokenExpirationMinutes: 1.5, devTokenEndpoint: 'no' })).toEqual([
+      'projectOptions.security: issuer deve ser um texto não vazio',
+      'projectOptions.security: tokenExpirationMinutes deve ser um inteiro maior que zero',
+      'projectOptions.security: devTokenEndpoint deve ser true ou false'
+    ]);
+  });
+
+  it('exige security no projeto e roles válidas por operação', () => {
+    expect(service.validateEntityAuthorization([product])).toEqual([
+      "Entidade 'Product': authorization exige projectOptions.security"
+    ]);
+    expect(service.validateEntityAuthorization([
+      { ...product, authorization: { remove: ['Admin'], delete: [], update: ['Admin Role'] } as any }
+    ], {})).toEqual([
+      "Entidade 'Product': operação 'remove' inválida em authorization. Use: list, getById, create, update, delete",
+      "Entidade 'Product': authorization.delete deve ser uma lista de roles",
+      "Entidade 'Product': role 'Admin Role' inválida em authorization.update (use letras, números, \"_\", \".\" ou \"-\")"
+    ]);
+  });
+
+  it('monta as roles do controller e a seção Jwt dos appsettings', () => {
+    expect(service.buildControllerAuthorization(product)).toBeUndefined();
+    expect(service.buildControllerAuthorization(product, {})).toEqual({ roles: { create: 'Admin', delete: 'Admin,Manager' } });
+
+    const development = service.buildJwtSettings('Shop', { audience: 'ShopClients' }, true);
+    expect(development).toMatchObject({ Issuer: 'Shop', Audience: 'ShopClients', ExpirationMinutes: 60 });
+    expect(Buffer.from(development.Key, 'base64')).toHaveLength(32);
+    expect(service.buildJwtSettings('Shop', {}, false).Key).toBe('');
+    expect(service.buildJwtSettings('Shop', {}, true, 'chave-atual').Key).toBe('chave-atual');
+  });
+
+  it('gera o controller com [Authorize] e as roles de cada operação', async () => {
+    const memory = new MemoryFileSystem();
+    memory.mkdirSync('/project/API/Controllers', { recursive: true });
+
+    await FileOutput.run(memory, () => new ApiService().createEntityController('/project', 'Product', product.properties, undefined,
+      service.buildControllerAuthorization(product, {})));
+    const controller = memory.readFileSync('/project/API/Controllers/ProductController.cs');
+
+    expect(controller).toContain('using Microsoft.AspNetCore.Authorization;');
+    expect(controller).toContain('    [Authorize]\n    public class ProductController');
+    expect(controller).toContain('[Authorize(Roles = "Admin")]\n        public async Task<IActionResult> CreateProductAsync');
+    expect(controller).toContain('[Authorize(Roles = "Admin,Manager")]\n        public async Task<IActionResult> DeleteByIdAsync');
+    expect(controller).not.toContain('[Authorize(Roles = "")]');
+  });
+});
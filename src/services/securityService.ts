@@ -0,0 +1,138 @@
+import * as crypto from 'crypto';
+import { EntityDefinition, EntityOperation } from '../types/entity';
+import { SecurityOptions } from '../types/project';
+
+export const ENTITY_OPERATIONS: EntityOperation[] = ['list', 'getById', 'create', 'update', 'delete'];
+
+// Package do JWT bearer adicionado à API quando o projeto tem security
+export const JWT_BEARER_PACKAGE = { name: 'Microsoft.AspNetCore.Authentication.JwtBearer', version: '8.0.0' };
+
+const DEFAULT_TOKEN_EXPIRATION_MINUTES = 60;
+
+export interface ControllerAuthorization {
+  roles: Partial<Record<EntityOperation, string>>;
+}
+
+export interface JwtSettings {
+  Issuer: string;
+  Audience: string;
+  Key: string;
+  ExpirationMinutes: number;
+}
+
+/**
+ * Autenticação JWT da API gerada (projectOptions.security) e roles exigidas por operação
+ * de cada entidade (authorization), renderizadas como [Authorize(Roles = ...)] nos controllers
+ */
+export class SecurityService {
+
+  /**
+   * Valida projectOptions.security
+   */
+  validateSecurityOptions(security: unknown): string[] {
+    if (security === undefined) return [];
+
+    if (!security || typeof security !== 'object' || Array.isArray(security)) {
+      return ['projectOptions.security deve ser um objeto'];
+    }
+
+    const errors: string[] = [];
+    const options = security as Record<string, unknown>;
+
+    for (const field of ['issuer', 'audience'] as const) {
+      if (options[field] !== undefined && (typeof options[field] !== 'string' || !(options[field] as string).trim())) {
+        errors.push(`projectOptions.security: ${field} deve ser um texto não vazio`);
+      }
+    }
+
+    const expiration = options.tokenExpirationMinutes;
+    if (expiration !== undefined && (typeof expiration !== 'number' || !Number.isInteger(expiration) || expiration <= 0)) {
+      errors.push('projectOptions.security: tokenExpirationMinutes deve ser um inteiro maior que zero');
+    }
+
+    if (options.devTokenEndpoint !== undefined && typeof options.devTokenEndpoint !== 'boolean') {
+      errors.push('projectOptions.security: devTokenEndpoint deve ser true ou false');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Valida as roles por operação das entidades (exigem security no projeto)
+   */
+  validateEntityAuthorization(entities: EntityDefinition[], security?: SecurityOptions): string[] {
+    const errors: string[] = [];
+
+    for (const entity of entities) {
+      if (entity.authorization === undefined) continue;
+
+      const context = `Entidade '${entity.name}'`;
+      if (!entity.authorization || typeof entity.authorization !== 'object' || Array.isArray(entity.authorization)) {
+        errors.push(`${context}: authorization deve ser um objeto com as roles por operação`);
+        continue;
+      }
+
+      if (!security) {
+        errors.push(`${context}: authorization exige projectOptions.security`);
+        continue;
+      }
+
+      for (const [operation, roles] of Object.entries(entity.authorization)) {
+        if (!ENTITY_OPERATIONS.includes(operation as EntityOperation)) {
+          errors.push(`${context}: operação '${operation}' inválida em authorization. Use: ${ENTITY_OPERATIONS.join(', ')}`);
+          continue;
+        }
+
+        if (!Array.isArray(roles) || roles.length === 0) {
+          errors.push(`${context}: authorization.${operation} deve ser uma lista de roles`);
+          continue;
+        }
+
+        const invalidRole = roles.find(role => typeof role !== 'string' || !/^[A-Za-z][A-Za-z0-9_.-]*$/.test(role));
+        if (invalidRole !== undefined) {
+          errors.push(`${context}: role '${invalidRole}' inválida em authorization.${operation} (use letras, números, "_", "." ou "-")`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Autorização do controller da entidade: [Authorize] na classe e as roles de cada operação
+   * no formato do atributo (ex: { delete: "Admin,Manager" }); sem security o controller fica anônimo
+   */
+  buildControllerAuthorization(entity: Pick<EntityDefinition, 'authorization'>, security?: SecurityOptions): ControllerAuthorization | undefined {
+    if (!security) return undefined;
+
+    const roles: Partial<Record<EntityOperation, string>> = {};
+    for (const operation of ENTITY_OPERATIONS) {
+      const operationRoles = entity.authorization?.[operation];
+      if (operationRoles && operationRoles.length > 0) {
+        roles[operation] = operationRoles.join(',');
+      }
+    }
+
+    return { roles };
+  }
+
+  /**
+   * Seção "Jwt" dos appsettings; a chave de assinatura é gerada só para Development
+   * (em produção ela vem da variável APP_JWT_KEY)
+   */
+  buildJwtSettings(projectName: string, security: SecurityOptions, isDevelopment: boolean, currentKey?: string): JwtSettings {
+    return {
+      Issuer: security.issuer || projectName,
+      Audience: security.audience || projectName,
+      Key: currentKey || (isDevelopment ? crypto.randomBytes(32).toString('base64') : ''),
+      ExpirationMinutes: security.tokenExpirationMinutes || DEFAULT_TOKEN_EXPIRATION_MINUTES
+    };
+  }
+
+  /**
+   * Indica se o endpoint de token de desenvolvimento deve ser gerado
+   */
+  hasDevTokenEndpoint(security?: SecurityOptions): boolean {
+    return !!security && security.devTokenEndpoint !== false;
+  }
+}
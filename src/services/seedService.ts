@@ -0,0 +1,326 @@
+import * as crypto from 'crypto';
+import { EntityDefinition, EntityProperty, EnumDefinition } from '../types/entity';
+import { EntityService } from './entityService';
+import { PrimaryKeyService } from './primaryKeyService';
+import { AuditService } from './auditService';
+import { TENANT_ID_MAX_LENGTH, TenancyService } from './tenancyService';
+
+export type SeedValueMode = 'model' | 'store';
+
+export interface SeedColumn {
+  name: string;
+  type: string;       // Tipo C# base (sem "?")
+  isNullable: boolean;
+  isEnum: boolean;
+  isKey?: boolean;    // Chave primária (idType/idName da entidade)
+}
+
+export interface SeedRow {
+  columns: string[];
+  values: string[];   // Literais C# na mesma ordem das colunas
+}
+
+// Data fixa usada no "Created" dos registros para que a migration seja determinística
+const SEED_CREATED = 'new DateTimeOffset(new DateTime(2024, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified), new TimeSpan(0, 0, 0, 0, 0))';
+
+export class SeedService {
+  private entityService = new EntityService();
+  private primaryKeyService = new PrimaryKeyService();
+  private auditService = new AuditService();
+  private tenancyService = new TenancyService();
+
+  /**
+   * Valida os registros de seed declarados nas entidades
+   */
+  validateSeeds(entities: EntityDefinition[]): string[] {
+    const errors: string[] = [];
+
+    for (const entity of entities) {
+      if (entity.seed === undefined) continue;
+
+      if (!Array.isArray(entity.seed)) {
+        errors.push(`Seed inválido em '${entity.name}': deve ser um array de objetos`);
+        continue;
+      }
+
+      const columns = this.getColumns(entity);
+
+      entity.seed.forEach((record, index) => {
+        if (!record || typeof record !== 'object' || Array.isArray(record)) {
+          errors.push(`Seed inválido em '${entity.name}[${index}]': deve ser um objeto`);
+          return;
+        }
+
+        for (const key of Object.keys(record)) {
+          if (!this.findColumn(columns, key)) {
+            errors.push(`Seed inválido em '${entity.name}[${index}]': propriedade '${key}' não existe ou não é uma coluna`);
+          }
+        }
+
+        if (entity.tenantStrategy) {
+          errors.push(...this.validateSeedTenant(entity, record, index));
+        }
+
+        for (const column of columns) {
+          const value = this.getValue(record, column.name);
+          const isGenerated = this.inheritsFromBase(entity) && (column.isKey
+            ? this.primaryKeyService.getKey(entity).isGenerated
+            : ['Created', 'Update', 'IsDeleted', 'TenantId'].includes(column.name));
+
+          if (!column.isNullable && !isGenerated && (value === undefined || value === null) && this.requiresValue(column)) {
+            errors.push(`Seed inválido em '${entity.name}[${index}]': '${column.name}' é obrigatório`);
+          }
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gera as chamadas HasData do OnModelCreating
+   */
+  buildModelConfiguration(entities: EntityDefinition[], enums: EnumDefinition[] = []): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      const rows = this.buildRows(entity, enums, 'model');
+      if (rows.length === 0) continue;
+
+      lines.push(
+        `            modelBuilder.Entity<${entity.name}Entity>().HasData(`,
+        rows.map(row => `                new { ${row.columns.map((c, i) => `${c} = ${row.values[i]}`).join(', ')} }`).join(',\n') + ');',
+        ''
+      );
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Monta os registros de seed com a chave, Created, IsDeleted e TenantId (multiTenancy.seedTenantId) preenchidos de forma determinística
+   * (Guid derivado do nome da entidade e da posição; int/long sequenciais a partir de 1)
+   * @param mode 'model' usa valores CLR (enums tipados); 'store' usa o valor gravado no banco
+   */
+  buildRows(entity: EntityDefinition, enums: EnumDefinition[], mode: SeedValueMode): SeedRow[] {
+    const columns = this.getColumns(entity);
+
+    return (entity.seed || []).map((record, index) => {
+      const row: SeedRow = { columns: [], values: [] };
+
+      for (const column of columns) {
+        let value: string | undefined;
+        const declared = this.getValue(record, column.name);
+
+        if (declared !== undefined) {
+          value = this.formatValue(declared, column, enums, mode);
+        } else if (column.isKey) {
+          value = this.buildKeyValue(entity, column, index);
+        } else if (this.inheritsFromBase(entity) && column.name === 'Created') {
+          value = SEED_CREATED;
+        } else if (this.inheritsFromBase(entity) && column.name === 'IsDeleted') {
+          value = 'false';
+        } else if (this.inheritsFromBase(entity) && column.name === 'TenantId') {
+          value = this.formatValue(entity.seedTenantId ?? '', column, enums, mode);
+        }
+
+        if (value !== undefined) {
+          row.columns.push(column.name);
+          row.values.push(value);
+        }
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Colunas mapeadas da entidade (chave, BaseEntity e propriedades escalares)
+   */
+  getColumns(entity: EntityDefinition): SeedColumn[] {
+    const columns: SeedColumn[] = [];
+
+    if (this.inheritsFromBase(entity)) {
+      const key = this.primaryKeyService.getKey(entity);
+      columns.push(
+        { name: key.name, type: key.type, isNullable: false, isEnum: false, isKey: true },
+        { name: 'Created', type: 'DateTimeOffset', isNullable: false, isEnum: false },
+        { name: 'Update', type: 'DateTimeOffset', isNullable: true, isEnum: false },
+        ...[...this.tenancyService.getColumns(entity), ...this.auditService.getColumns(entity)].map(column => ({ name: column.name, type: column.type, isNullable: column.isNullable, isEnum: false }))
+      );
+    }
+
+    for (const property of entity.properties || []) {
+      if (this.isNavigation(property) || property.isCollection) continue;
+
+      const isNullable = property.type.endsWith('?');
+      columns.push({
+        name: property.name,
+        type: this.entityService.mapToCSharpType(isNullable ? property.type.slice(0, -1) : property.type),
+        isNullable,
+        isEnum: !!property.isEnum
+      });
+    }
+
+    return columns;
+  }
+
+  /**
+   * Verifica se a propriedade é uma navegação para outra entidade
+   */
+  isNavigation(property: EntityProperty): boolean {
+    return property.isNavigationProperty || /Entity\??$/.test(property.type);
+  }
+
+  /**
+   * Formata um valor JSON como literal C#
+   */
+  formatValue(value: string | number | boolean | null, column: SeedColumn, enums: EnumDefinition[], mode: SeedValueMode): string {
+    if (value === null) {
+      return 'null';
+    }
+
+    if (column.isEnum) {
+      return this.formatEnumValue(value, column, enums, mode);
+    }
+
+    switch (column.type) {
+      case 'string':
+        return JSON.stringify(String(value));
+      case 'bool':
+        return value === true || value === 'true' ? 'true' : 'false';
+      case 'int':
+        return `${Number(value)}`;
+      case 'long':
+        return `${Number(value)}L`;
+      case 'short':
+        return `(short)${Number(value)}`;
+      case 'byte':
+        return `(byte)${Number(value)}`;
+      case 'double':
+        return `${Number(value)}d`;
+      case 'float':
+        return `${Number(value)}f`;
+      case 'decimal':
+        return `${Number(value)}m`;
+      case 'Guid':
+        return `new Guid("${value}")`;
+      case 'DateTime':
+        return this.formatDateTime(String(value));
+      case 'DateTimeOffset':
+        return `new DateTimeOffset(${this.formatDateTime(String(value))}, new TimeSpan(0, 0, 0, 0, 0))`;
+      default:
+        return JSON.stringify(value);
+    }
+  }
+
+  /**
+   * Valor da chave gerada de um registro de seed (chaves string são sempre informadas)
+   */
+  private buildKeyValue(entity: EntityDefinition, column: SeedColumn, index: number): string | undefined {
+    switch (column.type) {
+      case 'Guid':
+        return `new Guid("${this.deterministicGuid(`${entity.name}:${index}`)}")`;
+      case 'int':
+      case 'long':
+        return this.formatValue(index + 1, column, [], 'model');
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Formata o valor de um enum (nome ou número)
+   */
+  private formatEnumValue(value: string | number | boolean, column: SeedColumn, enums: EnumDefinition[], mode: SeedValueMode): string {
+    const enumDef = enums.find(e => e.name === column.type);
+    const values = (enumDef?.values || []).map(v => typeof v === 'string' ? { name: v } : v);
+
+    // Resolver nome e valor numérico seguindo a numeração do C#
+    let next = 0;
+    const members = values.map(v => {
+      const numeric = typeof v.value === 'number' ? v.value : next;
+      next = numeric + 1;
+      return { name: v.name, value: numeric };
+    });
+    const member = members.find(m => m.name === value || m.value === Number(value));
+
+    if (mode === 'model') {
+      return member
+        ? `Domain.Enums.${column.type}.${member.name}`
+        : `(Domain.Enums.${column.type})${Number(value)}`;
+    }
+
+    if (enumDef?.storeAs === 'string') {
+      return JSON.stringify(member ? member.name : String(value));
+    }
+
+    return `${member ? member.value : Number(value)}`;
+  }
+
+  /**
+   * Converte "2024-05-01" ou "2024-05-01T10:30:00" em new DateTime(...)
+   */
+  private formatDateTime(value: string): string {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(value);
+    const parts = match
+      ? match.slice(1).map(p => Number(p || 0))
+      : [2024, 1, 1, 0, 0, 0];
+
+    return `new DateTime(${parts.join(', ')}, 0, DateTimeKind.Unspecified)`;
+  }
+
+  /**
+   * Gera um Guid estável a partir de uma chave (mesmo ID a cada geração)
+   */
+  private deterministicGuid(key: string): string {
+    const hex = crypto.createHash('md5').update(key).digest('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  /**
+   * Tipos que o EF Core exige informar no seed (referência não anulável e FKs)
+   */
+  private requiresValue(column: SeedColumn): boolean {
+    return column.type === 'string' || (column.type === 'Guid' && column.name.endsWith('Id'));
+  }
+
+  /**
+   * Registros de entidades isoladas por tenant precisam de um tenant válido: sem ele o filtro global
+   * do sharedTable esconderia o registro de todas as requisições
+   */
+  private validateSeedTenant(entity: EntityDefinition, record: Record<string, any>, index: number): string[] {
+    const declared = this.getValue(record, 'TenantId');
+
+    if (declared === undefined || declared === null) {
+      return entity.seedTenantId
+        ? []
+        : [`Seed inválido em '${entity.name}[${index}]': informe 'TenantId' no registro ou projectOptions.multiTenancy.seedTenantId`];
+    }
+
+    return this.tenancyService.isValidTenantId(declared)
+      ? []
+      : [`Seed inválido em '${entity.name}[${index}]': 'TenantId' deve ter letras, números, "_" ou "-" (até ${TENANT_ID_MAX_LENGTH} caracteres)`];
+  }
+
+  /**
+   * Busca o valor do seed pelo nome da coluna (sem diferenciar maiúsculas)
+   */
+  private getValue(record: Record<string, any>, columnName: string): any {
+    const key = Object.keys(record).find(k => k.toLowerCase() === columnName.toLowerCase());
+    return key !== undefined ? record[key] : undefined;
+  }
+
+  private findColumn(columns: SeedColumn[], key: string): SeedColumn | undefined {
+    return columns.find(c => c.name.toLowerCase() === key.toLowerCase());
+  }
+
+  private inheritsFromBase(entity: EntityDefinition): boolean {
+    return entity.inheritsFromBase !== false;
+  }
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SolutionService } from './solutionService';
+
+describe('SolutionService', () => {
+  const service = new SolutionService();
+  let rootPath: string;
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-solution-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  it('referencia os projetos na ordem das camadas', () => {
+    const references = Object.fromEntries(service.getProjects().map(project => [project.name, project.references]));
+
+    expect(references).toMatchObject({
+      API: ['Application', 'IoC'],
+      Domain: [],
+      Application: ['Domain'],
+      Infrastructure: ['Domain'],
+      IoC: ['Domain', 'Application', 'Infrastructure']
+    });
+  });
+
+  it('escreve o .sln em CRLF e um .csproj por projeto com referências e packages', async () => {
+    const result = await service.createSolutionFiles(rootPath, 'Shop', 'net8.0', { provider: 'postgres' });
+
+    expect(result.success).toBe(true);
+    const solution = fs.readFileSync(path.join(rootPath, 'Shop.sln'), 'utf-8');
+    expect(solution).toContain('"Infrastructure", "Infrastructure\\Infrastructure.csproj"');
+    expect(solution.split('\n').slice(0, -1).every(line => line.endsWith('\r'))).toBe(true);
+
+    const infrastructure = fs.readFileSync(path.join(rootPath, 'Infrastructure', 'Infrastructure.csproj'), 'utf-8');
+    expect(infrastructure).toContain('<TargetFramework>net8.0</TargetFramework>');
+    expect(infrastructure).toContain('<ProjectReference Include="..\\Domain\\Domain.csproj" />');
+    expect(infrastructure).toContain('Include="Npgsql.EntityFrameworkCore.PostgreSQL"');
+    expect(fs.readFileSync(path.join(rootPath, 'API', 'API.csproj'), 'utf-8')).toContain('<Project Sdk="Microsoft.NET.Sdk.Web">');
+  });
+
+  it('mantém os GUIDs dos projetos entre gerações', async () => {
+    await service.createSolutionFiles(rootPath, 'Shop', 'net8.0');
+    const first = fs.readFileSync(path.join(rootPath, 'Shop.sln'), 'utf-8');
+
+    await service.createSolutionFiles(rootPath, 'Shop', 'net8.0');
+
+    expect(fs.readFileSync(path.join(rootPath, 'Shop.sln'), 'utf-8')).toBe(first);
+  });
+});
@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { DatabaseOptions, SecurityOptions, TestProjectOptions } from '../types/project';
+import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { NuGetService } from './nugetService';
+
+export interface SolutionProject {
+  name: string;
+  sdk: string;
+  references: string[];
+  packages: Array<{ name: string; version: string }>;
+  isTestProject?: boolean;
+}
+
+export interface SolutionResult {
+  success: boolean;
+  message: string;
+  files?: string[];
+  error?: string;
+}
+
+/**
+ * Gera solution, projetos e arquivos de host da API sem depender do .NET SDK
+ */
+export class SolutionService {
+  private nugetService = new NuGetService();
+
+  /**
+   * Projetos da solution Clean Architecture com referências e packages (Tests e IntegrationTests quando pedidos)
+   */
+  getProjects(database?: DatabaseOptions, security?: SecurityOptions, testProjects: TestProjectOptions = {}): SolutionProject[] {
+    const packages = this.nugetService.getPackagesByProject(database, security, testProjects);
+
+    const projects: SolutionProject[] = [
+      { name: 'API', sdk: 'Microsoft.NET.Sdk.Web', references: ['Application', 'IoC'], packages: packages.API },
+      { name: 'Domain', sdk: 'Microsoft.NET.Sdk', references: [], packages: [] },
+      { name: 'Application', sdk: 'Microsoft.NET.Sdk', references: ['Domain'], packages: packages.Application },
+      { name: 'Infrastructure', sdk: 'Microsoft.NET.Sdk', references: ['Domain'], packages: packages.Infrastructure },
+      { name: 'IoC', sdk: 'Microsoft.NET.Sdk', references: ['Domain', 'Application', 'Infrastructure'], packages: [] }
+    ];
+
+    if (packages.Tests) {
+      projects.push({ name: 'Tests', sdk: 'Microsoft.NET.Sdk', references: ['Domain'], packages: packages.Tests, isTestProject: true });
+    }
+
+    if (packages.IntegrationTests) {
+      projects.push({ name: 'IntegrationTests', sdk: 'Microsoft.NET.Sdk', references: ['API'], packages: packages.IntegrationTests, isTestProject: true });
+    }
+
+    return projects;
+  }
+
+  /**
+   * Escreve o .sln e o .csproj de cada projeto (ProjectReference + PackageReference)
+   */
+  async createSolutionFiles(rootPath: string, projectName: string, framework: string, database?: DatabaseOptions, security?: SecurityOptions, testProjects: TestProjectOptions = {}): Promise<SolutionResult> {
+    try {
+      const projects = this.getProjects(database, security, testProjects);
+      const files: string[] = [];
+
+      const csprojTemplate = TemplateManager.getTemplate('project/csproj.hbs');
+      for (const project of projects) {
+        const projectPath = path.join(rootPath, project.name);
+        if (!fileOutput.existsSync(projectPath)) {
+          fileOutput.mkdirSync(projectPath, { recursive: true });
+        }
+
+        const csprojPath = path.join(projectPath, `${project.name}.csproj`);
+        fileOutput.writeFileSync(csprojPath, csprojTemplate({
+          ...project,
+          framework,
+          isWeb: project.sdk === 'Microsoft.NET.Sdk.Web'
+        }), 'utf8');
+        files.push(csprojPath);
+      }
+
+      const solutionTemplate = TemplateManager.getTemplate('project/solution.hbs');
+      const solutionPath = path.join(rootPath, `${projectName}.sln`);
+      const solutionContent = solutionTemplate({
+        projects: projects.map(p => ({
+          name: p.name,
+          guid: `{${this.deterministicGuid(`${projectName}:${p.name}`)}}`
+        }))
+      });
+
+      // Visual Studio espera CRLF no .sln
+      fileOutput.writeFileSync(solutionPath, solutionContent.replace(/\r?\n/g, '\r\n'), 'utf8');
+      files.push(solutionPath);
+
+      return {
+        success: true,
+        message: `Solution '${projectName}.sln' e ${projects.length} projetos criados sem o .NET SDK`,
+        files
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar arquivos da solution:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao criar arquivos da solution',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Cria os arquivos que o "dotnet new webapi" geraria: appsettings e Properties/launchSettings.json
+   */
+  async createApiHostFiles(apiPath: string, projectName: string): Promise<SolutionResult> {
+    try {
+      const files: string[] = [];
+      const propertiesPath = path.join(apiPath, 'Properties');
+      if (!fileOutput.existsSync(propertiesPath)) {
+        fileOutput.mkdirSync(propertiesPath, { recursive: true });
+      }
+
+      // Portas estáveis por projeto, na mesma faixa usada pelo dotnet new
+      const seed = parseInt(this.deterministicGuid(projectName).slice(0, 4), 16);
+      const launchSettingsTemplate = TemplateManager.getTemplate('api/properties/launchSettings.hbs');
+      const launchSettingsPath = path.join(propertiesPath, 'launchSettings.json');
+      fileOutput.writeFileSync(launchSettingsPath, launchSettingsTemplate({
+        httpPort: 5000 + (seed % 300),
+        httpsPort: 7000 + (seed % 300)
+      }), 'utf8');
+      files.push(launchSettingsPath);
+
+      const appSettingsTemplate = TemplateManager.getTemplate('api/appsettings.hbs');
+      for (const [fileName, isDevelopment] of [['appsettings.json', false], ['appsettings.Development.json', true]] as const) {
+        const filePath = path.join(apiPath, fileName);
+        fileOutput.writeFileSync(filePath, appSettingsTemplate({ isDevelopment }), 'utf8');
+        files.push(filePath);
+      }
+
+      return {
+        success: true,
+        message: 'Arquivos de host da API criados',
+        files
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar arquivos de host da API:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao criar arquivos de host da API',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Gera um Guid estável a partir de uma chave (mesmo GUID de projeto a cada geração)
+   */
+  private deterministicGuid(key: string): string {
+    const hex = crypto.createHash('md5').update(key).digest('hex').toUpperCase();
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+}
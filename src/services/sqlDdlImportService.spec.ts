@@ -0,0 +1,130 @@
+import { SqlDdlImportService } from './sqlDdlImportService';
+
+const sqlServerScript = `
+CREATE TABLE [dbo].[Categories] (
+  [Id] int IDENTITY(1,1) NOT NULL,
+  [Name] nvarchar(50) NOT NULL, -- nome exibido
+  CONSTRAINT [PK_Categories] PRIMARY KEY CLUSTERED ([Id])
+)
+GO
+CREATE TABLE [dbo].[Products] (
+  [Id] int IDENTITY(1,1) NOT NULL PRIMARY KEY,
+  [Title] nvarchar(100) NOT NULL,
+  [CategoryId] int NOT NULL,
+  [Shape] geometry NULL
+)
+GO
+ALTER TABLE [dbo].[Products] ADD CONSTRAINT [FK_Products_Categories]
+  FOREIGN KEY ([CategoryId]) REFERENCES [dbo].[Categories] ([Id]) ON DELETE CASCADE
+GO
+`;
+
+const postgresScript = `
+CREATE TABLE "authors" ("id" bigserial, "name" varchar(80) NOT NULL);
+ALTER TABLE ONLY "authors" ADD CONSTRAINT authors_pkey PRIMARY KEY ("id");
+/* livros; com autor opcional */
+CREATE TABLE books (
+  id bigserial PRIMARY KEY,
+  author_id bigint REFERENCES authors(id) ON DELETE SET NULL,
+  note text DEFAULT 'it''s; fine'
+);
+CREATE TABLE tags (id uuid PRIMARY KEY, label text NOT NULL);
+CREATE TABLE book_tags (
+  book_id bigint NOT NULL,
+  tag_id uuid NOT NULL,
+  PRIMARY KEY (book_id, tag_id),
+  FOREIGN KEY (book_id) REFERENCES books(id),
+  FOREIGN KEY (tag_id) REFERENCES tags(id)
+);
+`;
+
+describe('SqlDdlImportService', () => {
+  const service = new SqlDdlImportService();
+
+  const importEntities = (script: string) => {
+    const result = service.importScript(script);
+    expect(result.success).toBe(true);
+    return { entities: result.scaffoldRequest!.entities, warnings: result.warnings, provider: result.scaffoldRequest!.projectOptions.database?.provider };
+  };
+
+  const columns = (entity: { properties: { name: string; type: string }[] }) =>
+    entity.properties.map(property => `${property.name}:${property.type}`);
+
+  it('mantém ";" e "--" dentro de textos entre aspas', () => {
+    const { entities, warnings } = importEntities(
+      "CREATE TABLE notes (id uuid PRIMARY KEY, sep varchar(5) DEFAULT ';' NOT NULL, body text NOT NULL, " +
+      "url varchar(200) DEFAULT 'http://x--y' NOT NULL, title varchar(50) NOT NULL);"
+    );
+
+    expect(warnings).toEqual([]);
+    expect(entities).toHaveLength(1);
+    expect(columns(entities[0])).toEqual(['Sep:string', 'Body:string', 'Url:string', 'Title:string']);
+    expect(entities[0].properties.every(property => property.isRequired)).toBe(true);
+  });
+
+  it('lê identificadores com colchetes, linhas GO e FK adicionada por ALTER TABLE (SQL Server)', () => {
+    const { entities, warnings, provider } = importEntities(sqlServerScript);
+
+    expect(provider).toBe('sqlserver');
+    expect(entities.map(e => [e.name, e.idType])).toEqual([['Category', 'int'], ['Product', 'int']]);
+    expect(columns(entities[0])).toEqual(['Name:string']);
+    expect(entities[1].relationships).toEqual([
+      { type: 'manyToOne', target: 'Category', navigationName: 'Category', foreignKey: 'CategoryId', isRequired: true, onDelete: 'Cascade' }
+    ]);
+    expect(warnings).toEqual(["Coluna 'Products.Shape' ignorada: tipo 'geometry' não suportado"]);
+  });
+
+  it('lê aspas duplas, PK por ALTER TABLE, FK inline e tabelas de junção (PostgreSQL)', () => {
+    const { entities, warnings, provider } = importEntities(postgresScript);
+
+    expect(provider).toBe('postgres');
+    expect(warnings).toEqual([]);
+    expect(entities.map(e => e.name)).toEqual(['Author', 'Book', 'Tag']);
+    expect(entities[0].idType).toBe('long');
+
+    const book = entities[1];
+    expect(columns(book)).toEqual(['Note:string?']);
+    expect(book.relationships).toEqual([
+      { type: 'manyToOne', target: 'Author', navigationName: 'Author', foreignKey: 'AuthorId', isRequired: false, onDelete: 'SetNull' },
+      { type: 'manyToMany', target: 'Tag', joinEntity: 'BookTag' }
+    ]);
+  });
+
+  it('troca PK composta que não é de junção pela chave Id', () => {
+    const { entities, warnings } = importEntities(
+      'CREATE TABLE order_lines (order_no int NOT NULL, line_no int NOT NULL, qty int NOT NULL, PRIMARY KEY (order_no, line_no));'
+    );
+
+    expect(columns(entities[0])).toEqual(['OrderNo:int', 'LineNo:int', 'Qty:int']);
+    expect(warnings).toEqual(["Tabela 'order_lines': PK composta (order_no, line_no) substituída pela chave Id (Guid)"]);
+  });
+
+  it('avisa sobre trechos que não foram lidos', () => {
+    const { entities, warnings } = importEntities([
+      'CREATE TABLE tags (id uuid PRIMARY KEY, label text NOT NULL);',
+      'ALTER TABLE tags ADD CONSTRAINT tags_label UNIQUE (label);',
+      'ALTER TABLE missing ADD PRIMARY KEY (id);',
+      'CREATE TABLE drafts (id int PRIMARY KEY, title text'
+    ].join('\n'));
+
+    expect(entities.map(e => e.name)).toEqual(['Tag', 'Draft']);
+    expect(warnings).toEqual([
+      "ALTER TABLE 'tags' ignorado: só FOREIGN KEY e PRIMARY KEY são importados (CONSTRAINT tags_label UNIQUE (label))",
+      "ALTER TABLE ignorado: tabela 'missing' não foi criada antes no script",
+      "CREATE TABLE 'drafts' sem o parêntese de fechamento: definições após o trecho lido foram ignoradas"
+    ]);
+  });
+
+  it('avisa sobre texto ou comentário sem fechamento', () => {
+    expect(service.importScript("CREATE TABLE tags (id uuid PRIMARY KEY);\nINSERT INTO tags VALUES ('x);").warnings).toEqual([
+      "Trecho ignorado: texto ou identificador sem o fechamento ' (INSERT INTO tags VALUES ('x);)"
+    ]);
+    expect(service.importScript('CREATE TABLE tags (id uuid PRIMARY KEY);\n/* CREATE TABLE old (id int);').warnings).toEqual([
+      'Comentário /* sem fechamento: o restante do script foi ignorado'
+    ]);
+  });
+
+  it('falha quando não há CREATE TABLE fora de comentários', () => {
+    expect(service.importScript('-- CREATE TABLE tags (id int);')).toMatchObject({ success: false, error: 'No tables found' });
+  });
+});
@@ -0,0 +1,712 @@
+import { DeleteBehavior, EntityDefinition, EntityIdType, EntityProperty, EntityRelationship } from '../types/entity';
+import { ProjectOptions, ScaffoldImportResult, ScaffoldRequest } from '../types/common';
+import { DatabaseProvider } from '../types/project';
+import { ENTITY_ID_TYPES } from './primaryKeyService';
+
+export type SqlDialect = 'sqlserver' | 'postgres';
+
+export interface SqlDdlImportOptions {
+  projectOptions?: Partial<ProjectOptions>; // Sobrescreve as opções derivadas do script
+  dialect?: SqlDialect;                     // Padrão: detectado pelo script
+  tables?: string[];                        // Importar apenas estas tabelas (padrão: todas)
+}
+
+interface SqlColumn {
+  name: string;
+  dataType: string;        // Tipo SQL em minúsculas, sem tamanho (ex: "nvarchar")
+  length?: number;         // Tamanho declarado (ausente para MAX)
+  isNullable: boolean;
+  isPrimaryKey: boolean;
+}
+
+interface SqlForeignKey {
+  columns: string[];
+  table: string;
+  onDelete?: DeleteBehavior;
+}
+
+interface SqlTable {
+  name: string;
+  columns: SqlColumn[];
+  primaryKey: string[];
+  foreignKeys: SqlForeignKey[];
+}
+
+// Tipos SQL Server e PostgreSQL -> tipo C#
+const SQL_TYPE_MAP: Record<string, string> = {
+  uniqueidentifier: 'Guid',
+  uuid: 'Guid',
+  nvarchar: 'string',
+  varchar: 'string',
+  nchar: 'string',
+  char: 'string',
+  character: 'string',
+  'character varying': 'string',
+  bpchar: 'string',
+  text: 'string',
+  ntext: 'string',
+  citext: 'string',
+  json: 'string',
+  jsonb: 'string',
+  xml: 'string',
+  int: 'int',
+  integer: 'int',
+  int4: 'int',
+  serial: 'int',
+  serial4: 'int',
+  bigint: 'long',
+  int8: 'long',
+  bigserial: 'long',
+  serial8: 'long',
+  smallint: 'short',
+  int2: 'short',
+  smallserial: 'short',
+  tinyint: 'byte',
+  bit: 'bool',
+  boolean: 'bool',
+  bool: 'bool',
+  decimal: 'decimal',
+  numeric: 'decimal',
+  money: 'decimal',
+  smallmoney: 'decimal',
+  float: 'double',
+  float8: 'double',
+  'double precision': 'double',
+  real: 'float',
+  float4: 'float',
+  date: 'DateTime',
+  datetime: 'DateTime',
+  datetime2: 'DateTime',
+  smalldatetime: 'DateTime',
+  timestamp: 'DateTime',
+  'timestamp without time zone': 'DateTime',
+  datetimeoffset: 'DateTimeOffset',
+  timestamptz: 'DateTimeOffset',
+  'timestamp with time zone': 'DateTimeOffset'
+};
+
+// Tipos compostos por mais de uma palavra (verificados antes dos simples)
+const MULTI_WORD_TYPES = ['timestamp without time zone', 'timestamp with time zone', 'character varying', 'double precision'];
+
+// Colunas já fornecidas pelo BaseEntity
+const BASE_ENTITY_COLUMNS = ['id', 'created', 'update'];
+
+// Palavras que iniciam uma constraint de tabela (e não uma coluna)
+const TABLE_CONSTRAINT_KEYWORDS = /^(constraint|primary\s+key|foreign\s+key|unique|check|index|key|exclude)\b/i;
+
+export class SqlDdlImportService {
+
+  /**
+   * Converte um script DDL (CREATE TABLE / ALTER TABLE ... FOREIGN KEY) em um ScaffoldRequest
+   */
+  importScript(script: string, options: SqlDdlImportOptions = {}): ScaffoldImportResult {
+    try {
+      const dialect = options.dialect || this.detectDialect(script);
+      const warnings: string[] = [];
+      const tables = this.parseTables(script, warnings);
+
+      if (tables.length === 0) {
+        return {
+          success: false,
+          message: 'Nenhum CREATE TABLE encontrado no script',
+          error: 'No tables found'
+        };
+      }
+
+      const missing = (options.tables || []).filter(name => !tables.some(t => t.name.toLowerCase() === name.toLowerCase()));
+      if (missing.length > 0) {
+        return {
+          success: false,
+          message: `Tabelas não encontradas no script: ${missing.join(', ')}`,
+          error: 'Table not found'
+        };
+      }
+
+      const selected = options.tables
+        ? tables.filter(t => options.tables!.some(name => name.toLowerCase() === t.name.toLowerCase()))
+        : tables;
+
+      const entityNames = new Map(selected.map(t => [t.name.toLowerCase(), this.toEntityName(t.name)]));
+      const entities: EntityDefinition[] = [];
+      const joins: { source: string; relationship: EntityRelationship }[] = [];
+
+      for (const table of selected) {
+        const entityName = entityNames.get(table.name.toLowerCase())!;
+
+        // Tabela de junção: PK composta formada apenas por duas FKs
+        const joinTargets = this.getJoinTargets(table, entityNames);
+        if (joinTargets) {
+          const [source, target] = joinTargets;
+          joins.push({ source, relationship: { type: 'manyToMany', target, joinEntity: entityName } });
+          continue;
+        }
+
+        entities.push(this.buildEntity(table, entityName, entityNames, selected, warnings));
+      }
+
+      // manyToMany declarado na primeira entidade da tabela de junção
+      for (const join of joins) {
+        const owner = entities.find(e => e.name === join.source);
+        if (owner) {
+          owner.relationships = [...(owner.relationships || []), join.relationship];
+        }
+      }
+
+      const provider: DatabaseProvider = dialect;
+      const scaffoldRequest: ScaffoldRequest = {
+        projectOptions: {
+          name: 'LegacyApi',
+          database: { provider },
+          ...options.projectOptions
+        },
+        entities
+      };
+
+      return {
+        success: true,
+        message: `${entities.length} entidade(s) importadas de ${selected.length} tabela(s) (${dialect})`,
+        scaffoldRequest,
+        warnings
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao importar script SQL:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao ler o script SQL',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Detecta o dialeto pelo uso de colchetes, GO, IDENTITY ou tipos exclusivos
+   */
+  private detectDialect(script: string): SqlDialect {
+    return /\[\w+\]|^\s*GO\s*$|\bIDENTITY\s*\(|\bNVARCHAR\b|\bUNIQUEIDENTIFIER\b|\bDATETIME2\b/im.test(script)
+      ? 'sqlserver'
+      : 'postgres';
+  }
+
+  /**
+   * Lê os CREATE TABLE e os ALTER TABLE ... FOREIGN KEY do script
+   */
+  private parseTables(script: string, warnings: string[]): SqlTable[] {
+    const tables: SqlTable[] = [];
+    const statements = this.splitStatements(script, warnings);
+
+    for (const statement of statements) {
+      const create = /^CREATE\s+(?:UNLOGGED\s+|TEMP(?:ORARY)?\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([^\s(]+(?:\s*\.\s*[^\s(]+)*)\s*\(/i.exec(statement);
+      if (create) {
+        const name = this.unquoteName(create[1]);
+        const body = this.extractParenthesized(statement, create[0].length - 1);
+        if (body === undefined) {
+          warnings.push(`CREATE TABLE '${name}' sem o parêntese de fechamento: definições após o trecho lido foram ignoradas`);
+        }
+        tables.push(this.parseCreateTable(name, body ?? statement.substring(create[0].length), warnings));
+        continue;
+      }
+
+      const alter = /^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?(\S+)\s+(?:WITH\s+(?:NO)?CHECK\s+)?ADD\s+(.*)$/is.exec(statement);
+      if (alter) {
+        const tableName = this.unquoteName(alter[1]);
+        const table = tables.find(t => t.name.toLowerCase() === tableName.toLowerCase());
+        const foreignKey = this.parseForeignKey(alter[2]);
+        const primaryKey = /PRIMARY\s+KEY\s*(?:CLUSTERED|NONCLUSTERED)?\s*\(([^)]*)\)/i.exec(alter[2]);
+
+        if (!table) {
+          warnings.push(`ALTER TABLE ignorado: tabela '${tableName}' não foi criada antes no script`);
+          continue;
+        }
+        if (!foreignKey && !primaryKey) {
+          warnings.push(`ALTER TABLE '${tableName}' ignorado: só FOREIGN KEY e PRIMARY KEY são importados (${this.summarize(alter[2])})`);
+          continue;
+        }
+
+        if (foreignKey) {
+          table.foreignKeys.push(foreignKey);
+        }
+        if (primaryKey) {
+          table.primaryKey = this.splitColumnList(primaryKey[1]);
+        }
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * Interpreta o corpo de um CREATE TABLE (colunas e constraints)
+   */
+  private parseCreateTable(name: string, body: string, warnings: string[]): SqlTable {
+    const table: SqlTable = { name, columns: [], primaryKey: [], foreignKeys: [] };
+
+    for (const item of this.splitTopLevel(body)) {
+      if (TABLE_CONSTRAINT_KEYWORDS.test(item)) {
+        const foreignKey = this.parseForeignKey(item);
+        if (foreignKey) {
+          table.foreignKeys.push(foreignKey);
+        }
+
+        const primaryKey = /PRIMARY\s+KEY\s*(?:CLUSTERED|NONCLUSTERED)?\s*\(([^)]*)\)/i.exec(item);
+        if (primaryKey) {
+          table.primaryKey = this.splitColumnList(primaryKey[1]);
+        }
+        continue;
+      }
+
+      const column = this.parseColumn(item);
+      if (!column) {
+        warnings.push(`Definição ignorada em '${name}': ${item.split('\n')[0]}`);
+        continue;
+      }
+
+      table.columns.push(column);
+      if (column.isPrimaryKey) {
+        table.primaryKey = [column.name];
+      }
+
+      // FK declarada inline: "customer_id uuid REFERENCES customers(id)"
+      const inlineReference = /\bREFERENCES\s+(\S+?)\s*(?:\(([^)]*)\))?(?:\s|$)(.*)$/is.exec(item);
+      if (inlineReference) {
+        table.foreignKeys.push({
+          columns: [column.name],
+          table: this.unquoteName(inlineReference[1]),
+          onDelete: this.parseOnDelete(inlineReference[3])
+        });
+      }
+    }
+
+    // PK implicitamente NOT NULL
+    for (const column of table.columns) {
+      if (table.primaryKey.some(pk => pk.toLowerCase() === column.name.toLowerCase())) {
+        column.isNullable = false;
+      }
+    }
+
+    return table;
+  }
+
+  /**
+   * Interpreta uma definição de coluna: nome, tipo, tamanho, nulidade e PK
+   */
+  private parseColumn(definition: string): SqlColumn | null {
+    const match = /^("[^"]+"|\[[^\]]+\]|`[^`]+`|\w+)\s+(.*)$/s.exec(definition.trim());
+    if (!match) {
+      return null;
+    }
+
+    const name = this.unquoteName(match[1]);
+    let rest = match[2].trim();
+    let dataType = '';
+
+    const multiWord = MULTI_WORD_TYPES.find(t => new RegExp(`^${t.replace(/ /g, '\\s+')}\\b`, 'i').test(rest));
+    if (multiWord) {
+      dataType = multiWord;
+      rest = rest.replace(new RegExp(`^${multiWord.replace(/ /g, '\\s+')}`, 'i'), '');
+    } else {
+      const typeMatch = /^(?:\w+\.)?\[?(\w+)\]?/.exec(rest);
+      if (!typeMatch) {
+        return null;
+      }
+      dataType = typeMatch[1].toLowerCase();
+      rest = rest.substring(typeMatch[0].length);
+    }
+
+    let length: number | undefined;
+    const sizeMatch = /^\s*\(\s*(\w+)\s*(?:,\s*\d+\s*)?\)/.exec(rest);
+    if (sizeMatch) {
+      if (/^\d+$/.test(sizeMatch[1])) {
+        length = Number(sizeMatch[1]);
+      }
+      rest = rest.substring(sizeMatch[0].length);
+    }
+
+    // "timestamp(3) with time zone"
+    if (dataType === 'timestamp' && /^\s*with\s+time\s+zone/i.test(rest)) {
+      dataType = 'timestamp with time zone';
+    }
+
+    const modifiers = rest.replace(/\bDEFAULT\s+(\([^)]*\)|'[^']*'|\S+)/gi, '');
+
+    return {
+      name,
+      dataType,
+      length,
+      isNullable: !/\bNOT\s+NULL\b/i.test(modifiers) && !/\bPRIMARY\s+KEY\b/i.test(modifiers),
+      isPrimaryKey: /\bPRIMARY\s+KEY\b/i.test(modifiers)
+    };
+  }
+
+  /**
+   * Interpreta "FOREIGN KEY (col) REFERENCES tabela (col) [ON DELETE ...]"
+   */
+  private parseForeignKey(definition: string): SqlForeignKey | null {
+    const match = /FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+(\S+?)\s*(?:\(([^)]*)\))?(?:\s|$)(.*)$/is.exec(definition);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      columns: this.splitColumnList(match[1]),
+      table: this.unquoteName(match[2]),
+      onDelete: this.parseOnDelete(match[4])
+    };
+  }
+
+  private parseOnDelete(clause: string = ''): DeleteBehavior | undefined {
+    const match = /ON\s+DELETE\s+(CASCADE|SET\s+NULL|NO\s+ACTION|RESTRICT)/i.exec(clause);
+    if (!match) {
+      return undefined;
+    }
+
+    const action = match[1].toUpperCase().replace(/\s+/g, ' ');
+    const behaviors: Record<string, DeleteBehavior> = {
+      'CASCADE': 'Cascade',
+      'SET NULL': 'SetNull',
+      'NO ACTION': 'NoAction',
+      'RESTRICT': 'Restrict'
+    };
+    return behaviors[action];
+  }
+
+  /**
+   * Tipo da chave da tabela quando a PK é simples e de um tipo suportado (Guid, int, long, string)
+   */
+  private getKeyType(table: SqlTable): EntityIdType | undefined {
+    if (table.primaryKey.length !== 1) {
+      return undefined;
+    }
+
+    const column = table.columns.find(c => c.name.toLowerCase() === table.primaryKey[0].toLowerCase());
+    const type = column ? SQL_TYPE_MAP[column.dataType] as EntityIdType : undefined;
+    return type && ENTITY_ID_TYPES.includes(type) ? type : undefined;
+  }
+
+  /**
+   * Monta a entidade: PK simples vira a chave (idType/idName) e FKs viram relacionamentos manyToOne
+   */
+  private buildEntity(table: SqlTable, entityName: string, entityNames: Map<string, string>, tables: SqlTable[], warnings: string[]): EntityDefinition {
+    const entity: EntityDefinition = { name: entityName, properties: [] };
+    const foreignKeyColumns = new Set<string>();
+
+    if (table.primaryKey.length > 1) {
+      warnings.push(`Tabela '${table.name}': PK composta (${table.primaryKey.join(', ')}) substituída pela chave Id (Guid)`);
+    }
+
+    for (const foreignKey of table.foreignKeys) {
+      const target = entityNames.get(foreignKey.table.toLowerCase());
+
+      if (!target || foreignKey.columns.length !== 1) {
+        warnings.push(`FK de '${table.name}' para '${foreignKey.table}' mantida como coluna simples: ${!target ? 'tabela não importada' : 'FK composta'}`);
+        continue;
+      }
+
+      const column = table.columns.find(c => c.name.toLowerCase() === foreignKey.columns[0].toLowerCase());
+      if (!column) continue;
+
+      const foreignKeyName = this.toPascalCase(column.name);
+      const navigationName = foreignKeyName.replace(/(ID|Id)$/, '') || target;
+
+      // A FK segue o tipo da chave da tabela referenciada
+      const principalTable = tables.find(t => t.name.toLowerCase() === foreignKey.table.toLowerCase());
+      const principalKeyType = (principalTable && this.getKeyType(principalTable)) || 'Guid';
+      if (SQL_TYPE_MAP[column.dataType] !== principalKeyType) {
+        warnings.push(`FK '${table.name}.${column.name}' (${column.dataType}) convertida para ${principalKeyType}`);
+      }
+
+      entity.relationships = [...(entity.relationships || []), {
+        type: 'manyToOne',
+        target,
+        navigationName: navigationName === foreignKeyName ? target : navigationName,
+        foreignKey: navigationName === foreignKeyName ? `${target}Id` : foreignKeyName,
+        isRequired: !column.isNullable,
+        ...(foreignKey.onDelete ? { onDelete: foreignKey.onDelete } : {})
+      }];
+      foreignKeyColumns.add(column.name.toLowerCase());
+    }
+
+    for (const column of table.columns) {
+      const isSinglePrimaryKey = table.primaryKey.length === 1 && table.primaryKey[0].toLowerCase() === column.name.toLowerCase();
+      if (isSinglePrimaryKey) {
+        const keyType = this.getKeyType(table);
+        if (!keyType) {
+          warnings.push(`PK '${table.name}.${column.name}' (${column.dataType}) substituída pela chave Id (Guid)`);
+          continue;
+        }
+
+        // Guid e Id são o padrão: só declarados quando a tabela usa outro tipo ou nome
+        const keyName = this.toPascalCase(column.name);
+        if (keyType !== 'Guid') entity.idType = keyType;
+        if (keyName !== 'Id') entity.idName = keyName;
+        continue;
+      }
+
+      if (foreignKeyColumns.has(column.name.toLowerCase())) continue;
+
+      const propertyName = this.toPascalCase(column.name);
+      if (BASE_ENTITY_COLUMNS.includes(propertyName.toLowerCase())) {
+        warnings.push(`Coluna '${table.name}.${column.name}' ignorada: já existe no BaseEntity`);
+        continue;
+      }
+
+      const type = SQL_TYPE_MAP[column.dataType];
+      if (!type) {
+        warnings.push(`Coluna '${table.name}.${column.name}' ignorada: tipo '${column.dataType}' não suportado`);
+        continue;
+      }
+
+      const property: EntityProperty = {
+        name: propertyName,
+        type: column.isNullable ? `${type}?` : type,
+        isRequired: !column.isNullable,
+        isNavigationProperty: false
+      };
+
+      if (type === 'string' && column.length !== undefined) {
+        property.validation = { maxLength: column.length };
+      }
+
+      entity.properties.push(property);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Retorna as entidades ligadas por uma tabela de junção (PK composta = duas FKs, sem outras colunas)
+   */
+  private getJoinTargets(table: SqlTable, entityNames: Map<string, string>): [string, string] | null {
+    if (table.foreignKeys.length !== 2 || table.primaryKey.length !== 2) {
+      return null;
+    }
+
+    const foreignKeyColumns = table.foreignKeys.flatMap(fk => fk.columns.map(c => c.toLowerCase()));
+    const isKeyOnly = table.columns.every(c => foreignKeyColumns.includes(c.name.toLowerCase()));
+    const isPrimaryKeyOfForeignKeys = table.primaryKey.every(pk => foreignKeyColumns.includes(pk.toLowerCase()));
+    const targets = table.foreignKeys.map(fk => entityNames.get(fk.table.toLowerCase()));
+
+    if (!isKeyOnly || !isPrimaryKeyOfForeignKeys || targets.some(t => !t) || targets[0] === targets[1]) {
+      return null;
+    }
+
+    return [targets[0]!, targets[1]!];
+  }
+
+  /**
+   * Divide o script em instruções por ";" e por linhas "GO", removendo os comentários (-- e /* *\/)
+   * Textos ('...', $$...$$) e identificadores delimitados ("...", [...], `...`) são copiados como estão,
+   * então ";" e "--" dentro deles não quebram a instrução
+   */
+  private splitStatements(script: string, warnings: string[]): string[] {
+    const statements: string[] = [];
+    const goLine = /[ \t]*GO[ \t]*(?=\r?\n|$)/iy;
+    const dollarQuote = /\$(?:[A-Za-z_]\w*)?\$/y;
+    let current = '';
+    let closing: string | null = null; // Delimitador que fecha o texto ou identificador atual
+
+    const flush = () => {
+      if (current.trim()) {
+        statements.push(current.trim());
+      }
+      current = '';
+    };
+
+    for (let i = 0; i < script.length; i++) {
+      const char = script[i];
+
+      if (closing) {
+        if (script.startsWith(closing, i)) {
+          current += closing;
+          i += closing.length - 1;
+          closing = null;
+        } else {
+          current += char;
+        }
+        continue;
+      }
+
+      if (i === 0 || script[i - 1] === '\n') {
+        goLine.lastIndex = i;
+        const go = goLine.exec(script);
+        if (go) {
+          flush();
+          i += go[0].length - 1;
+          continue;
+        }
+      }
+
+      if (script.startsWith('--', i)) {
+        const end = script.indexOf('\n', i);
+        i = (end === -1 ? script.length : end) - 1;
+        continue;
+      }
+
+      if (script.startsWith('/*', i)) {
+        const end = script.indexOf('*/', i + 2);
+        if (end === -1) {
+          warnings.push('Comentário /* sem fechamento: o restante do script foi ignorado');
+          break;
+        }
+        current += ' ';
+        i = end + 1;
+        continue;
+      }
+
+      if (char === ';') {
+        flush();
+        continue;
+      }
+
+      dollarQuote.lastIndex = i;
+      const dollar = char === '$' ? dollarQuote.exec(script) : null;
+      if (dollar) {
+        closing = dollar[0];
+        current += dollar[0];
+        i += dollar[0].length - 1;
+        continue;
+      }
+
+      const delimiters: Record<string, string> = { '\'': '\'', '"': '"', '[': ']', '`': '`' };
+      if (delimiters[char]) {
+        closing = delimiters[char];
+      }
+      current += char;
+    }
+
+    if (closing) {
+      warnings.push(`Trecho ignorado: texto ou identificador sem o fechamento ${closing} (${this.summarize(current)})`);
+      current = '';
+    }
+    flush();
+
+    return statements;
+  }
+
+  /**
+   * Retorna o conteúdo entre o parêntese em "start" e o seu fechamento (parênteses dentro de textos
+   * entre aspas não contam); undefined se o parêntese não for fechado
+   */
+  private extractParenthesized(text: string, start: number): string | undefined {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '\'' || char === '"') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) {
+          return text.substring(start + 1, i);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Primeira linha de um trecho do script, para as mensagens
+   */
+  private summarize(text: string): string {
+    const firstLine = text.trim().split('\n')[0].trim();
+    return firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine;
+  }
+
+  /**
+   * Divide por vírgulas fora de parênteses e aspas
+   */
+  private splitTopLevel(body: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of body) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '\'' || char === '"') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        items.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      items.push(current.trim());
+    }
+
+    return items;
+  }
+
+  private splitColumnList(list: string): string[] {
+    return list
+      .split(',')
+      .map(c => this.unquoteName(c.trim().replace(/\s+(ASC|DESC)$/i, '')))
+      .filter(Boolean);
+  }
+
+  /**
+   * Remove schema e delimitadores: [dbo].[Customers], public."customers" -> Customers, customers
+   */
+  private unquoteName(name: string): string {
+    const parts = name.split('.').map(p => p.trim().replace(/^[\["`]|[\]"`]$/g, ''));
+    return parts[parts.length - 1];
+  }
+
+  /**
+   * Nome da entidade no singular e em PascalCase (order_items -> OrderItem)
+   */
+  private toEntityName(tableName: string): string {
+    const words = tableName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    if (words.length === 0) {
+      return tableName;
+    }
+    words[words.length - 1] = this.singularize(words[words.length - 1]);
+    return this.toPascalCase(words.join('_'));
+  }
+
+  /**
+   * Singulariza um nome em inglês de forma simples (Categories -> Category)
+   */
+  private singularize(name: string): string {
+    if (/[^aeiou]ies$/i.test(name)) {
+      return `${name.slice(0, -3)}y`;
+    }
+    if (/(s|x|z|ch|sh)es$/i.test(name)) {
+      return name.slice(0, -2);
+    }
+    if (/[^s]s$/i.test(name)) {
+      return name.slice(0, -1);
+    }
+    return name;
+  }
+
+  /**
+   * Converte "order_item", "ORDER_ITEM" ou "orderItem" em "OrderItem"
+   */
+  private toPascalCase(value: string): string {
+    const hasSeparators = /[^A-Za-z0-9]/.test(value);
+    const isUpperCase = value === value.toUpperCase();
+
+    return value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(part => {
+        const normalized = hasSeparators || isUpperCase ? part.toLowerCase() : part;
+        return normalized.charAt(0).toUpperCase() + normalized.slice(1);
+      })
+      .join('');
+  }
+}
@@ -0,0 +1,49 @@
+import { TemplateIntrospectionService } from './templateIntrospectionService';
+
+const CONTROLLER = 'api/controllers/entityController.hbs';
+
+describe('TemplateIntrospectionService', () => {
+  const service = new TemplateIntrospectionService();
+
+  it('valida todos os templates embutidos contra os schemas de dados', () => {
+    const report = service.validateTemplates();
+
+    expect(report.templates.filter(template => !template.valid)).toEqual([]);
+    expect(report.summary.invalid).toBe(0);
+  });
+
+  it('lista variáveis, helpers e variáveis não usadas de um template', () => {
+    const inspection = service.inspect(CONTROLLER, '{{#each command}}{{#if isUpdateCommand}}{{name}}{{/if}}{{/each}} {{../name}}', 'draft');
+
+    expect(inspection.errors).toEqual(["linha 1: '../name' sobe além da raiz dos dados"]);
+    expect(inspection.variables).toEqual(['command', 'command.isUpdateCommand', 'command.name']);
+    expect(inspection.helpers).toEqual(['each', 'if']);
+    expect(inspection.unusedVariables).toEqual(expect.arrayContaining(['name', 'title', 'hasCollections']));
+    expect(inspection.unusedVariables).not.toContain('command.name');
+  });
+
+  it('aponta variáveis que o service não fornece e helpers não registrados', () => {
+    const report = service.validateDrafts({
+      [CONTROLLER]: 'public class {{name}}Controller\n{{#each command}}{{commandTitle}}{{/each}}\n{{upper name}}'
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.templates[0].errors).toEqual([
+      "linha 2: variável 'command.commandTitle' não é fornecida pelo service",
+      "linha 3: helper 'upper' não registrado"
+    ]);
+  });
+
+  it('rejeita rascunhos com sintaxe inválida, conteúdo não textual ou template inexistente', () => {
+    const report = service.validateDrafts({
+      [CONTROLLER]: '{{#each command}}',
+      'api/controllers/missing.hbs': '',
+      'api/Program.cs.hbs': 42
+    });
+
+    expect(report.summary).toEqual({ templates: 3, valid: 0, invalid: 3 });
+    expect(report.templates[0].errors[0]).toMatch(/^Erro de sintaxe/);
+    expect(report.templates[1].errors).toEqual(["Template 'api/controllers/missing.hbs' não existe"]);
+    expect(report.templates[2].errors).toEqual(['O conteúdo deve ser uma string com o código Handlebars']);
+  });
+});
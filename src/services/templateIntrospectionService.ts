@@ -0,0 +1,283 @@
+import * as Handlebars from 'handlebars';
+import { TemplateManager } from '../utils/TemplateManager';
+import { TEMPLATE_DATA_SCHEMAS } from './templateSchemas';
+import {
+  ResolvedTemplatePack,
+  TemplateDataField,
+  TemplateDataSchema,
+  TemplateInspection,
+  TemplateValidationReport
+} from '../types/template';
+
+// Helpers de bloco que recebem o contexto como parâmetro (o conteúdo do bloco muda de contexto)
+const CONTEXT_HELPERS = ['each', 'with'];
+
+// Contexto durante a análise: schema dos dados (null = não verificado) e caminho a partir da raiz
+interface TemplateContext {
+  schema: TemplateDataSchema | null;
+  path: string[];
+}
+
+interface InspectionState {
+  errors: string[];
+  variables: Set<string>;
+  helpers: Set<string>;
+}
+
+/**
+ * Análise dos templates Handlebars: compila cada template, extrai as variáveis e helpers
+ * que ele referencia e confere as variáveis com os dados que os services preparam (templateSchemas)
+ */
+export class TemplateIntrospectionService {
+
+  /**
+   * Valida os templates efetivos de uma geração: embutidos, substituídos pela cadeia de packs
+   */
+  validateTemplates(packs: ResolvedTemplatePack[] = []): TemplateValidationReport {
+    return this.buildReport(TemplateManager.listTemplates().map(templatePath => {
+      try {
+        const { source, origin } = TemplateManager.getTemplateSource(templatePath, packs);
+        return this.inspect(templatePath, source, origin);
+      } catch (error: any) {
+        return this.failedInspection(templatePath, 'builtin', `Erro ao ler o template: ${error.message}`);
+      }
+    }));
+  }
+
+  /**
+   * Valida templates informados na requisição (caminho do template embutido -> código Handlebars),
+   * antes de usá-los em templateOverrides ou em um pack
+   */
+  validateDrafts(drafts: Record<string, unknown>): TemplateValidationReport {
+    const builtinTemplates = TemplateManager.listTemplates();
+
+    return this.buildReport(Object.entries(drafts).map(([templatePath, source]) => {
+      if (!builtinTemplates.includes(templatePath)) {
+        return this.failedInspection(templatePath, 'draft', `Template '${templatePath}' não existe`);
+      }
+      if (typeof source !== 'string') {
+        return this.failedInspection(templatePath, 'draft', 'O conteúdo deve ser uma string com o código Handlebars');
+      }
+      return this.inspect(templatePath, source, 'draft');
+    }));
+  }
+
+  /**
+   * Compila um template e confere variáveis e helpers com o schema dos dados do template
+   */
+  inspect(templatePath: string, source: string, origin: string): TemplateInspection {
+    let program: hbs.AST.Program;
+    try {
+      program = Handlebars.parse(source);
+      Handlebars.precompile(program);
+    } catch (error: any) {
+      return this.failedInspection(templatePath, origin, `Erro de sintaxe: ${error.message}`);
+    }
+
+    const schema = TEMPLATE_DATA_SCHEMAS[templatePath];
+    const state: InspectionState = { errors: [], variables: new Set(), helpers: new Set() };
+    this.visitProgram(program, [{ schema: schema || null, path: [] }], state);
+
+    if (!schema) {
+      state.errors.push(`Template sem schema de dados declarado em templateSchemas; variáveis não verificadas`);
+    }
+
+    const variables = Array.from(state.variables).sort();
+    return {
+      path: templatePath,
+      source: origin,
+      valid: state.errors.length === 0,
+      errors: state.errors,
+      variables,
+      helpers: Array.from(state.helpers).sort(),
+      unusedVariables: schema ? this.listFields(schema).filter(field =>
+        !variables.some(variable => variable === field || variable.startsWith(`${field}.`))) : []
+    };
+  }
+
+  private visitProgram(program: hbs.AST.Program | undefined, contexts: TemplateContext[], state: InspectionState): void {
+    for (const statement of program?.body || []) {
+      this.visitStatement(statement, contexts, state);
+    }
+  }
+
+  private visitStatement(statement: hbs.AST.Statement, contexts: TemplateContext[], state: InspectionState): void {
+    switch (statement.type) {
+      case 'MustacheStatement': {
+        const mustache = statement as hbs.AST.MustacheStatement;
+        if (this.isHelperCall(mustache)) {
+          this.visitHelper(mustache, contexts, state);
+        } else {
+          this.resolvePath(mustache.path as hbs.AST.PathExpression, contexts, state);
+        }
+        break;
+      }
+
+      case 'BlockStatement':
+        this.visitBlock(statement as hbs.AST.BlockStatement, contexts, state);
+        break;
+
+      case 'PartialStatement':
+      case 'PartialBlockStatement':
+        state.errors.push(`${this.location(statement)}partials não são suportados pelos templates do Zheus`);
+        break;
+
+      case 'DecoratorBlock':
+      case 'Decorator':
+        state.errors.push(`${this.location(statement)}decorators não são suportados pelos templates do Zheus`);
+        break;
+    }
+  }
+
+  /**
+   * Bloco com helper ({{#each lista}}, {{#if flag}}) ou seção de variável ({{#lista}}, {{#flag}})
+   */
+  private visitBlock(block: hbs.AST.BlockStatement, contexts: TemplateContext[], state: InspectionState): void {
+    const name = block.path.type === 'PathExpression' ? (block.path as hbs.AST.PathExpression).original : '';
+
+    if (this.isHelperCall(block)) {
+      this.visitHelper(block, contexts, state);
+
+      // each/with trocam o contexto para o parâmetro; os demais helpers mantêm o contexto atual
+      const parameter = block.params[0];
+      const inner = CONTEXT_HELPERS.includes(name) && parameter?.type === 'PathExpression'
+        ? this.childContext(this.resolvePath(parameter as hbs.AST.PathExpression, contexts, state), contexts)
+        : contexts;
+      this.visitProgram(block.program, inner, state);
+      this.visitProgram(block.inverse, contexts, state);
+      return;
+    }
+
+    // Seção: listas e objetos viram o contexto do bloco; valores simples funcionam como condição
+    const resolved = this.resolvePath(block.path as hbs.AST.PathExpression, contexts, state);
+    this.visitProgram(block.program, this.childContext(resolved, contexts, true), state);
+    this.visitProgram(block.inverse, contexts, state);
+  }
+
+  /**
+   * Chamada de helper: registra o helper e resolve os parâmetros e hash como variáveis
+   */
+  private visitHelper(node: hbs.AST.MustacheStatement | hbs.AST.BlockStatement | hbs.AST.SubExpression, contexts: TemplateContext[], state: InspectionState): void {
+    const name = (node.path as hbs.AST.PathExpression).original;
+    state.helpers.add(name);
+    if (!Handlebars.helpers[name]) {
+      state.errors.push(`${this.location(node)}helper '${name}' não registrado`);
+    }
+
+    const skipContextParameter = node.type === 'BlockStatement' && CONTEXT_HELPERS.includes(name);
+    const expressions = [...node.params, ...(node.hash?.pairs.map(pair => pair.value) || [])];
+    expressions.forEach((expression, index) => {
+      if (skipContextParameter && index === 0) return;
+      this.visitExpression(expression, contexts, state);
+    });
+  }
+
+  private visitExpression(expression: hbs.AST.Expression, contexts: TemplateContext[], state: InspectionState): void {
+    if (expression.type === 'PathExpression') {
+      this.resolvePath(expression as hbs.AST.PathExpression, contexts, state);
+    } else if (expression.type === 'SubExpression') {
+      this.visitHelper(expression as hbs.AST.SubExpression, contexts, state);
+    }
+  }
+
+  /**
+   * Resolve uma variável no contexto atual (ou em um pai, com "../") e confere com o schema
+   * @returns Caminho completo a partir da raiz e o tipo do campo (undefined se não verificado)
+   */
+  private resolvePath(
+    expression: hbs.AST.PathExpression,
+    contexts: TemplateContext[],
+    state: InspectionState
+  ): { path: string[]; field?: TemplateDataField } {
+    // @index, @first, @root...: fornecidas pelo Handlebars
+    if (expression.data) {
+      return { path: [] };
+    }
+
+    const context = contexts[contexts.length - 1 - expression.depth];
+    if (!context) {
+      state.errors.push(`${this.location(expression)}'${expression.original}' sobe além da raiz dos dados`);
+      return { path: [] };
+    }
+
+    const fullPath = [...context.path, ...expression.parts];
+    if (expression.parts.length === 0) {
+      return { path: fullPath, field: context.schema || undefined };
+    }
+    state.variables.add(fullPath.join('.'));
+
+    let field: TemplateDataField | undefined = context.schema || undefined;
+    for (const part of expression.parts) {
+      if (field === undefined) break;
+
+      const isList = field === 'list' || Array.isArray(field);
+      if (isList && part === 'length') {
+        field = 'value';
+        continue;
+      }
+
+      const fields: TemplateDataSchema | undefined = typeof field === 'object' && !Array.isArray(field) ? field : undefined;
+      if (!fields || !Object.prototype.hasOwnProperty.call(fields, part)) {
+        state.errors.push(`${this.location(expression)}variável '${fullPath.join('.')}' não é fornecida pelo service`);
+        return { path: fullPath };
+      }
+      field = fields[part];
+    }
+
+    return { path: fullPath, field };
+  }
+
+  /**
+   * Contexto dentro de um bloco: itens da lista ou campos do objeto
+   * Em seções ({{#campo}}), valores simples mantêm o contexto atual
+   */
+  private childContext(resolved: { path: string[]; field?: TemplateDataField }, contexts: TemplateContext[], isSection = false): TemplateContext[] {
+    const { path, field } = resolved;
+    if (field === 'value' && isSection) {
+      return contexts;
+    }
+
+    const schema = field === undefined
+      ? null
+      : field === 'value' || field === 'list' ? {} : Array.isArray(field) ? field[0] : field;
+    return [...contexts, { schema, path }];
+  }
+
+  private isHelperCall(node: hbs.AST.MustacheStatement | hbs.AST.BlockStatement): boolean {
+    if (node.path.type !== 'PathExpression') {
+      return true;
+    }
+    const name = (node.path as hbs.AST.PathExpression).original;
+    return node.params.length > 0 || (node.hash?.pairs.length || 0) > 0 || Object.prototype.hasOwnProperty.call(Handlebars.helpers, name);
+  }
+
+  /**
+   * Campos de um schema como caminhos ("command", "command.commandName")
+   */
+  private listFields(schema: TemplateDataSchema, prefix = ''): string[] {
+    return Object.entries(schema).flatMap(([name, field]) => {
+      const fieldPath = `${prefix}${name}`;
+      const nested = Array.isArray(field) ? field[0] : typeof field === 'object' ? field : undefined;
+      return nested && Object.keys(nested).length > 0
+        ? this.listFields(nested, `${fieldPath}.`)
+        : [fieldPath];
+    });
+  }
+
+  private location(node: hbs.AST.Node): string {
+    return node.loc ? `linha ${node.loc.start.line}: ` : '';
+  }
+
+  private failedInspection(templatePath: string, origin: string, error: string): TemplateInspection {
+    return { path: templatePath, source: origin, valid: false, errors: [error], variables: [], helpers: [], unusedVariables: [] };
+  }
+
+  private buildReport(templates: TemplateInspection[]): TemplateValidationReport {
+    const invalid = templates.filter(template => !template.valid).length;
+    return {
+      valid: invalid === 0,
+      summary: { templates: templates.length, valid: templates.length - invalid, invalid },
+      templates
+    };
+  }
+}
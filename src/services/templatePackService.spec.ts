@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplatePackService } from './templatePackService';
+
+const registration = (content = '// {{name}}') => ({
+  name: 'acme-minimal-api',
+  version: '1.0',
+  templates: [{ path: 'api/controllers/entityController.hbs', variables: ['name'], content }]
+});
+
+describe('TemplatePackService.registerPack', () => {
+  const environment = { ...process.env };
+  let packsPath: string;
+
+  beforeEach(() => {
+    packsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-packs-'));
+    process.env.TEMPLATE_PACKS_PATH = packsPath;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...environment };
+    fs.rmSync(packsPath, { recursive: true, force: true });
+  });
+
+  it('recusa com 403 enquanto o registro não é habilitado', () => {
+    const result = new TemplatePackService().registerPack(registration());
+
+    expect(result).toMatchObject({ success: false, statusCode: 403 });
+    expect(fs.readdirSync(packsPath)).toEqual([]);
+  });
+
+  it('grava o pack com o registro habilitado', () => {
+    process.env.TEMPLATE_PACKS_REGISTRATION = 'true';
+    const service = new TemplatePackService();
+
+    const result = service.registerPack(registration());
+
+    expect(result.success).toBe(true);
+    expect(service.getPack('acme-minimal-api')!.manifest.templates).toEqual([{ path: 'api/controllers/entityController.hbs', variables: ['name'] }]);
+  });
+
+  it('rejeita com 413 um pack com mais código que o limite, sem gravar', () => {
+    process.env.TEMPLATE_PACKS_REGISTRATION = 'true';
+    process.env.TEMPLATE_PACK_MAX_KB = '1';
+
+    const result = new TemplatePackService().registerPack(registration('x'.repeat(2048)));
+
+    expect(result).toMatchObject({ success: false, statusCode: 413 });
+    expect(fs.readdirSync(packsPath)).toEqual([]);
+  });
+
+  it('rejeita com 413 um pack com mais templates que o limite', () => {
+    process.env.TEMPLATE_PACKS_REGISTRATION = 'true';
+    process.env.TEMPLATE_PACK_MAX_TEMPLATES = '1';
+    const pack = registration();
+    pack.templates.push({ path: 'domain/handlers/handler.hbs', variables: [], content: '' });
+
+    expect(new TemplatePackService().registerPack(pack)).toMatchObject({ success: false, statusCode: 413 });
+  });
+});
@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateManager } from '../utils/TemplateManager';
+import {
+  ResolvedTemplatePack,
+  TemplatePackManifest,
+  TemplatePackRegistration,
+  TemplatePackResult
+} from '../types/template';
+
+export const TEMPLATE_PACK_MANIFEST = 'pack.json';
+
+const PACK_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+const PACK_VERSION_PATTERN = /^\d+(\.\d+){0,2}(-[0-9a-z.-]+)?$/i;
+
+// Limite de packs encadeados por "extends" (evita ciclos e cadeias acidentais muito longas)
+const MAX_PACK_CHAIN = 10;
+
+/**
+ * Registro de template packs em disco: cada pack (name@version) substitui parte dos templates embutidos
+ * Estrutura: {TEMPLATE_PACKS_PATH}/{name}/{version}/pack.json + templates/{caminho do template}
+ * O registro grava no disco do servidor: só é aceito com TEMPLATE_PACKS_REGISTRATION=true e é limitado a
+ * TEMPLATE_PACK_MAX_TEMPLATES templates (padrão: 100) e TEMPLATE_PACK_MAX_KB de código (padrão: 512)
+ */
+export class TemplatePackService {
+  private registrationEnabled = process.env.TEMPLATE_PACKS_REGISTRATION === 'true';
+  private maxTemplates = Number(process.env.TEMPLATE_PACK_MAX_TEMPLATES) || 100;
+  private maxTemplateBytes = (Number(process.env.TEMPLATE_PACK_MAX_KB) || 512) * 1024;
+
+  /**
+   * Pasta dos packs (TEMPLATE_PACKS_PATH ou ./template-packs)
+   */
+  getPacksDirectory(): string {
+    return process.env.TEMPLATE_PACKS_PATH || path.join(process.cwd(), 'template-packs');
+  }
+
+  /**
+   * Lista todos os packs registrados (por nome e da versão mais recente para a mais antiga)
+   */
+  listPacks(): TemplatePackManifest[] {
+    const packsDirectory = this.getPacksDirectory();
+    if (!fs.existsSync(packsDirectory)) {
+      return [];
+    }
+
+    const packs: TemplatePackManifest[] = [];
+    for (const name of fs.readdirSync(packsDirectory)) {
+      const nameDirectory = path.join(packsDirectory, name);
+      if (!fs.statSync(nameDirectory).isDirectory()) continue;
+
+      for (const version of fs.readdirSync(nameDirectory)) {
+        const manifest = this.readManifest(path.join(nameDirectory, version));
+        if (manifest) packs.push(manifest);
+      }
+    }
+
+    return packs.sort((a, b) => a.name.localeCompare(b.name) || this.compareVersions(b.version, a.version));
+  }
+
+  /**
+   * Obtém um pack por "name@version" ou "name" (versão mais recente)
+   */
+  getPack(reference: string): { manifest: TemplatePackManifest; directory: string } | null {
+    const [name, version] = reference.split('@');
+    if (!PACK_NAME_PATTERN.test(name) || (version !== undefined && !PACK_VERSION_PATTERN.test(version))) {
+      return null;
+    }
+
+    const nameDirectory = path.join(this.getPacksDirectory(), name);
+    if (!fs.existsSync(nameDirectory)) {
+      return null;
+    }
+
+    const selectedVersion = version ?? fs.readdirSync(nameDirectory)
+      .filter(candidate => this.readManifest(path.join(nameDirectory, candidate)))
+      .sort((a, b) => this.compareVersions(b, a))[0];
+    if (!selectedVersion) {
+      return null;
+    }
+
+    const directory = path.join(nameDirectory, selectedVersion);
+    const manifest = this.readManifest(directory);
+    return manifest ? { manifest, directory } : null;
+  }
+
+  /**
+   * Cadeia de packs usada na resolução dos templates: o pack informado e, em seguida, os packs
+   * que ele estende. Sem pack, a cadeia é vazia (somente templates embutidos)
+   */
+  resolveChain(reference?: string): { chain: ResolvedTemplatePack[]; error?: string } {
+    const chain: ResolvedTemplatePack[] = [];
+    if (reference === undefined || reference === null || reference === '') {
+      return { chain };
+    }
+    if (typeof reference !== 'string') {
+      return { chain, error: 'templatePack deve ser uma string no formato "nome@versão"' };
+    }
+
+    for (let current: string | undefined = reference; current; ) {
+      const pack = this.getPack(current);
+      if (!pack) {
+        return { chain: [], error: `Template pack '${current}' não encontrado` };
+      }
+
+      const id = `${pack.manifest.name}@${pack.manifest.version}`;
+      if (chain.some(resolved => resolved.id === id) || chain.length >= MAX_PACK_CHAIN) {
+        return { chain: [], error: `Template pack '${reference}' possui "extends" circular ou com mais de ${MAX_PACK_CHAIN} níveis` };
+      }
+
+      chain.push({
+        id,
+        directory: path.join(pack.directory, 'templates'),
+        templates: pack.manifest.templates.map(template => template.path)
+      });
+      current = pack.manifest.extends;
+    }
+
+    return { chain };
+  }
+
+  /**
+   * Registra um novo pack: valida o manifesto e os templates e grava tudo na pasta de packs
+   */
+  registerPack(registration: TemplatePackRegistration): TemplatePackResult {
+    if (!this.registrationEnabled) {
+      return { success: false, message: 'Registro de template packs desabilitado neste servidor (TEMPLATE_PACKS_REGISTRATION=true)', statusCode: 403 };
+    }
+
+    const limitError = this.checkLimits(registration);
+    if (limitError) {
+      return { success: false, message: 'Template pack excede o limite de registro', error: limitError, statusCode: 413 };
+    }
+
+    const validationError = this.validateRegistration(registration);
+    if (validationError) {
+      return { success: false, message: validationError };
+    }
+
+    const { name, version, description, templates } = registration;
+    const id = `${name}@${version}`;
+    const directory = path.join(this.getPacksDirectory(), name, version);
+    if (fs.existsSync(directory)) {
+      return { success: false, conflict: true, message: `Template pack '${id}' já está registrado; publique uma nova versão` };
+    }
+
+    try {
+      const manifest: TemplatePackManifest = {
+        name,
+        version,
+        ...(description ? { description } : {}),
+        ...(registration.extends ? { extends: registration.extends } : {}),
+        templates: templates.map(template => ({ path: template.path, variables: template.variables || [] })),
+        createdAt: new Date().toISOString()
+      };
+
+      for (const template of templates) {
+        const templatePath = path.join(directory, 'templates', ...template.path.split('/'));
+        fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+        fs.writeFileSync(templatePath, template.content, 'utf-8');
+      }
+      fs.writeFileSync(path.join(directory, TEMPLATE_PACK_MANIFEST), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+      console.log(`🎨 Template pack registrado: ${id} (${templates.length} templates)`);
+      return { success: true, message: `Template pack '${id}' registrado com ${templates.length} templates`, pack: manifest };
+
+    } catch (error: any) {
+      console.error(`❌ Erro ao registrar o template pack ${id}:`, error.message);
+      fs.rmSync(directory, { recursive: true, force: true });
+      return { success: false, message: `Erro ao registrar o template pack '${id}'`, error: error.message };
+    }
+  }
+
+  /**
+   * Confere a quantidade de templates e o tamanho do código antes de validar e gravar o pack
+   */
+  private checkLimits(registration: TemplatePackRegistration): string | null {
+    const templates = Array.isArray(registration?.templates) ? registration.templates : [];
+    const templateBytes = templates.reduce((total, template) =>
+      total + (typeof template?.content === 'string' ? Buffer.byteLength(template.content, 'utf-8') : 0), 0);
+
+    if (templates.length > this.maxTemplates || templateBytes > this.maxTemplateBytes) {
+      return `máximo de ${this.maxTemplates} templates e ${Math.floor(this.maxTemplateBytes / 1024)} KB de código (recebido: ${templates.length} templates, ${Math.ceil(templateBytes / 1024)} KB)`;
+    }
+    return null;
+  }
+
+  /**
+   * Valida nome, versão, "extends" e templates do pack (caminhos existentes e sintaxe Handlebars)
+   */
+  private validateRegistration(registration: TemplatePackRegistration): string | null {
+    const { name, version, templates } = registration || {} as TemplatePackRegistration;
+
+    if (typeof name !== 'string' || !PACK_NAME_PATTERN.test(name)) {
+      return 'Nome do pack é obrigatório (letras, números, ".", "-" e "_")';
+    }
+    if (typeof version !== 'string' || !PACK_VERSION_PATTERN.test(version)) {
+      return 'Versão do pack é obrigatória (ex: "1.0", "2.1.3")';
+    }
+    const extendsError = registration.extends !== undefined ? this.resolveChain(registration.extends).error : undefined;
+    if (extendsError) {
+      return extendsError;
+    }
+    if (!Array.isArray(templates) || templates.length === 0) {
+      return 'Lista de templates é obrigatória';
+    }
+
+    const paths = new Set<string>();
+    for (const template of templates) {
+      if (!template || typeof template.path !== 'string') {
+        return 'Cada template precisa de "path" (ex: "api/controllers/entityController.hbs")';
+      }
+      if (paths.has(template.path)) {
+        return `Template '${template.path}' informado mais de uma vez`;
+      }
+      if (template.variables !== undefined && (!Array.isArray(template.variables) || template.variables.some(variable => typeof variable !== 'string'))) {
+        return `variables do template '${template.path}' deve ser uma lista de strings`;
+      }
+      paths.add(template.path);
+    }
+
+    return TemplateManager.validateOverrides(
+      Object.fromEntries(templates.map(template => [template.path, template.content])), 'templates');
+  }
+
+  private readManifest(directory: string): TemplatePackManifest | null {
+    const manifestPath = path.join(directory, TEMPLATE_PACK_MANIFEST);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      return manifest && Array.isArray(manifest.templates) ? manifest : null;
+    } catch (error: any) {
+      console.warn(`⚠️ ${TEMPLATE_PACK_MANIFEST} inválido em ${directory}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Compara versões numericamente por segmento ("2.10" > "2.9")
+   */
+  private compareVersions(a: string, b: string): number {
+    const segments = (version: string) => version.split('-')[0].split('.').map(Number);
+    const [left, right] = [segments(a), segments(b)];
+    for (let index = 0; index < Math.max(left.length, right.length); index++) {
+      const difference = (left[index] || 0) - (right[index] || 0);
+      if (difference !== 0) return difference;
+    }
+    return a.localeCompare(b);
+  }
+}
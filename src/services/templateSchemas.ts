@@ -0,0 +1,229 @@
+import { TemplateDataSchema } from '../types/template';
+
+// Campos de cada comando/query no handler da entidade
+const HANDLER_COMMAND: TemplateDataSchema = {
+  commandName: 'value',
+  isUpdateCommand: 'value',
+  isDeleteCommand: 'value',
+  isGetByIdQuery: 'value',
+  isListQuery: 'value',
+  isFirst: 'value'
+};
+
+// Chave primária da entidade (tipo, nome, parâmetro e validação) nos comandos e queries
+const KEY_FIELDS: TemplateDataSchema = {
+  idType: 'value',
+  idName: 'value',
+  idParameter: 'value',
+  idValidation: 'value'
+};
+
+// Trechos de código montados a partir das propriedades da entidade
+const COMMAND_STRUCTURE: TemplateDataSchema = {
+  structureConstructor: 'value',
+  structureEntityThis: 'value',
+  structureEntityPublic: 'value',
+  structureValidations: 'value'
+};
+
+/**
+ * Dados que cada service passa para cada template embutido (caminho do template -> schema)
+ * Usado pela validação de templates para apontar variáveis que nenhum service fornece
+ * Ao alterar os dados de um template em um service, atualize o schema correspondente
+ */
+export const TEMPLATE_DATA_SCHEMAS: Record<string, TemplateDataSchema> = {
+  // API
+  'api/Program.cs.hbs': { hasSecurity: 'value', hasMultiTenancy: 'value', hasIntegrationTests: 'value' },
+  'api/appsettings.hbs': { isDevelopment: 'value' },
+  'api/configurations/authConfig.hbs': {},
+  'api/configurations/dependencyInjectionConfig.hbs': { hasMultiTenancy: 'value' },
+  'api/configurations/environmentConfig.hbs': {},
+  'api/configurations/swaggerConfig.hbs': { hasSecurity: 'value', hasMultiTenancy: 'value', tenantHeader: 'value', securitySchemes: 'list' },
+  'api/controllers/authController.hbs': { hasMultiTenancy: 'value' },
+  'api/controllers/contract/baseController.hbs': {},
+  'api/controllers/entityController.hbs': {
+    name: 'value',
+    title: 'value',
+    hasCollections: 'value',
+    idType: 'value',
+    idParameter: 'value',
+    idRoute: 'value',
+    hasSecurity: 'value',
+    roles: { list: 'value', getById: 'value', create: 'value', update: 'value', delete: 'value' },
+    command: [{ name: 'value', isUpdateCommand: 'value' }]
+  },
+  'api/middleware/cancellationTokenMiddleware.hbs': {},
+  'api/middleware/errorHandlingMiddleware.hbs': {},
+  'api/middleware/tenantResolutionMiddleware.hbs': { tenantHeader: 'value', tenantClaim: 'value', tenantIdMaxLength: 'value', hasDevTokenEndpoint: 'value' },
+  'api/properties/launchSettings.hbs': { httpPort: 'value', httpsPort: 'value' },
+  'api/services/httpContextAuditUserProvider.hbs': {},
+  'api/services/requestTenantProvider.hbs': {},
+
+  // Application
+  'application/dictionary/defaultDictionary.hbs': {},
+  'application/dtos/response/apiResponseModel.hbs': {},
+  'application/dtos/response/httpClientResponse.hbs': {},
+  'application/interfaces/iHttpClientService.hbs': {},
+  'application/services/httpClientService.hbs': {},
+
+  // Domain
+  'domain/commands/command.hbs': {
+    name: 'value',
+    entityName: 'value',
+    folderName: 'value',
+    id: 'value',
+    ...KEY_FIELDS,
+    hasCollections: 'value',
+    hasEntities: 'value',
+    hasEnums: 'value',
+    ...COMMAND_STRUCTURE
+  },
+  'domain/commands/updateCommand.hbs': {
+    entityName: 'value',
+    folderName: 'value',
+    ...KEY_FIELDS,
+    hasCollections: 'value',
+    hasEntities: 'value',
+    hasEnums: 'value',
+    hasConstructorParams: 'value',
+    ...COMMAND_STRUCTURE
+  },
+  'domain/commands/deleteCommand.hbs': { entityName: 'value', folderName: 'value', ...KEY_FIELDS },
+  'domain/queries/getByIdQuery.hbs': { entityName: 'value', folderName: 'value', ...KEY_FIELDS },
+  'domain/queries/listQuery.hbs': { entityName: 'value', folderName: 'value', ...KEY_FIELDS },
+  'domain/commands/commandResult.hbs': {},
+  'domain/commands/iCommand.hbs': {},
+  'domain/commands/iCommandResult.hbs': {},
+
+  'domain/entities/baseEntity.hbs': { hasMultiTenancy: 'value' },
+  'domain/entities/contracts/iAuditable.hbs': {},
+  'domain/entities/contracts/iAuditUserProvider.hbs': {},
+  'domain/entities/contracts/iSoftDeletable.hbs': {},
+  'domain/entities/contracts/iTenantProvider.hbs': {},
+  'domain/entities/entity.hbs': {
+    name: 'value',
+    namespace: 'value',
+    baseSkip: 'value',
+    idType: 'value',
+    idName: 'value',
+    softDelete: 'value',
+    audit: 'value',
+    hasContracts: 'value',
+    hasCollections: 'value',
+    hasEnums: 'value',
+    structureConstructor: 'value',
+    structureEntityThis: 'value',
+    structureEntityPublic: 'value',
+    initializeCollections: 'value'
+  },
+  'domain/enums/enum.hbs': {
+    name: 'value',
+    values: [{ name: 'value', value: 'value', hasValue: 'value' }]
+  },
+  'domain/filters/entityFilter.hbs': {
+    name: 'value',
+    hasEnums: 'value',
+    structureProperties: 'value',
+    structureConditions: 'value'
+  },
+
+  'domain/handlers/handler.hbs': {
+    name: 'value',
+    title: 'value',
+    hasCollections: 'value',
+    idName: 'value',
+    isKeyGenerated: 'value',
+    softDelete: 'value',
+    command: [HANDLER_COMMAND],
+    repository: [{ name: 'value', title: 'value' }]
+  },
+  'domain/handlers/iHandler.hbs': {},
+  'domain/helpers/mapper.hbs': {},
+
+  'domain/repositories/contracts/iRepository.hbs': {},
+  'domain/repositories/contracts/iRepositoryBase.hbs': {},
+  'domain/repositories/contracts/pagedResult.hbs': {},
+  'domain/repositories/contracts/queryParameters.hbs': {},
+  'domain/repositories/entityRepository.hbs': { name: 'value' },
+  'domain/validation/validatable.hbs': {},
+  'domain/validation/validatableTypes.hbs': {},
+
+  // Infrastructure e IoC
+  'infrastructure/configuration/databaseConfig.hbs': {
+    isSqlServer: 'value',
+    isPostgres: 'value',
+    isMySql: 'value',
+    isSqlite: 'value',
+    isInMemory: 'value',
+    isSchemaPerTenant: 'value'
+  },
+  'infrastructure/data/applicationDbContext.hbs': { hasMultiTenancy: 'value', isSchemaPerTenant: 'value' },
+  'infrastructure/data/tenantModelCacheKeyFactory.hbs': {},
+  'infrastructure/entityRepository.hbs': { name: 'value' },
+  'infrastructure/interceptors/auditSaveChangesInterceptor.hbs': {},
+  'infrastructure/migrations/migration.hbs': { name: 'value', up: 'value', down: 'value' },
+  'infrastructure/migrations/migrationDesigner.hbs': { name: 'value', migrationId: 'value', model: 'value' },
+  'infrastructure/migrations/modelSnapshot.hbs': { model: 'value' },
+  'infrastructure/repositories/contracts/repositoryBase.hbs': { hasMultiTenancy: 'value' },
+  'ioc/nativeInjectorBootStrapper.hbs': {},
+
+  // Projetos e solution
+  'project/csproj.hbs': {
+    name: 'value',
+    sdk: 'value',
+    framework: 'value',
+    isWeb: 'value',
+    isTestProject: 'value',
+    references: 'list',
+    packages: [{ name: 'value', version: 'value' }]
+  },
+  'project/solution.hbs': {
+    projects: [{ name: 'value', guid: 'value' }]
+  },
+
+  // Testes
+  'tests/builders/commandBuilder.hbs': {
+    name: 'value',
+    idType: 'value',
+    idParameter: 'value',
+    keyValue: 'value',
+    hasEnums: 'value',
+    createArguments: 'value',
+    createAssignments: [{ name: 'value', value: 'value' }],
+    updateArguments: 'value',
+    testNamespace: 'value'
+  },
+  'tests/commands/commandValidationTests.hbs': {
+    name: 'value',
+    hasEnums: 'value',
+    createSkipReason: 'value',
+    updateSkipReason: 'value',
+    validationCases: [{ testName: 'value', builderCall: 'value', property: 'value', value: 'value', expectedError: 'value' }]
+  },
+  'tests/fakes/entityRepository.hbs': { name: 'value', idName: 'value' },
+  'tests/fakes/inMemoryRepository.hbs': {},
+  'tests/handlers/handlerTests.hbs': {
+    name: 'value',
+    idName: 'value',
+    idParameter: 'value',
+    createSkipReason: 'value',
+    updateSkipReason: 'value',
+    invalidCreate: { property: 'value', value: 'value' },
+    invalidKeyValue: 'value',
+    updatedProperty: 'value'
+  },
+  'tests/integration/apiFactory.hbs': { hasSecurity: 'value', hasMultiTenancy: 'value' },
+  'tests/integration/controllerTests.hbs': {
+    name: 'value',
+    idType: 'value',
+    idName: 'value',
+    idParameter: 'value',
+    roles: 'value',
+    createSkipReason: 'value',
+    updateSkipReason: 'value',
+    invalidCreate: { property: 'value', value: 'value' },
+    invalidKeyValue: 'value',
+    missingKeyValue: 'value'
+  },
+  'tests/integration/testAuthHandler.hbs': {}
+};
@@ -0,0 +1,55 @@
+import { EntityDefinition } from '../types/entity';
+import { SeedService } from './seedService';
+import { TenancyService } from './tenancyService';
+
+const product: EntityDefinition = {
+  name: 'Product',
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }],
+  seed: [{ Name: 'Caneta' }, { Name: 'Lápis', TenantId: 'acme' }]
+};
+
+describe('TenancyService', () => {
+  const service = new TenancyService();
+  const seedService = new SeedService();
+
+  it('valida projectOptions.multiTenancy', () => {
+    expect(service.validateMultiTenancyOptions({ strategy: 'sharedTable', seedTenantId: 'default' })).toEqual([]);
+    expect(service.validateMultiTenancyOptions({ strategy: 'shared', header: 'X Tenant', seedTenantId: 'acme corp' })).toEqual([
+      "projectOptions.multiTenancy: strategy 'shared' inválida. Use: sharedTable, schemaPerTenant",
+      'projectOptions.multiTenancy: header deve ser um nome de header HTTP (letras, números e "-")',
+      'projectOptions.multiTenancy: seedTenantId deve ter letras, números, "_" ou "-" (até 50 caracteres)'
+    ]);
+    expect(service.validateMultiTenancyOptions({ strategy: 'schemaPerTenant' }, { provider: 'sqlite' })[0])
+      .toContain("schemaPerTenant não é suportado pelo provider 'sqlite'");
+  });
+
+  it('isola apenas as entidades da BaseEntity e repassa o tenant dos seeds', () => {
+    const entities = service.applyMultiTenancy([product, { ...product, name: 'Setting', inheritsFromBase: false }], { seedTenantId: 'default' });
+
+    expect(entities.map(({ name, tenantStrategy, seedTenantId }) => ({ name, tenantStrategy, seedTenantId }))).toEqual([
+      { name: 'Product', tenantStrategy: 'sharedTable', seedTenantId: 'default' },
+      { name: 'Setting', tenantStrategy: undefined, seedTenantId: undefined }
+    ]);
+  });
+
+  it('exige o tenant dos seeds de entidades isoladas', () => {
+    const [withoutDefault] = service.applyMultiTenancy([product], {});
+    const [withDefault] = service.applyMultiTenancy([product], { seedTenantId: 'default' });
+    const [invalid] = service.applyMultiTenancy([{ ...product, seed: [{ Name: 'Caneta', TenantId: '' }] }], { seedTenantId: 'default' });
+
+    expect(seedService.validateSeeds([withoutDefault])).toEqual([
+      "Seed inválido em 'Product[0]': informe 'TenantId' no registro ou projectOptions.multiTenancy.seedTenantId"
+    ]);
+    expect(seedService.validateSeeds([withDefault])).toEqual([]);
+    expect(seedService.validateSeeds([invalid])).toEqual([
+      "Seed inválido em 'Product[0]': 'TenantId' deve ter letras, números, \"_\" ou \"-\" (até 50 caracteres)"
+    ]);
+  });
+
+  it('grava o seedTenantId nos registros que não informam TenantId', () => {
+    const [entity] = service.applyMultiTenancy([product], { seedTenantId: 'default' });
+    const tenants = seedService.buildRows(entity, [], 'model').map(row => row.values[row.columns.indexOf('TenantId')]);
+
+    expect(tenants).toEqual(['"default"', '"acme"']);
+  });
+});
@@ -0,0 +1,180 @@
+import { EntityDefinition } from '../types/entity';
+import { DatabaseOptions, MultiTenancyOptions, MultiTenancyStrategy } from '../types/project';
+import { AuditColumn } from './auditService';
+import { DatabaseProviderService } from './databaseProviderService';
+
+export const MULTI_TENANCY_STRATEGIES: MultiTenancyStrategy[] = ['sharedTable', 'schemaPerTenant'];
+
+// Tamanho máximo do TenantId; com o prefixo "tenant_" o schema fica abaixo do limite de 63 caracteres do Postgres
+export const TENANT_ID_MAX_LENGTH = 50;
+
+// Mesmo formato aceito pelo TenantResolutionMiddleware
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const DEFAULT_TENANT_HEADER = 'X-Tenant-Id';
+const DEFAULT_TENANT_CLAIM = 'tenant_id';
+
+const TENANT_COLUMNS: AuditColumn[] = [
+  { name: 'TenantId', type: 'string', isNullable: false, maxLength: TENANT_ID_MAX_LENGTH }
+];
+
+export interface TenancyTemplateData {
+  hasMultiTenancy: boolean;
+  isSchemaPerTenant: boolean;
+  tenantHeader: string;
+  tenantClaim: string;
+  tenantIdMaxLength: number;
+}
+
+/**
+ * Multi-tenancy da API gerada (projectOptions.multiTenancy): TenantId na BaseEntity, resolução do tenant
+ * por header/claim e isolamento por filtro global (sharedTable) ou por schema (schemaPerTenant)
+ */
+export class TenancyService {
+  private databaseProviderService = new DatabaseProviderService();
+
+  /**
+   * Valida projectOptions.multiTenancy (schemaPerTenant exige um provider com schemas)
+   */
+  validateMultiTenancyOptions(multiTenancy: unknown, database?: DatabaseOptions): string[] {
+    if (multiTenancy === undefined) return [];
+
+    if (!multiTenancy || typeof multiTenancy !== 'object' || Array.isArray(multiTenancy)) {
+      return ['projectOptions.multiTenancy deve ser um objeto'];
+    }
+
+    const errors: string[] = [];
+    const options = multiTenancy as Record<string, unknown>;
+
+    if (options.strategy !== undefined && !MULTI_TENANCY_STRATEGIES.includes(options.strategy as MultiTenancyStrategy)) {
+      errors.push(`projectOptions.multiTenancy: strategy '${options.strategy}' inválida. Use: ${MULTI_TENANCY_STRATEGIES.join(', ')}`);
+    } else if (options.strategy === 'schemaPerTenant' && !this.databaseProviderService.getProvider(database).supportsSchemas) {
+      errors.push(`projectOptions.multiTenancy: schemaPerTenant não é suportado pelo provider '${this.databaseProviderService.getProvider(database).provider}'. Use sqlserver ou postgres`);
+    }
+
+    if (options.header !== undefined && (typeof options.header !== 'string' || !/^[A-Za-z0-9-]+$/.test(options.header))) {
+      errors.push('projectOptions.multiTenancy: header deve ser um nome de header HTTP (letras, números e "-")');
+    }
+
+    if (options.claim !== undefined && (typeof options.claim !== 'string' || !/^[A-Za-z0-9_.:/-]+$/.test(options.claim))) {
+      errors.push('projectOptions.multiTenancy: claim deve ser um nome de claim sem espaços');
+    }
+
+    if (options.seedTenantId !== undefined && !this.isValidTenantId(options.seedTenantId)) {
+      errors.push(`projectOptions.multiTenancy: seedTenantId deve ter letras, números, "_" ou "-" (até ${TENANT_ID_MAX_LENGTH} caracteres)`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Indica se o valor é um TenantId aceito pela API gerada
+   */
+  isValidTenantId(value: unknown): boolean {
+    return typeof value === 'string' && value.length <= TENANT_ID_MAX_LENGTH && TENANT_ID_PATTERN.test(value);
+  }
+
+  /**
+   * Valida as entidades de um projeto multi-tenant: TenantId é gerado na BaseEntity
+   */
+  validateEntityTenancy(entities: EntityDefinition[], multiTenancy?: MultiTenancyOptions): string[] {
+    if (!multiTenancy) return [];
+
+    return entities
+      .filter(entity => entity.inheritsFromBase !== false && (entity.properties || []).some(p => p.name === 'TenantId'))
+      .map(entity => `Entidade '${entity.name}': propriedade 'TenantId' conflita com o campo gerado por multiTenancy`);
+  }
+
+  /**
+   * Marca as entidades da BaseEntity com a estratégia do projeto e o tenant dos seeds
+   * (as demais ficam fora do isolamento)
+   */
+  applyMultiTenancy(entities: EntityDefinition[], multiTenancy?: MultiTenancyOptions): EntityDefinition[] {
+    return entities.map(entity => {
+      const isIsolated = !!multiTenancy && entity.inheritsFromBase !== false;
+      return {
+        ...entity,
+        tenantStrategy: isIsolated ? this.getStrategy(multiTenancy!) : undefined,
+        seedTenantId: isIsolated ? multiTenancy!.seedTenantId : undefined
+      };
+    });
+  }
+
+  /**
+   * Coluna TenantId gravada nas tabelas das entidades isoladas por tenant
+   */
+  getColumns(entity: Pick<EntityDefinition, 'tenantStrategy'>): AuditColumn[] {
+    return entity.tenantStrategy ? TENANT_COLUMNS : [];
+  }
+
+  /**
+   * Índice do TenantId, usado pelo filtro global nas tabelas compartilhadas
+   */
+  getIndexes(entity: Pick<EntityDefinition, 'tenantStrategy'>): { columns: string[]; isUnique: boolean }[] {
+    return this.hasQueryFilter(entity) ? [{ columns: ['TenantId'], isUnique: false }] : [];
+  }
+
+  /**
+   * Indica se a entidade recebe o filtro global do tenant (só em tabelas compartilhadas;
+   * no schemaPerTenant o isolamento vem do schema)
+   */
+  hasQueryFilter(entity: Pick<EntityDefinition, 'tenantStrategy'>): boolean {
+    return entity.tenantStrategy === 'sharedTable';
+  }
+
+  /**
+   * Configuração no OnModelCreating: tamanho do TenantId e, em tabelas compartilhadas, índice e
+   * filtro global pelo tenant da requisição (combinado ao filtro da exclusão lógica, já que o EF
+   * aceita um único HasQueryFilter por entidade)
+   */
+  buildModelConfiguration(entities: EntityDefinition[]): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      if (!entity.tenantStrategy) continue;
+
+      lines.push(
+        `            modelBuilder.Entity<${entity.name}Entity>()`,
+        '                .Property(e => e.TenantId)',
+        `                .HasMaxLength(${TENANT_ID_MAX_LENGTH})`,
+        '                .IsRequired();'
+      );
+
+      if (this.hasQueryFilter(entity)) {
+        const conditions = ['e.TenantId == CurrentTenantId', ...(entity.softDelete ? ['!e.IsDeleted'] : [])];
+        lines.push(
+          `            modelBuilder.Entity<${entity.name}Entity>()`,
+          '                .HasIndex(e => e.TenantId);',
+          `            modelBuilder.Entity<${entity.name}Entity>()`,
+          `                .HasQueryFilter(e => ${conditions.join(' && ')});`
+        );
+      }
+
+      lines.push('');
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Dados dos templates afetados pelo multi-tenancy (BaseEntity, DbContext, RepositoryBase, API)
+   */
+  getTemplateData(multiTenancy?: MultiTenancyOptions): TenancyTemplateData {
+    return {
+      hasMultiTenancy: !!multiTenancy,
+      isSchemaPerTenant: !!multiTenancy && this.getStrategy(multiTenancy) === 'schemaPerTenant',
+      tenantHeader: multiTenancy?.header || DEFAULT_TENANT_HEADER,
+      tenantClaim: multiTenancy?.claim || DEFAULT_TENANT_CLAIM,
+      tenantIdMaxLength: TENANT_ID_MAX_LENGTH
+    };
+  }
+
+  private getStrategy(multiTenancy: MultiTenancyOptions): MultiTenancyStrategy {
+    return multiTenancy.strategy || 'sharedTable';
+  }
+}
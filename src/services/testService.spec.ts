@@ -0,0 +1,160 @@
+import { EntityDefinition, EntityProperty } from '../types/entity';
+import { FileOutput, MemoryFileSystem } from '../utils/FileOutput';
+import { TestService } from './testService';
+
+const property = (name: string, type: string, extra: Partial<EntityProperty> = {}): EntityProperty =>
+  ({ name, type, isRequired: false, isNavigationProperty: false, ...extra });
+
+async function generate(entity: EntityDefinition): Promise<{ builder: string; validation: string; handler: string }> {
+  const memory = new MemoryFileSystem();
+  memory.mkdirSync('/project/Tests', { recursive: true });
+
+  const result = await FileOutput.run(memory, () => new TestService().generateEntityTests('/project', entity));
+  expect(result.success).toBe(true);
+
+  return {
+    builder: memory.readFileSync(`/project/Tests/Builders/${entity.name}CommandBuilder.cs`),
+    validation: memory.readFileSync(`/project/Tests/Commands/${entity.name}CommandValidationTests.cs`),
+    handler: memory.readFileSync(`/project/Tests/Handlers/${entity.name}HandlerTests.cs`)
+  };
+}
+
+describe('TestService', () => {
+  const service = new TestService();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('valida projectOptions.tests/integrationTests e ignora entidades sem BaseEntity ou sem comandos', () => {
+    expect(service.validateTestOptions({ tests: true, integrationTests: false })).toEqual([]);
+    expect(service.validateTestOptions({ tests: 'yes', integrationTests: 1 })).toEqual([
+      'projectOptions.tests deve ser true ou false',
+      'projectOptions.integrationTests deve ser true ou false'
+    ]);
+    expect(service.hasTests({ name: 'Product', properties: [] })).toBe(true);
+    expect(service.hasTests({ name: 'Setting', properties: [], inheritsFromBase: false })).toBe(false);
+    expect(service.hasTests({ name: 'Log', properties: [], generateCommands: false })).toBe(false);
+  });
+
+  it('gera comandos válidos no builder e um teste por regra de validação', async () => {
+    const { builder, validation } = await generate({
+      name: 'Product',
+      properties: [
+        property('Name', 'string', { isRequired: true, validation: { maxLength: 20 } }),
+        property('Sku', 'string', { validation: { regex: '^[A-Z]+$' } }),
+        property('Stock', 'int', { isRequired: true, validation: { range: { min: 1, max: 100 } } })
+      ]
+    });
+
+    expect(builder).toContain('new CreateProductCommand("Name", "ABC", 1)');
+    expect(builder).toContain('new UpdateProductCommand(id, "Name", "ABC", 1)');
+    expect(validation).not.toContain('Skip');
+    expect(validation).toContain([
+      '        public void CreateCommand_Name_FailsMaxLength()',
+      '        {',
+      '            var command = ProductCommandBuilder.ValidCreate();',
+      '            command.Name = new string(\'a\', 21);'
+    ].join('\n'));
+    expect(validation).toContain('command.Sku = "!";');
+    expect(validation).toContain('command.Stock = 0;');
+    expect(validation).toContain('error.StartsWith("Stock must be between")');
+    expect(validation).toContain('public void DeleteCommand_Id_FailsGuidNotEmpty()');
+  });
+
+  it('marca com Skip os testes que dependem de um valor que passe na regex', async () => {
+    const { validation, handler } = await generate({
+      name: 'Product',
+      properties: [
+        property('Name', 'string', { isRequired: true }),
+        property('Code', 'string', { validation: { regex: '^[A-Z]{3}-\\d{4}$' } })
+      ]
+    });
+
+    expect(validation).toContain('[Fact(Skip = "Informe em ProductCommandBuilder um valor válido para Code")]\n        public void ValidCreateCommand_IsValid()');
+    expect(validation).toContain('[Fact]\n        public void ValidDeleteCommand_IsValid()');
+    expect(handler).toContain('[Fact(Skip = "Informe em ProductCommandBuilder um valor válido para Code")]\n        public async Task Handle_ValidCreateCommand_ReturnsCreated()');
+    expect(handler).toContain('[Fact]\n        public async Task Handle_InvalidCommand_ReturnsBadRequest()');
+  });
+
+  it('usa o primeiro seed como valor de exemplo', async () => {
+    const { builder, validation } = await generate({
+      name: 'Product',
+      properties: [property('Code', 'string', { isRequired: true, validation: { regex: '^[A-Z]{3}-\\d{4}$' } })],
+      seed: [{ Code: 'ABC-1234' }]
+    });
+
+    expect(builder).toContain('new CreateProductCommand("ABC-1234")');
+    expect(validation).not.toContain('Skip');
+  });
+
+  it('exige o projeto Tests', async () => {
+    const memory = new MemoryFileSystem();
+
+    const result = await FileOutput.run(memory, () => service.generateEntityTests('/project', { name: 'Product', properties: [] }));
+
+    expect(result).toMatchObject({ success: false, error: 'Tests project not found' });
+  });
+
+  describe('testes de integração', () => {
+    it('gera um teste por rota do controller com uma chave que não existe no banco', async () => {
+      const memory = new MemoryFileSystem();
+      memory.mkdirSync('/project/IntegrationTests', { recursive: true });
+
+      const result = await FileOutput.run(memory, () => service.generateEntityIntegrationTests('/project', {
+        name: 'Order',
+        idType: 'long',
+        properties: [property('Number', 'string', { isRequired: true })]
+      }));
+      const tests = memory.readFileSync('/project/IntegrationTests/Controllers/OrderControllerTests.cs');
+
+      expect(result.success).toBe(true);
+      expect(memory.readFileSync('/project/IntegrationTests/Builders/OrderCommandBuilder.cs')).toContain('namespace IntegrationTests.Builders');
+      expect(tests).toContain('private const string Route = "/api/Order";');
+      expect(tests).toContain('_client = _factory.CreateApiClient();');
+      expect(tests).toContain('var response = await _client.GetAsync(ById(long.MaxValue));');
+      expect(tests).toContain('command.Number = "";');
+      expect(tests).not.toContain('Skip');
+    });
+
+    it('envia as roles exigidas pela entidade quando o projeto tem security', async () => {
+      const memory = new MemoryFileSystem();
+      memory.mkdirSync('/project/IntegrationTests', { recursive: true });
+
+      await FileOutput.run(memory, async () => {
+        await service.createIntegrationTestsProjectFiles('/project/IntegrationTests', {});
+        await service.generateEntityIntegrationTests('/project', {
+          name: 'Order',
+          properties: [property('Number', 'string', { isRequired: true })],
+          authorization: { create: ['Admin'], delete: ['Admin', 'Manager'] }
+        }, [], {});
+      });
+
+      expect(memory.readFileSync('/project/IntegrationTests/Controllers/OrderControllerTests.cs'))
+        .toContain('_client = _factory.CreateApiClient("Admin", "Manager");');
+      expect(memory.readFileSync('/project/IntegrationTests/ApiFactory.cs')).toContain('public HttpClient CreateApiClient(params string[] roles)');
+      expect(memory.existsSync('/project/IntegrationTests/TestAuthHandler.cs')).toBe(true);
+    });
+
+    it('não gera o handler de autenticação sem security', async () => {
+      const memory = new MemoryFileSystem();
+      memory.mkdirSync('/project/IntegrationTests', { recursive: true });
+
+      const result = await FileOutput.run(memory, () => service.createIntegrationTestsProjectFiles('/project/IntegrationTests'));
+
+      expect(result.files).toEqual(['/project/IntegrationTests/ApiFactory.cs']);
+      expect(memory.readFileSync('/project/IntegrationTests/ApiFactory.cs')).toContain('public HttpClient CreateApiClient()');
+    });
+
+    it('exige o projeto IntegrationTests', async () => {
+      const result = await FileOutput.run(new MemoryFileSystem(), () =>
+        service.generateEntityIntegrationTests('/project', { name: 'Order', properties: [] }));
+
+      expect(result).toMatchObject({ success: false, error: 'IntegrationTests project not found' });
+    });
+  });
+});
@@ -0,0 +1,521 @@
+import * as path from 'path';
+import { EntityDefinition, EntityKey, EntityProperty, EnumDefinition } from '../types/entity';
+import { MultiTenancyOptions, SecurityOptions } from '../types/project';
+import { TemplateManager } from '../utils/TemplateManager';
+import { fileOutput } from '../utils/FileOutput';
+import { CommandService } from './commandService';
+import { CommandRule, CommandRuleType, numericLiteralSuffixes, ValidationService } from './validationService';
+import { PrimaryKeyService } from './primaryKeyService';
+
+// Início da mensagem de erro de cada regra do ValidatableTypes
+const RULE_ERRORS: Record<CommandRuleType, string> = {
+  notEmpty: 'cannot be empty',
+  required: 'is required',
+  guidNotEmpty: 'cannot be empty',
+  dateNotDefault: 'cannot be the default DateTime value',
+  greaterThanZero: 'should be greater than zero',
+  enumDefined: 'has an undefined value',
+  minLength: 'must have at least',
+  maxLength: 'must have at most',
+  regex: 'has an invalid format',
+  email: 'must be a valid email address',
+  url: 'must be a valid URL',
+  range: 'must be between',
+  minValue: 'must be greater than or equal to',
+  maxValue: 'must be less than or equal to'
+};
+
+// Limites dos tipos inteiros menores, para não gerar literais que não compilam
+const INTEGER_BOUNDS: Record<string, [number, number]> = {
+  byte: [0, 255],
+  short: [-32768, 32767],
+  int: [-2147483648, 2147483647]
+};
+
+// Textos tentados quando a propriedade tem regex (o primeiro que passa nas regras é usado)
+const STRING_CANDIDATES = ['abc', 'ABC', 'Abc', 'abc123', 'ABC123', 'A1', 'a', '1', '123', 'abc-123', 'ABC-123', '2024-01-01'];
+
+// Textos tentados como valor inválido de uma regex
+const INVALID_REGEX_CANDIDATES = ['!', '#invalid#', 'invalid value', '0', 'a'];
+
+type TestRule = Pick<CommandRule, 'length' | 'pattern' | 'min' | 'max'> & { type: CommandRuleType; name: string; baseType: string };
+
+interface SampleValue {
+  value: string;
+  resolved: boolean;
+}
+
+export interface TestResult {
+  success: boolean;
+  message: string;
+  files?: string[];
+  error?: string;
+}
+
+/**
+ * Testes (xUnit) gerados na solution: no projeto Tests, o handler de cada entidade com um repositório
+ * em memória e uma verificação por regra do IsCommandValid; no projeto IntegrationTests, as rotas
+ * de cada controller com a API em memória (WebApplicationFactory + EF InMemory)
+ */
+export class TestService {
+  private commandService = new CommandService();
+  private validationService = new ValidationService();
+  private primaryKeyService = new PrimaryKeyService();
+
+  /**
+   * Valida projectOptions.tests e projectOptions.integrationTests
+   */
+  validateTestOptions(options: { tests?: unknown; integrationTests?: unknown }): string[] {
+    return (['tests', 'integrationTests'] as const)
+      .filter(option => options[option] !== undefined && typeof options[option] !== 'boolean')
+      .map(option => `projectOptions.${option} deve ser true ou false`);
+  }
+
+  /**
+   * Indica se a entidade recebe testes: exige a chave da BaseEntity e o boilerplate CQRS
+   */
+  hasTests(entity: EntityDefinition & { generateCommands?: boolean }): boolean {
+    return entity.inheritsFromBase !== false && entity.generateCommands !== false && !entity.isJoinEntity;
+  }
+
+  /**
+   * Cria os arquivos base do projeto Tests (repositório em memória genérico)
+   */
+  async createTestsProjectFiles(testsPath: string): Promise<TestResult> {
+    try {
+      const fakesPath = path.join(testsPath, 'Fakes');
+      if (!fileOutput.existsSync(fakesPath)) {
+        fileOutput.mkdirSync(fakesPath, { recursive: true });
+      }
+
+      const filePath = path.join(fakesPath, 'InMemoryRepository.cs');
+      const template = TemplateManager.getTemplate('tests/fakes/inMemoryRepository.hbs');
+      fileOutput.writeFileSync(filePath, template({}), 'utf8');
+
+      return {
+        success: true,
+        message: 'Arquivos base do projeto Tests criados',
+        files: [filePath]
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar arquivos base do projeto Tests:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao criar arquivos base do projeto Tests',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Cria os arquivos base do projeto IntegrationTests: o WebApplicationFactory com o EF InMemory
+   * e, com security, o handler de autenticação que substitui o JWT
+   */
+  async createIntegrationTestsProjectFiles(integrationTestsPath: string, security?: SecurityOptions, multiTenancy?: MultiTenancyOptions): Promise<TestResult> {
+    try {
+      const data = { hasSecurity: !!security, hasMultiTenancy: !!multiTenancy };
+      const files: Array<[string, string]> = [
+        ['ApiFactory.cs', 'tests/integration/apiFactory.hbs'],
+        ...(security ? [['TestAuthHandler.cs', 'tests/integration/testAuthHandler.hbs'] as [string, string]] : [])
+      ];
+
+      return {
+        success: true,
+        message: 'Arquivos base do projeto IntegrationTests criados',
+        files: this.writeTestFiles(integrationTestsPath, files, data)
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar arquivos base do projeto IntegrationTests:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao criar arquivos base do projeto IntegrationTests',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Gera os testes de uma entidade: repositório em memória, builder de comandos válidos,
+   * testes do handler e testes de validação dos comandos
+   */
+  async generateEntityTests(projectPath: string, entity: EntityDefinition, enums: EnumDefinition[] = []): Promise<TestResult> {
+    try {
+      const testsPath = path.join(projectPath, 'Tests');
+      if (!fileOutput.existsSync(testsPath)) {
+        return {
+          success: false,
+          message: 'Projeto Tests não encontrado. Gere o projeto com projectOptions.tests.',
+          error: 'Tests project not found'
+        };
+      }
+
+      const data = { ...this.buildTestData(entity, enums), testNamespace: 'Tests' };
+      const name = entity.name;
+      const filePaths = this.writeTestFiles(testsPath, [
+        [path.join('Fakes', `InMemory${name}Repository.cs`), 'tests/fakes/entityRepository.hbs'],
+        [path.join('Builders', `${name}CommandBuilder.cs`), 'tests/builders/commandBuilder.hbs'],
+        [path.join('Handlers', `${name}HandlerTests.cs`), 'tests/handlers/handlerTests.hbs'],
+        [path.join('Commands', `${name}CommandValidationTests.cs`), 'tests/commands/commandValidationTests.hbs']
+      ], data);
+
+      if (data.createSkipReason || data.updateSkipReason) {
+        console.warn(`  ⚠️ Aviso testes ${name}: ${data.createSkipReason || data.updateSkipReason}`);
+      }
+
+      return {
+        success: true,
+        message: `Testes para '${name}' criados com sucesso (${data.validationCases.length} regras de validação)`,
+        files: filePaths
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar testes:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao gerar testes',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Gera os testes de integração de uma entidade: builder de comandos válidos e um teste
+   * por rota do controller (POST, PUT, GET, GET por id e DELETE)
+   * Com security o cliente envia as roles exigidas pelas operações da entidade
+   */
+  async generateEntityIntegrationTests(projectPath: string, entity: EntityDefinition, enums: EnumDefinition[] = [], security?: SecurityOptions): Promise<TestResult> {
+    try {
+      const integrationTestsPath = path.join(projectPath, 'IntegrationTests');
+      if (!fileOutput.existsSync(integrationTestsPath)) {
+        return {
+          success: false,
+          message: 'Projeto IntegrationTests não encontrado. Gere o projeto com projectOptions.integrationTests.',
+          error: 'IntegrationTests project not found'
+        };
+      }
+
+      const key = this.primaryKeyService.getKey(entity);
+      const roles = security ? [...new Set(Object.values(entity.authorization || {}).flat())] : [];
+      const data = {
+        ...this.buildTestData(entity, enums),
+        testNamespace: 'IntegrationTests',
+        missingKeyValue: this.buildMissingKeyValue(key),
+        roles: roles.map(role => JSON.stringify(role)).join(', ')
+      };
+
+      const name = entity.name;
+      const filePaths = this.writeTestFiles(integrationTestsPath, [
+        [path.join('Builders', `${name}CommandBuilder.cs`), 'tests/builders/commandBuilder.hbs'],
+        [path.join('Controllers', `${name}ControllerTests.cs`), 'tests/integration/controllerTests.hbs']
+      ], data);
+
+      if (data.createSkipReason || data.updateSkipReason) {
+        console.warn(`  ⚠️ Aviso testes de integração ${name}: ${data.createSkipReason || data.updateSkipReason}`);
+      }
+
+      return {
+        success: true,
+        message: `Testes de integração para '${name}' criados com sucesso`,
+        files: filePaths
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar testes de integração:', error.message);
+      return {
+        success: false,
+        message: 'Erro ao gerar testes de integração',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Renderiza cada template no caminho relativo à pasta do projeto de testes
+   */
+  private writeTestFiles(basePath: string, files: Array<[string, string]>, data: object): string[] {
+    const filePaths: string[] = [];
+    for (const [relativePath, templatePath] of files) {
+      const filePath = path.join(basePath, relativePath);
+      const folder = path.dirname(filePath);
+      if (!fileOutput.existsSync(folder)) {
+        fileOutput.mkdirSync(folder, { recursive: true });
+      }
+
+      fileOutput.writeFileSync(filePath, TemplateManager.getTemplate(templatePath)(data), 'utf8');
+      filePaths.push(filePath);
+    }
+    return filePaths;
+  }
+
+  /**
+   * Dados dos templates de teste: argumentos dos comandos válidos e um caso por regra de validação
+   * Sem um valor que passe em todas as regras (ex: regex sem exemplo), os testes que dependem
+   * do comando válido são gerados com Skip
+   */
+  private buildTestData(entity: EntityDefinition, enums: EnumDefinition[]) {
+    const key = this.primaryKeyService.getKey(entity);
+    const seed = entity.seed?.[0] || {};
+    const samples = new Map<string, SampleValue>();
+    const sampleOf = (property: EntityProperty) => {
+      if (!samples.has(property.name)) {
+        samples.set(property.name, this.buildSampleValue(property, enums, seed[property.name]));
+      }
+      return samples.get(property.name)!;
+    };
+
+    // Comando de criação: chave (quando informada), construtor e propriedades validadas fora dele
+    const includesKey = this.commandService.includesKeyOnCreate(entity);
+    const createConstructor = this.commandService.getCreateConstructorProperties(entity);
+    const createRules = this.validationService.getCommandRules(entity.properties);
+    const createAssignments = createRules
+      .map(rule => rule.property)
+      .filter((property, index, properties) => properties.indexOf(property) === index && !createConstructor.includes(property))
+      .map(property => ({ name: property.name, value: sampleOf(property).value }));
+    const createArguments = [
+      ...(includesKey ? [`ValidKey()`] : []),
+      ...createConstructor.map(property => sampleOf(property).value)
+    ];
+
+    // Comando de atualização: chave e propriedades sem "id" no nome
+    const updateConstructor = this.commandService.getUpdateConstructorProperties(entity);
+    const updateRules = this.validationService.getCommandRules(this.commandService.getUpdateProperties(entity));
+    const updateArguments = [key.parameterName, ...updateConstructor.map(property => sampleOf(property).value)];
+
+    const unresolved = (rules: CommandRule[]) => rules.map(rule => rule.property).find(property => !sampleOf(property).resolved);
+    const skipReason = (property?: EntityProperty) => property
+      ? `Informe em ${entity.name}CommandBuilder um valor válido para ${property.name}`
+      : undefined;
+
+    const keyRule = this.buildKeyRule(key);
+    const toTestRule = (rule: CommandRule): TestRule => ({
+      ...rule,
+      name: rule.property.name,
+      baseType: this.validationService.getBaseType(rule.property)
+    });
+    const validationCases = [
+      ...this.buildValidationCases('Create', 'ValidCreate()', [...(includesKey ? [keyRule] : []), ...createRules.map(toTestRule)], enums),
+      ...this.buildValidationCases('Update', `ValidUpdate(${entity.name}CommandBuilder.ValidKey())`, [keyRule, ...updateRules.map(toTestRule)], enums),
+      ...this.buildValidationCases('Delete', `ValidDelete(${entity.name}CommandBuilder.ValidKey())`, [keyRule], enums)
+    ];
+
+    // Comando inválido do handler: a primeira regra do Create ou, sem regras, a chave do Update
+    const invalidCreate = validationCases.find(validationCase => validationCase.command === 'Create');
+    const invalidKey = validationCases.find(validationCase => validationCase.command === 'Update' && validationCase.property === key.name);
+
+    // Propriedade conferida após o update (a primeira com valor de exemplo)
+    const updatedProperty = updateConstructor.find(property =>
+      !property.isCollection && !this.validationService.isNavigation(property) && sampleOf(property).value !== 'default!');
+
+    return {
+      name: entity.name,
+      idType: key.type,
+      idName: key.name,
+      idParameter: key.parameterName,
+      keyValue: this.buildKeyValue(key),
+      hasEnums: entity.properties.some(property => property.isEnum),
+      createArguments: createArguments.join(', '),
+      createAssignments,
+      updateArguments: updateArguments.join(', '),
+      createSkipReason: skipReason(unresolved(createRules)),
+      updateSkipReason: skipReason(unresolved(updateRules)),
+      invalidCreate: invalidCreate && { property: invalidCreate.property, value: invalidCreate.value },
+      invalidKeyValue: invalidKey?.value,
+      updatedProperty: updatedProperty?.name,
+      validationCases
+    };
+  }
+
+  /**
+   * Um caso por regra: o comando válido com um único campo inválido e o início da mensagem esperada
+   * (regras sem valor inválido possível, como minLength 0, ficam de fora)
+   */
+  private buildValidationCases(command: 'Create' | 'Update' | 'Delete', builderCall: string, rules: TestRule[], enums: EnumDefinition[]) {
+    return rules
+      .map(rule => ({ rule, value: this.buildInvalidValue(rule, enums) }))
+      .filter(({ value }) => value !== undefined)
+      .map(({ rule, value }) => ({
+        command,
+        testName: `${command}Command_${rule.name}_Fails${rule.type.charAt(0).toUpperCase()}${rule.type.slice(1)}`,
+        builderCall,
+        property: rule.name,
+        value: value as string,
+        expectedError: `${rule.name} ${RULE_ERRORS[rule.type]}`
+      }));
+  }
+
+  /**
+   * Valor C# que viola a regra
+   */
+  private buildInvalidValue(rule: TestRule, enums: EnumDefinition[]): string | undefined {
+    switch (rule.type) {
+      case 'notEmpty':
+        return '""';
+      case 'required':
+        return 'null';
+      case 'guidNotEmpty':
+        return 'Guid.Empty';
+      case 'dateNotDefault':
+        return 'default(DateTime)';
+      case 'greaterThanZero':
+        return this.toNumericLiteral(0, rule.baseType);
+      case 'enumDefined':
+        return `(${rule.baseType})${this.getUndefinedEnumValue(rule.baseType, enums)}`;
+      case 'minLength':
+        return rule.length ? `new string('a', ${rule.length - 1})` : undefined;
+      case 'maxLength':
+        return `new string('a', ${rule.length! + 1})`;
+      case 'regex': {
+        const invalid = INVALID_REGEX_CANDIDATES.find(candidate => !new RegExp(rule.pattern!).test(candidate));
+        return invalid !== undefined ? JSON.stringify(invalid) : undefined;
+      }
+      case 'email':
+        return '"invalid-email"';
+      case 'url':
+        return '"invalid-url"';
+      case 'range':
+        return this.outOfBounds(rule.baseType, rule.min! - 1) ?? this.outOfBounds(rule.baseType, rule.max! + 1);
+      case 'minValue':
+        return this.outOfBounds(rule.baseType, rule.min! - 1);
+      case 'maxValue':
+        return this.outOfBounds(rule.baseType, rule.max! + 1);
+    }
+  }
+
+  /**
+   * Valor C# que passa em todas as regras da propriedade (navegações e collections ficam com default!)
+   */
+  private buildSampleValue(property: EntityProperty, enums: EnumDefinition[], seedValue: unknown): SampleValue {
+    if (property.isCollection || this.validationService.isNavigation(property)) {
+      return { value: 'default!', resolved: true };
+    }
+
+    const type = this.validationService.getBaseType(property);
+    const rules = property.validation || {};
+
+    if (property.isEnum) {
+      const enumDef = enums.find(e => e.name === type);
+      const first = enumDef?.values[0];
+      const valueName = typeof first === 'string' ? first : first?.name;
+      return { value: valueName ? `${type}.${valueName}` : 'default!', resolved: !!valueName };
+    }
+
+    if (type === 'string') {
+      return this.buildSampleString(property, seedValue);
+    }
+
+    if (type in numericLiteralSuffixes) {
+      const { min, max } = rules.range || {};
+      const value = min ?? (max !== undefined ? Math.min(1, max) : 1);
+      return { value: this.toNumericLiteral(value, type), resolved: true };
+    }
+
+    const samples: Record<string, string> = {
+      bool: 'true',
+      Guid: 'Guid.NewGuid()',
+      DateTime: 'new DateTime(2024, 1, 1)',
+      DateTimeOffset: 'new DateTimeOffset(2024, 1, 1, 0, 0, 0, TimeSpan.Zero)',
+      TimeSpan: 'TimeSpan.FromMinutes(1)'
+    };
+
+    // Tipos sem exemplo só quebram o comando válido quando são obrigatórios
+    return samples[type]
+      ? { value: samples[type], resolved: true }
+      : { value: 'default!', resolved: !this.validationService.isRequired(property) };
+  }
+
+  /**
+   * Texto válido: o do primeiro seed, um exemplo derivado do nome ou um dos candidatos
+   * que passe em minLength, maxLength, regex, email e url
+   */
+  private buildSampleString(property: EntityProperty, seedValue: unknown): SampleValue {
+    const rules = property.validation || {};
+    const lowerName = property.name.toLowerCase();
+
+    let sample = rules.email ? `${lowerName}@example.com` : rules.url ? `https://example.com/${lowerName}` : property.name;
+    if (rules.minLength !== undefined && sample.length < rules.minLength) {
+      sample = sample.padEnd(rules.minLength, 'a');
+    }
+    if (rules.maxLength !== undefined && sample.length > rules.maxLength) {
+      sample = sample.slice(0, rules.maxLength);
+    }
+
+    const candidates = [...(typeof seedValue === 'string' ? [seedValue] : []), sample, ...STRING_CANDIDATES];
+    const isValid = (value: string) =>
+      (!this.validationService.isRequired(property) || value.trim().length > 0)
+      && (rules.minLength === undefined || value.length >= rules.minLength)
+      && (rules.maxLength === undefined || value.length <= rules.maxLength)
+      && (!rules.regex || new RegExp(rules.regex).test(value))
+      && (!rules.email || /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value))
+      && (!rules.url || /^https?:\/\/\S+$/.test(value));
+
+    const valid = candidates.find(isValid);
+    return { value: JSON.stringify(valid ?? sample), resolved: valid !== undefined };
+  }
+
+  /**
+   * Regra da chave nos comandos que a recebem (mesma validação do PrimaryKeyService)
+   */
+  private buildKeyRule(key: EntityKey): TestRule {
+    const type = key.type === 'int' || key.type === 'long' ? 'greaterThanZero' : key.type === 'string' ? 'notEmpty' : 'guidNotEmpty';
+    return { type, name: key.name, baseType: key.type };
+  }
+
+  /**
+   * Valor de chave usado nos testes (Guid novo a cada teste)
+   */
+  private buildKeyValue(key: EntityKey): string {
+    switch (key.type) {
+      case 'int':
+      case 'long':
+        return this.toNumericLiteral(1, key.type);
+      case 'string':
+        return '"key-1"';
+      default:
+        return 'Guid.NewGuid()';
+    }
+  }
+
+  /**
+   * Chave que não existe no banco vazio dos testes de integração (nem nos seeds)
+   */
+  private buildMissingKeyValue(key: EntityKey): string {
+    switch (key.type) {
+      case 'int':
+        return 'int.MaxValue';
+      case 'long':
+        return 'long.MaxValue';
+      case 'string':
+        return '"missing-key"';
+      default:
+        return 'Guid.NewGuid()';
+    }
+  }
+
+  /**
+   * Primeiro valor inteiro fora do enum (C# numera a partir de 0 ou do valor anterior + 1)
+   */
+  private getUndefinedEnumValue(enumName: string, enums: EnumDefinition[]): number {
+    let next = 0;
+    let max = -1;
+    for (const value of enums.find(e => e.name === enumName)?.values || []) {
+      const current = typeof value === 'object' && typeof value.value === 'number' ? value.value : next;
+      max = Math.max(max, current);
+      next = current + 1;
+    }
+    return max + 1;
+  }
+
+  private outOfBounds(type: string, value: number): string | undefined {
+    const bounds = INTEGER_BOUNDS[type];
+    if (Number.isNaN(value) || (bounds && (value < bounds[0] || value > bounds[1]))) {
+      return undefined;
+    }
+    return this.toNumericLiteral(value, type);
+  }
+
+  private toNumericLiteral(value: number, type: string): string {
+    return `${value}${numericLiteralSuffixes[type] ?? ''}`;
+  }
+}
@@ -0,0 +1,108 @@
+import { EntityDefinition, EntityProperty } from '../types/entity';
+import { CommandService } from './commandService';
+import { RelationshipService } from './relationshipService';
+import { ValidationService } from './validationService';
+
+const property = (name: string, type: string, extra: Partial<EntityProperty> = {}): EntityProperty =>
+  ({ name, type, isRequired: false, isNavigationProperty: false, ...extra });
+
+const entity = (name: string, idType: EntityDefinition['idType'], relationships: EntityDefinition['relationships'] = []): EntityDefinition => ({
+  name,
+  idType,
+  properties: [{ name: 'Name', type: 'string', isRequired: true, isNavigationProperty: false }],
+  relationships
+});
+
+describe('ValidationService', () => {
+  const service = new ValidationService();
+
+  describe('buildCommandValidations', () => {
+    it('compila as regras de cada propriedade na ordem declarada', () => {
+      expect(service.buildCommandValidations([
+        property('Name', 'string', { isRequired: true, validation: { minLength: 3, maxLength: 50 } }),
+        property('Email', 'string', { validation: { email: true } }),
+        property('Sku', 'string', { validation: { regex: '^"[A-Z]+"$' } }),
+        property('Price', 'decimal', { validation: { range: { min: 1, max: 1000 } } }),
+        property('Stock', 'long', { validation: { range: { min: 0 } } }),
+        property('Discount', 'double?', { validation: { required: true } })
+      ])).toEqual([
+        'ValidateStringNotEmpty(Name, "Name");',
+        'ValidateMinLength(Name, 3, "Name");',
+        'ValidateMaxLength(Name, 50, "Name");',
+        'ValidateEmail(Email, "Email");',
+        'ValidateRegex(Sku, @"^""[A-Z]+""$", "Sku");',
+        'ValidateRange(Price, 1m, 1000m, "Price");',
+        'ValidateMinValue(Stock, 0L, "Stock");',
+        'ValidateRequired(Discount, "Discount");'
+      ]);
+    });
+
+    it('ignora navegações e coleções', () => {
+      expect(service.buildCommandValidations([
+        property('Category', 'CategoryEntity', { isRequired: true, isNavigationProperty: true }),
+        property('Tags', 'string', { isRequired: true, isCollection: 'List' })
+      ])).toEqual([]);
+    });
+  });
+
+  describe('validateRules', () => {
+    it('rejeita regras que não combinam com o tipo da propriedade', () => {
+      const entity: EntityDefinition = {
+        name: 'Product',
+        properties: [
+          property('Price', 'decimal', { validation: { maxLength: 10 } }),
+          property('Name', 'string', { validation: { minLength: 5, maxLength: 2, regex: '(' } }),
+          property('Code', 'string', { validation: { range: { min: 1 } } })
+        ]
+      };
+
+      expect(service.validateRules([entity])).toEqual([
+        "Validação inválida em 'Product.Price': minLength, maxLength, regex, email e url só se aplicam a string",
+        "Validação inválida em 'Product.Name': minLength maior que maxLength",
+        "Validação inválida em 'Product.Name': regex '(' inválida",
+        "Validação inválida em 'Product.Code': range só se aplica a tipos numéricos"
+      ]);
+    });
+  });
+
+  describe('buildModelConfiguration', () => {
+    it('gera HasMaxLength e IsRequired para as colunas', () => {
+      const lines = service.buildModelConfiguration([{
+        name: 'Product',
+        properties: [property('Name', 'string', { validation: { maxLength: 50 } }), property('Notes', 'string?', { validation: { required: true } })]
+      }]);
+
+      expect(lines.map(line => line.trim())).toEqual([
+        'modelBuilder.Entity<ProductEntity>()', '.Property(e => e.Name)', '.HasMaxLength(50);', '',
+        'modelBuilder.Entity<ProductEntity>()', '.Property(e => e.Notes)', '.IsRequired();'
+      ]);
+    });
+  });
+});
+
+describe('ValidationService com relacionamentos', () => {
+  const service = new ValidationService();
+  const commandService = new CommandService();
+
+  const [, , product] = new RelationshipService().expandEntities([
+    entity('Category', 'int'),
+    entity('Brand', 'long'),
+    entity('Product', 'Guid', [
+      { type: 'manyToOne', target: 'Category' },
+      { type: 'manyToOne', target: 'Brand', isRequired: false }
+    ])
+  ]);
+
+  it('exige FK int/long obrigatória maior que zero no create e no update', () => {
+    const expected = ['ValidateStringNotEmpty(Name, "Name");', 'ValidateIntGreaterThanZero(CategoryId, "CategoryId");'];
+
+    expect(service.buildCommandValidations(product.properties)).toEqual(expected);
+    expect(service.buildCommandValidations(commandService.getUpdateProperties(product))).toEqual(expected);
+  });
+
+  it('não valida o valor de propriedades numéricas que não são FK', () => {
+    const validations = service.buildCommandValidations([{ name: 'Stock', type: 'int', isRequired: true, isNavigationProperty: false }]);
+
+    expect(validations).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { EntityDefinition, EntityProperty } from '../types/entity';
+import { EntityService } from './entityService';
+
+// Sufixos de literal C# por tipo numérico
+export const numericLiteralSuffixes: Record<string, string> = {
+  int: '',
+  long: 'L',
+  short: '',
+  byte: '',
+  double: 'd',
+  float: 'f',
+  decimal: 'm'
+};
+
+export type CommandRuleType = 'notEmpty' | 'required' | 'guidNotEmpty' | 'dateNotDefault' | 'greaterThanZero' | 'enumDefined'
+  | 'minLength' | 'maxLength' | 'regex' | 'email' | 'url' | 'range' | 'minValue' | 'maxValue';
+
+// Regra do IsCommandValid de um comando: chamada do ValidatableTypes e os limites usados nela
+export interface CommandRule {
+  type: CommandRuleType;
+  property: EntityProperty;
+  call: string;
+  length?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+}
+
+export class ValidationService {
+  private entityService = new EntityService();
+
+  /**
+   * Valida as regras de validação declaradas nas propriedades
+   */
+  validateRules(entities: EntityDefinition[]): string[] {
+    const errors: string[] = [];
+
+    for (const entity of entities) {
+      for (const property of entity.properties || []) {
+        const rules = property.validation;
+        if (!rules) continue;
+
+        const field = `${entity.name}.${property.name}`;
+        const type = this.getBaseType(property);
+        const isString = type === 'string' && !property.isCollection;
+
+        const hasStringRules = rules.minLength !== undefined || rules.maxLength !== undefined || rules.regex || rules.email || rules.url;
+        if (hasStringRules && !isString) {
+          errors.push(`Validação inválida em '${field}': minLength, maxLength, regex, email e url só se aplicam a string`);
+        }
+
+        for (const key of ['minLength', 'maxLength'] as const) {
+          const value = rules[key];
+          if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+            errors.push(`Validação inválida em '${field}': ${key} deve ser um inteiro não negativo`);
+          }
+        }
+
+        if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+          errors.push(`Validação inválida em '${field}': minLength maior que maxLength`);
+        }
+
+        if (rules.regex) {
+          try {
+            new RegExp(rules.regex);
+          } catch {
+            errors.push(`Validação inválida em '${field}': regex '${rules.regex}' inválida`);
+          }
+        }
+
+        if (rules.range) {
+          if (!(type in numericLiteralSuffixes) || property.isCollection || property.isEnum) {
+            errors.push(`Validação inválida em '${field}': range só se aplica a tipos numéricos`);
+          } else if (rules.range.min !== undefined && rules.range.max !== undefined && rules.range.min > rules.range.max) {
+            errors.push(`Validação inválida em '${field}': range.min maior que range.max`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Indica se a propriedade é obrigatória (validation.required ou isRequired)
+   */
+  isRequired(property: EntityProperty): boolean {
+    return property.validation?.required ?? property.isRequired;
+  }
+
+  /**
+   * Gera as chamadas do ValidatableTypes usadas no IsCommandValid
+   */
+  buildCommandValidations(properties: EntityProperty[]): string[] {
+    return this.getCommandRules(properties).map(rule => rule.call);
+  }
+
+  /**
+   * Regras do IsCommandValid na ordem em que são chamadas (usadas também nos testes gerados)
+   */
+  getCommandRules(properties: EntityProperty[]): CommandRule[] {
+    const rules: CommandRule[] = [];
+
+    for (const property of properties) {
+      if (property.isCollection || this.isNavigation(property)) continue;
+
+      const name = property.name;
+      const type = this.getBaseType(property);
+      const isNullable = property.type.endsWith('?');
+      const validation = property.validation || {};
+      const add = (ruleType: CommandRuleType, call: string, limits: Partial<CommandRule> = {}) =>
+        rules.push({ type: ruleType, property, call, ...limits });
+
+      if (this.isRequired(property)) {
+        if (type === 'string') {
+          add('notEmpty', `ValidateStringNotEmpty(${name}, "${name}");`);
+        } else if (isNullable) {
+          add('required', `ValidateRequired(${name}, "${name}");`);
+        } else if (type === 'Guid') {
+          add('guidNotEmpty', `ValidateGuidNotEmpty(${name}, "${name}");`);
+        } else if (type === 'DateTime') {
+          add('dateNotDefault', `ValidateDateTimeNotDefault(${name}, "${name}");`);
+        } else if (property.isForeignKey && (type === 'int' || type === 'long')) {
+          // FK numérica: o principal nunca tem chave 0 (mesma validação da chave nos comandos)
+          add('greaterThanZero', `Validate${type === 'int' ? 'Int' : 'Long'}GreaterThanZero(${name}, "${name}");`);
+        }
+      }
+
+      if (property.isEnum) {
+        add('enumDefined', `ValidateEnumDefined(${name}, "${name}");`);
+      }
+
+      if (validation.minLength !== undefined) {
+        add('minLength', `ValidateMinLength(${name}, ${validation.minLength}, "${name}");`, { length: validation.minLength });
+      }
+
+      if (validation.maxLength !== undefined) {
+        add('maxLength', `ValidateMaxLength(${name}, ${validation.maxLength}, "${name}");`, { length: validation.maxLength });
+      }
+
+      if (validation.regex) {
+        add('regex', `ValidateRegex(${name}, @"${validation.regex.replace(/"/g, '""')}", "${name}");`, { pattern: validation.regex });
+      }
+
+      if (validation.email) {
+        add('email', `ValidateEmail(${name}, "${name}");`);
+      }
+
+      if (validation.url) {
+        add('url', `ValidateUrl(${name}, "${name}");`);
+      }
+
+      if (validation.range && type in numericLiteralSuffixes) {
+        const { min, max } = validation.range;
+        const literal = (value: number) => `${value}${numericLiteralSuffixes[type]}`;
+
+        if (min !== undefined && max !== undefined) {
+          add('range', `ValidateRange(${name}, ${literal(min)}, ${literal(max)}, "${name}");`, { min, max });
+        } else if (min !== undefined) {
+          add('minValue', `ValidateMinValue(${name}, ${literal(min)}, "${name}");`, { min });
+        } else if (max !== undefined) {
+          add('maxValue', `ValidateMaxValue(${name}, ${literal(max)}, "${name}");`, { max });
+        }
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Gera as restrições de coluna (IsRequired/HasMaxLength) para o OnModelCreating
+   */
+  buildModelConfiguration(entities: EntityDefinition[]): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      for (const property of entity.properties || []) {
+        if (property.isCollection || this.isNavigation(property)) continue;
+
+        const constraints: string[] = [];
+
+        // Tipos não anuláveis já são obrigatórios por convenção do EF Core
+        if (property.type.endsWith('?') && property.validation?.required) {
+          constraints.push('.IsRequired()');
+        }
+
+        if (property.validation?.maxLength !== undefined && this.getBaseType(property) === 'string') {
+          constraints.push(`.HasMaxLength(${property.validation.maxLength})`);
+        }
+
+        if (constraints.length === 0) continue;
+
+        lines.push(
+          `            modelBuilder.Entity<${entity.name}Entity>()`,
+          `                .Property(e => e.${property.name})`,
+          ...constraints.map((c, i) => `                ${c}${i === constraints.length - 1 ? ';' : ''}`),
+          ''
+        );
+      }
+    }
+
+    // Remover linha em branco final
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Tipo C# da propriedade sem o sufixo nullable
+   */
+  getBaseType(property: EntityProperty): string {
+    const type = property.type.endsWith('?') ? property.type.slice(0, -1) : property.type;
+    return this.entityService.mapToCSharpType(type);
+  }
+
+  isNavigation(property: EntityProperty): boolean {
+    return property.isNavigationProperty || /Entity\??$/.test(property.type);
+  }
+}
@@ -1,3 +1,6 @@
+import { EntityAuthorization, EntityIdType, EntityRelationship, EntitySeed, EnumDefinition, PropertyValidation } from './entity';
+import { DatabaseOptions, GenerationMode, MultiTenancyOptions, SecurityOptions } from './project';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -32,6 +35,18 @@ export interface ProjectOptions {
   framework?: string;              // Framework .NET (padrão: "net8.0")
   outputPath?: string;             // Caminho de saída (padrão: cwd)
   useCleanArchitecture?: boolean;  // Usar estrutura Clean Architecture (padrão: true)
+  database?: DatabaseOptions;      // Provider do banco (padrão: { provider: "sqlserver" })
+  generateMigration?: boolean;     // Gerar a migration InitialCreate (padrão: false)
+  generationMode?: GenerationMode; // "sdk" ou "templates" (padrão: "sdk" se o .NET estiver instalado)
+  templatePack?: string;           // Template pack registrado ("nome@versão" ou "nome" para a mais recente)
+  idType?: EntityIdType;           // Tipo da chave primária das entidades: "Guid", "int", "long" ou "string" (padrão: "Guid")
+  idName?: string;                 // Nome da chave primária das entidades (padrão: "Id")
+  softDelete?: boolean;            // Exclusão lógica (IsDeleted/DeletedAt) nas entidades (padrão: false)
+  audit?: boolean;                 // Auditoria (CreatedBy/UpdatedBy) nas entidades (padrão: false)
+  security?: SecurityOptions;      // Autenticação JWT e roles por operação (sem o campo os endpoints são anônimos)
+  multiTenancy?: MultiTenancyOptions; // TenantId na BaseEntity, middleware de tenant e filtros (sharedTable ou schemaPerTenant)
+  tests?: boolean;                 // Projeto Tests (xUnit) com testes dos handlers e das validações dos comandos (padrão: false)
+  integrationTests?: boolean;      // Projeto IntegrationTests (WebApplicationFactory + EF InMemory) com testes das rotas dos controllers (padrão: false)
 }
 
 export interface EntityProperty {
@@ -40,19 +55,110 @@ export interface EntityProperty {
   isRequired: boolean;             // Propriedade obrigatória
   isNavigationProperty?: boolean;  // Propriedade de navegação (padrão: false)
   isCollection?: string;           // Tipo de coleção ("List", "ICollection", etc.)
+  isEnum?: boolean;                // Tipo é um enum declarado em "enums" (detectado automaticamente)
+  validation?: PropertyValidation; // Regras: required, minLength, maxLength, regex, range, email, url
 }
 
 export interface EntityDefinition {
   name: string;                    // Nome da entidade (ex: "User", "Product")
   inheritsFromBase?: boolean;      // Herdar de BaseEntity (padrão: true)
   namespace?: string;              // Namespace (padrão: "Domain.Entities")
+  idType?: EntityIdType;           // Tipo da chave primária (padrão: projectOptions.idType)
+  idName?: string;                 // Nome da chave primária (padrão: projectOptions.idName)
+  softDelete?: boolean;            // Exclusão lógica (padrão: projectOptions.softDelete)
+  audit?: boolean;                 // Auditoria (padrão: projectOptions.audit)
+  authorization?: EntityAuthorization; // Roles por operação: list, getById, create, update, delete (exige projectOptions.security)
   generateCommands?: boolean;      // Gerar comandos CQRS (padrão: true)
   properties: EntityProperty[];    // Array de propriedades da entidade
+  relationships?: EntityRelationship[]; // Relacionamentos com outras entidades
+  seed?: EntitySeed[];             // Registros iniciais (HasData) - ex: [{ "Name": "Books" }]
 }
 
 export interface ScaffoldRequest {
   projectOptions: ProjectOptions;
   entities: EntityDefinition[];
+  enums?: EnumDefinition[];        // Enums usados como tipo de propriedades
+  templateOverrides?: Record<string, string>; // Caminho do template (ex: "api/controllers/entityController.hbs") -> código Handlebars
+}
+
+// Arquivo de uma entidade renderizado pelo POST /api/project/preview
+export type PreviewArtifact = 'entity' | 'createCommand' | 'updateCommand' | 'handler' | 'repository' | 'efRepository' | 'controller' | 'dbContext';
+
+export interface PreviewRequest {
+  entity: EntityDefinition;
+  artifact: PreviewArtifact;
+  entities?: EntityDefinition[];   // Demais entidades do modelo (relacionamentos e DbContext)
+  enums?: EnumDefinition[];
+  projectOptions?: Pick<ProjectOptions, 'database' | 'templatePack' | 'idType' | 'idName' | 'softDelete' | 'audit' | 'security' | 'multiTenancy'>;
+  templateOverrides?: Record<string, string>;
+}
+
+export interface PreviewResult {
+  artifact: PreviewArtifact;
+  entity: string;
+  path: string;                    // Caminho do arquivo no projeto (ex: "Domain/Entities/BookEntity.cs")
+  content: string;
+}
+
+// Resultado dos importadores (OpenAPI, SQL DDL) que geram um ScaffoldRequest para revisão
+export interface ScaffoldImportResult {
+  success: boolean;
+  message: string;
+  scaffoldRequest?: ScaffoldRequest;
+  warnings?: string[];             // Itens ignorados ou convertidos durante a importação
+  error?: string;
+}
+
+// Manifesto zheus.json gravado na raiz da solution a cada scaffold
+export interface ZheusManifest {
+  zheusVersion: string;
+  templateVersion: string;         // Hash do conjunto de templates usado na geração
+  generatedAt: string;
+  request: ScaffoldRequest;        // Requisição que gerou o projeto (sem outputPath)
+  files: Record<string, string>;   // Caminho relativo -> sha256 do conteúdo gerado pelo Zheus
+}
+
+// Arquivo alterado fora do Zheus que não foi sobrescrito
+export interface ManifestConflict {
+  path: string;
+  reason: string;
+}
+
+// Progresso de uma etapa do scaffold (createProject, generateBaseRepositories, ...)
+export interface ScaffoldStepEvent {
+  step: string;
+  label: string;
+  status: 'started' | 'completed';
+  index: number;                   // Posição da etapa (1..total)
+  total: number;
+}
+
+export type ScaffoldJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Evento publicado pelos jobs de scaffold (enviado via Server-Sent Events)
+export interface ScaffoldJobEvent {
+  id: number;                      // Sequencial por job (usado como Last-Event-ID)
+  type: 'status' | 'step' | 'completed' | 'failed';
+  status: ScaffoldJobStatus;
+  progress: number;                // 0-100
+  step?: string;
+  label?: string;
+  stepStatus?: 'started' | 'completed';
+  message: string;
+  timestamp: string;
+}
+
+export interface ScaffoldJob {
+  id: string;
+  projectName: string;
+  status: ScaffoldJobStatus;
+  progress: number;
+  currentStep?: string;
+  message: string;
+  createdAt: string;
+  finishedAt?: string;
+  artifactSize?: number;           // Tamanho do ZIP em bytes (somente "completed")
+  error?: string;
 }
 
 export interface ScaffoldValidationResult {
@@ -73,7 +179,7 @@ export interface ScaffoldValidationResult {
 }
 
 export interface ScaffoldResult {
-  project: { success: boolean; projectPath?: string; message: string };
+  project: { success: boolean; projectPath?: string; message: string; generationMode?: GenerationMode };
   entities: { className: string; success: boolean; files: string[]; message: string }[];
   commands: { entityName: string; success: boolean; files: string[] }[];
   handlers: { entityName: string; success: boolean; files: string[] }[];
@@ -96,6 +202,26 @@ export interface ScaffoldResult {
     message: string;
     files?: string[];
   };
+  migrations?: {
+    success: boolean;
+    message: string;
+    files?: string[];
+  };
+  tests?: {
+    success: boolean;
+    message: string;
+    files?: string[];
+  };
+  integrationTests?: {
+    success: boolean;
+    message: string;
+    files?: string[];
+  };
+  manifest?: {
+    success: boolean;
+    message: string;
+    filePath?: string;
+  };
   ioc?: {
     success: boolean;
     registrations?: number;
@@ -1,16 +1,88 @@
+import { MultiTenancyStrategy } from './project';
+
 export interface EntityProperty {
   name: string;
   type: string;
   isRequired: boolean;
   isCollection?: 'List' | 'ICollection' | 'IEnumerable' | 'HashSet' | 'Array';
   isNavigationProperty: boolean;
+  isEnum?: boolean; // Tipo é um enum declarado no scaffold
+  isForeignKey?: boolean; // FK gerada por um relacionamento
+  validation?: PropertyValidation; // Regras de validação do comando e restrições da coluna
+}
+
+export interface PropertyValidation {
+  required?: boolean; // Padrão: isRequired
+  minLength?: number;
+  maxLength?: number; // Também vira HasMaxLength na coluna
+  regex?: string;
+  range?: { min?: number; max?: number };
+  email?: boolean;
+  url?: boolean;
+}
+
+export interface EnumValue {
+  name: string;
+  value?: number;
+}
+
+export interface EnumDefinition {
+  name: string; // Nome do enum (ex: "OrderStatus")
+  values: (string | EnumValue)[]; // Valores (ex: ["Pending", "Paid"] ou [{ name: "Paid", value: 2 }])
+  storeAs?: 'string' | 'int'; // Armazenamento no banco (padrão: int)
+}
+
+export type RelationshipType = 'oneToMany' | 'manyToOne' | 'oneToOne' | 'manyToMany';
+
+export type DeleteBehavior = 'Cascade' | 'Restrict' | 'SetNull' | 'NoAction';
+
+export interface EntityRelationship {
+  type: RelationshipType;
+  target: string; // Entidade relacionada (ex: "Category")
+  navigationName?: string; // Navegação nesta entidade (padrão: derivado do target)
+  inverseNavigationName?: string; // Navegação na entidade relacionada
+  foreignKey?: string; // Nome da FK (padrão: "{Principal}Id")
+  isRequired?: boolean; // FK obrigatória (padrão: true)
+  onDelete?: DeleteBehavior; // Comportamento de exclusão (padrão: Cascade/SetNull)
+  joinEntity?: string; // Entidade de junção para manyToMany (padrão: "{Source}{Target}")
 }
 
+export type EntitySeed = Record<string, string | number | boolean | null>;
+
+export type EntityIdType = 'Guid' | 'int' | 'long' | 'string';
+
+// Chave primária resolvida de uma entidade (PrimaryKeyService.getKey)
+export interface EntityKey {
+  type: EntityIdType;
+  name: string; // Propriedade da chave (ex: "Id", "BookId")
+  parameterName: string; // Parâmetro nos construtores e rotas (ex: "id")
+  route: string; // Template da rota (ex: "{id}")
+  isGenerated: boolean; // Valor gerado ao inserir (Guid pelo EF, int/long como identity)
+  isIdentity: boolean; // Coluna identity/autoincremento no banco (int/long)
+  validation: string; // Validação C# nos comandos (ex: ValidateGuidNotEmpty(Id, "Id");)
+}
+
+// Operações do controller da entidade
+export type EntityOperation = 'list' | 'getById' | 'create' | 'update' | 'delete';
+
+// Roles exigidas por operação (ex: { "delete": ["Admin"] })
+export type EntityAuthorization = Partial<Record<EntityOperation, string[]>>;
+
 export interface EntityDefinition {
   name: string;
   inheritsFromBase?: boolean; // Optional, defaults to true
   namespace?: string;
+  idType?: EntityIdType; // Tipo da chave primária (padrão: idType do projeto ou Guid)
+  idName?: string; // Nome da chave primária (padrão: idName do projeto ou "Id")
+  softDelete?: boolean; // Exclusão lógica com IsDeleted/DeletedAt (padrão: softDelete do projeto)
+  audit?: boolean; // Auditoria com CreatedBy/UpdatedBy (padrão: audit do projeto)
+  authorization?: EntityAuthorization; // Roles por operação do controller (exige security no projeto)
+  tenantStrategy?: MultiTenancyStrategy; // Preenchido a partir do multiTenancy do projeto (não é informado na entidade)
+  seedTenantId?: string; // Preenchido a partir de multiTenancy.seedTenantId (não é informado na entidade)
+  isJoinEntity?: boolean; // Entidade de junção criada para um manyToMany: só entidade, DbContext e migration (não é informado na entidade)
   properties: EntityProperty[];
+  relationships?: EntityRelationship[];
+  seed?: EntitySeed[]; // Registros iniciais gerados como HasData
 }
 
 export interface EntityGenerationRequest {
@@ -1,10 +1,49 @@
-export interface ProjectCreationOptions {
+export type DatabaseProvider = 'sqlserver' | 'postgres' | 'mysql' | 'sqlite' | 'inmemory';
+
+export interface DatabaseOptions {
+  provider?: DatabaseProvider; // padrão: 'sqlserver'
+  connectionString?: string; // padrão: exemplo local do provider
+}
+
+// Autenticação JWT bearer da API gerada (AuthConfig, Swagger e endpoint de token de desenvolvimento)
+export interface SecurityOptions {
+  issuer?: string; // padrão: nome do projeto
+  audience?: string; // padrão: nome do projeto
+  tokenExpirationMinutes?: number; // padrão: 60
+  devTokenEndpoint?: boolean; // POST /api/auth/token em Development (padrão: true)
+}
+
+// Isolamento por tenant: coluna TenantId filtrada em tabelas compartilhadas ou um schema por tenant
+export type MultiTenancyStrategy = 'sharedTable' | 'schemaPerTenant';
+
+// Multi-tenancy da API gerada (TenantId na BaseEntity, middleware de resolução e filtros do EF)
+export interface MultiTenancyOptions {
+  strategy?: MultiTenancyStrategy; // padrão: 'sharedTable'
+  header?: string; // header com o tenant da requisição (padrão: 'X-Tenant-Id')
+  claim?: string; // claim do token com o tenant, que prevalece sobre o header (padrão: 'tenant_id')
+  seedTenantId?: string; // tenant dos registros de seed que não informam "TenantId"
+}
+
+// Projetos de teste gerados na solution, ao lado de API, Domain, Application, Infrastructure e IoC
+export interface TestProjectOptions {
+  tests?: boolean; // projeto Tests (xUnit) com testes unitários dos handlers e comandos
+  integrationTests?: boolean; // projeto IntegrationTests (WebApplicationFactory + EF InMemory) com testes dos controllers
+}
+
+// 'sdk' usa dotnet new/sln/add; 'templates' escreve .sln/.csproj direto (sem .NET SDK)
+export type GenerationMode = 'sdk' | 'templates';
+
+export interface ProjectCreationOptions extends TestProjectOptions {
   name: string;
   template?: 'console' | 'web' | 'webapi' | 'mvc' | 'blazor' | 'classlib' | 'wpf' | 'winforms';
   framework?: string; // e.g., 'net8.0', 'net6.0'
   language?: 'C#' | 'F#' | 'VB';
   outputPath?: string;
   force?: boolean; // sobrescrever se existir
+  database?: DatabaseOptions;
+  security?: SecurityOptions; // autenticação JWT (sem o campo os endpoints são anônimos)
+  multiTenancy?: MultiTenancyOptions; // TenantId, middleware de tenant e filtros por tenant
+  generationMode?: GenerationMode; // padrão: 'sdk' se o .NET estiver instalado, senão 'templates'
 }
 
 export interface ProjectCreationResult {
@@ -14,5 +53,6 @@ export interface ProjectCreationResult {
   projectPath?: string;
   template?: string;
   framework?: string;
+  generationMode?: GenerationMode;
   error?: string;
 }
@@ -0,0 +1,70 @@
+// Template embutido substituído por um pack
+export interface TemplatePackTemplate {
+  path: string;                    // Caminho do template embutido (ex: "api/controllers/entityController.hbs")
+  variables: string[];             // Variáveis que o template espera receber (ex: ["name", "hasCollections"])
+}
+
+// pack.json gravado em {TEMPLATE_PACKS_PATH}/{name}/{version}/
+export interface TemplatePackManifest {
+  name: string;                    // Nome do pack (ex: "acme-minimal-api")
+  version: string;                 // Versão (ex: "2.1"); name@version é imutável depois de registrado
+  description?: string;
+  extends?: string;                // Pack usado para os templates que este não substitui (ex: "acme-base@1.0")
+  templates: TemplatePackTemplate[];
+  createdAt: string;
+}
+
+// Corpo do POST /api/templates/packs: manifesto + código Handlebars de cada template
+export interface TemplatePackRegistration {
+  name: string;
+  version: string;
+  description?: string;
+  extends?: string;
+  templates: Array<{ path: string; variables?: string[]; content: string }>;
+}
+
+export interface TemplatePackResult {
+  success: boolean;
+  message: string;
+  pack?: TemplatePackManifest;
+  conflict?: boolean;              // name@version já registrado
+  error?: string;
+  statusCode?: number;             // 403 com o registro desabilitado, 413 quando o pack excede os limites
+}
+
+// Pack da cadeia de resolução do TemplateManager (o selecionado primeiro, depois os que ele estende)
+export interface ResolvedTemplatePack {
+  id: string;                      // name@version
+  directory: string;               // Pasta com os arquivos .hbs do pack
+  templates: string[];             // Caminhos dos templates substituídos
+}
+
+// Campo dos dados que um service passa para o template: valor simples, lista de valores,
+// objeto (seus campos) ou lista de objetos ([campos de cada item])
+export type TemplateDataField = 'value' | 'list' | TemplateDataSchema | [TemplateDataSchema];
+
+// Dados que um service prepara para um template (campo -> tipo)
+export interface TemplateDataSchema {
+  [field: string]: TemplateDataField;
+}
+
+// Resultado da análise de um template
+export interface TemplateInspection {
+  path: string;
+  source: string;                  // "builtin", "pack:name@version" ou "draft"
+  valid: boolean;
+  errors: string[];                // Sintaxe, variáveis que o service não fornece e helpers não registrados
+  variables: string[];             // Variáveis referenciadas (ex: "command.commandName")
+  helpers: string[];               // Helpers usados (ex: "each", "if")
+  unusedVariables: string[];       // Variáveis fornecidas pelo service que o template não usa
+}
+
+export interface TemplateValidationReport {
+  valid: boolean;
+  summary: {
+    templates: number;
+    valid: number;
+    invalid: number;
+  };
+  templates: TemplateInspection[];
+}
@@ -0,0 +1,60 @@
+import { EnumService } from '../services/enumService';
+import { FileOutput, fileOutput, MemoryFileSystem } from './FileOutput';
+
+describe('MemoryFileSystem', () => {
+  it('exige a pasta do arquivo, como o fs', () => {
+    const memory = new MemoryFileSystem();
+
+    expect(() => memory.writeFileSync('/project/API/Program.cs', '')).toThrow(expect.objectContaining({ code: 'ENOENT' }));
+
+    memory.mkdirSync('/project/API', { recursive: true });
+    memory.writeFileSync('/project/API/Program.cs', 'var app = builder.Build();');
+
+    expect(memory.readFileSync('/project/API/Program.cs')).toBe('var app = builder.Build();');
+    expect(memory.readdirSync('/project')).toEqual(['API']);
+    expect(memory.statSync('/project/API').isDirectory()).toBe(true);
+  });
+
+  it('lista os arquivos com caminho relativo e remove pastas recursivamente', () => {
+    const memory = new MemoryFileSystem();
+    memory.mkdirSync('/project/Domain/Enums', { recursive: true });
+    memory.writeFileSync('/project/Domain/Enums/Status.cs', 'enum');
+    memory.writeFileSync('/project/Shop.sln', 'sln');
+
+    expect(memory.listFiles('/project')).toEqual([
+      { relativePath: 'Domain/Enums/Status.cs', content: 'enum' },
+      { relativePath: 'Shop.sln', content: 'sln' }
+    ]);
+
+    memory.rmSync('/project/Domain', { recursive: true });
+
+    expect(memory.existsSync('/project/Domain/Enums/Status.cs')).toBe(false);
+    expect(memory.readdirSync('/project')).toEqual(['Shop.sln']);
+  });
+});
+
+describe('FileOutput.run', () => {
+  it('direciona a escrita dos services para a saída da execução', async () => {
+    const memory = new MemoryFileSystem();
+    memory.mkdirSync('/project/Domain', { recursive: true });
+
+    const result = await FileOutput.run(memory, () => new EnumService().generateEnums('/project/Domain', [{ name: 'Status', values: ['Active'] }]));
+
+    expect(result.success).toBe(true);
+    expect(memory.readFileSync('/project/Domain/Enums/Status.cs')).toContain('public enum Status');
+    expect(fileOutput.existsSync('/project/Domain/Enums/Status.cs')).toBe(false);
+  });
+
+  it('não mistura execuções concorrentes', async () => {
+    const [first, second] = [new MemoryFileSystem(), new MemoryFileSystem()];
+    const write = (name: string) => async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      fileOutput.writeFileSync(`/${name}.txt`, name);
+    };
+
+    await Promise.all([FileOutput.run(first, write('first')), FileOutput.run(second, write('second'))]);
+
+    expect(first.readdirSync('/')).toEqual(['first.txt']);
+    expect(second.readdirSync('/')).toEqual(['second.txt']);
+  });
+});
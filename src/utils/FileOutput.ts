@@ -0,0 +1,305 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Subconjunto síncrono da API do fs usado pelos services para escrever o projeto gerado
+ */
+export interface OutputFileSystem {
+  existsSync(filePath: string): boolean;
+  readFileSync(filePath: string, encoding?: BufferEncoding): string;
+  writeFileSync(filePath: string, data: string, encoding?: BufferEncoding): void;
+  mkdirSync(dirPath: string, options?: { recursive?: boolean }): void;
+  readdirSync(dirPath: string): string[];
+  statSync(filePath: string): { isFile(): boolean; isDirectory(): boolean };
+  unlinkSync(filePath: string): void;
+  rmSync(filePath: string, options?: { recursive?: boolean; force?: boolean }): void;
+}
+
+/**
+ * Saída em disco (comportamento do /scaffold e do modo sdk)
+ */
+export class DiskFileSystem implements OutputFileSystem {
+  existsSync(filePath: string): boolean {
+    return fs.existsSync(filePath);
+  }
+
+  readFileSync(filePath: string, encoding: BufferEncoding = 'utf-8'): string {
+    return fs.readFileSync(filePath, encoding);
+  }
+
+  writeFileSync(filePath: string, data: string, encoding: BufferEncoding = 'utf-8'): void {
+    fs.writeFileSync(filePath, data, encoding);
+  }
+
+  mkdirSync(dirPath: string, options?: { recursive?: boolean }): void {
+    fs.mkdirSync(dirPath, options);
+  }
+
+  readdirSync(dirPath: string): string[] {
+    return fs.readdirSync(dirPath);
+  }
+
+  statSync(filePath: string): { isFile(): boolean; isDirectory(): boolean } {
+    return fs.statSync(filePath);
+  }
+
+  unlinkSync(filePath: string): void {
+    fs.unlinkSync(filePath);
+  }
+
+  rmSync(filePath: string, options?: { recursive?: boolean; force?: boolean }): void {
+    fs.rmSync(filePath, options);
+  }
+}
+
+/**
+ * Saída em memória: nada é gravado em disco e os arquivos vão direto para o ZIP
+ */
+export class MemoryFileSystem implements OutputFileSystem {
+  private files = new Map<string, string>();
+  private directories = new Set<string>([path.parse(path.resolve('/')).root]);
+
+  existsSync(filePath: string): boolean {
+    const key = this.normalize(filePath);
+    return this.files.has(key) || this.directories.has(key);
+  }
+
+  readFileSync(filePath: string): string {
+    const key = this.normalize(filePath);
+    const content = this.files.get(key);
+    if (content === undefined) {
+      throw this.error('ENOENT', 'no such file or directory', 'open', key);
+    }
+    return content;
+  }
+
+  writeFileSync(filePath: string, data: string): void {
+    const key = this.normalize(filePath);
+    if (!this.directories.has(path.dirname(key))) {
+      throw this.error('ENOENT', 'no such file or directory', 'open', key);
+    }
+    if (this.directories.has(key)) {
+      throw this.error('EISDIR', 'illegal operation on a directory', 'open', key);
+    }
+    this.files.set(key, String(data));
+  }
+
+  mkdirSync(dirPath: string, options?: { recursive?: boolean }): void {
+    const key = this.normalize(dirPath);
+
+    if (!options?.recursive) {
+      if (this.existsSync(key)) {
+        throw this.error('EEXIST', 'file already exists', 'mkdir', key);
+      }
+      if (!this.directories.has(path.dirname(key))) {
+        throw this.error('ENOENT', 'no such file or directory', 'mkdir', key);
+      }
+    }
+
+    for (let current = key; !this.directories.has(current); current = path.dirname(current)) {
+      this.directories.add(current);
+    }
+  }
+
+  readdirSync(dirPath: string): string[] {
+    const key = this.normalize(dirPath);
+    if (!this.directories.has(key)) {
+      throw this.error('ENOENT', 'no such file or directory', 'scandir', key);
+    }
+
+    const children = new Set<string>();
+    for (const entry of [...this.directories, ...this.files.keys()]) {
+      if (entry !== key && path.dirname(entry) === key) {
+        children.add(path.basename(entry));
+      }
+    }
+    return [...children].sort();
+  }
+
+  statSync(filePath: string): { isFile(): boolean; isDirectory(): boolean } {
+    const key = this.normalize(filePath);
+    if (!this.existsSync(key)) {
+      throw this.error('ENOENT', 'no such file or directory', 'stat', key);
+    }
+
+    const isDirectory = this.directories.has(key);
+    return { isFile: () => !isDirectory, isDirectory: () => isDirectory };
+  }
+
+  unlinkSync(filePath: string): void {
+    const key = this.normalize(filePath);
+    if (!this.files.delete(key)) {
+      throw this.error('ENOENT', 'no such file or directory', 'unlink', key);
+    }
+  }
+
+  rmSync(filePath: string, options?: { recursive?: boolean; force?: boolean }): void {
+    const key = this.normalize(filePath);
+
+    if (!this.existsSync(key)) {
+      if (options?.force) return;
+      throw this.error('ENOENT', 'no such file or directory', 'rm', key);
+    }
+
+    if (this.files.delete(key)) return;
+
+    const prefix = key + path.sep;
+    const hasChildren = [...this.files.keys(), ...this.directories].some(entry => entry.startsWith(prefix));
+    if (hasChildren && !options?.recursive) {
+      throw this.error('ERR_FS_EISDIR', 'path is a directory', 'rm', key);
+    }
+
+    for (const file of [...this.files.keys()]) {
+      if (file.startsWith(prefix)) this.files.delete(file);
+    }
+    for (const directory of [...this.directories]) {
+      if (directory === key || directory.startsWith(prefix)) this.directories.delete(directory);
+    }
+  }
+
+  /**
+   * Lista os arquivos abaixo de "rootPath" com o caminho relativo (separador "/") e o conteúdo
+   */
+  listFiles(rootPath: string): Array<{ relativePath: string; content: string }> {
+    const root = this.normalize(rootPath);
+    const prefix = root + path.sep;
+
+    return [...this.files.entries()]
+      .filter(([filePath]) => filePath.startsWith(prefix))
+      .map(([filePath, content]) => ({
+        relativePath: path.relative(root, filePath).split(path.sep).join('/'),
+        content
+      }))
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  private normalize(filePath: string): string {
+    return path.resolve(filePath);
+  }
+
+  private error(code: string, description: string, syscall: string, filePath: string): NodeJS.ErrnoException {
+    const error: NodeJS.ErrnoException = new Error(`${code}: ${description}, ${syscall} '${filePath}'`);
+    error.code = code;
+    error.syscall = syscall;
+    error.path = filePath;
+    return error;
+  }
+}
+
+/**
+ * Decisão para a escrita sobre um arquivo existente: "content" é o que será gravado
+ * (undefined = manter o arquivo intacto) e "conflict" registra o arquivo em "conflicts"
+ */
+export interface WriteResolution {
+  content?: string;
+  conflict?: boolean;
+}
+
+/**
+ * Saída que protege arquivos existentes: a primeira escrita em cada arquivo passa por "resolveWrite",
+ * que decide entre sobrescrever, manter o arquivo ou gravar outro conteúdo (ex: merge)
+ */
+export class GuardedFileSystem implements OutputFileSystem {
+  readonly conflicts: string[] = [];
+  readonly generated = new Map<string, string>(); // Arquivo -> conteúdo gerado pelo Zheus nesta execução
+
+  constructor(
+    private inner: OutputFileSystem,
+    private resolveWrite: (filePath: string, currentContent: string, newContent: string) => WriteResolution
+  ) {}
+
+  existsSync(filePath: string): boolean {
+    return this.inner.existsSync(filePath);
+  }
+
+  readFileSync(filePath: string, encoding?: BufferEncoding): string {
+    return this.inner.readFileSync(filePath, encoding);
+  }
+
+  writeFileSync(filePath: string, data: string, encoding?: BufferEncoding): void {
+    const key = path.resolve(filePath);
+    const newContent = String(data);
+
+    // Arquivos já escritos nesta execução podem ser atualizados novamente (ex: DbContext)
+    if (!this.generated.has(key) && this.inner.existsSync(key) && this.inner.statSync(key).isFile()) {
+      const currentContent = this.inner.readFileSync(key, 'utf-8');
+
+      if (currentContent !== newContent) {
+        const resolution = this.resolveWrite(key, currentContent, newContent);
+        if (resolution.conflict && !this.conflicts.includes(key)) {
+          this.conflicts.push(key);
+        }
+        if (resolution.content === undefined) {
+          return;
+        }
+        if (resolution.content !== currentContent) {
+          this.inner.writeFileSync(key, resolution.content, encoding);
+        }
+      }
+
+      this.generated.set(key, newContent);
+      return;
+    }
+
+    this.inner.writeFileSync(key, newContent, encoding);
+    this.generated.set(key, newContent);
+  }
+
+  mkdirSync(dirPath: string, options?: { recursive?: boolean }): void {
+    this.inner.mkdirSync(dirPath, options);
+  }
+
+  readdirSync(dirPath: string): string[] {
+    return this.inner.readdirSync(dirPath);
+  }
+
+  statSync(filePath: string): { isFile(): boolean; isDirectory(): boolean } {
+    return this.inner.statSync(filePath);
+  }
+
+  unlinkSync(filePath: string): void {
+    this.inner.unlinkSync(filePath);
+  }
+
+  rmSync(filePath: string, options?: { recursive?: boolean; force?: boolean }): void {
+    this.inner.rmSync(filePath, options);
+  }
+}
+
+/**
+ * Seleciona a saída de arquivos da requisição atual (disco por padrão)
+ * Cada scaffold roda dentro de FileOutput.run, então requisições concorrentes não se misturam
+ */
+export class FileOutput {
+  private static storage = new AsyncLocalStorage<OutputFileSystem>();
+  private static disk = new DiskFileSystem();
+
+  /**
+   * Executa "fn" escrevendo todos os arquivos na saída informada
+   */
+  static run<T>(output: OutputFileSystem, fn: () => Promise<T>): Promise<T> {
+    return this.storage.run(output, fn);
+  }
+
+  /**
+   * Saída ativa: a do FileOutput.run em andamento ou o disco
+   */
+  static current(): OutputFileSystem {
+    return this.storage.getStore() || this.disk;
+  }
+}
+
+/**
+ * Atalho usado pelos services: delega cada chamada para a saída ativa
+ */
+export const fileOutput: OutputFileSystem = {
+  existsSync: (filePath) => FileOutput.current().existsSync(filePath),
+  readFileSync: (filePath, encoding) => FileOutput.current().readFileSync(filePath, encoding),
+  writeFileSync: (filePath, data, encoding) => FileOutput.current().writeFileSync(filePath, data, encoding),
+  mkdirSync: (dirPath, options) => FileOutput.current().mkdirSync(dirPath, options),
+  readdirSync: (dirPath) => FileOutput.current().readdirSync(dirPath),
+  statSync: (filePath) => FileOutput.current().statSync(filePath),
+  unlinkSync: (filePath) => FileOutput.current().unlinkSync(filePath),
+  rmSync: (filePath, options) => FileOutput.current().rmSync(filePath, options)
+};
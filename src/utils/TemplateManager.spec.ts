@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateManager } from './TemplateManager';
+
+describe('TemplateManager.validateOverrides', () => {
+  it('aceita overrides de templates existentes', () => {
+    expect(TemplateManager.validateOverrides(undefined)).toBeNull();
+    expect(TemplateManager.validateOverrides({ 'domain/entities/entity.hbs': 'public class {{name}}Entity {}' })).toBeNull();
+  });
+
+  it('rejeita caminhos fora da pasta de templates', () => {
+    expect(TemplateManager.validateOverrides({ '../templates/domain/entities/entity.hbs': '' }))
+      .toBe("templateOverrides: template '../templates/domain/entities/entity.hbs' não existe");
+    expect(TemplateManager.validateOverrides({ 'domain/../../package.json': '' }))
+      .toBe("templateOverrides: template 'domain/../../package.json' não existe");
+  });
+
+  it('rejeita formato, template inexistente e Handlebars inválido', () => {
+    expect(TemplateManager.validateOverrides(['entity.hbs'])).toContain('deve ser um objeto');
+    expect(TemplateManager.validateOverrides({ 'domain/entities/entity.hbs': 42 })).toContain('deve ser uma string');
+    expect(TemplateManager.validateOverrides({ 'domain/entities/missing.hbs': '' })).toContain('não existe');
+    expect(TemplateManager.validateOverrides({ 'domain/entities/entity.hbs': '{{#if name}}' })).toContain('inválido');
+  });
+});
+
+describe('TemplateManager.runWithTemplates', () => {
+  it('usa o override apenas dentro da execução', async () => {
+    const overrides = { 'domain/entities/entity.hbs': 'public record {{name}};' };
+
+    const rendered = await TemplateManager.runWithTemplates({ overrides }, async () =>
+      TemplateManager.getTemplate('domain/entities/entity.hbs')({ name: 'Product' }));
+
+    expect(rendered).toBe('public record Product;');
+    expect(TemplateManager.getTemplate('domain/entities/entity.hbs')({ name: 'Product' })).toContain('public class ProductEntity');
+  });
+
+  it('resolve overrides antes dos packs e packs antes dos templates embutidos', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'zheus-pack-'));
+    fs.mkdirSync(path.join(directory, 'domain', 'entities'), { recursive: true });
+    fs.writeFileSync(path.join(directory, 'domain', 'entities', 'entity.hbs'), 'pack {{name}}');
+    fs.writeFileSync(path.join(directory, 'domain', 'entities', 'baseEntity.hbs'), 'pack base');
+    const packs = [{ id: 'acme@1.0', directory, templates: ['domain/entities/entity.hbs', 'domain/entities/baseEntity.hbs'] }];
+
+    try {
+      const rendered = await TemplateManager.runWithTemplates({ packs, overrides: { 'domain/entities/baseEntity.hbs': 'override base' } }, async () => [
+        TemplateManager.getTemplate('domain/entities/entity.hbs')({ name: 'Product' }),
+        TemplateManager.getTemplate('domain/entities/baseEntity.hbs')({})
+      ]);
+
+      expect(rendered).toEqual(['pack Product', 'override base']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,16 @@
+import * as crypto from 'crypto';
 import * as path from 'path';
 import * as fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as Handlebars from 'handlebars';
+import { ResolvedTemplatePack } from '../types/template';
+
+// Templates da requisição atual: overrides (caminho do template -> código Handlebars) e cadeia de packs
+interface TemplateScope {
+  overrides: Record<string, string>;
+  compiled: Map<string, HandlebarsTemplateDelegate>;
+  packs: ResolvedTemplatePack[];
+}
 
 /**
  * Gerenciador global de templates com cache e lazy loading
@@ -8,6 +18,57 @@ import * as Handlebars from 'handlebars';
  */
 export class TemplateManager {
   private static templates = new Map<string, HandlebarsTemplateDelegate>();
+  private static packTemplates = new Map<string, HandlebarsTemplateDelegate>(); // "name@version/caminho" (packs são imutáveis)
+  private static templateSetVersion?: string;
+  private static scope = new AsyncLocalStorage<TemplateScope>();
+
+  /**
+   * Executa "fn" resolvendo cada template na ordem: overrides da requisição, packs da cadeia
+   * (o selecionado primeiro) e templates embutidos
+   * Os overrides são compilados em um cache próprio da execução (o cache global não é alterado)
+   */
+  static runWithTemplates<T>(
+    options: { overrides?: Record<string, string>; packs?: ResolvedTemplatePack[] },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const overrides = options.overrides || {};
+    const packs = options.packs || [];
+    if (Object.keys(overrides).length === 0 && packs.length === 0) {
+      return fn();
+    }
+    return this.scope.run({ overrides, compiled: new Map(), packs }, fn);
+  }
+
+  /**
+   * Valida templates que substituem os embutidos: cada chave deve ser um template existente
+   * e cada valor um código Handlebars válido
+   * @param field Nome do campo usado nas mensagens de erro
+   * @returns Mensagem do primeiro erro encontrado ou null
+   */
+  static validateOverrides(overrides: unknown, field = 'templateOverrides'): string | null {
+    if (overrides === undefined) {
+      return null;
+    }
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return `${field} deve ser um objeto { "caminho/do/template.hbs": "código Handlebars" }`;
+    }
+
+    for (const [templatePath, source] of Object.entries(overrides)) {
+      if (typeof source !== 'string') {
+        return `${field}['${templatePath}'] deve ser uma string com o código Handlebars`;
+      }
+      if (!this.resolveTemplatePath(templatePath)) {
+        return `${field}: template '${templatePath}' não existe`;
+      }
+      try {
+        Handlebars.parse(source);
+      } catch (error: any) {
+        return `${field}['${templatePath}'] inválido: ${error.message}`;
+      }
+    }
+
+    return null;
+  }
 
   /**
    * Obtém um template compilado (com cache e lazy loading)
@@ -15,6 +76,21 @@ export class TemplateManager {
    * @returns Template compilado do Handlebars
    */
   static getTemplate(templatePath: string): HandlebarsTemplateDelegate {
+    // Override da requisição atual tem prioridade sobre o template embutido
+    const scope = this.scope.getStore();
+    if (scope && Object.prototype.hasOwnProperty.call(scope.overrides, templatePath)) {
+      if (!scope.compiled.has(templatePath)) {
+        scope.compiled.set(templatePath, Handlebars.compile(scope.overrides[templatePath]));
+      }
+      return scope.compiled.get(templatePath)!;
+    }
+
+    // Primeiro pack da cadeia que substitui o template
+    const pack = scope?.packs.find(candidate => candidate.templates.includes(templatePath));
+    if (pack) {
+      return this.getPackTemplate(pack, templatePath);
+    }
+
     // Verifica se já está no cache
     if (this.templates.has(templatePath)) {
       return this.templates.get(templatePath)!;
@@ -51,11 +127,110 @@ export class TemplateManager {
     }
   }
 
+  /**
+   * Template de um pack (com cache por name@version)
+   */
+  private static getPackTemplate(pack: ResolvedTemplatePack, templatePath: string): HandlebarsTemplateDelegate {
+    const cacheKey = `${pack.id}/${templatePath}`;
+    if (!this.packTemplates.has(cacheKey)) {
+      try {
+        const content = fs.readFileSync(path.join(pack.directory, ...templatePath.split('/')), 'utf-8');
+        this.packTemplates.set(cacheKey, Handlebars.compile(content));
+      } catch (error: any) {
+        throw new Error(`Failed to load template '${templatePath}' from pack '${pack.id}': ${error.message}`);
+      }
+    }
+    return this.packTemplates.get(cacheKey)!;
+  }
+
+  /**
+   * Caminho absoluto de um template embutido (undefined se não existir)
+   */
+  private static resolveTemplatePath(templatePath: string): string | undefined {
+    if (!templatePath.endsWith('.hbs') || templatePath.split(/[\\/]/).includes('..')) {
+      return undefined;
+    }
+    return [path.join(__dirname, '../templates', templatePath), path.join(process.cwd(), 'dist/templates', templatePath)]
+      .find(candidate => fs.existsSync(candidate));
+  }
+
+  /**
+   * Caminhos relativos (separador "/") de todos os templates embutidos
+   */
+  static listTemplates(): string[] {
+    const templatesRoot = this.getTemplatesRoot();
+    const templates: string[] = [];
+
+    const collect = (directory: string) => {
+      for (const entry of fs.readdirSync(directory).sort()) {
+        const fullPath = path.join(directory, entry);
+        if (fs.statSync(fullPath).isDirectory()) {
+          collect(fullPath);
+        } else if (entry.endsWith('.hbs')) {
+          templates.push(path.relative(templatesRoot!, fullPath).split(path.sep).join('/'));
+        }
+      }
+    };
+
+    if (templatesRoot) {
+      collect(templatesRoot);
+    }
+    return templates;
+  }
+
+  /**
+   * Código Handlebars efetivo de um template: do primeiro pack da cadeia que o substitui
+   * ou o embutido
+   * @returns Código e origem ("builtin" ou "pack:name@version")
+   */
+  static getTemplateSource(templatePath: string, packs: ResolvedTemplatePack[] = []): { source: string; origin: string } {
+    const pack = packs.find(candidate => candidate.templates.includes(templatePath));
+    if (pack) {
+      return {
+        source: fs.readFileSync(path.join(pack.directory, ...templatePath.split('/')), 'utf-8'),
+        origin: `pack:${pack.id}`
+      };
+    }
+
+    const fullPath = this.resolveTemplatePath(templatePath);
+    if (!fullPath) {
+      throw new Error(`Template '${templatePath}' não existe`);
+    }
+    return { source: fs.readFileSync(fullPath, 'utf-8'), origin: 'builtin' };
+  }
+
+  /**
+   * Versão do conjunto de templates: hash dos caminhos e conteúdos de todos os .hbs
+   * Muda sempre que um template é alterado, adicionado ou removido
+   */
+  static getTemplateSetVersion(): string {
+    if (this.templateSetVersion) {
+      return this.templateSetVersion;
+    }
+
+    const templatesRoot = this.getTemplatesRoot();
+    const hash = crypto.createHash('sha256');
+    for (const templatePath of this.listTemplates()) {
+      hash.update(templatePath);
+      hash.update(fs.readFileSync(path.join(templatesRoot!, ...templatePath.split('/'))));
+    }
+
+    this.templateSetVersion = hash.digest('hex').slice(0, 12);
+    return this.templateSetVersion;
+  }
+
+  private static getTemplatesRoot(): string | undefined {
+    return [path.join(__dirname, '../templates'), path.join(process.cwd(), 'dist/templates')]
+      .find(candidate => fs.existsSync(candidate));
+  }
+
   /**
    * Limpa o cache de templates (útil para testes)
    */
   static clearCache(): void {
     this.templates.clear();
+    this.packTemplates.clear();
+    this.templateSetVersion = undefined;
   }
 
   /**